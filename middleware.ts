@@ -15,6 +15,10 @@ const PUBLIC_PATHS = new Set([
 
 const isPublicPath = (pathname: string) => {
   if (PUBLIC_PATHS.has(pathname)) return true;
+  // Scheduled jobs authenticate with CRON_SECRET instead of a session
+  if (pathname.startsWith("/api/jobs/")) return true;
+  // Signers open their link without an account; the token is their credential
+  if (pathname.startsWith("/sign/") || pathname.startsWith("/api/signatures/")) return true;
   return pathname.startsWith("/_next") || pathname.startsWith("/static") || pathname === "/favicon.ico";
 };
 
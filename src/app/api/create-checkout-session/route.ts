@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { stripe } from '@/lib/stripe/server';
 import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { format } from 'date-fns';
+import { formatCurrency, toMinorUnits } from '@/lib/currency/currencies';
+import { convertAmount, fetchExchangeRates } from '@/lib/currency/rates';
+
+// Plans are priced in PKR, which Stripe cannot charge, so they are billed in USD
+const PLAN_CURRENCY = 'PKR';
+const CHARGE_CURRENCY = 'USD';
 
 export async function POST(request: NextRequest) {
   try {
@@ -35,22 +42,35 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Only platform rates apply to billing, never rates users enter for their own invoices
+    const platformRates = (await fetchExchangeRates(supabase)).filter((rate) => rate.user_id === null);
+    const chargeAmount = convertAmount(
+      platformRates,
+      Number(planPrice),
+      PLAN_CURRENCY,
+      CHARGE_CURRENCY,
+      format(new Date(), 'yyyy-MM-dd')
+    );
+
+    if (chargeAmount === null) {
+      return NextResponse.json(
+        { error: `No ${PLAN_CURRENCY} to ${CHARGE_CURRENCY} exchange rate is configured` },
+        { status: 500 }
+      );
+    }
+
     // Create checkout session
-    // Note: Stripe doesn't support PKR directly, using USD
-    // You can convert PKR to USD or use a supported currency
     const session = await stripe.checkout.sessions.create({
       payment_method_types: ['card'],
       line_items: [
         {
           price_data: {
-            currency: 'usd', // Using USD as Stripe doesn't support PKR
+            currency: CHARGE_CURRENCY.toLowerCase(),
             product_data: {
               name: `${planType.charAt(0).toUpperCase() + planType.slice(1)} Subscription Plan`,
-              description: `Carpool platform subscription - ${planType} plan (PKR ${planPrice})`,
+              description: `Carpool platform subscription - ${planType} plan (${formatCurrency(Number(planPrice), PLAN_CURRENCY, { display: 'code' })})`,
             },
-            // Convert PKR to USD (approximate rate, you should use real-time conversion)
-            // 1 USD ≈ 280 PKR (adjust this rate as needed)
-            unit_amount: Math.round((planPrice / 280) * 100), // Convert PKR to USD cents
+            unit_amount: toMinorUnits(chargeAmount, CHARGE_CURRENCY),
             recurring: planType === 'monthly' 
               ? { interval: 'month' }
               : planType === 'quarterly'
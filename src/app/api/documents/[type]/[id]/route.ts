@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { fetchBranding } from '@/lib/documents/branding';
+import { DOCUMENT_BUILDERS, isDocumentType } from '@/lib/documents/registry';
+import { renderDocument } from '@/lib/documents/render';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Serves generated PDFs at /api/documents/<type>/<id>.pdf, e.g. /api/documents/invoice/<id>.pdf.
+// Documents open inline; add ?download=1 to save them instead.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ type: string; id: string }> }
+) {
+  const { type, id: file } = await params;
+
+  if (!isDocumentType(type) || !file.endsWith('.pdf')) {
+    return NextResponse.json(
+      { error: 'Document not found' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Row level security limits the lookup to the signed-in user's records
+    const layout = await DOCUMENT_BUILDERS[type](supabase, file.slice(0, -'.pdf'.length), request.nextUrl.searchParams);
+
+    if (!layout) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    const branding = await fetchBranding(supabase, user.id);
+    const pdf = renderDocument(layout, branding);
+    const disposition = request.nextUrl.searchParams.get('download') === '1' ? 'attachment' : 'inline';
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `${disposition}; filename="${layout.filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating document:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to generate document';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
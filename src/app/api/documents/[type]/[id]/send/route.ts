@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { sendDocumentEmail } from '@/lib/mail/documents';
+import { MAIL_DOCUMENT_TYPES, parseAddressList, type MailDocumentType, type SendDocumentRequest } from '@/lib/mail/templates';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const toAddresses = (value: unknown) =>
+  Array.isArray(value) ? value.map(String).flatMap(parseAddressList) : parseAddressList(String(value ?? ''));
+
+// Emails a generated document as a PDF attachment: POST /api/documents/<type>/<id>/send
+// with { to, cc?, message? }. Each attempt is logged in email_deliveries.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ type: string; id: string }> }
+) {
+  const { type, id } = await params;
+
+  if (!MAIL_DOCUMENT_TYPES.includes(type as MailDocumentType)) {
+    return NextResponse.json(
+      { error: 'This document cannot be emailed' },
+      { status: 404 }
+    );
+  }
+
+  let sendRequest: SendDocumentRequest;
+  try {
+    const body = await request.json();
+    sendRequest = {
+      to: toAddresses(body.to),
+      cc: toAddresses(body.cc),
+      message: String(body.message ?? ''),
+    };
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Row level security limits the lookup to the signed-in user's records
+    const delivery = await sendDocumentEmail(supabase, user.id, type as MailDocumentType, id, sendRequest);
+
+    return NextResponse.json(delivery);
+  } catch (error) {
+    console.error('Error sending document:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to send document';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { runJob } from '@/lib/jobs/runner';
+import { DAILY_JOB_STEPS } from '@/lib/jobs/daily';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Daily lifecycle job. Trigger it from a local cron, for example:
+//   0 1 * * * curl -s -X POST -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/jobs/daily
+// Add ?dry_run=1 to see what would change without writing anything.
+export async function POST(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('❌ CRON_SECRET is not set');
+    return NextResponse.json(
+      { error: 'Cron secret not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const dryRunParam = request.nextUrl.searchParams.get('dry_run');
+  const dryRun = dryRunParam === '1' || dryRunParam === 'true';
+
+  try {
+    const summary = await runJob('daily-lifecycle', DAILY_JOB_STEPS, {
+      supabase: createSupabaseAdminClient(),
+      dryRun,
+      today: format(new Date(), 'yyyy-MM-dd'),
+    });
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error running daily job:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to run daily job';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
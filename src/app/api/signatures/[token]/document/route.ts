@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { fetchSignatureRequestByToken, isSignatureRequestExpired } from '@/lib/agreements/signatures';
+import { fetchBranding } from '@/lib/documents/branding';
+import { renderDocument } from '@/lib/documents/render';
+import { buildAgreementDocument } from '@/lib/documents/templates/agreement';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// The agreement version a signing link refers to, so signers can read what they sign
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+
+  try {
+    const supabase = createSupabaseAdminClient();
+    const signatureRequest = await fetchSignatureRequestByToken(supabase, token);
+
+    if (!signatureRequest || signatureRequest.status === 'revoked') {
+      return NextResponse.json(
+        { error: 'Signing link not found' },
+        { status: 404 }
+      );
+    }
+
+    if (isSignatureRequestExpired(signatureRequest)) {
+      return NextResponse.json(
+        { error: 'This signing link has expired' },
+        { status: 410 }
+      );
+    }
+
+    const layout = await buildAgreementDocument(supabase, signatureRequest.agreement_id, {
+      version: signatureRequest.version_number,
+    });
+
+    if (!layout) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: agreement, error } = await supabase
+      .from('rent_agreements')
+      .select('user_id')
+      .eq('id', signatureRequest.agreement_id)
+      .single();
+
+    if (error) throw error;
+
+    const pdf = renderDocument(layout, await fetchBranding(supabase, agreement.user_id));
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${layout.filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating signing document:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate document' },
+      { status: 500 }
+    );
+  }
+}
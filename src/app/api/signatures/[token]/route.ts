@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { fetchBaseCurrency } from '@/lib/currency/rates';
+import {
+  fetchSignatureRequestByToken,
+  getSigningError,
+  isSignatureRequestExpired,
+  signAgreement,
+  type SignatureCapture,
+} from '@/lib/agreements/signatures';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Public signing endpoints. Signers are not LeaseFlow users, so the token in the
+// link is their only credential and all lookups go through the service role.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+
+  try {
+    const supabase = createSupabaseAdminClient();
+    const signatureRequest = await fetchSignatureRequestByToken(supabase, token);
+
+    if (!signatureRequest) {
+      return NextResponse.json(
+        { error: 'Signing link not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: agreement, error } = await supabase
+      .from('rent_agreements')
+      .select(`
+        user_id,
+        agreement_number,
+        status,
+        current_version,
+        property_address,
+        property_city,
+        start_date,
+        end_date,
+        monthly_rent,
+        tenants:tenant_id (name),
+        landlords:landlord_id (name)
+      `)
+      .eq('id', signatureRequest.agreement_id)
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({
+      party: signatureRequest.party,
+      signer_name: signatureRequest.signer_name,
+      status: signatureRequest.status,
+      signed_at: signatureRequest.signed_at,
+      version_number: signatureRequest.version_number,
+      blocked_reason: signatureRequest.status === 'signed' ? null : getSigningError(signatureRequest, agreement),
+      expired: isSignatureRequestExpired(signatureRequest),
+      agreement: {
+        agreement_number: agreement.agreement_number,
+        property_address: agreement.property_address,
+        property_city: agreement.property_city,
+        start_date: agreement.start_date,
+        end_date: agreement.end_date,
+        monthly_rent: agreement.monthly_rent,
+        currency: await fetchBaseCurrency(supabase, agreement.user_id),
+        tenant: agreement.tenants,
+        landlord: agreement.landlords,
+      },
+    });
+  } catch (error) {
+    console.error('Error loading signing link:', error);
+    return NextResponse.json(
+      { error: 'Failed to load signing link' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+
+  let capture: SignatureCapture;
+  try {
+    const body = await request.json();
+    capture = { type: body.type, data: String(body.data ?? '') };
+    if (body.consent !== true) {
+      return NextResponse.json(
+        { error: 'You must agree to sign electronically' },
+        { status: 400 }
+      );
+    }
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await signAgreement(createSupabaseAdminClient(), token, capture, {
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip'),
+      userAgent: request.headers.get('user-agent'),
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error signing agreement:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to sign agreement';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,429 @@
+"use client";
+
+import { useRouter, useParams } from "next/navigation";
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Info } from "lucide-react";
+import Link from "next/link";
+import { EscalationRuleEditor } from "@/components/agreements/EscalationRuleEditor";
+import { LateFeePolicyEditor } from "@/components/agreements/LateFeePolicyEditor";
+import { DEFAULT_ESCALATION_RULE, escalationRuleSchema } from "@/lib/agreements/escalation";
+import { DEFAULT_LATE_FEE_POLICY, lateFeePolicySchema } from "@/lib/agreements/fees";
+import {
+  VERSIONED_FIELD_LABELS,
+  amendAgreement,
+  diffSnapshots,
+  formatFieldValue,
+  getAmendmentError,
+  takeSnapshot,
+  type AgreementSnapshot,
+} from "@/lib/agreements/versions";
+import { getCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+const amendmentSchema = z.object({
+  property_address: z.string().min(1, "Property address is required"),
+  property_city: z.string().min(1, "City is required"),
+  property_state: z.string().min(1, "State is required"),
+  property_pincode: z.string().min(1, "Pincode is required"),
+  start_date: z.string().min(1, "Start date is required"),
+  end_date: z.string().min(1, "End date is required"),
+  monthly_rent: z.number().min(1, "Monthly rent is required"),
+  deposit_amount: z.number().min(0, "Deposit amount must be 0 or greater"),
+  notice_period_days: z.number().min(0),
+  escalation_rule: escalationRuleSchema,
+  late_fee_policy: lateFeePolicySchema,
+  terms: z.string().optional(),
+  notes: z.string().optional(),
+  effective_date: z.string().min(1, "Effective date is required"),
+  reason: z.string().min(1, "Reason is required"),
+});
+
+type AmendmentFormData = z.infer<typeof amendmentSchema>;
+
+interface AmendableAgreement extends AgreementSnapshot {
+  id: string;
+  user_id: string;
+  agreement_number: string;
+  status: string;
+  current_version: number | null;
+}
+
+export default function AmendAgreementPage() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const router = useRouter();
+  const params = useParams();
+  const { toast } = useToast();
+  const [agreement, setAgreement] = useState<AmendableAgreement | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [fetching, setFetching] = useState(true);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    reset,
+    formState: { errors },
+  } = useForm<AmendmentFormData>({
+    resolver: zodResolver(amendmentSchema),
+    defaultValues: {
+      escalation_rule: DEFAULT_ESCALATION_RULE,
+      late_fee_policy: DEFAULT_LATE_FEE_POLICY,
+      effective_date: new Date().toISOString().split("T")[0],
+    },
+  });
+
+  useEffect(() => {
+    if (params.id) {
+      fetchAgreement();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params.id]);
+
+  const fetchAgreement = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const { data, error } = await supabase
+        .from("rent_agreements")
+        .select("*")
+        .eq("id", params.id)
+        .single();
+
+      if (error) throw error;
+
+      const snapshot = takeSnapshot(data);
+      setAgreement({
+        ...snapshot,
+        id: data.id,
+        user_id: data.user_id,
+        agreement_number: data.agreement_number,
+        status: data.status,
+        current_version: data.current_version,
+      });
+
+      reset({
+        ...snapshot,
+        terms: snapshot.terms || "",
+        notes: snapshot.notes || "",
+        effective_date: new Date().toISOString().split("T")[0],
+        reason: "",
+      });
+    } catch (error) {
+      console.error("Error fetching agreement:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load agreement",
+        variant: "destructive",
+      });
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const toSnapshot = (data: AmendmentFormData): AgreementSnapshot => ({
+    property_address: data.property_address,
+    property_city: data.property_city,
+    property_state: data.property_state,
+    property_pincode: data.property_pincode,
+    start_date: data.start_date,
+    end_date: data.end_date,
+    monthly_rent: data.monthly_rent,
+    deposit_amount: data.deposit_amount,
+    notice_period_days: data.notice_period_days,
+    escalation_rule: data.escalation_rule,
+    late_fee_policy: data.late_fee_policy,
+    // Clauses are kept as agreed; only the free-text terms are edited here
+    clauses: agreement?.clauses ?? [],
+    terms: data.terms || null,
+    notes: data.notes || null,
+  });
+
+  const watchedValues = watch();
+  const pendingChanges = agreement
+    ? diffSnapshots(takeSnapshot(agreement), toSnapshot(watchedValues))
+    : [];
+
+  const onSubmit = async (data: AmendmentFormData) => {
+    if (!agreement) return;
+
+    setLoading(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      const versionNumber = await amendAgreement(supabase, agreement, toSnapshot(data), {
+        effectiveDate: data.effective_date,
+        reason: data.reason,
+        actorId: user.id,
+      });
+
+      toast({
+        title: "Success",
+        description: `Amendment recorded as version ${versionNumber}`,
+      });
+
+      router.push(`/dashboard/agreements/${agreement.id}`);
+    } catch (error) {
+      console.error("Error amending agreement:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to amend agreement",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (fetching) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Loading agreement...</p>
+      </div>
+    );
+  }
+
+  if (!agreement) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Agreement not found</p>
+      </div>
+    );
+  }
+
+  const amendmentError = getAmendmentError(agreement.status);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href={`/dashboard/agreements/${agreement.id}`}>
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Amend Agreement {agreement.agreement_number}</h1>
+          <p className="text-muted-foreground mt-2">
+            Changes are recorded as version {(agreement.current_version ?? 1) + 1}. Earlier versions are kept unchanged.
+          </p>
+        </div>
+      </div>
+
+      {amendmentError && (
+        <Card className="border-destructive">
+          <CardContent className="pt-6">
+            <p className="text-sm text-destructive">{amendmentError}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Agreement Terms</CardTitle>
+              <CardDescription>Edit the terms being amended</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="property_address">
+                  Property Address <span className="text-destructive">*</span>
+                </Label>
+                <Input id="property_address" {...register("property_address")} />
+                {errors.property_address && (
+                  <p className="text-sm text-destructive">{errors.property_address.message}</p>
+                )}
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="property_city">
+                    City <span className="text-destructive">*</span>
+                  </Label>
+                  <Input id="property_city" {...register("property_city")} />
+                  {errors.property_city && (
+                    <p className="text-sm text-destructive">{errors.property_city.message}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="property_state">
+                    State <span className="text-destructive">*</span>
+                  </Label>
+                  <Input id="property_state" {...register("property_state")} />
+                  {errors.property_state && (
+                    <p className="text-sm text-destructive">{errors.property_state.message}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="property_pincode">
+                    Pincode <span className="text-destructive">*</span>
+                  </Label>
+                  <Input id="property_pincode" {...register("property_pincode")} />
+                  {errors.property_pincode && (
+                    <p className="text-sm text-destructive">{errors.property_pincode.message}</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="start_date">
+                    Start Date <span className="text-destructive">*</span>
+                  </Label>
+                  <Input id="start_date" type="date" {...register("start_date")} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="end_date">
+                    End Date <span className="text-destructive">*</span>
+                  </Label>
+                  <Input id="end_date" type="date" {...register("end_date")} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="notice_period_days">Notice Period (Days)</Label>
+                  <Input
+                    id="notice_period_days"
+                    type="number"
+                    {...register("notice_period_days", { valueAsNumber: true })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="terms">Terms & Conditions</Label>
+                <Textarea id="terms" {...register("terms")} rows={6} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="notes">Additional Notes</Label>
+                <Textarea id="notes" {...register("notes")} rows={3} />
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Financial Terms</CardTitle>
+                <CardDescription>Rent, deposit and escalation</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="monthly_rent">
+                    Monthly Rent ({getCurrency(baseCurrency).symbol}) <span className="text-destructive">*</span>
+                  </Label>
+                  <Input
+                    id="monthly_rent"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    {...register("monthly_rent", { valueAsNumber: true })}
+                  />
+                  {errors.monthly_rent && (
+                    <p className="text-sm text-destructive">{errors.monthly_rent.message}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="deposit_amount">Security Deposit ({getCurrency(baseCurrency).symbol})</Label>
+                  <Input
+                    id="deposit_amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    {...register("deposit_amount", { valueAsNumber: true })}
+                  />
+                </div>
+                <div className="border-t pt-4">
+                  <EscalationRuleEditor
+                    value={watchedValues.escalation_rule}
+                    onChange={(rule) => setValue("escalation_rule", rule, { shouldValidate: true })}
+                  />
+                </div>
+                <div className="border-t pt-4">
+                  <LateFeePolicyEditor
+                    value={watchedValues.late_fee_policy}
+                    onChange={(policy) => setValue("late_fee_policy", policy, { shouldValidate: true })}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Amendment</CardTitle>
+                <CardDescription>When and why the terms change</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="effective_date">
+                    Effective Date <span className="text-destructive">*</span>
+                  </Label>
+                  <Input id="effective_date" type="date" {...register("effective_date")} />
+                  {errors.effective_date && (
+                    <p className="text-sm text-destructive">{errors.effective_date.message}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reason">
+                    Reason <span className="text-destructive">*</span>
+                  </Label>
+                  <Textarea
+                    id="reason"
+                    {...register("reason")}
+                    placeholder="Why are the terms being amended?"
+                    rows={3}
+                  />
+                  {errors.reason && (
+                    <p className="text-sm text-destructive">{errors.reason.message}</p>
+                  )}
+                </div>
+
+                {pendingChanges.length > 0 && (
+                  <div className="border-t pt-4 space-y-2">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <Info className="h-4 w-4 text-blue-600" />
+                      {pendingChanges.length} change{pendingChanges.length !== 1 ? "s" : ""}
+                    </div>
+                    {pendingChanges.map((change) => (
+                      <div key={change.field} className="text-sm">
+                        <p className="font-medium">{VERSIONED_FIELD_LABELS[change.field]}</p>
+                        {change.field !== "terms" && change.field !== "notes" && (
+                          <p className="text-muted-foreground">
+                            {formatFieldValue(change.field, change.from, baseCurrency)} →{" "}
+                            {formatFieldValue(change.field, change.to, baseCurrency)}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-4">
+          <Button type="button" variant="outline" onClick={() => router.back()}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={loading || !!amendmentError || pendingChanges.length === 0}>
+            {loading ? "Saving..." : "Record Amendment"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
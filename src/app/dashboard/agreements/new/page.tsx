@@ -15,11 +15,30 @@ import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft, Info } from "lucide-react";
 import Link from "next/link";
+import { format } from "date-fns";
+import { ClauseSelector } from "@/components/agreements/ClauseSelector";
+import { EscalationRuleEditor } from "@/components/agreements/EscalationRuleEditor";
+import { LateFeePolicyEditor } from "@/components/agreements/LateFeePolicyEditor";
+import { buildMergeContext, mergeSelectedClauses, type ClauseSelection } from "@/lib/agreements/clauses";
+import {
+  DEFAULT_ESCALATION_RULE,
+  calculateNextYearRent,
+  describeEscalationRule,
+  escalationRuleSchema,
+  parseEscalationRule,
+  type EscalationRule,
+} from "@/lib/agreements/escalation";
+import { recordStatusChange } from "@/lib/agreements/lifecycle";
+import { createInitialVersion, takeSnapshot } from "@/lib/agreements/versions";
+import { syncRentDues } from "@/lib/agreements/dues";
+import { DEFAULT_LATE_FEE_POLICY, lateFeePolicySchema, parseLateFeePolicy } from "@/lib/agreements/fees";
+import { allocateDocumentNumber, previewDocumentNumber } from "@/lib/documents/numbering";
+import { formatCurrency, getCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
 
 const agreementSchema = z.object({
   tenant_id: z.string().min(1, "Tenant is required"),
   landlord_id: z.string().min(1, "Landlord is required"),
-  agreement_number: z.string().min(1, "Agreement number is required"),
   property_address: z.string().min(1, "Property address is required"),
   property_city: z.string().min(1, "City is required"),
   property_state: z.string().min(1, "State is required"),
@@ -29,6 +48,8 @@ const agreementSchema = z.object({
   monthly_rent: z.number().min(1, "Monthly rent is required"),
   deposit_amount: z.number().min(0, "Deposit amount must be 0 or greater"),
   notice_period_days: z.number().min(0).optional(),
+  escalation_rule: escalationRuleSchema,
+  late_fee_policy: lateFeePolicySchema,
   terms: z.string().optional(),
   notes: z.string().optional(),
 });
@@ -36,16 +57,20 @@ const agreementSchema = z.object({
 type AgreementFormData = z.infer<typeof agreementSchema>;
 
 export default function NewAgreementPage() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
   const router = useRouter();
   const { toast } = useToast();
   const [tenants, setTenants] = useState<Array<{ id: string; name: string }>>([]);
   const [landlords, setLandlords] = useState<Array<{ id: string; name: string }>>([]);
   const [loading, setLoading] = useState(false);
+  const [nextNumber, setNextNumber] = useState("");
+  const [clauses, setClauses] = useState<ClauseSelection[]>([]);
   const [previousAgreement, setPreviousAgreement] = useState<{
     id: string;
     monthly_rent: number;
     start_date: string;
     end_date: string;
+    escalation_rule: EscalationRule;
   } | null>(null);
 
   const {
@@ -57,21 +82,38 @@ export default function NewAgreementPage() {
   } = useForm<AgreementFormData>({
     resolver: zodResolver(agreementSchema),
     defaultValues: {
-      agreement_number: `RENT-${Date.now()}`,
       start_date: new Date().toISOString().split("T")[0],
       end_date: new Date(Date.now() + 11 * 30 * 24 * 60 * 60 * 1000).toISOString().split("T")[0], // 11 months
       notice_period_days: 30,
       deposit_amount: 0,
       monthly_rent: 0,
+      escalation_rule: DEFAULT_ESCALATION_RULE,
+      late_fee_policy: DEFAULT_LATE_FEE_POLICY,
     },
   });
 
   const watchedTenantId = watch("tenant_id");
   const watchedMonthlyRent = watch("monthly_rent");
+  const watchedStartDate = watch("start_date");
+  const watchedEscalationRule = watch("escalation_rule");
+
+  const mergeContext = buildMergeContext({
+    tenant: tenants.find((tenant) => tenant.id === watchedTenantId) ?? null,
+    landlord: landlords.find((landlord) => landlord.id === watch("landlord_id")) ?? null,
+    property_address: watch("property_address"),
+    property_city: watch("property_city"),
+    monthly_rent: watchedMonthlyRent,
+    deposit_amount: watch("deposit_amount"),
+    notice_period_days: watch("notice_period_days"),
+    start_date: watchedStartDate,
+    end_date: watch("end_date"),
+    currency: baseCurrency,
+  });
 
   useEffect(() => {
     fetchTenants();
     fetchLandlords();
+    fetchNextNumber();
   }, []);
 
   useEffect(() => {
@@ -111,6 +153,20 @@ export default function NewAgreementPage() {
     }
   };
 
+  const fetchNextNumber = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) return;
+      setNextNumber(await previewDocumentNumber(supabase, user.id, "agreement", format(new Date(), "yyyy-MM-dd")));
+    } catch (error) {
+      console.error("Error fetching next agreement number:", error);
+    }
+  };
+
   const fetchPreviousAgreement = async () => {
     if (!watchedTenantId) return;
 
@@ -127,13 +183,16 @@ export default function NewAgreementPage() {
       if (error && error.code !== "PGRST116") throw error; // PGRST116 = no rows returned
 
       if (data) {
-        setPreviousAgreement(data);
-        // Auto-calculate 10% increment
-        const newRent = Math.round(data.monthly_rent * 1.1);
+        const previousRule = parseEscalationRule(data.escalation_rule);
+        setPreviousAgreement({ ...data, escalation_rule: previousRule });
+        // Carry the previous escalation rule forward and apply it to the old rent
+        const newRent = calculateNextYearRent(data.monthly_rent, data.start_date, previousRule);
         setValue("monthly_rent", newRent);
+        setValue("escalation_rule", previousRule);
+        setValue("late_fee_policy", parseLateFeePolicy(data.late_fee_policy));
         toast({
           title: "Previous Agreement Found",
-          description: `Previous rent was ₹${data.monthly_rent.toLocaleString()}. New rent set to ₹${newRent.toLocaleString()} (10% increment)`,
+          description: `Previous rent was ${formatCurrency(data.monthly_rent, baseCurrency)}. New rent set to ${formatCurrency(newRent, baseCurrency)} (${describeEscalationRule(previousRule, baseCurrency)})`,
         });
       }
     } catch (error) {
@@ -141,9 +200,9 @@ export default function NewAgreementPage() {
     }
   };
 
-  const calculateNextYearRent = () => {
-    if (!watchedMonthlyRent) return 0;
-    return Math.round(watchedMonthlyRent * 1.1);
+  const getNextYearRent = () => {
+    if (!watchedMonthlyRent || !watchedStartDate) return 0;
+    return calculateNextYearRent(watchedMonthlyRent, watchedStartDate, watchedEscalationRule);
   };
 
   const onSubmit = async (data: AgreementFormData) => {
@@ -156,6 +215,8 @@ export default function NewAgreementPage() {
 
       if (!user) throw new Error("User not authenticated");
 
+      const agreementNumber = await allocateDocumentNumber(supabase, user.id, "agreement", format(new Date(), "yyyy-MM-dd"));
+
       // Create rent agreement
       const { data: agreement, error: agreementError } = await supabase
         .from("rent_agreements")
@@ -163,7 +224,7 @@ export default function NewAgreementPage() {
           user_id: user.id,
           tenant_id: data.tenant_id,
           landlord_id: data.landlord_id,
-          agreement_number: data.agreement_number,
+          agreement_number: agreementNumber,
           property_address: data.property_address,
           property_city: data.property_city,
           property_state: data.property_state,
@@ -173,7 +234,11 @@ export default function NewAgreementPage() {
           monthly_rent: data.monthly_rent,
           deposit_amount: data.deposit_amount,
           notice_period_days: data.notice_period_days ?? 30,
-          status: "active",
+          escalation_rule: data.escalation_rule,
+          late_fee_policy: data.late_fee_policy,
+          clauses: mergeSelectedClauses(clauses, mergeContext),
+          status: "draft",
+          current_version: 1,
           terms: data.terms || null,
           notes: data.notes || null,
         })
@@ -182,9 +247,21 @@ export default function NewAgreementPage() {
 
       if (agreementError) throw agreementError;
 
+      await createInitialVersion(supabase, agreement.id, user.id, takeSnapshot(agreement));
+      await syncRentDues(supabase, agreement);
+
+      await recordStatusChange(supabase, {
+        agreementId: agreement.id,
+        userId: user.id,
+        from: null,
+        to: "draft",
+        reason: "Agreement created",
+        actorId: user.id,
+      });
+
       toast({
         title: "Success",
-        description: "Rent agreement created successfully",
+        description: "Draft agreement created successfully",
       });
 
       router.push(`/dashboard/agreements/${agreement.id}`);
@@ -224,11 +301,11 @@ export default function NewAgreementPage() {
               <div className="flex-1">
                 <p className="font-medium text-blue-900">Previous Agreement Found</p>
                 <p className="text-sm text-blue-700 mt-1">
-                  Previous rent: ₹{previousAgreement.monthly_rent.toLocaleString()} | 
+                  Previous rent: {formatCurrency(previousAgreement.monthly_rent, baseCurrency)} | 
                   Period: {new Date(previousAgreement.start_date).toLocaleDateString()} - {new Date(previousAgreement.end_date).toLocaleDateString()}
                 </p>
                 <p className="text-sm text-blue-700 mt-1">
-                  New rent automatically set with 10% increment: ₹{calculateNextYearRent().toLocaleString()}
+                  New rent automatically set using the previous escalation rule ({describeEscalationRule(previousAgreement.escalation_rule, baseCurrency)}): {formatCurrency(watchedMonthlyRent, baseCurrency)}
                 </p>
               </div>
             </div>
@@ -298,19 +375,11 @@ export default function NewAgreementPage() {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="agreement_number">
-                    Agreement Number <span className="text-destructive">*</span>
-                  </Label>
-                  <Input
-                    id="agreement_number"
-                    {...register("agreement_number")}
-                    placeholder="RENT-001"
-                  />
-                  {errors.agreement_number && (
-                    <p className="text-sm text-destructive">
-                      {errors.agreement_number.message}
-                    </p>
-                  )}
+                  <Label htmlFor="agreement_number">Agreement Number</Label>
+                  <Input id="agreement_number" value={nextNumber} disabled />
+                  <p className="text-xs text-muted-foreground">
+                    Assigned from your numbering sequence when the agreement is saved
+                  </p>
                 </div>
 
                 <div className="space-y-2">
@@ -426,11 +495,11 @@ export default function NewAgreementPage() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="terms">Terms & Conditions</Label>
+                <Label htmlFor="terms">Additional Terms</Label>
                 <Textarea
                   id="terms"
                   {...register("terms")}
-                  placeholder="Agreement terms and conditions..."
+                  placeholder="Any terms not covered by the clauses below..."
                   rows={4}
                 />
               </div>
@@ -455,7 +524,7 @@ export default function NewAgreementPage() {
             <CardContent className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="monthly_rent">
-                  Monthly Rent (₹) <span className="text-destructive">*</span>
+                  Monthly Rent ({getCurrency(baseCurrency).symbol}) <span className="text-destructive">*</span>
                 </Label>
                 <Input
                   id="monthly_rent"
@@ -474,7 +543,7 @@ export default function NewAgreementPage() {
 
               <div className="space-y-2">
                 <Label htmlFor="deposit_amount">
-                  Security Deposit (₹)
+                  Security Deposit ({getCurrency(baseCurrency).symbol})
                 </Label>
                 <Input
                   id="deposit_amount"
@@ -491,20 +560,42 @@ export default function NewAgreementPage() {
                 )}
               </div>
 
+              <div className="border-t pt-4">
+                <EscalationRuleEditor
+                  value={watchedEscalationRule}
+                  onChange={(rule) => setValue("escalation_rule", rule, { shouldValidate: true })}
+                />
+                {errors.escalation_rule && (
+                  <p className="text-sm text-destructive mt-2">
+                    {errors.escalation_rule.message ||
+                      errors.escalation_rule.value?.message ||
+                      errors.escalation_rule.steps?.message ||
+                      errors.escalation_rule.index_table?.message}
+                  </p>
+                )}
+              </div>
+
+              <div className="border-t pt-4">
+                <LateFeePolicyEditor
+                  value={watch("late_fee_policy")}
+                  onChange={(policy) => setValue("late_fee_policy", policy, { shouldValidate: true })}
+                />
+              </div>
+
               {watchedMonthlyRent > 0 && (
                 <div className="border-t pt-4 space-y-2">
                   <div className="text-sm space-y-1">
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Current Monthly Rent:</span>
-                      <span className="font-medium">₹{watchedMonthlyRent.toLocaleString()}</span>
+                      <span className="font-medium">{formatCurrency(watchedMonthlyRent, baseCurrency)}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Next Year Rent (10% increment):</span>
-                      <span className="font-medium text-green-600">₹{calculateNextYearRent().toLocaleString()}</span>
+                      <span className="text-muted-foreground">Next Year Rent:</span>
+                      <span className="font-medium text-green-600">{formatCurrency(getNextYearRent(), baseCurrency)}</span>
                     </div>
                     <div className="flex justify-between pt-2 border-t">
                       <span className="text-muted-foreground">Annual Rent:</span>
-                      <span className="font-medium">₹{(watchedMonthlyRent * 12).toLocaleString()}</span>
+                      <span className="font-medium">{formatCurrency(watchedMonthlyRent * 12, baseCurrency)}</span>
                     </div>
                   </div>
                 </div>
@@ -513,6 +604,18 @@ export default function NewAgreementPage() {
           </Card>
         </div>
 
+        <Card>
+          <CardHeader>
+            <CardTitle>Clauses</CardTitle>
+            <CardDescription>
+              Start from a template, then reorder or switch off clauses. Placeholders are filled in from the agreement details.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ClauseSelector value={clauses} onChange={setClauses} mergeContext={mergeContext} />
+          </CardContent>
+        </Card>
+
         <div className="flex justify-end gap-4">
           <Button
             type="button"
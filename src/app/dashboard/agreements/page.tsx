@@ -8,8 +8,12 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Plus, FileText, Eye, Edit, Trash2 } from "lucide-react";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { deleteOwnerVaultDocuments } from "@/lib/vault/documents";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
+import { getStatusLabel } from "@/lib/agreements/lifecycle";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
 
 interface RentAgreement {
   id: string;
@@ -30,6 +34,7 @@ interface RentAgreement {
 }
 
 export default function AgreementsPage() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
   const [agreements, setAgreements] = useState<RentAgreement[]>([]);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
@@ -115,6 +120,8 @@ export default function AgreementsPage() {
 
       if (error) throw error;
 
+      await deleteOwnerVaultDocuments(supabase, "agreement", id);
+
       toast({
         title: "Success",
         description: "Agreement deleted successfully",
@@ -134,14 +141,17 @@ export default function AgreementsPage() {
   const getStatusBadge = (status: string) => {
     const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
       active: "default",
+      notice_given: "secondary",
       expired: "secondary",
+      renewed: "secondary",
       terminated: "destructive",
+      pending_signature: "outline",
       draft: "outline",
     };
 
     return (
       <Badge variant={variants[status] || "outline"}>
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {getStatusLabel(status)}
       </Badge>
     );
   };
@@ -222,7 +232,7 @@ export default function AgreementsPage() {
                       {format(new Date(agreement.end_date), "MMM dd, yyyy")}
                     </TableCell>
                     <TableCell>
-                      ₹{agreement.monthly_rent.toLocaleString()}
+                      {formatCurrency(agreement.monthly_rent, baseCurrency)}
                     </TableCell>
                     <TableCell>{getStatusBadge(agreement.status)}</TableCell>
                     <TableCell className="text-right">
@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import {
+  CLAUSE_CATEGORIES,
+  CLAUSE_CATEGORY_LABELS,
+  CLAUSE_PLACEHOLDERS,
+} from "@/lib/agreements/clauses";
+
+const clauseSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  category: z.enum(CLAUSE_CATEGORIES),
+  body: z.string().min(1, "Clause text is required"),
+});
+
+type ClauseFormData = z.infer<typeof clauseSchema>;
+
+export default function NewClausePage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    formState: { errors },
+  } = useForm<ClauseFormData>({
+    resolver: zodResolver(clauseSchema),
+    defaultValues: {
+      category: "general",
+    },
+  });
+
+  const insertPlaceholder = (key: string) => {
+    setValue("body", `${watch("body") || ""}{{${key}}}`, { shouldValidate: true });
+  };
+
+  const onSubmit = async (data: ClauseFormData) => {
+    setLoading(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      const { error } = await supabase.from("clauses").insert({
+        user_id: user.id,
+        title: data.title,
+        category: data.category,
+        body: data.body,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Clause created successfully",
+      });
+
+      router.push("/dashboard/clauses");
+    } catch (error) {
+      console.error("Error creating clause:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create clause",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/dashboard/clauses">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Add Clause</h1>
+          <p className="text-muted-foreground mt-2">
+            Write a clause once and reuse it in any agreement
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Clause</CardTitle>
+              <CardDescription>Title, category and wording</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="title">
+                    Title <span className="text-destructive">*</span>
+                  </Label>
+                  <Input id="title" {...register("title")} placeholder="e.g. Pets" />
+                  {errors.title && (
+                    <p className="text-sm text-destructive">{errors.title.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={watch("category")}
+                    onValueChange={(value) => setValue("category", value as ClauseFormData["category"])}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CLAUSE_CATEGORIES.map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {CLAUSE_CATEGORY_LABELS[category]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="body">
+                  Clause Text <span className="text-destructive">*</span>
+                </Label>
+                <Textarea
+                  id="body"
+                  {...register("body")}
+                  placeholder="The Tenant shall give {{notice_period_days}} days written notice before vacating..."
+                  rows={8}
+                />
+                {errors.body && (
+                  <p className="text-sm text-destructive">{errors.body.message}</p>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-4">
+                <Button type="button" variant="outline" onClick={() => router.back()}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={loading}>
+                  {loading ? "Saving..." : "Save Clause"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Placeholders</CardTitle>
+              <CardDescription>Filled in from the agreement when the clause is used</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {CLAUSE_PLACEHOLDERS.map((placeholder) => (
+                <button
+                  key={placeholder.key}
+                  type="button"
+                  onClick={() => insertPlaceholder(placeholder.key)}
+                  className="flex w-full justify-between rounded-md px-2 py-1 text-left text-sm hover:bg-muted"
+                >
+                  <code className="text-xs">{`{{${placeholder.key}}}`}</code>
+                  <span className="text-muted-foreground">{placeholder.description}</span>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, ScrollText, Trash2, LayoutTemplate } from "lucide-react";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { CLAUSE_CATEGORY_LABELS, type AgreementTemplate, type Clause } from "@/lib/agreements/clauses";
+
+export default function ClausesPage() {
+  const [clauses, setClauses] = useState<Clause[]>([]);
+  const [templates, setTemplates] = useState<AgreementTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchLibrary();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchLibrary = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const [clauseResult, templateResult] = await Promise.all([
+        supabase.from("clauses").select("id, title, category, body").order("category").order("title"),
+        supabase.from("agreement_templates").select("id, name, description, clause_ids").order("name"),
+      ]);
+
+      if (clauseResult.error) throw clauseResult.error;
+      if (templateResult.error) throw templateResult.error;
+      setClauses(clauseResult.data || []);
+      setTemplates(templateResult.data || []);
+    } catch (error) {
+      console.error("Error fetching clause library:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load clause library",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteClause = async (id: string) => {
+    const usedBy = templates.filter((template) => template.clause_ids.includes(id));
+    const warning = usedBy.length > 0 ? ` It is used by ${usedBy.map((t) => t.name).join(", ")}.` : "";
+    if (!confirm(`Are you sure you want to delete this clause?${warning}`)) return;
+
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const { error } = await supabase.from("clauses").delete().eq("id", id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Clause deleted successfully",
+      });
+
+      fetchLibrary();
+    } catch (error) {
+      console.error("Error deleting clause:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete clause",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteTemplate = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this template?")) return;
+
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const { error } = await supabase.from("agreement_templates").delete().eq("id", id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Template deleted successfully",
+      });
+
+      fetchLibrary();
+    } catch (error) {
+      console.error("Error deleting template:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete template",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Clause Library</h1>
+          <p className="text-muted-foreground mt-2">
+            Reusable clauses and agreement templates
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/clauses/templates/new">
+              <LayoutTemplate className="mr-2 h-4 w-4" />
+              New Template
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link href="/dashboard/clauses/new">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Clause
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Templates</CardTitle>
+          <CardDescription>
+            {templates.length} template{templates.length !== 1 ? "s" : ""} total
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Loading templates...
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              Bundle clauses into a template to start new agreements faster
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Clauses</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => (
+                  <TableRow key={template.id}>
+                    <TableCell>
+                      <div className="font-medium">{template.name}</div>
+                      {template.description && (
+                        <div className="text-sm text-muted-foreground">{template.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {template.clause_ids
+                        .map((clauseId) => clauses.find((clause) => clause.id === clauseId)?.title)
+                        .filter(Boolean)
+                        .join(", ") || "-"}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDeleteTemplate(template.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Clauses</CardTitle>
+          <CardDescription>
+            {clauses.length} clause{clauses.length !== 1 ? "s" : ""} total
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Loading clauses...
+            </div>
+          ) : clauses.length === 0 ? (
+            <div className="text-center py-8">
+              <ScrollText className="h-12 w-12 mx-auto mb-4 opacity-50 text-muted-foreground" />
+              <p className="text-muted-foreground mb-2">No clauses yet</p>
+              <p className="text-sm text-muted-foreground mb-4">
+                Add your first clause to reuse it across agreements
+              </p>
+              <Button asChild>
+                <Link href="/dashboard/clauses/new">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Clause
+                </Link>
+              </Button>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Text</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {clauses.map((clause) => (
+                  <TableRow key={clause.id}>
+                    <TableCell className="font-medium">{clause.title}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{CLAUSE_CATEGORY_LABELS[clause.category]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-md truncate">
+                      {clause.body}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDeleteClause(clause.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
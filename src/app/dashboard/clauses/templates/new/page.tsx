@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowDown, ArrowLeft, ArrowUp } from "lucide-react";
+import Link from "next/link";
+import { CLAUSE_CATEGORY_LABELS, type Clause } from "@/lib/agreements/clauses";
+
+const templateSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  description: z.string().optional(),
+});
+
+type TemplateFormData = z.infer<typeof templateSchema>;
+
+export default function NewTemplatePage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [library, setLibrary] = useState<Clause[]>([]);
+  const [clauseIds, setClauseIds] = useState<string[]>([]);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<TemplateFormData>({
+    resolver: zodResolver(templateSchema),
+  });
+
+  useEffect(() => {
+    fetchClauses();
+  }, []);
+
+  const fetchClauses = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const { data, error } = await supabase
+        .from("clauses")
+        .select("id, title, category, body")
+        .order("category")
+        .order("title");
+
+      if (error) throw error;
+      setLibrary(data || []);
+    } catch (error) {
+      console.error("Error fetching clauses:", error);
+    }
+  };
+
+  const handleToggle = (id: string, checked: boolean) => {
+    setClauseIds(checked ? [...clauseIds, id] : clauseIds.filter((clauseId) => clauseId !== id));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= clauseIds.length) return;
+    const next = [...clauseIds];
+    [next[index], next[target]] = [next[target], next[index]];
+    setClauseIds(next);
+  };
+
+  const onSubmit = async (data: TemplateFormData) => {
+    if (clauseIds.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select at least one clause",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      const { error } = await supabase.from("agreement_templates").insert({
+        user_id: user.id,
+        name: data.name,
+        description: data.description || null,
+        clause_ids: clauseIds,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Template created successfully",
+      });
+
+      router.push("/dashboard/clauses");
+    } catch (error) {
+      console.error("Error creating template:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create template",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/dashboard/clauses">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">New Template</h1>
+          <p className="text-muted-foreground mt-2">
+            Bundle clauses into a named agreement template
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Template Details</CardTitle>
+              <CardDescription>Name the template and pick its clauses</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">
+                  Name <span className="text-destructive">*</span>
+                </Label>
+                <Input id="name" {...register("name")} placeholder="e.g. Standard Residential Lease" />
+                {errors.name && (
+                  <p className="text-sm text-destructive">{errors.name.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="description">Description</Label>
+                <Textarea id="description" {...register("description")} rows={2} />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Clauses</Label>
+                {library.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No clauses yet.{" "}
+                    <Link href="/dashboard/clauses/new" className="underline">
+                      Add a clause
+                    </Link>{" "}
+                    first.
+                  </p>
+                ) : (
+                  <div className="border rounded-md divide-y">
+                    {library.map((clause) => (
+                      <label key={clause.id} className="flex items-center gap-3 p-3 cursor-pointer">
+                        <Checkbox
+                          checked={clauseIds.includes(clause.id)}
+                          onCheckedChange={(checked) => handleToggle(clause.id, checked === true)}
+                        />
+                        <span className="flex-1 text-sm font-medium">{clause.title}</span>
+                        <Badge variant="outline">{CLAUSE_CATEGORY_LABELS[clause.category]}</Badge>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Clause Order</CardTitle>
+              <CardDescription>Clauses appear in the agreement in this order</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {clauseIds.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No clauses selected</p>
+              ) : (
+                <div className="border rounded-md divide-y">
+                  {clauseIds.map((clauseId, index) => (
+                    <div key={clauseId} className="flex items-center gap-3 p-3">
+                      <span className="flex-1 text-sm">
+                        {index + 1}. {library.find((clause) => clause.id === clauseId)?.title}
+                      </span>
+                      <Button type="button" variant="ghost" size="icon" onClick={() => handleMove(index, -1)} disabled={index === 0}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === clauseIds.length - 1}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="flex justify-end gap-4">
+          <Button type="button" variant="outline" onClick={() => router.back()}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={loading}>
+            {loading ? "Saving..." : "Save Template"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
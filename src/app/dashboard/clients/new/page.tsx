@@ -10,10 +10,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft } from "lucide-react";
 import Link from "next/link";
+import { GST_STATES, getGstinError, getGstinStateCode, normalizeGstin } from "@/lib/invoices/gst";
 
 const clientSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -25,6 +27,14 @@ const clientSchema = z.object({
   zip_code: z.string().optional(),
   country: z.string().default("USA"),
   tax_id: z.string().optional(),
+  gstin: z
+    .string()
+    .optional()
+    .superRefine((value, ctx) => {
+      const gstinError = value ? getGstinError(value) : null;
+      if (gstinError) ctx.addIssue({ code: "custom", message: gstinError });
+    }),
+  gst_state_code: z.string().optional(),
   notes: z.string().optional(),
 });
 
@@ -38,6 +48,8 @@ export default function NewClientPage() {
   const {
     register,
     handleSubmit,
+    watch,
+    setValue,
     formState: { errors },
   } = useForm({
     resolver: zodResolver(clientSchema),
@@ -67,6 +79,9 @@ export default function NewClientPage() {
         zip_code: data.zip_code || null,
         country: data.country || "USA",
         tax_id: data.tax_id || null,
+        gstin: data.gstin ? normalizeGstin(data.gstin) : null,
+        // A registered client's state is part of its GSTIN
+        gst_state_code: data.gstin ? getGstinStateCode(data.gstin) : data.gst_state_code || null,
         notes: data.notes || null,
       });
 
@@ -204,6 +219,43 @@ export default function NewClientPage() {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="gstin">GSTIN</Label>
+                <Input
+                  id="gstin"
+                  {...register("gstin")}
+                  placeholder="29AAGCB7383J1Z4"
+                  className="uppercase"
+                />
+                {errors.gstin && (
+                  <p className="text-sm text-destructive">{errors.gstin.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>GST State</Label>
+                <Select
+                  value={watch("gst_state_code") || "none"}
+                  onValueChange={(value) => setValue("gst_state_code", value === "none" ? undefined : value)}
+                  disabled={Boolean(watch("gstin"))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not applicable</SelectItem>
+                    {Object.entries(GST_STATES).map(([code, name]) => (
+                      <SelectItem key={code} value={code}>
+                        {code} - {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Place of supply for GST invoices; taken from the GSTIN when one is given
+                </p>
+              </div>
+
               <div className="space-y-2 md:col-span-2">
                 <Label htmlFor="notes">Notes</Label>
                 <Textarea
@@ -0,0 +1,252 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ArrowLeft } from "lucide-react";
+import {
+  calculateCreditNoteTotals,
+  fetchCreditableInvoice,
+  fetchCreditableItems,
+  getCreditNoteError,
+  getCreditableAmount,
+  getFullCreditLines,
+  issueCreditNote,
+  type CreditableInvoice,
+  type CreditableItem,
+} from "@/lib/invoices/credits";
+
+export default function NewCreditNotePage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const [invoice, setInvoice] = useState<CreditableInvoice | null>(null);
+  const [items, setItems] = useState<CreditableItem[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [issueDate, setIssueDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (params.id) {
+      fetchInvoice();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params.id]);
+
+  const fetchInvoice = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const [invoiceData, itemsData] = await Promise.all([
+        fetchCreditableInvoice(supabase, params.id as string),
+        fetchCreditableItems(supabase, params.id as string),
+      ]);
+
+      setInvoice(invoiceData);
+      setItems(itemsData);
+    } catch (error) {
+      console.error("Error fetching invoice:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load invoice",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const lines = items.map((item) => ({ invoice_item_id: item.id, quantity: quantities[item.id] || 0 }));
+
+  const creditAll = () => {
+    setQuantities(
+      Object.fromEntries(getFullCreditLines(items).map((line) => [line.invoice_item_id, line.quantity]))
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invoice) return;
+
+    setSaving(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      await issueCreditNote(supabase, invoice, { issue_date: issueDate, reason, lines }, user.id);
+
+      toast({
+        title: "Success",
+        description: "Credit note issued successfully",
+      });
+      router.push(`/dashboard/invoices/${invoice.id}`);
+    } catch (error) {
+      console.error("Error issuing credit note:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to issue credit note",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Loading invoice...</p>
+      </div>
+    );
+  }
+
+  if (!invoice) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Invoice not found</p>
+      </div>
+    );
+  }
+
+  const totals = calculateCreditNoteTotals(invoice, items, lines);
+  const creditError = getCreditNoteError(invoice, items, { issue_date: issueDate, reason, lines });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href={`/dashboard/invoices/${invoice.id}`}>
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Issue Credit Note</h1>
+          <p className="text-muted-foreground mt-2">
+            Against invoice {invoice.invoice_number}; {formatCurrency(getCreditableAmount(invoice), invoice.currency)} left to credit
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <CardTitle>Lines to Credit</CardTitle>
+                  <CardDescription>Enter the quantity to credit on each line</CardDescription>
+                </div>
+                <Button type="button" size="sm" variant="outline" onClick={creditAll}>
+                  Credit Everything
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Invoiced</TableHead>
+                    <TableHead className="text-right">Credited</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="w-32">Credit Qty</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>{item.description}</TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right">{item.credited_quantity}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.unit_price, invoice.currency)}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max={item.remaining_quantity}
+                          disabled={item.remaining_quantity <= 0}
+                          value={quantities[item.id] || 0}
+                          onChange={(e) =>
+                            setQuantities({ ...quantities, [item.id]: parseFloat(e.target.value) || 0 })
+                          }
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="issue_date">Issue Date</Label>
+                  <Input id="issue_date" type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reason">Reason *</Label>
+                  <Textarea
+                    id="reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Returned goods, billing error..."
+                    rows={3}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Summary</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Subtotal:</span>
+                  <span>{formatCurrency(totals.subtotal, invoice.currency)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Tax:</span>
+                  <span>{formatCurrency(totals.tax, invoice.currency)}</span>
+                </div>
+                {totals.discount > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Discount:</span>
+                    <span>-{formatCurrency(totals.discount, invoice.currency)}</span>
+                  </div>
+                )}
+                <div className="border-t pt-2 flex justify-between font-bold">
+                  <span>Total Credited:</span>
+                  <span>{formatCurrency(totals.total, invoice.currency)}</span>
+                </div>
+                {creditError && <p className="text-sm text-muted-foreground pt-2">{creditError}</p>}
+              </CardContent>
+            </Card>
+
+            <Button type="submit" className="w-full" disabled={saving || creditError !== null}>
+              {saving ? "Issuing..." : "Issue Credit Note"}
+            </Button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -13,6 +13,26 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import {
+  INVOICE_STATUSES,
+  INVOICE_STATUS_LABELS,
+  MANUAL_INVOICE_STATUSES,
+  refreshInvoiceBalance,
+} from "@/lib/invoices/payments";
+import { fetchBranding } from "@/lib/documents/branding";
+import { CURRENCY_CODES, DEFAULT_CURRENCY, formatCurrency, getCurrencyLabel } from "@/lib/currency/currencies";
+import { snapshotExchangeRate } from "@/lib/currency/rates";
+import {
+  GST_RATES,
+  GST_STATES,
+  TAX_MODES,
+  TAX_MODE_LABELS,
+  calculateGstTotals,
+  getGstInvoiceError,
+  getGstinStateCode,
+  getSupplyType,
+  normalizeGstin,
+} from "@/lib/invoices/gst";
 import { Plus, Trash2, ArrowLeft } from "lucide-react";
 import Link from "next/link";
 
@@ -21,8 +41,11 @@ const invoiceSchema = z.object({
   invoice_number: z.string().min(1, "Invoice number is required"),
   issue_date: z.string().min(1, "Issue date is required"),
   due_date: z.string().min(1, "Due date is required"),
-  status: z.enum(["draft", "sent", "paid", "overdue", "cancelled"]),
-  currency: z.string().default("USD"),
+  status: z.enum(INVOICE_STATUSES),
+  currency: z.string().default(DEFAULT_CURRENCY),
+  tax_mode: z.enum(TAX_MODES).default("standard"),
+  buyer_gstin: z.string().optional(),
+  place_of_supply: z.string().optional(),
   tax_rate: z.number().min(0).max(100).default(0),
   discount: z.number().min(0).default(0),
   discount_type: z.enum(["amount", "percentage"]).default("amount"),
@@ -32,6 +55,7 @@ const invoiceSchema = z.object({
     z.object({
       id: z.string().optional(),
       description: z.string().min(1, "Description is required"),
+      hsn_sac: z.string().optional(),
       quantity: z.number().min(0.01, "Quantity must be greater than 0"),
       unit_price: z.number().min(0, "Unit price must be 0 or greater"),
       tax_rate: z.number().min(0).max(100).default(0),
@@ -45,9 +69,14 @@ export default function EditInvoicePage() {
   const router = useRouter();
   const params = useParams();
   const { toast } = useToast();
-  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([]);
+  const [clients, setClients] = useState<
+    Array<{ id: string; name: string; gstin: string | null; gst_state_code: string | null }>
+  >([]);
   const [loading, setLoading] = useState(false);
   const [fetching, setFetching] = useState(true);
+  const [paidAmount, setPaidAmount] = useState(0);
+  const [locked, setLocked] = useState(false);
+  const [sellerGstin, setSellerGstin] = useState<string | null>(null);
 
   const {
     register,
@@ -65,6 +94,7 @@ export default function EditInvoicePage() {
       due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split("T")[0],
       status: "draft",
       currency: "USD",
+      tax_mode: "standard",
       tax_rate: 0,
       discount: 0,
       discount_type: "amount",
@@ -88,6 +118,12 @@ export default function EditInvoicePage() {
   const watchedTaxRate = watch("tax_rate");
   const watchedDiscount = watch("discount");
   const watchedDiscountType = watch("discount_type");
+  const watchedTaxMode = watch("tax_mode");
+  const watchedPlaceOfSupply = watch("place_of_supply");
+  const watchedCurrency = watch("currency") || DEFAULT_CURRENCY;
+  const isGst = watchedTaxMode === "gst";
+  const supplyType =
+    sellerGstin && watchedPlaceOfSupply ? getSupplyType(getGstinStateCode(sellerGstin), watchedPlaceOfSupply) : null;
 
   useEffect(() => {
     fetchClients();
@@ -102,7 +138,7 @@ export default function EditInvoicePage() {
       const supabase = createSupabaseBrowserClient();
       const { data, error } = await supabase
         .from("clients")
-        .select("id, name")
+        .select("id, name, gstin, gst_state_code")
         .order("name");
 
       if (error) throw error;
@@ -137,6 +173,12 @@ export default function EditInvoicePage() {
 
       if (itemsError) throw itemsError;
 
+      setPaidAmount(Number(invoiceData.paid_amount) || 0);
+      // An issued GST invoice keeps the GSTIN it was issued under
+      setSellerGstin(invoiceData.seller_gstin || (await fetchBranding(supabase, invoiceData.user_id)).gstin);
+      // Credit notes refer to the invoice lines as issued, so credited invoices stay as they are
+      setLocked(invoiceData.status === "cancelled" || Number(invoiceData.credited_amount) > 0);
+
       // Format dates for input fields
       const issueDate = invoiceData.issue_date
         ? new Date(invoiceData.issue_date).toISOString().split("T")[0]
@@ -153,6 +195,9 @@ export default function EditInvoicePage() {
         due_date: dueDate,
         status: invoiceData.status || "draft",
         currency: invoiceData.currency || "USD",
+        tax_mode: invoiceData.tax_mode || "standard",
+        buyer_gstin: invoiceData.buyer_gstin || "",
+        place_of_supply: invoiceData.place_of_supply || undefined,
         tax_rate: invoiceData.tax_rate || 0,
         discount: invoiceData.discount || 0,
         discount_type: (invoiceData.discount_type as "amount" | "percentage") || "amount",
@@ -162,6 +207,7 @@ export default function EditInvoicePage() {
           ? itemsData.map((item) => ({
               id: item.id,
               description: item.description || "",
+              hsn_sac: item.hsn_sac || "",
               quantity: item.quantity || 1,
               unit_price: item.unit_price || 0,
               tax_rate: item.tax_rate || 0,
@@ -187,7 +233,31 @@ export default function EditInvoicePage() {
     }
   };
 
+  // The client's GSTIN and state fill in the buyer details of a GST invoice
+  const handleClientChange = (value: string) => {
+    const client = clients.find((entry) => entry.id === value);
+    setValue("client_id", client?.id);
+    setValue("buyer_gstin", client?.gstin || "");
+    setValue("place_of_supply", client?.gst_state_code || undefined);
+  };
+
+  const handleTaxModeChange = (value: string) => {
+    setValue("tax_mode", value as InvoiceFormData["tax_mode"]);
+    if (value === "gst") {
+      setValue("currency", "INR");
+      setValue("tax_rate", 0);
+    }
+  };
+
   const calculateTotals = () => {
+    if (isGst) {
+      return calculateGstTotals(
+        watchedItems,
+        { discount: watchedDiscount, discount_type: watchedDiscountType ?? "amount" },
+        supplyType ?? "intra_state"
+      );
+    }
+
     let subtotal = 0;
     let totalTax = 0;
 
@@ -231,20 +301,42 @@ export default function EditInvoicePage() {
 
       if (!user) throw new Error("User not authenticated");
 
+      if (locked) {
+        throw new Error("This invoice has credit notes against it; issue another credit note instead of editing it");
+      }
+
+      const gstError = data.tax_mode === "gst" ? getGstInvoiceError({ ...data, seller_gstin: sellerGstin }) : null;
+      if (gstError) throw new Error(gstError);
+
       // Calculate totals
-      const { subtotal, tax, discount, total } = calculateTotals();
+      const totals = calculateTotals();
+      const { subtotal, tax, discount, total } = totals;
+      const gst = "lines" in totals ? totals : null;
+
+      if (total < paidAmount) {
+        throw new Error(`Total cannot be less than the ${formatCurrency(paidAmount, data.currency)} already paid`);
+      }
+
+      const snapshot = await snapshotExchangeRate(supabase, user.id, data.currency, data.issue_date);
 
       // Update invoice
       const { error: invoiceError } = await supabase
         .from("invoices")
         .update({
           client_id: data.client_id || null,
-          invoice_number: data.invoice_number,
           issue_date: data.issue_date,
           due_date: data.due_date,
           status: data.status,
           currency: data.currency,
-          tax_rate: data.tax_rate,
+          ...snapshot,
+          tax_mode: data.tax_mode,
+          seller_gstin: gst ? sellerGstin : null,
+          buyer_gstin: gst && data.buyer_gstin ? normalizeGstin(data.buyer_gstin) : null,
+          place_of_supply: gst ? data.place_of_supply : null,
+          cgst_amount: gst?.cgst ?? 0,
+          sgst_amount: gst?.sgst ?? 0,
+          igst_amount: gst?.igst ?? 0,
+          tax_rate: gst ? 0 : data.tax_rate,
           discount: data.discount,
           discount_type: data.discount_type,
           subtotal,
@@ -270,10 +362,12 @@ export default function EditInvoicePage() {
       const items = data.items.map((item, index) => ({
         invoice_id: params.id as string,
         description: item.description,
+        hsn_sac: gst ? item.hsn_sac || null : null,
         quantity: item.quantity,
         unit_price: item.unit_price,
         tax_rate: item.tax_rate,
         line_total: item.quantity * item.unit_price,
+        taxable_value: gst ? gst.lines[index].taxable_value : null,
         sort_order: index,
       }));
 
@@ -283,6 +377,14 @@ export default function EditInvoicePage() {
 
       if (itemsError) throw itemsError;
 
+      // A new total or due date can settle or reopen the balance
+      await refreshInvoiceBalance(supabase, {
+        id: params.id as string,
+        status: data.status,
+        total,
+        due_date: data.due_date,
+      });
+
       toast({
         title: "Success",
         description: "Invoice updated successfully",
@@ -319,8 +421,10 @@ export default function EditInvoicePage() {
         </Button>
         <div>
           <h1 className="text-3xl font-bold">Edit Invoice</h1>
-          <p className="text-muted-foreground mt-2">
-            Update invoice details and items
+          <p className={locked ? "text-destructive mt-2" : "text-muted-foreground mt-2"}>
+            {locked
+              ? "This invoice has been credited and can no longer be edited"
+              : "Update invoice details and items"}
           </p>
         </div>
       </div>
@@ -337,7 +441,7 @@ export default function EditInvoicePage() {
                 <div className="space-y-2">
                   <Label htmlFor="client_id">Client</Label>
                   <Select
-                    onValueChange={(value) => setValue("client_id", value === "none" ? undefined : value)}
+                    onValueChange={handleClientChange}
                     value={watch("client_id") || "none"}
                   >
                     <SelectTrigger>
@@ -355,19 +459,11 @@ export default function EditInvoicePage() {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="invoice_number">
-                    Invoice Number <span className="text-destructive">*</span>
-                  </Label>
-                  <Input
-                    id="invoice_number"
-                    {...register("invoice_number")}
-                    placeholder="INV-001"
-                  />
-                  {errors.invoice_number && (
-                    <p className="text-sm text-destructive">
-                      {errors.invoice_number.message}
-                    </p>
-                  )}
+                  <Label htmlFor="invoice_number">Invoice Number</Label>
+                  <Input id="invoice_number" {...register("invoice_number")} readOnly className="bg-muted" />
+                  <p className="text-xs text-muted-foreground">
+                    Issued numbers cannot be changed
+                  </p>
                 </div>
 
                 <div className="space-y-2">
@@ -414,34 +510,100 @@ export default function EditInvoicePage() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="draft">Draft</SelectItem>
-                      <SelectItem value="sent">Sent</SelectItem>
-                      <SelectItem value="paid">Paid</SelectItem>
-                      <SelectItem value="overdue">Overdue</SelectItem>
-                      <SelectItem value="cancelled">Cancelled</SelectItem>
+                      {INVOICE_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status} disabled={!MANUAL_INVOICE_STATUSES.includes(status)}>
+                          {INVOICE_STATUS_LABELS[status]}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Paid, partially paid and overdue follow from recorded payments and the due date. Cancel an issued invoice from its page.
+                  </p>
                 </div>
 
                 <div className="space-y-2">
                   <Label htmlFor="currency">Currency</Label>
                   <Select
-                    value={watch("currency")}
+                    value={watchedCurrency}
                     onValueChange={(value) => setValue("currency", value)}
+                    disabled={isGst}
                   >
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="USD">USD ($)</SelectItem>
-                      <SelectItem value="EUR">EUR (€)</SelectItem>
-                      <SelectItem value="GBP">GBP (£)</SelectItem>
-                      <SelectItem value="INR">INR (₹)</SelectItem>
+                      {CURRENCY_CODES.map((code) => (
+                        <SelectItem key={code} value={code}>
+                          {getCurrencyLabel(code)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="tax_mode">Invoice Type</Label>
+                  <Select value={watchedTaxMode} onValueChange={handleTaxModeChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TAX_MODES.map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {TAX_MODE_LABELS[mode]}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  {isGst && (
+                    <p className="text-xs text-muted-foreground">
+                      {sellerGstin ? `Issued under GSTIN ${sellerGstin}` : "Add your GSTIN in Settings first"}
+                    </p>
+                  )}
                 </div>
               </div>
 
+              {isGst && (
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="buyer_gstin">Client GSTIN</Label>
+                    <Input
+                      id="buyer_gstin"
+                      {...register("buyer_gstin")}
+                      placeholder="Leave blank for unregistered clients"
+                      className="uppercase"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>
+                      Place of Supply <span className="text-destructive">*</span>
+                    </Label>
+                    <Select
+                      value={watchedPlaceOfSupply || ""}
+                      onValueChange={(value) => setValue("place_of_supply", value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a state" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(GST_STATES).map(([code, name]) => (
+                          <SelectItem key={code} value={code}>
+                            {code} - {name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {supplyType && (
+                      <p className="text-xs text-muted-foreground">
+                        {supplyType === "intra_state" ? "Intra-state supply: CGST + SGST" : "Inter-state supply: IGST"}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="notes">Notes</Label>
                 <Textarea
@@ -470,17 +632,19 @@ export default function EditInvoicePage() {
               <CardDescription>Pricing and tax information</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="tax_rate">Tax Rate (%)</Label>
-                <Input
-                  id="tax_rate"
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  max="100"
-                  {...register("tax_rate", { valueAsNumber: true })}
-                />
-              </div>
+              {!isGst && (
+                <div className="space-y-2">
+                  <Label htmlFor="tax_rate">Tax Rate (%)</Label>
+                  <Input
+                    id="tax_rate"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    {...register("tax_rate", { valueAsNumber: true })}
+                  />
+                </div>
+              )}
 
               <div className="space-y-2">
                 <Label htmlFor="discount">Discount</Label>
@@ -512,19 +676,39 @@ export default function EditInvoicePage() {
               <div className="border-t pt-4 space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Subtotal:</span>
-                  <span>${totals.subtotal.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Tax:</span>
-                  <span>${totals.tax.toFixed(2)}</span>
+                  <span>{formatCurrency(totals.subtotal, watchedCurrency)}</span>
                 </div>
+                {"lines" in totals ? (
+                  supplyType === "inter_state" ? (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">IGST:</span>
+                      <span>{formatCurrency(totals.igst, watchedCurrency)}</span>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">CGST:</span>
+                        <span>{formatCurrency(totals.cgst, watchedCurrency)}</span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">SGST:</span>
+                        <span>{formatCurrency(totals.sgst, watchedCurrency)}</span>
+                      </div>
+                    </>
+                  )
+                ) : (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Tax:</span>
+                    <span>{formatCurrency(totals.tax, watchedCurrency)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Discount:</span>
-                  <span>-${totals.discount.toFixed(2)}</span>
+                  <span>-{formatCurrency(totals.discount, watchedCurrency)}</span>
                 </div>
                 <div className="flex justify-between text-lg font-bold pt-2 border-t">
                   <span>Total:</span>
-                  <span>${totals.total.toFixed(2)}</span>
+                  <span>{formatCurrency(totals.total, watchedCurrency)}</span>
                 </div>
               </div>
             </CardContent>
@@ -545,6 +729,7 @@ export default function EditInvoicePage() {
                 onClick={() =>
                   append({
                     description: "",
+                    hsn_sac: "",
                     quantity: 1,
                     unit_price: 0,
                     tax_rate: 0,
@@ -563,7 +748,7 @@ export default function EditInvoicePage() {
                   key={field.id}
                   className="grid gap-4 p-4 border rounded-lg md:grid-cols-12"
                 >
-                  <div className="md:col-span-5 space-y-2">
+                  <div className={`${isGst ? "md:col-span-3" : "md:col-span-5"} space-y-2`}>
                     <Label>Description</Label>
                     <Input
                       {...register(`items.${index}.description`)}
@@ -575,6 +760,12 @@ export default function EditInvoicePage() {
                       </p>
                     )}
                   </div>
+                  {isGst && (
+                    <div className="md:col-span-2 space-y-2">
+                      <Label>HSN/SAC</Label>
+                      <Input {...register(`items.${index}.hsn_sac`)} placeholder="997212" />
+                    </div>
+                  )}
                   <div className="md:col-span-2 space-y-2">
                     <Label>Quantity</Label>
                     <Input
@@ -608,16 +799,34 @@ export default function EditInvoicePage() {
                     )}
                   </div>
                   <div className="md:col-span-2 space-y-2">
-                    <Label>Tax Rate (%)</Label>
-                    <Input
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      max="100"
-                      {...register(`items.${index}.tax_rate`, {
-                        valueAsNumber: true,
-                      })}
-                    />
+                    <Label>{isGst ? "GST Rate (%)" : "Tax Rate (%)"}</Label>
+                    {isGst ? (
+                      <Select
+                        value={String(watchedItems[index]?.tax_rate ?? 0)}
+                        onValueChange={(value) => setValue(`items.${index}.tax_rate`, Number(value))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {GST_RATES.map((rate) => (
+                            <SelectItem key={rate} value={String(rate)}>
+                              {rate}%
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        max="100"
+                        {...register(`items.${index}.tax_rate`, {
+                          valueAsNumber: true,
+                        })}
+                      />
+                    )}
                   </div>
                   <div className="md:col-span-1 flex items-end">
                     <Button
@@ -631,11 +840,12 @@ export default function EditInvoicePage() {
                     </Button>
                   </div>
                   <div className="md:col-span-12 text-right text-sm text-muted-foreground">
-                    Line Total: $
-                    {(
+                    Line Total:{" "}
+                    {formatCurrency(
                       (watchedItems[index]?.quantity || 0) *
-                      (watchedItems[index]?.unit_price || 0)
-                    ).toFixed(2)}
+                      (watchedItems[index]?.unit_price || 0),
+                      watchedCurrency
+                    )}
                   </div>
                 </div>
               ))}
@@ -10,16 +10,29 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
-import { ArrowLeft, Edit, Download } from "lucide-react";
-import jsPDF from "jspdf";
+import { ArrowLeft, Edit, Download, Ban, Send } from "lucide-react";
+import { getDocumentUrl } from "@/lib/documents/urls";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { formatExchangeRate } from "@/lib/currency/rates";
+import { NumberGapAlert } from "@/components/documents/NumberGapAlert";
+import { InvoicePaymentsCard } from "@/components/invoices/InvoicePaymentsCard";
+import { CreditNotesCard } from "@/components/invoices/CreditNotesCard";
+import { CancelInvoiceDialog } from "@/components/invoices/CancelInvoiceDialog";
+import { SendDocumentDialog } from "@/components/documents/SendDocumentDialog";
+import { PaymentRemindersCard } from "@/components/reminders/PaymentRemindersCard";
+import { getInvoiceStatusLabel } from "@/lib/invoices/payments";
+import { getGstStateLabel, getGstinStateCode, getSupplyType } from "@/lib/invoices/gst";
 
 interface Invoice {
   id: string;
+  user_id: string;
   invoice_number: string;
   status: string;
   issue_date: string;
   due_date: string;
   currency: string;
+  base_currency: string | null;
+  exchange_rate: number | null;
   tax_rate: number;
   discount: number;
   discount_type: string;
@@ -28,8 +41,17 @@ interface Invoice {
   discount_amount: number;
   total: number;
   paid_amount: number;
+  credited_amount: number;
+  tax_mode: "standard" | "gst";
+  seller_gstin: string | null;
+  buyer_gstin: string | null;
+  place_of_supply: string | null;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
   notes: string | null;
   terms: string | null;
+  recurring_invoice_id: string | null;
   client: {
     name: string;
     email: string;
@@ -42,6 +64,7 @@ interface Invoice {
   items: Array<{
     id: string;
     description: string;
+    hsn_sac: string | null;
     quantity: number;
     unit_price: number;
     tax_rate: number;
@@ -54,6 +77,8 @@ export default function InvoiceViewPage() {
   const { toast } = useToast();
   const [invoice, setInvoice] = useState<Invoice | null>(null);
   const [loading, setLoading] = useState(true);
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [sendOpen, setSendOpen] = useState(false);
 
   useEffect(() => {
     if (params.id) {
@@ -121,128 +146,11 @@ export default function InvoiceViewPage() {
     }
   };
 
-  const handleDownloadPDF = () => {
-    if (!invoice) return;
-
-    const doc = new jsPDF();
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const margin = 20;
-    let yPos = margin;
-
-    // Header
-    doc.setFontSize(20);
-    doc.text("INVOICE", margin, yPos);
-    yPos += 10;
-
-    // Invoice details
-    doc.setFontSize(10);
-    doc.text(`Invoice #: ${invoice.invoice_number}`, pageWidth - margin - 60, yPos - 10, { align: "right" });
-    doc.text(`Issue Date: ${format(new Date(invoice.issue_date), "MMM dd, yyyy")}`, pageWidth - margin - 60, yPos - 5, { align: "right" });
-    doc.text(`Due Date: ${format(new Date(invoice.due_date), "MMM dd, yyyy")}`, pageWidth - margin - 60, yPos, { align: "right" });
-    yPos += 15;
-
-    // Client info
-    if (invoice.client) {
-      doc.setFontSize(12);
-      doc.text("Bill To:", margin, yPos);
-      yPos += 5;
-      doc.setFontSize(10);
-      doc.text(invoice.client.name, margin, yPos);
-      yPos += 5;
-      if (invoice.client.email) {
-        doc.text(invoice.client.email, margin, yPos);
-        yPos += 5;
-      }
-      if (invoice.client.address) {
-        doc.text(invoice.client.address, margin, yPos);
-        yPos += 5;
-      }
-      const addressParts = [
-        invoice.client.city,
-        invoice.client.state,
-        invoice.client.zip_code,
-      ].filter(Boolean);
-      if (addressParts.length > 0) {
-        doc.text(addressParts.join(", "), margin, yPos);
-        yPos += 5;
-      }
-    }
-    yPos += 10;
-
-    // Items table
-    doc.setFontSize(12);
-    doc.text("Items", margin, yPos);
-    yPos += 8;
-
-    // Table header
-    doc.setFontSize(9);
-    doc.text("Description", margin, yPos);
-    doc.text("Qty", margin + 80, yPos);
-    doc.text("Price", margin + 100, yPos);
-    doc.text("Total", pageWidth - margin - 20, yPos, { align: "right" });
-    yPos += 5;
-    doc.line(margin, yPos, pageWidth - margin, yPos);
-    yPos += 5;
-
-    // Table rows
-    invoice.items.forEach((item) => {
-      if (yPos > 250) {
-        doc.addPage();
-        yPos = margin;
-      }
-      doc.setFontSize(9);
-      doc.text(item.description.substring(0, 40), margin, yPos);
-      doc.text(item.quantity.toString(), margin + 80, yPos);
-      doc.text(`$${item.unit_price.toFixed(2)}`, margin + 100, yPos);
-      doc.text(`$${item.line_total.toFixed(2)}`, pageWidth - margin - 20, yPos, { align: "right" });
-      yPos += 6;
-    });
-
-    yPos += 5;
-    doc.line(margin, yPos, pageWidth - margin, yPos);
-    yPos += 8;
-
-    // Totals
-    doc.setFontSize(9);
-    doc.text("Subtotal:", pageWidth - margin - 50, yPos, { align: "right" });
-    doc.text(`$${invoice.subtotal.toFixed(2)}`, pageWidth - margin - 10, yPos, { align: "right" });
-    yPos += 6;
-    doc.text(`Tax (${invoice.tax_rate}%):`, pageWidth - margin - 50, yPos, { align: "right" });
-    doc.text(`$${invoice.tax_amount.toFixed(2)}`, pageWidth - margin - 10, yPos, { align: "right" });
-    yPos += 6;
-    if (invoice.discount_amount > 0) {
-      doc.text("Discount:", pageWidth - margin - 50, yPos, { align: "right" });
-      doc.text(`-$${invoice.discount_amount.toFixed(2)}`, pageWidth - margin - 10, yPos, { align: "right" });
-      yPos += 6;
-    }
-    doc.setFontSize(12);
-    doc.setFont("helvetica", "bold");
-    doc.text("Total:", pageWidth - margin - 50, yPos, { align: "right" });
-    doc.text(`$${invoice.total.toFixed(2)}`, pageWidth - margin - 10, yPos, { align: "right" });
-    doc.setFont("helvetica", "normal");
-
-    // Notes
-    if (invoice.notes) {
-      yPos += 15;
-      doc.setFontSize(10);
-      doc.text("Notes:", margin, yPos);
-      yPos += 5;
-      doc.setFontSize(9);
-      const splitNotes = doc.splitTextToSize(invoice.notes, pageWidth - 2 * margin);
-      doc.text(splitNotes, margin, yPos);
-    }
-
-    doc.save(`invoice-${invoice.invoice_number}.pdf`);
-    toast({
-      title: "Success",
-      description: "PDF downloaded successfully",
-    });
-  };
-
   const getStatusBadge = (status: string) => {
     const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
       draft: "outline",
       sent: "secondary",
+      partially_paid: "secondary",
       paid: "default",
       overdue: "destructive",
       cancelled: "outline",
@@ -250,7 +158,7 @@ export default function InvoiceViewPage() {
 
     return (
       <Badge variant={variants[status] || "outline"}>
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {getInvoiceStatusLabel(status)}
       </Badge>
     );
   };
@@ -271,6 +179,11 @@ export default function InvoiceViewPage() {
     );
   }
 
+  const supplyType =
+    invoice.tax_mode === "gst" && invoice.seller_gstin && invoice.place_of_supply
+      ? getSupplyType(getGstinStateCode(invoice.seller_gstin), invoice.place_of_supply)
+      : null;
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -282,25 +195,49 @@ export default function InvoiceViewPage() {
           </Button>
           <div>
             <h1 className="text-3xl font-bold">Invoice {invoice.invoice_number}</h1>
-            <div className="text-muted-foreground mt-2">
+            <div className="text-muted-foreground mt-2 flex items-center gap-3">
               {getStatusBadge(invoice.status)}
+              {invoice.recurring_invoice_id && (
+                <Link href={`/dashboard/invoices/recurring/${invoice.recurring_invoice_id}`} className="text-sm hover:underline">
+                  Issued from a recurring profile
+                </Link>
+              )}
             </div>
           </div>
         </div>
         <div className="flex gap-2">
-          <Button variant="outline" onClick={handleDownloadPDF}>
-            <Download className="mr-2 h-4 w-4" />
-            Download PDF
-          </Button>
           <Button variant="outline" asChild>
-            <Link href={`/dashboard/invoices/${invoice.id}/edit`}>
-              <Edit className="mr-2 h-4 w-4" />
-              Edit
-            </Link>
+            <a href={getDocumentUrl("invoice", invoice.id)} target="_blank" rel="noopener noreferrer">
+              <Download className="mr-2 h-4 w-4" />
+              Download PDF
+            </a>
           </Button>
+          {invoice.status !== "cancelled" && (
+            <Button variant="outline" onClick={() => setSendOpen(true)}>
+              <Send className="mr-2 h-4 w-4" />
+              Send
+            </Button>
+          )}
+          {/* Credited invoices are fixed; further changes go through credit notes */}
+          {invoice.credited_amount === 0 && invoice.status !== "cancelled" && (
+            <Button variant="outline" asChild>
+              <Link href={`/dashboard/invoices/${invoice.id}/edit`}>
+                <Edit className="mr-2 h-4 w-4" />
+                Edit
+              </Link>
+            </Button>
+          )}
+          {!["draft", "cancelled"].includes(invoice.status) && invoice.paid_amount === 0 && (
+            <Button variant="outline" onClick={() => setCancelOpen(true)}>
+              <Ban className="mr-2 h-4 w-4" />
+              Cancel Invoice
+            </Button>
+          )}
         </div>
       </div>
 
+      <NumberGapAlert type="invoice" number={invoice.invoice_number} />
+
       <div className="grid gap-6 lg:grid-cols-3">
         <Card className="lg:col-span-2">
           <CardHeader>
@@ -338,6 +275,38 @@ export default function InvoiceViewPage() {
                   {format(new Date(invoice.due_date), "MMM dd, yyyy")}
                 </p>
               </div>
+              {supplyType && (
+                <>
+                  <div>
+                    <p className="text-sm text-muted-foreground">GSTIN</p>
+                    <p className="font-medium">{invoice.seller_gstin}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Client GSTIN</p>
+                    <p className="font-medium">{invoice.buyer_gstin || "Unregistered"}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Place of Supply</p>
+                    <p className="font-medium">{getGstStateLabel(invoice.place_of_supply)}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Supply</p>
+                    <p className="font-medium">
+                      {supplyType === "intra_state" ? "Intra-state (CGST + SGST)" : "Inter-state (IGST)"}
+                    </p>
+                  </div>
+                </>
+              )}
+              {invoice.base_currency && invoice.base_currency !== invoice.currency && (
+                <div>
+                  <p className="text-sm text-muted-foreground">Exchange Rate</p>
+                  <p className="font-medium">
+                    {invoice.exchange_rate
+                      ? formatExchangeRate(invoice.exchange_rate, invoice.currency, invoice.base_currency)
+                      : `No ${invoice.base_currency} rate on the issue date`}
+                  </p>
+                </div>
+              )}
             </div>
 
             <div>
@@ -346,6 +315,8 @@ export default function InvoiceViewPage() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Description</TableHead>
+                    {supplyType && <TableHead>HSN/SAC</TableHead>}
+                    {supplyType && <TableHead className="text-right">GST</TableHead>}
                     <TableHead className="text-right">Quantity</TableHead>
                     <TableHead className="text-right">Unit Price</TableHead>
                     <TableHead className="text-right">Total</TableHead>
@@ -355,12 +326,14 @@ export default function InvoiceViewPage() {
                   {invoice.items.map((item) => (
                     <TableRow key={item.id}>
                       <TableCell>{item.description}</TableCell>
+                      {supplyType && <TableCell>{item.hsn_sac}</TableCell>}
+                      {supplyType && <TableCell className="text-right">{item.tax_rate}%</TableCell>}
                       <TableCell className="text-right">{item.quantity}</TableCell>
                       <TableCell className="text-right">
-                        ${item.unit_price.toFixed(2)}
+                        {formatCurrency(item.unit_price, invoice.currency)}
                       </TableCell>
                       <TableCell className="text-right">
-                        ${item.line_total.toFixed(2)}
+                        {formatCurrency(item.line_total, invoice.currency)}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -396,38 +369,86 @@ export default function InvoiceViewPage() {
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
                 <span className="text-muted-foreground">Subtotal:</span>
-                <span>${invoice.subtotal.toFixed(2)}</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">Tax ({invoice.tax_rate}%):</span>
-                <span>${invoice.tax_amount.toFixed(2)}</span>
+                <span>{formatCurrency(invoice.subtotal, invoice.currency)}</span>
               </div>
+              {supplyType === "inter_state" ? (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">IGST:</span>
+                  <span>{formatCurrency(invoice.igst_amount, invoice.currency)}</span>
+                </div>
+              ) : supplyType === "intra_state" ? (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">CGST:</span>
+                    <span>{formatCurrency(invoice.cgst_amount, invoice.currency)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">SGST:</span>
+                    <span>{formatCurrency(invoice.sgst_amount, invoice.currency)}</span>
+                  </div>
+                </>
+              ) : (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Tax ({invoice.tax_rate}%):</span>
+                  <span>{formatCurrency(invoice.tax_amount, invoice.currency)}</span>
+                </div>
+              )}
               {invoice.discount_amount > 0 && (
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Discount:</span>
-                  <span>-${invoice.discount_amount.toFixed(2)}</span>
+                  <span>-{formatCurrency(invoice.discount_amount, invoice.currency)}</span>
                 </div>
               )}
               <div className="border-t pt-2 flex justify-between font-bold">
                 <span>Total:</span>
-                <span>${invoice.total.toFixed(2)}</span>
+                <span>{formatCurrency(invoice.total, invoice.currency)}</span>
               </div>
+              {invoice.credited_amount > 0 && (
+                <div className="flex justify-between text-sm pt-2 border-t">
+                  <span className="text-muted-foreground">Credited:</span>
+                  <span>-{formatCurrency(invoice.credited_amount, invoice.currency)}</span>
+                </div>
+              )}
               {invoice.paid_amount > 0 && (
                 <div className="flex justify-between text-sm pt-2 border-t">
                   <span className="text-muted-foreground">Paid:</span>
-                  <span>${invoice.paid_amount.toFixed(2)}</span>
+                  <span>{formatCurrency(invoice.paid_amount, invoice.currency)}</span>
                 </div>
               )}
-              {invoice.total > invoice.paid_amount && (
+              {invoice.total > invoice.paid_amount + invoice.credited_amount && (
                 <div className="flex justify-between text-sm text-destructive">
                   <span>Balance Due:</span>
-                  <span>${(invoice.total - invoice.paid_amount).toFixed(2)}</span>
+                  <span>{formatCurrency(invoice.total - invoice.paid_amount - invoice.credited_amount, invoice.currency)}</span>
                 </div>
               )}
             </div>
           </CardContent>
         </Card>
       </div>
+
+      <InvoicePaymentsCard invoice={invoice} onChange={fetchInvoice} />
+
+      <CreditNotesCard invoice={invoice} />
+
+      <PaymentRemindersCard filter={{ invoiceId: invoice.id }} currency={invoice.currency} />
+
+      <CancelInvoiceDialog
+        invoiceId={invoice.id}
+        invoiceNumber={invoice.invoice_number}
+        open={cancelOpen}
+        onOpenChange={setCancelOpen}
+        onCancelled={fetchInvoice}
+      />
+
+      <SendDocumentDialog
+        type="invoice"
+        documentId={invoice.id}
+        reference={invoice.invoice_number}
+        defaultTo={invoice.client?.email ?? null}
+        open={sendOpen}
+        onOpenChange={setSendOpen}
+        onSent={fetchInvoice}
+      />
     </div>
   );
 }
@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, Download } from "lucide-react";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { endOfMonth, format, parseISO, subMonths } from "date-fns";
+import {
+  GSTR1_HEADERS,
+  GSTR1_SECTIONS,
+  GSTR1_SECTION_LABELS,
+  buildGstr1Report,
+  fetchGstr1Documents,
+  type Gstr1Report,
+  type Gstr1Section,
+} from "@/lib/invoices/gstr1";
+import { toCsv } from "@/lib/documents/csv";
+
+export default function Gstr1Page() {
+  // Returns are filed for the previous month
+  const [period, setPeriod] = useState(format(subMonths(new Date(), 1), "yyyy-MM"));
+  const [report, setReport] = useState<Gstr1Report | null>(null);
+  const [counts, setCounts] = useState({ invoices: 0, creditNotes: 0 });
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (period) {
+      fetchReport();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [period]);
+
+  const fetchReport = async () => {
+    setLoading(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const from = `${period}-01`;
+      const to = format(endOfMonth(parseISO(from)), "yyyy-MM-dd");
+      const { invoices, creditNotes } = await fetchGstr1Documents(supabase, user.id, from, to);
+
+      setReport(buildGstr1Report(invoices, creditNotes));
+      setCounts({ invoices: invoices.length, creditNotes: creditNotes.length });
+    } catch (error) {
+      console.error("Error building GSTR-1:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load outward supplies",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadSection = (section: Gstr1Section) => {
+    if (!report) return;
+    const blob = new Blob([toCsv(GSTR1_HEADERS[section], report[section])], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `gstr1-${period}-${section}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard/invoices">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">GSTR-1 Export</h1>
+            <p className="text-muted-foreground mt-2">
+              Outward supplies from GST invoices and credit notes, in the GST offline tool&apos;s CSV format
+            </p>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="period">Return Period</Label>
+          <Input id="period" type="month" value={period} onChange={(e) => setPeriod(e.target.value)} />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{period ? format(parseISO(`${period}-01`), "MMMM yyyy") : "Select a period"}</CardTitle>
+          <CardDescription>
+            {counts.invoices} invoice{counts.invoices !== 1 ? "s" : ""} and {counts.creditNotes} credit note
+            {counts.creditNotes !== 1 ? "s" : ""} issued in this period. Drafts are left out.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">Loading outward supplies...</p>
+            </div>
+          ) : !report ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">No report for this period</p>
+            </div>
+          ) : (
+            <Tabs defaultValue="b2b">
+              <TabsList className="flex-wrap h-auto">
+                {GSTR1_SECTIONS.map((section) => (
+                  <TabsTrigger key={section} value={section}>
+                    {GSTR1_SECTION_LABELS[section]} ({report[section].length})
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              {GSTR1_SECTIONS.map((section) => (
+                <TabsContent key={section} value={section} className="space-y-4">
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => downloadSection(section)}
+                      disabled={report[section].length === 0}
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      Download CSV
+                    </Button>
+                  </div>
+                  {report[section].length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">Nothing to report</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            {GSTR1_HEADERS[section].map((header) => (
+                              <TableHead key={header} className="whitespace-nowrap">
+                                {header}
+                              </TableHead>
+                            ))}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {report[section].map((row, index) => (
+                            <TableRow key={index}>
+                              {row.map((value, column) => (
+                                <TableCell key={column} className="whitespace-nowrap">
+                                  {value}
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </TabsContent>
+              ))}
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
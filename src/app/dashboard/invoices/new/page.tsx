@@ -13,16 +13,34 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { allocateDocumentNumber, previewDocumentNumber } from "@/lib/documents/numbering";
+import { fetchBranding } from "@/lib/documents/branding";
+import { CURRENCY_CODES, DEFAULT_CURRENCY, formatCurrency, getCurrencyLabel } from "@/lib/currency/currencies";
+import { snapshotExchangeRate } from "@/lib/currency/rates";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+import {
+  GST_RATES,
+  GST_STATES,
+  TAX_MODES,
+  TAX_MODE_LABELS,
+  calculateGstTotals,
+  getGstInvoiceError,
+  getGstinStateCode,
+  getSupplyType,
+  normalizeGstin,
+} from "@/lib/invoices/gst";
 import { Plus, Trash2, ArrowLeft } from "lucide-react";
 import Link from "next/link";
 
 const invoiceSchema = z.object({
   client_id: z.string().optional(),
-  invoice_number: z.string().min(1, "Invoice number is required"),
   issue_date: z.string().min(1, "Issue date is required"),
   due_date: z.string().min(1, "Due date is required"),
-  status: z.enum(["draft", "sent", "paid", "overdue", "cancelled"]),
-  currency: z.string().default("USD"),
+  status: z.enum(["draft", "sent"]),
+  currency: z.string().default(DEFAULT_CURRENCY),
+  tax_mode: z.enum(TAX_MODES).default("standard"),
+  buyer_gstin: z.string().optional(),
+  place_of_supply: z.string().optional(),
   tax_rate: z.number().min(0).max(100).default(0),
   discount: z.number().min(0).default(0),
   discount_type: z.enum(["amount", "percentage"]).default("amount"),
@@ -31,6 +49,7 @@ const invoiceSchema = z.object({
   items: z.array(
     z.object({
       description: z.string().min(1, "Description is required"),
+      hsn_sac: z.string().optional(),
       quantity: z.number().min(0.01, "Quantity must be greater than 0"),
       unit_price: z.number().min(0, "Unit price must be 0 or greater"),
       tax_rate: z.number().min(0).max(100).default(0),
@@ -43,8 +62,13 @@ type InvoiceFormData = z.input<typeof invoiceSchema>;
 export default function NewInvoicePage() {
   const router = useRouter();
   const { toast } = useToast();
-  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([]);
+  const [clients, setClients] = useState<
+    Array<{ id: string; name: string; gstin: string | null; gst_state_code: string | null }>
+  >([]);
   const [loading, setLoading] = useState(false);
+  const [nextNumber, setNextNumber] = useState("");
+  const [sellerGstin, setSellerGstin] = useState<string | null>(null);
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
 
   const {
     register,
@@ -56,17 +80,18 @@ export default function NewInvoicePage() {
   } = useForm({
     resolver: zodResolver(invoiceSchema),
     defaultValues: {
-      invoice_number: `INV-${Date.now()}`,
       issue_date: new Date().toISOString().split("T")[0],
       due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split("T")[0],
       status: "draft",
-      currency: "USD",
+      currency: baseCurrency,
+      tax_mode: "standard",
       tax_rate: 0,
       discount: 0,
       discount_type: "amount",
       items: [
         {
           description: "",
+          hsn_sac: "",
           quantity: 1,
           unit_price: 0,
           tax_rate: 0,
@@ -84,17 +109,44 @@ export default function NewInvoicePage() {
   const watchedTaxRate = watch("tax_rate");
   const watchedDiscount = watch("discount");
   const watchedDiscountType = watch("discount_type");
+  const watchedIssueDate = watch("issue_date");
+  const watchedTaxMode = watch("tax_mode");
+  const watchedPlaceOfSupply = watch("place_of_supply");
+  const watchedCurrency = watch("currency") || baseCurrency;
+  const isGst = watchedTaxMode === "gst";
+  const supplyType =
+    sellerGstin && watchedPlaceOfSupply ? getSupplyType(getGstinStateCode(sellerGstin), watchedPlaceOfSupply) : null;
 
   useEffect(() => {
     fetchClients();
+    fetchSellerGstin();
   }, []);
 
+  // The number depends on the issue date when the format includes the fiscal year
+  useEffect(() => {
+    const loadNextNumber = async () => {
+      try {
+        const supabase = createSupabaseBrowserClient();
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+
+        if (!user || !watchedIssueDate) return;
+        setNextNumber(await previewDocumentNumber(supabase, user.id, "invoice", watchedIssueDate));
+      } catch (error) {
+        console.error("Error fetching next invoice number:", error);
+      }
+    };
+
+    loadNextNumber();
+  }, [watchedIssueDate]);
+
   const fetchClients = async () => {
     try {
       const supabase = createSupabaseBrowserClient();
       const { data, error } = await supabase
         .from("clients")
-        .select("id, name")
+        .select("id, name, gstin, gst_state_code")
         .order("name");
 
       if (error) throw error;
@@ -104,7 +156,46 @@ export default function NewInvoicePage() {
     }
   };
 
+  const fetchSellerGstin = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) return;
+      setSellerGstin((await fetchBranding(supabase, user.id)).gstin);
+    } catch (error) {
+      console.error("Error fetching organization GSTIN:", error);
+    }
+  };
+
+  // The client's GSTIN and state fill in the buyer details of a GST invoice
+  const handleClientChange = (value: string) => {
+    const client = clients.find((entry) => entry.id === value);
+    setValue("client_id", client?.id);
+    setValue("buyer_gstin", client?.gstin || "");
+    setValue("place_of_supply", client?.gst_state_code || undefined);
+  };
+
+  const handleTaxModeChange = (value: string) => {
+    setValue("tax_mode", value as InvoiceFormData["tax_mode"]);
+    if (value === "gst") {
+      setValue("currency", "INR");
+      setValue("tax_rate", 0);
+    }
+  };
+
   const calculateTotals = () => {
+    if (isGst) {
+      return calculateGstTotals(
+        watchedItems,
+        { discount: watchedDiscount, discount_type: watchedDiscountType ?? "amount" },
+        supplyType ?? "intra_state"
+      );
+    }
+
+
     let subtotal = 0;
     let totalTax = 0;
 
@@ -148,8 +239,16 @@ export default function NewInvoicePage() {
 
       if (!user) throw new Error("User not authenticated");
 
+      const gstError = data.tax_mode === "gst" ? getGstInvoiceError({ ...data, seller_gstin: sellerGstin }) : null;
+      if (gstError) throw new Error(gstError);
+
       // Calculate totals
-      const { subtotal, tax, discount, total } = calculateTotals();
+      const totals = calculateTotals();
+      const { subtotal, tax, discount, total } = totals;
+      const gst = "lines" in totals ? totals : null;
+
+      const invoiceNumber = await allocateDocumentNumber(supabase, user.id, "invoice", data.issue_date);
+      const snapshot = await snapshotExchangeRate(supabase, user.id, data.currency, data.issue_date);
 
       // Create invoice
       const { data: invoice, error: invoiceError } = await supabase
@@ -157,12 +256,20 @@ export default function NewInvoicePage() {
         .insert({
           user_id: user.id,
           client_id: data.client_id || null,
-          invoice_number: data.invoice_number,
+          invoice_number: invoiceNumber,
           issue_date: data.issue_date,
           due_date: data.due_date,
           status: data.status,
           currency: data.currency,
-          tax_rate: data.tax_rate,
+          ...snapshot,
+          tax_mode: data.tax_mode,
+          seller_gstin: gst ? sellerGstin : null,
+          buyer_gstin: gst && data.buyer_gstin ? normalizeGstin(data.buyer_gstin) : null,
+          place_of_supply: gst ? data.place_of_supply : null,
+          cgst_amount: gst?.cgst ?? 0,
+          sgst_amount: gst?.sgst ?? 0,
+          igst_amount: gst?.igst ?? 0,
+          tax_rate: gst ? 0 : data.tax_rate,
           discount: data.discount,
           discount_type: data.discount_type,
           subtotal,
@@ -181,10 +288,12 @@ export default function NewInvoicePage() {
       const items = data.items.map((item, index) => ({
         invoice_id: invoice.id,
         description: item.description,
+        hsn_sac: gst ? item.hsn_sac || null : null,
         quantity: item.quantity,
         unit_price: item.unit_price,
         tax_rate: item.tax_rate,
         line_total: item.quantity * item.unit_price,
+        taxable_value: gst ? gst.lines[index].taxable_value : null,
         sort_order: index,
       }));
 
@@ -240,7 +349,7 @@ export default function NewInvoicePage() {
                 <div className="space-y-2">
                   <Label htmlFor="client_id">Client</Label>
                   <Select
-                    onValueChange={(value) => setValue("client_id", value === "none" ? undefined : value)}
+                    onValueChange={handleClientChange}
                     value={watch("client_id") || "none"}
                   >
                     <SelectTrigger>
@@ -258,19 +367,11 @@ export default function NewInvoicePage() {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="invoice_number">
-                    Invoice Number <span className="text-destructive">*</span>
-                  </Label>
-                  <Input
-                    id="invoice_number"
-                    {...register("invoice_number")}
-                    placeholder="INV-001"
-                  />
-                  {errors.invoice_number && (
-                    <p className="text-sm text-destructive">
-                      {errors.invoice_number.message}
-                    </p>
-                  )}
+                  <Label htmlFor="invoice_number">Invoice Number</Label>
+                  <Input id="invoice_number" value={nextNumber} disabled />
+                  <p className="text-xs text-muted-foreground">
+                    Assigned from your numbering sequence when the invoice is saved
+                  </p>
                 </div>
 
                 <div className="space-y-2">
@@ -319,9 +420,6 @@ export default function NewInvoicePage() {
                     <SelectContent>
                       <SelectItem value="draft">Draft</SelectItem>
                       <SelectItem value="sent">Sent</SelectItem>
-                      <SelectItem value="paid">Paid</SelectItem>
-                      <SelectItem value="overdue">Overdue</SelectItem>
-                      <SelectItem value="cancelled">Cancelled</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -329,22 +427,85 @@ export default function NewInvoicePage() {
                 <div className="space-y-2">
                   <Label htmlFor="currency">Currency</Label>
                   <Select
-                    defaultValue="USD"
+                    value={watchedCurrency}
                     onValueChange={(value) => setValue("currency", value)}
+                    disabled={isGst}
                   >
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="USD">USD ($)</SelectItem>
-                      <SelectItem value="EUR">EUR (€)</SelectItem>
-                      <SelectItem value="GBP">GBP (£)</SelectItem>
-                      <SelectItem value="INR">INR (₹)</SelectItem>
+                      {CURRENCY_CODES.map((code) => (
+                        <SelectItem key={code} value={code}>
+                          {getCurrencyLabel(code)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="tax_mode">Invoice Type</Label>
+                  <Select value={watchedTaxMode} onValueChange={handleTaxModeChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TAX_MODES.map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {TAX_MODE_LABELS[mode]}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  {isGst && (
+                    <p className="text-xs text-muted-foreground">
+                      {sellerGstin ? `Issued under GSTIN ${sellerGstin}` : "Add your GSTIN in Settings first"}
+                    </p>
+                  )}
                 </div>
               </div>
 
+              {isGst && (
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="buyer_gstin">Client GSTIN</Label>
+                    <Input
+                      id="buyer_gstin"
+                      {...register("buyer_gstin")}
+                      placeholder="Leave blank for unregistered clients"
+                      className="uppercase"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>
+                      Place of Supply <span className="text-destructive">*</span>
+                    </Label>
+                    <Select
+                      value={watchedPlaceOfSupply || ""}
+                      onValueChange={(value) => setValue("place_of_supply", value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a state" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(GST_STATES).map(([code, name]) => (
+                          <SelectItem key={code} value={code}>
+                            {code} - {name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {supplyType && (
+                      <p className="text-xs text-muted-foreground">
+                        {supplyType === "intra_state" ? "Intra-state supply: CGST + SGST" : "Inter-state supply: IGST"}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="notes">Notes</Label>
                 <Textarea
@@ -373,17 +534,19 @@ export default function NewInvoicePage() {
               <CardDescription>Pricing and tax information</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="tax_rate">Tax Rate (%)</Label>
-                <Input
-                  id="tax_rate"
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  max="100"
-                  {...register("tax_rate", { valueAsNumber: true })}
-                />
-              </div>
+              {!isGst && (
+                <div className="space-y-2">
+                  <Label htmlFor="tax_rate">Tax Rate (%)</Label>
+                  <Input
+                    id="tax_rate"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    {...register("tax_rate", { valueAsNumber: true })}
+                  />
+                </div>
+              )}
 
               <div className="space-y-2">
                 <Label htmlFor="discount">Discount</Label>
@@ -415,19 +578,39 @@ export default function NewInvoicePage() {
               <div className="border-t pt-4 space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Subtotal:</span>
-                  <span>${totals.subtotal.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Tax:</span>
-                  <span>${totals.tax.toFixed(2)}</span>
+                  <span>{formatCurrency(totals.subtotal, watchedCurrency)}</span>
                 </div>
+                {"lines" in totals ? (
+                  supplyType === "inter_state" ? (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">IGST:</span>
+                      <span>{formatCurrency(totals.igst, watchedCurrency)}</span>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">CGST:</span>
+                        <span>{formatCurrency(totals.cgst, watchedCurrency)}</span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">SGST:</span>
+                        <span>{formatCurrency(totals.sgst, watchedCurrency)}</span>
+                      </div>
+                    </>
+                  )
+                ) : (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Tax:</span>
+                    <span>{formatCurrency(totals.tax, watchedCurrency)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Discount:</span>
-                  <span>-${totals.discount.toFixed(2)}</span>
+                  <span>-{formatCurrency(totals.discount, watchedCurrency)}</span>
                 </div>
                 <div className="flex justify-between text-lg font-bold pt-2 border-t">
                   <span>Total:</span>
-                  <span>${totals.total.toFixed(2)}</span>
+                  <span>{formatCurrency(totals.total, watchedCurrency)}</span>
                 </div>
               </div>
             </CardContent>
@@ -448,6 +631,7 @@ export default function NewInvoicePage() {
                 onClick={() =>
                   append({
                     description: "",
+                    hsn_sac: "",
                     quantity: 1,
                     unit_price: 0,
                     tax_rate: 0,
@@ -466,7 +650,7 @@ export default function NewInvoicePage() {
                   key={field.id}
                   className="grid gap-4 p-4 border rounded-lg md:grid-cols-12"
                 >
-                  <div className="md:col-span-5 space-y-2">
+                  <div className={`${isGst ? "md:col-span-3" : "md:col-span-5"} space-y-2`}>
                     <Label>Description</Label>
                     <Input
                       {...register(`items.${index}.description`)}
@@ -478,6 +662,12 @@ export default function NewInvoicePage() {
                       </p>
                     )}
                   </div>
+                  {isGst && (
+                    <div className="md:col-span-2 space-y-2">
+                      <Label>HSN/SAC</Label>
+                      <Input {...register(`items.${index}.hsn_sac`)} placeholder="997212" />
+                    </div>
+                  )}
                   <div className="md:col-span-2 space-y-2">
                     <Label>Quantity</Label>
                     <Input
@@ -511,16 +701,34 @@ export default function NewInvoicePage() {
                     )}
                   </div>
                   <div className="md:col-span-2 space-y-2">
-                    <Label>Tax Rate (%)</Label>
-                    <Input
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      max="100"
-                      {...register(`items.${index}.tax_rate`, {
-                        valueAsNumber: true,
-                      })}
-                    />
+                    <Label>{isGst ? "GST Rate (%)" : "Tax Rate (%)"}</Label>
+                    {isGst ? (
+                      <Select
+                        value={String(watchedItems[index]?.tax_rate ?? 0)}
+                        onValueChange={(value) => setValue(`items.${index}.tax_rate`, Number(value))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {GST_RATES.map((rate) => (
+                            <SelectItem key={rate} value={String(rate)}>
+                              {rate}%
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        max="100"
+                        {...register(`items.${index}.tax_rate`, {
+                          valueAsNumber: true,
+                        })}
+                      />
+                    )}
                   </div>
                   <div className="md:col-span-1 flex items-end">
                     <Button
@@ -534,11 +742,12 @@ export default function NewInvoicePage() {
                     </Button>
                   </div>
                   <div className="md:col-span-12 text-right text-sm text-muted-foreground">
-                    Line Total: $
-                    {(
+                    Line Total:{" "}
+                    {formatCurrency(
                       (watchedItems[index]?.quantity || 0) *
-                      (watchedItems[index]?.unit_price || 0)
-                    ).toFixed(2)}
+                      (watchedItems[index]?.unit_price || 0),
+                      watchedCurrency
+                    )}
                   </div>
                 </div>
               ))}
@@ -6,10 +6,14 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Plus, FileText, Eye, Edit, Trash2 } from "lucide-react";
+import { Plus, FileText, Eye, Edit, Trash2, Repeat, Ban, FileSpreadsheet, Hourglass } from "lucide-react";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { formatCurrency } from "@/lib/currency/currencies";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
+import { getInvoiceStatusLabel } from "@/lib/invoices/payments";
+import { CancelInvoiceDialog } from "@/components/invoices/CancelInvoiceDialog";
+import { InvoiceTotalsCard } from "@/components/invoices/InvoiceTotalsCard";
 
 interface Invoice {
   id: string;
@@ -18,7 +22,9 @@ interface Invoice {
   issue_date: string;
   due_date: string;
   total: number;
+  currency: string;
   paid_amount: number;
+  credited_amount: number;
   client: {
     name: string;
     email: string;
@@ -28,6 +34,7 @@ interface Invoice {
 export default function InvoicesPage() {
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [loading, setLoading] = useState(true);
+  const [cancelling, setCancelling] = useState<Invoice | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -47,7 +54,9 @@ export default function InvoicesPage() {
           issue_date,
           due_date,
           total,
+          currency,
           paid_amount,
+          credited_amount,
           clients:client_id (
             name,
             email
@@ -64,7 +73,9 @@ export default function InvoicesPage() {
         issue_date: string;
         due_date: string;
         total: number;
+        currency: string;
         paid_amount: number;
+        credited_amount: number;
         clients?: { name: string; email: string }[] | { name: string; email: string } | null;
       }
 
@@ -89,14 +100,21 @@ export default function InvoicesPage() {
     }
   };
 
+  // Only drafts were never issued; issued invoices are cancelled with a credit note instead
   const handleDelete = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this invoice?")) return;
+    if (!confirm("Are you sure you want to delete this draft invoice?")) return;
 
     try {
       const supabase = createSupabaseBrowserClient();
-      const { error } = await supabase.from("invoices").delete().eq("id", id);
+      const { data, error } = await supabase
+        .from("invoices")
+        .delete()
+        .eq("id", id)
+        .eq("status", "draft")
+        .select("id");
 
       if (error) throw error;
+      if (!data?.length) throw new Error("Only draft invoices can be deleted");
 
       toast({
         title: "Success",
@@ -108,7 +126,7 @@ export default function InvoicesPage() {
       console.error("Error deleting invoice:", error);
       toast({
         title: "Error",
-        description: "Failed to delete invoice",
+        description: error instanceof Error ? error.message : "Failed to delete invoice",
         variant: "destructive",
       });
     }
@@ -118,6 +136,7 @@ export default function InvoicesPage() {
     const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
       draft: "outline",
       sent: "secondary",
+      partially_paid: "secondary",
       paid: "default",
       overdue: "destructive",
       cancelled: "outline",
@@ -125,7 +144,7 @@ export default function InvoicesPage() {
 
     return (
       <Badge variant={variants[status] || "outline"}>
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {getInvoiceStatusLabel(status)}
       </Badge>
     );
   };
@@ -139,14 +158,36 @@ export default function InvoicesPage() {
             Manage and track all your invoices
           </p>
         </div>
-        <Button asChild>
-          <Link href="/dashboard/invoices/new">
-            <Plus className="mr-2 h-4 w-4" />
-            Create Invoice
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/invoices/recurring">
+              <Repeat className="mr-2 h-4 w-4" />
+              Recurring
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/receivables">
+              <Hourglass className="mr-2 h-4 w-4" />
+              Aging
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/invoices/gstr1">
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              GSTR-1
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link href="/dashboard/invoices/new">
+              <Plus className="mr-2 h-4 w-4" />
+              Create Invoice
+            </Link>
+          </Button>
+        </div>
       </div>
 
+      <InvoiceTotalsCard />
+
       <Card>
         <CardHeader>
           <CardTitle>All Invoices</CardTitle>
@@ -184,6 +225,7 @@ export default function InvoicesPage() {
                   <TableHead>Status</TableHead>
                   <TableHead className="text-right">Amount</TableHead>
                   <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Credited</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -204,10 +246,13 @@ export default function InvoicesPage() {
                     </TableCell>
                     <TableCell>{getStatusBadge(invoice.status)}</TableCell>
                     <TableCell className="text-right">
-                      ${invoice.total.toFixed(2)}
+                      {formatCurrency(invoice.total, invoice.currency)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(invoice.paid_amount, invoice.currency)}
                     </TableCell>
                     <TableCell className="text-right">
-                      ${invoice.paid_amount.toFixed(2)}
+                      {invoice.credited_amount > 0 ? formatCurrency(invoice.credited_amount, invoice.currency) : "-"}
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
@@ -220,22 +265,35 @@ export default function InvoicesPage() {
                             <Eye className="h-4 w-4" />
                           </Link>
                         </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          asChild
-                        >
-                          <Link href={`/dashboard/invoices/${invoice.id}/edit`}>
-                            <Edit className="h-4 w-4" />
-                          </Link>
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleDelete(invoice.id)}
-                        >
-                          <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
+                        {invoice.credited_amount === 0 && invoice.status !== "cancelled" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            asChild
+                          >
+                            <Link href={`/dashboard/invoices/${invoice.id}/edit`}>
+                              <Edit className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                        )}
+                        {invoice.status === "draft" ? (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDelete(invoice.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        ) : invoice.status !== "cancelled" && invoice.paid_amount === 0 ? (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Cancel invoice"
+                            onClick={() => setCancelling(invoice)}
+                          >
+                            <Ban className="h-4 w-4 text-destructive" />
+                          </Button>
+                        ) : null}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -245,6 +303,16 @@ export default function InvoicesPage() {
           )}
         </CardContent>
       </Card>
+
+      {cancelling && (
+        <CancelInvoiceDialog
+          invoiceId={cancelling.id}
+          invoiceNumber={cancelling.invoice_number}
+          open={cancelling !== null}
+          onOpenChange={(open) => !open && setCancelling(null)}
+          onCancelled={fetchInvoices}
+        />
+      )}
     </div>
   );
 }
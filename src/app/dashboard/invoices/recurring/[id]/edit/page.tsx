@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft } from "lucide-react";
+import {
+  RecurringInvoiceForm,
+  toRecurringProfileInput,
+  type RecurringInvoiceFormData,
+} from "@/components/invoices/RecurringInvoiceForm";
+import {
+  RECURRING_PROFILE_COLUMNS,
+  fetchRecurringItems,
+  updateRecurringProfile,
+  type RecurringInvoiceProfile,
+} from "@/lib/invoices/recurring";
+
+export default function EditRecurringInvoicePage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const [profile, setProfile] = useState<RecurringInvoiceProfile | null>(null);
+  const [defaultValues, setDefaultValues] = useState<RecurringInvoiceFormData | null>(null);
+  const [fetching, setFetching] = useState(true);
+
+  useEffect(() => {
+    if (params.id) {
+      fetchProfile();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params.id]);
+
+  const fetchProfile = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const [{ data, error }, items] = await Promise.all([
+        supabase
+          .from("recurring_invoices")
+          .select(RECURRING_PROFILE_COLUMNS)
+          .eq("id", params.id)
+          .single<RecurringInvoiceProfile>(),
+        fetchRecurringItems(supabase, params.id as string),
+      ]);
+
+      if (error) throw error;
+
+      setProfile(data);
+      setDefaultValues({
+        name: data.name,
+        client_id: data.client_id || undefined,
+        frequency: data.frequency,
+        day_of_month: data.day_of_month,
+        start_date: data.start_date,
+        end_date: data.end_date || "",
+        due_days: data.due_days,
+        invoice_status: data.invoice_status,
+        currency: data.currency,
+        tax_rate: Number(data.tax_rate),
+        discount: Number(data.discount),
+        discount_type: data.discount_type,
+        notes: data.notes || "",
+        terms: data.terms || "",
+        items,
+      });
+    } catch (error) {
+      console.error("Error fetching recurring invoice:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load recurring invoice",
+        variant: "destructive",
+      });
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const onSubmit = async (data: RecurringInvoiceFormData) => {
+    if (!profile) return;
+
+    try {
+      const supabase = createSupabaseBrowserClient();
+      await updateRecurringProfile(supabase, profile, toRecurringProfileInput(data), data.items);
+
+      toast({
+        title: "Success",
+        description: "Recurring invoice updated successfully",
+      });
+
+      router.push(`/dashboard/invoices/recurring/${profile.id}`);
+    } catch (error) {
+      console.error("Error updating recurring invoice:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update recurring invoice",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (fetching) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Loading recurring invoice...</p>
+      </div>
+    );
+  }
+
+  if (!profile || !defaultValues) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Recurring invoice not found</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href={`/dashboard/invoices/recurring/${profile.id}`}>
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Edit {profile.name}</h1>
+          <p className="text-muted-foreground mt-2">
+            Changes apply to invoices issued from now on
+          </p>
+        </div>
+      </div>
+
+      <RecurringInvoiceForm
+        defaultValues={defaultValues}
+        submitLabel="Save Changes"
+        onSubmit={onSubmit}
+        onCancel={() => router.push(`/dashboard/invoices/recurring/${profile.id}`)}
+      />
+    </div>
+  );
+}
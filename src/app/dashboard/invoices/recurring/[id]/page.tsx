@@ -0,0 +1,353 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ArrowLeft, Edit, Pause, Play, Trash2 } from "lucide-react";
+import {
+  RECURRING_FREQUENCY_LABELS,
+  RECURRING_PROFILE_COLUMNS,
+  fetchRecurringItems,
+  setRecurringProfileActive,
+  type RecurringInvoiceItem,
+  type RecurringInvoiceProfile,
+} from "@/lib/invoices/recurring";
+import { getInvoiceStatusLabel } from "@/lib/invoices/payments";
+import { calculateInvoiceTotals } from "@/lib/invoices/totals";
+
+interface GeneratedInvoice {
+  id: string;
+  invoice_number: string;
+  issue_date: string;
+  due_date: string;
+  status: string;
+  total: number;
+}
+
+const getStatusBadge = (status: string) => {
+  const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+    draft: "outline",
+    sent: "secondary",
+    partially_paid: "secondary",
+    paid: "default",
+    overdue: "destructive",
+    cancelled: "outline",
+  };
+
+  return (
+    <Badge variant={variants[status] || "outline"}>
+      {getInvoiceStatusLabel(status)}
+    </Badge>
+  );
+};
+
+export default function RecurringInvoicePage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const [profile, setProfile] = useState<RecurringInvoiceProfile | null>(null);
+  const [clientName, setClientName] = useState<string | null>(null);
+  const [items, setItems] = useState<RecurringInvoiceItem[]>([]);
+  const [invoices, setInvoices] = useState<GeneratedInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    if (params.id) {
+      fetchProfile();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params.id]);
+
+  const fetchProfile = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const [profileResult, itemsData, invoicesResult] = await Promise.all([
+        supabase
+          .from("recurring_invoices")
+          .select(`${RECURRING_PROFILE_COLUMNS}, clients:client_id (name)`)
+          .eq("id", params.id)
+          .single(),
+        fetchRecurringItems(supabase, params.id as string),
+        supabase
+          .from("invoices")
+          .select("id, invoice_number, issue_date, due_date, status, total")
+          .eq("recurring_invoice_id", params.id)
+          .order("issue_date", { ascending: false }),
+      ]);
+
+      if (profileResult.error) throw profileResult.error;
+      if (invoicesResult.error) throw invoicesResult.error;
+
+      const { clients, ...profileData } = profileResult.data;
+      const client = Array.isArray(clients) ? clients[0] : clients;
+
+      setProfile(profileData as RecurringInvoiceProfile);
+      setClientName(client?.name ?? null);
+      setItems(itemsData);
+      setInvoices(invoicesResult.data || []);
+    } catch (error) {
+      console.error("Error fetching recurring invoice:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load recurring invoice",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleActive = async () => {
+    if (!profile) return;
+
+    setUpdating(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      await setRecurringProfileActive(supabase, profile, !profile.active);
+
+      toast({
+        title: "Success",
+        description: profile.active ? "Recurring invoice paused" : "Recurring invoice resumed",
+      });
+      fetchProfile();
+    } catch (error) {
+      console.error("Error updating recurring invoice:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update recurring invoice",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!profile) return;
+    if (!confirm("Delete this recurring invoice? Invoices already issued are kept.")) return;
+
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const { error } = await supabase.from("recurring_invoices").delete().eq("id", profile.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Recurring invoice deleted successfully",
+      });
+      router.push("/dashboard/invoices/recurring");
+    } catch (error) {
+      console.error("Error deleting recurring invoice:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete recurring invoice",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Loading recurring invoice...</p>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Recurring invoice not found</p>
+      </div>
+    );
+  }
+
+  const totals = calculateInvoiceTotals(items, profile);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard/invoices/recurring">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">{profile.name}</h1>
+            <div className="text-muted-foreground mt-2">
+              {profile.active ? (
+                <Badge variant="default">Active</Badge>
+              ) : (
+                <Badge variant="outline">Paused</Badge>
+              )}
+            </div>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleToggleActive} disabled={updating}>
+            {profile.active ? <Pause className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
+            {profile.active ? "Pause" : "Resume"}
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href={`/dashboard/invoices/recurring/${profile.id}/edit`}>
+              <Edit className="mr-2 h-4 w-4" />
+              Edit
+            </Link>
+          </Button>
+          <Button variant="outline" onClick={handleDelete}>
+            <Trash2 className="mr-2 h-4 w-4 text-destructive" />
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Schedule</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-2 text-sm">
+              <div>
+                <p className="text-muted-foreground">Client</p>
+                <p className="font-medium">{clientName || "No client"}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Frequency</p>
+                <p className="font-medium">
+                  {RECURRING_FREQUENCY_LABELS[profile.frequency]}, on day {profile.day_of_month}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Runs</p>
+                <p className="font-medium">
+                  {format(new Date(profile.start_date), "MMM dd, yyyy")} -{" "}
+                  {profile.end_date ? format(new Date(profile.end_date), "MMM dd, yyyy") : "No end date"}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Next Invoice</p>
+                <p className="font-medium">
+                  {!profile.active
+                    ? "Paused"
+                    : profile.next_issue_date
+                      ? format(new Date(profile.next_issue_date), "MMM dd, yyyy")
+                      : "Schedule finished"}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Payment Due</p>
+                <p className="font-medium">{profile.due_days} days after issue</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Generated Invoices</p>
+                <p className="font-medium">
+                  {profile.invoice_status === "sent" ? "Marked as sent" : "Kept as draft"}
+                </p>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Unit Price</TableHead>
+                  <TableHead className="text-right">Tax</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{item.description}</TableCell>
+                    <TableCell className="text-right">{item.quantity}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.unit_price, profile.currency)}</TableCell>
+                    <TableCell className="text-right">{item.tax_rate}%</TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.quantity * item.unit_price, profile.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Per Invoice</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Subtotal:</span>
+              <span>{formatCurrency(totals.subtotal, profile.currency)}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Tax:</span>
+              <span>{formatCurrency(totals.tax, profile.currency)}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Discount:</span>
+              <span>-{formatCurrency(totals.discount, profile.currency)}</span>
+            </div>
+            <div className="flex justify-between text-lg font-bold pt-2 border-t">
+              <span>Total:</span>
+              <span>{formatCurrency(totals.total, profile.currency)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Issued Invoices</CardTitle>
+          <CardDescription>
+            {invoices.length} invoice{invoices.length !== 1 ? "s" : ""} generated from this profile
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {invoices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No invoices have been issued yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice #</TableHead>
+                  <TableHead>Issue Date</TableHead>
+                  <TableHead>Due Date</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.map((invoice) => (
+                  <TableRow key={invoice.id}>
+                    <TableCell className="font-medium">
+                      <Link href={`/dashboard/invoices/${invoice.id}`} className="hover:underline">
+                        {invoice.invoice_number}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{format(new Date(invoice.issue_date), "MMM dd, yyyy")}</TableCell>
+                    <TableCell>{format(new Date(invoice.due_date), "MMM dd, yyyy")}</TableCell>
+                    <TableCell>{getStatusBadge(invoice.status)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(invoice.total, profile.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
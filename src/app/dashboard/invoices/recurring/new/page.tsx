@@ -0,0 +1,70 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft } from "lucide-react";
+import {
+  RecurringInvoiceForm,
+  toRecurringProfileInput,
+  type RecurringInvoiceFormData,
+} from "@/components/invoices/RecurringInvoiceForm";
+import { createRecurringProfile } from "@/lib/invoices/recurring";
+
+export default function NewRecurringInvoicePage() {
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const onSubmit = async (data: RecurringInvoiceFormData) => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      const profileId = await createRecurringProfile(supabase, user.id, toRecurringProfileInput(data), data.items);
+
+      toast({
+        title: "Success",
+        description: "Recurring invoice created successfully",
+      });
+
+      router.push(`/dashboard/invoices/recurring/${profileId}`);
+    } catch (error) {
+      console.error("Error creating recurring invoice:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create recurring invoice",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/dashboard/invoices/recurring">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">New Recurring Invoice</h1>
+          <p className="text-muted-foreground mt-2">
+            Bill a client on a schedule without re-entering the items
+          </p>
+        </div>
+      </div>
+
+      <RecurringInvoiceForm
+        submitLabel="Create Recurring Invoice"
+        onSubmit={onSubmit}
+        onCancel={() => router.push("/dashboard/invoices/recurring")}
+      />
+    </div>
+  );
+}
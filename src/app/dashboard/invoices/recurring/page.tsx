@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Eye, Plus, Repeat } from "lucide-react";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { RECURRING_FREQUENCY_LABELS, type RecurringFrequency } from "@/lib/invoices/recurring";
+
+interface RecurringInvoiceRow {
+  id: string;
+  name: string;
+  frequency: RecurringFrequency;
+  active: boolean;
+  next_issue_date: string | null;
+  last_issued_on: string | null;
+  client_name: string | null;
+}
+
+export default function RecurringInvoicesPage() {
+  const [profiles, setProfiles] = useState<RecurringInvoiceRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchProfiles();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchProfiles = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const { data, error } = await supabase
+        .from("recurring_invoices")
+        .select("id, name, frequency, active, next_issue_date, last_issued_on, clients:client_id (name)")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      setProfiles(
+        (data || []).map(({ clients, ...profile }) => {
+          const client = Array.isArray(clients) ? clients[0] : clients;
+          return { ...profile, client_name: client?.name ?? null };
+        })
+      );
+    } catch (error) {
+      console.error("Error fetching recurring invoices:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load recurring invoices",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getStatusBadge = (profile: RecurringInvoiceRow) => {
+    if (!profile.active) return <Badge variant="outline">Paused</Badge>;
+    if (!profile.next_issue_date) return <Badge variant="secondary">Finished</Badge>;
+    return <Badge variant="default">Active</Badge>;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard/invoices">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Recurring Invoices</h1>
+            <p className="text-muted-foreground mt-2">
+              Profiles that issue invoices on a schedule
+            </p>
+          </div>
+        </div>
+        <Button asChild>
+          <Link href="/dashboard/invoices/recurring/new">
+            <Plus className="mr-2 h-4 w-4" />
+            New Recurring Invoice
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Profiles</CardTitle>
+          <CardDescription>
+            {profiles.length} profile{profiles.length !== 1 ? "s" : ""} total
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Loading recurring invoices...
+            </div>
+          ) : profiles.length === 0 ? (
+            <div className="text-center py-8">
+              <Repeat className="h-12 w-12 mx-auto mb-4 opacity-50 text-muted-foreground" />
+              <p className="text-muted-foreground mb-2">No recurring invoices yet</p>
+              <p className="text-sm text-muted-foreground mb-4">
+                Set up a profile to bill a client every month, quarter or year
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Frequency</TableHead>
+                  <TableHead>Last Issued</TableHead>
+                  <TableHead>Next Invoice</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map((profile) => (
+                  <TableRow key={profile.id}>
+                    <TableCell className="font-medium">{profile.name}</TableCell>
+                    <TableCell>{profile.client_name || "No client"}</TableCell>
+                    <TableCell>{RECURRING_FREQUENCY_LABELS[profile.frequency]}</TableCell>
+                    <TableCell>
+                      {profile.last_issued_on ? format(new Date(profile.last_issued_on), "MMM dd, yyyy") : "-"}
+                    </TableCell>
+                    <TableCell>
+                      {profile.active && profile.next_issue_date
+                        ? format(new Date(profile.next_issue_date), "MMM dd, yyyy")
+                        : "-"}
+                    </TableCell>
+                    <TableCell>{getStatusBadge(profile)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" asChild>
+                        <Link href={`/dashboard/invoices/recurring/${profile.id}`}>
+                          <Eye className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ArrowLeft, Mail, Phone } from "lucide-react";
+import { DocumentVaultCard } from "@/components/vault/DocumentVaultCard";
+import { getStatusLabel } from "@/lib/agreements/lifecycle";
+
+interface Landlord {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  pincode: string | null;
+  aadhar_number: string | null;
+  pan_number: string | null;
+  bank_account_number: string | null;
+  bank_ifsc: string | null;
+  notes: string | null;
+}
+
+interface LandlordAgreement {
+  id: string;
+  agreement_number: string;
+  status: string;
+  property_address: string;
+  start_date: string;
+  end_date: string;
+}
+
+export default function LandlordViewPage() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const { toast } = useToast();
+  const [landlord, setLandlord] = useState<Landlord | null>(null);
+  const [agreements, setAgreements] = useState<LandlordAgreement[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (params.id) {
+      fetchLandlord();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params.id]);
+
+  const fetchLandlord = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const [{ data, error }, { data: agreementData, error: agreementsError }] = await Promise.all([
+        supabase.from("landlords").select("*").eq("id", params.id).single(),
+        supabase
+          .from("rent_agreements")
+          .select("id, agreement_number, status, property_address, start_date, end_date")
+          .eq("landlord_id", params.id)
+          .order("start_date", { ascending: false }),
+      ]);
+
+      if (error) throw error;
+      if (agreementsError) throw agreementsError;
+
+      setLandlord(data);
+      setAgreements(agreementData || []);
+    } catch (error) {
+      console.error("Error fetching landlord:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load landlord",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Loading landlord...</p>
+      </div>
+    );
+  }
+
+  if (!landlord) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Landlord not found</p>
+      </div>
+    );
+  }
+
+  const location = [landlord.address, landlord.city, landlord.state, landlord.pincode].filter(Boolean).join(", ");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/dashboard/landlords">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">{landlord.name}</h1>
+          <p className="text-muted-foreground mt-2">Landlord</p>
+        </div>
+      </div>
+
+      <Tabs defaultValue={searchParams.get("tab") === "documents" ? "documents" : "details"} className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="documents">Documents</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details" className="space-y-6">
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Contact</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {landlord.email && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Mail className="h-4 w-4 text-muted-foreground" />
+                    <span>{landlord.email}</span>
+                  </div>
+                )}
+                {landlord.phone && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Phone className="h-4 w-4 text-muted-foreground" />
+                    <span>{landlord.phone}</span>
+                  </div>
+                )}
+                <div>
+                  <h3 className="font-semibold mb-1 text-sm">Address:</h3>
+                  <p className="text-sm text-muted-foreground">{location || "-"}</p>
+                </div>
+                {landlord.notes && (
+                  <div>
+                    <h3 className="font-semibold mb-1 text-sm">Notes:</h3>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{landlord.notes}</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Identity &amp; Bank</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Aadhar:</span>
+                  <span className="text-sm font-medium">
+                    {landlord.aadhar_number ? `${landlord.aadhar_number.slice(0, 4)}****` : "-"}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">PAN:</span>
+                  <span className="text-sm font-medium">{landlord.pan_number || "-"}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Bank Account:</span>
+                  <span className="text-sm font-medium">
+                    {landlord.bank_account_number ? `****${landlord.bank_account_number.slice(-4)}` : "-"}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">IFSC:</span>
+                  <span className="text-sm font-medium">{landlord.bank_ifsc || "-"}</span>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Agreements</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {agreements.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No agreements yet</p>
+              ) : (
+                <ul className="divide-y">
+                  {agreements.map((agreement) => (
+                    <li key={agreement.id} className="flex items-center justify-between gap-4 py-2">
+                      <div>
+                        <Link href={`/dashboard/agreements/${agreement.id}`} className="text-sm font-medium hover:underline">
+                          {agreement.agreement_number}
+                        </Link>
+                        <p className="text-xs text-muted-foreground">
+                          {agreement.property_address}, {format(new Date(agreement.start_date), "MMM dd, yyyy")} to{" "}
+                          {format(new Date(agreement.end_date), "MMM dd, yyyy")}
+                        </p>
+                      </div>
+                      <Badge variant="outline">{getStatusLabel(agreement.status)}</Badge>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="documents">
+          <DocumentVaultCard owner="landlord" ownerId={landlord.id} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Plus, Home, Edit, Trash2, Mail, Phone } from "lucide-react";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { deleteOwnerVaultDocuments } from "@/lib/vault/documents";
 import { useToast } from "@/hooks/use-toast";
 
 interface Landlord {
@@ -63,6 +64,8 @@ export default function LandlordsPage() {
 
       if (error) throw error;
 
+      await deleteOwnerVaultDocuments(supabase, "landlord", id);
+
       toast({
         title: "Success",
         description: "Landlord deleted successfully",
@@ -136,7 +139,11 @@ export default function LandlordsPage() {
               <TableBody>
                 {landlords.map((landlord) => (
                   <TableRow key={landlord.id}>
-                    <TableCell className="font-medium">{landlord.name}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link href={`/dashboard/landlords/${landlord.id}`} className="hover:underline">
+                        {landlord.name}
+                      </Link>
+                    </TableCell>
                     <TableCell>
                       <div className="space-y-1">
                         {landlord.email && (
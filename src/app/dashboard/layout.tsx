@@ -3,6 +3,7 @@ import { redirect } from "next/navigation";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { Sidebar } from "@/components/dashboard/Sidebar";
 import { Header } from "@/components/dashboard/Header";
+import { CurrencySync } from "@/components/dashboard/CurrencySync";
 
 export const metadata: Metadata = {
   title: "LeaseFlow",
@@ -25,6 +26,7 @@ export default async function DashboardLayout({
 
   return (
     <div className="min-h-screen bg-background">
+      <CurrencySync />
       <div className="flex min-h-screen">
         <Sidebar />
 
@@ -0,0 +1,225 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ArrowLeft } from "lucide-react";
+import {
+  MaintenancePriorityBadge,
+  MaintenanceSlaBadge,
+  MaintenanceStatusBadge,
+} from "@/components/maintenance/MaintenanceBadges";
+import { MaintenancePhotosCard } from "@/components/maintenance/MaintenancePhotosCard";
+import { MaintenanceVendorCard } from "@/components/maintenance/MaintenanceVendorCard";
+import { MaintenanceTimelineCard } from "@/components/maintenance/MaintenanceTimelineCard";
+import { MaintenanceWorkflowCard, type WorkflowCardRequest } from "@/components/maintenance/MaintenanceWorkflowCard";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+import { SLA_STATUS_LABELS, getMaintenanceSla, type SlaRequest } from "@/lib/maintenance/sla";
+
+interface MaintenanceRequest extends WorkflowCardRequest, SlaRequest {
+  description: string;
+  priority: string;
+  request_date: string;
+  cost: number | null;
+  notes: string | null;
+  vendor_rating: number | null;
+  vendor: { name: string } | null;
+  agreement: {
+    id: string;
+    agreement_number: string;
+    property_address: string;
+  } | null;
+}
+
+export default function MaintenanceViewPage() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const params = useParams();
+  const { toast } = useToast();
+  const [request, setRequest] = useState<MaintenanceRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [timelineVersion, setTimelineVersion] = useState(0);
+
+  useEffect(() => {
+    if (params.id) {
+      fetchRequest();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params.id]);
+
+  const fetchRequest = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const { data, error } = await supabase
+        .from("maintenance_requests")
+        .select(`
+          id,
+          user_id,
+          title,
+          description,
+          priority,
+          status,
+          request_date,
+          completed_date,
+          cost,
+          notes,
+          assignee_type,
+          vendor_id,
+          vendor_rating,
+          assignee_name,
+          assignee_phone,
+          scheduled_for,
+          acknowledged_at,
+          rejection_reason,
+          reported_at,
+          response_due_at,
+          resolution_due_at,
+          responded_at,
+          completed_at,
+          rent_agreements:agreement_id (
+            id,
+            agreement_number,
+            property_address
+          ),
+          vendors:vendor_id (
+            name
+          )
+        `)
+        .eq("id", params.id)
+        .single();
+
+      if (error) throw error;
+
+      const { rent_agreements, vendors, ...rest } = data;
+      setRequest({
+        ...rest,
+        agreement: (Array.isArray(rent_agreements) ? rent_agreements[0] : rent_agreements) ?? null,
+        vendor: (Array.isArray(vendors) ? vendors[0] : vendors) ?? null,
+      });
+      setTimelineVersion((version) => version + 1);
+    } catch (error) {
+      console.error("Error fetching maintenance request:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load maintenance request",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Loading request...</p>
+      </div>
+    );
+  }
+
+  if (!request) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Request not found</p>
+      </div>
+    );
+  }
+
+  const sla = getMaintenanceSla(request, new Date());
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/dashboard/maintenance">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">{request.title}</h1>
+          <div className="flex gap-2 mt-2">
+            <MaintenanceStatusBadge status={request.status} />
+            <MaintenancePriorityBadge priority={request.priority} />
+            {request.response_due_at && <MaintenanceSlaBadge request={request} />}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Request Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <h3 className="font-semibold mb-2">Description:</h3>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">{request.description}</p>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div>
+                  <h3 className="font-semibold mb-2">Property:</h3>
+                  {request.agreement ? (
+                    <Link href={`/dashboard/agreements/${request.agreement.id}`} className="text-sm hover:underline">
+                      {request.agreement.property_address}
+                    </Link>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">N/A</p>
+                  )}
+                </div>
+                <div>
+                  <h3 className="font-semibold mb-2">Requested:</h3>
+                  <p className="text-sm">{format(new Date(request.request_date), "MMM dd, yyyy")}</p>
+                </div>
+                <div>
+                  <h3 className="font-semibold mb-2">Cost:</h3>
+                  <p className="text-sm">{request.cost ? formatCurrency(request.cost, baseCurrency) : "-"}</p>
+                </div>
+              </div>
+
+              {sla && request.response_due_at && request.resolution_due_at && (
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div>
+                    <h3 className="font-semibold mb-2">Response Due:</h3>
+                    <p className="text-sm">{format(new Date(request.response_due_at), "MMM dd, yyyy HH:mm")}</p>
+                    {sla.response && <p className="text-xs text-muted-foreground">{SLA_STATUS_LABELS[sla.response]}</p>}
+                  </div>
+                  <div>
+                    <h3 className="font-semibold mb-2">Resolution Due:</h3>
+                    <p className="text-sm">{format(new Date(request.resolution_due_at), "MMM dd, yyyy HH:mm")}</p>
+                    {sla.resolution && (
+                      <p className="text-xs text-muted-foreground">{SLA_STATUS_LABELS[sla.resolution]}</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {request.notes && (
+                <div>
+                  <h3 className="font-semibold mb-2">Notes:</h3>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">{request.notes}</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <MaintenancePhotosCard request={request} onChanged={() => setTimelineVersion((version) => version + 1)} />
+
+          <MaintenanceVendorCard request={request} onChanged={fetchRequest} />
+
+          <MaintenanceTimelineCard request={request} refreshKey={timelineVersion} />
+        </div>
+
+        <div className="space-y-6">
+          <MaintenanceWorkflowCard request={request} onChanged={fetchRequest} />
+        </div>
+      </div>
+    </div>
+  );
+}
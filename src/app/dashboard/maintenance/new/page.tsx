@@ -13,9 +13,15 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Upload, X } from "lucide-react";
+import { OCCUPIED_STATUSES } from "@/lib/agreements/lifecycle";
+import { ArrowLeft } from "lucide-react";
 import Link from "next/link";
-import Image from "next/image";
+import { getCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+import { AttachmentPicker } from "@/components/attachments/AttachmentPicker";
+import { uploadAttachment, type PreparedAttachment } from "@/lib/attachments/attachments";
+import { recordMaintenanceEvent } from "@/lib/maintenance/workflow";
+import { fetchSlaPolicies, getSlaDueDates } from "@/lib/maintenance/sla";
 
 const maintenanceSchema = z.object({
   agreement_id: z.string().min(1, "Agreement is required"),
@@ -27,12 +33,12 @@ const maintenanceSchema = z.object({
 });
 
 export default function NewMaintenancePage() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
   const router = useRouter();
   const { toast } = useToast();
   const [agreements, setAgreements] = useState<Array<{ id: string; agreement_number: string; property_address: string }>>([]);
   const [loading, setLoading] = useState(false);
-  const [photos, setPhotos] = useState<string[]>([]);
-  const [uploading, setUploading] = useState(false);
+  const [photos, setPhotos] = useState<PreparedAttachment[]>([]);
 
   const {
     register,
@@ -58,7 +64,7 @@ export default function NewMaintenancePage() {
       const { data, error } = await supabase
         .from("rent_agreements")
         .select("id, agreement_number, property_address")
-        .eq("status", "active")
+        .in("status", OCCUPIED_STATUSES)
         .order("agreement_number");
 
       if (error) throw error;
@@ -68,60 +74,6 @@ export default function NewMaintenancePage() {
     }
   };
 
-  const handlePhotoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files || files.length === 0) return;
-
-    setUploading(true);
-    try {
-      const supabase = createSupabaseBrowserClient();
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
-      if (!user) throw new Error("User not authenticated");
-
-      const uploadedUrls: string[] = [];
-
-      for (const file of Array.from(files)) {
-        // filePath reserved for future Supabase Storage integration
-        // const filePath = `maintenance/${fileName}`;
-
-        // Convert file to base64 for storage (in production, use Supabase Storage)
-        const reader = new FileReader();
-        reader.onloadend = async () => {
-          const base64String = reader.result as string;
-          
-          // For now, we'll store the base64 string in the database
-          // In production, upload to Supabase Storage and store the URL
-          uploadedUrls.push(base64String);
-          
-          if (uploadedUrls.length === files.length) {
-            setPhotos([...photos, ...uploadedUrls]);
-            setUploading(false);
-            toast({
-              title: "Success",
-              description: "Photos uploaded successfully",
-            });
-          }
-        };
-        reader.readAsDataURL(file);
-      }
-    } catch (error) {
-      console.error("Error uploading photos:", error);
-      toast({
-        title: "Error",
-        description: "Failed to upload photos",
-        variant: "destructive",
-      });
-      setUploading(false);
-    }
-  };
-
-  const removePhoto = (index: number) => {
-    setPhotos(photos.filter((_, i) => i !== index));
-  };
-
   const onSubmit = async (data: z.infer<typeof maintenanceSchema>) => {
     setLoading(true);
     try {
@@ -132,25 +84,58 @@ export default function NewMaintenancePage() {
 
       if (!user) throw new Error("User not authenticated");
 
-      const { error } = await supabase.from("maintenance_requests").insert({
+      // The SLA clock starts now, with targets from the policy for the chosen priority
+      const reportedAt = new Date();
+      const policies = await fetchSlaPolicies(supabase);
+
+      const { data: request, error } = await supabase.from("maintenance_requests").insert({
         user_id: user.id,
         agreement_id: data.agreement_id,
         title: data.title,
         description: data.description,
         priority: data.priority,
         status: "pending",
-        request_date: new Date().toISOString().split("T")[0],
+        request_date: reportedAt.toISOString().split("T")[0],
+        reported_at: reportedAt.toISOString(),
+        ...getSlaDueDates(reportedAt, policies[data.priority]),
         cost: data.cost || null,
-        photos: photos.length > 0 ? photos : null,
         notes: data.notes || null,
-      });
+      }).select("id").single();
 
       if (error) throw error;
 
-      toast({
-        title: "Success",
-        description: "Maintenance request created successfully",
-      });
+      try {
+        await recordMaintenanceEvent(supabase, { id: request.id, user_id: user.id }, {
+          type: "status",
+          to: "pending",
+          actorId: user.id,
+        });
+      } catch (eventError) {
+        console.error("Error recording maintenance event:", eventError);
+      }
+
+      const failed: string[] = [];
+      for (const photo of photos) {
+        try {
+          await uploadAttachment(supabase, user.id, "maintenance_request", request.id, photo, "before");
+        } catch (uploadError) {
+          console.error("Error uploading photo:", uploadError);
+          failed.push(photo.file_name);
+        }
+      }
+
+      if (failed.length > 0) {
+        toast({
+          title: "Error",
+          description: `Request created, but ${failed.join(", ")} could not be uploaded`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Success",
+          description: "Maintenance request created successfully",
+        });
+      }
 
       router.push("/dashboard/maintenance");
     } catch (error) {
@@ -267,7 +252,7 @@ export default function NewMaintenancePage() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="cost">Estimated Cost (₹)</Label>
+                <Label htmlFor="cost">Estimated Cost ({getCurrency(baseCurrency).symbol})</Label>
                 <Input
                   id="cost"
                   type="number"
@@ -279,52 +264,8 @@ export default function NewMaintenancePage() {
               </div>
 
               <div className="space-y-2 md:col-span-2">
-                <Label htmlFor="photos">Upload Photos</Label>
-                <div className="border-2 border-dashed rounded-lg p-4">
-                  <input
-                    type="file"
-                    id="photos"
-                    accept="image/*"
-                    multiple
-                    onChange={handlePhotoUpload}
-                    className="hidden"
-                    disabled={uploading}
-                  />
-                  <label
-                    htmlFor="photos"
-                    className="flex flex-col items-center justify-center cursor-pointer"
-                  >
-                    <Upload className="h-8 w-8 text-muted-foreground mb-2" />
-                    <span className="text-sm text-muted-foreground">
-                      {uploading ? "Uploading..." : "Click to upload photos"}
-                    </span>
-                  </label>
-                </div>
-                {photos.length > 0 && (
-                  <div className="grid grid-cols-4 gap-2 mt-4">
-                    {photos.map((photo, index) => (
-                      <div key={index} className="relative">
-                        <Image
-                          src={photo}
-                          alt={`Photo ${index + 1}`}
-                          width={96}
-                          height={96}
-                          className="w-full h-24 object-cover rounded border"
-                          unoptimized
-                        />
-                        <Button
-                          type="button"
-                          variant="destructive"
-                          size="icon"
-                          className="absolute top-1 right-1 h-6 w-6"
-                          onClick={() => removePhoto(index)}
-                        >
-                          <X className="h-3 w-3" />
-                        </Button>
-                      </div>
-                    ))}
-                  </div>
-                )}
+                <Label htmlFor="photos">Photos</Label>
+                <AttachmentPicker id="photos" accept="image/*" value={photos} onChange={setPhotos} disabled={loading} />
               </div>
 
               <div className="space-y-2 md:col-span-2">
@@ -346,7 +287,7 @@ export default function NewMaintenancePage() {
               >
                 Cancel
               </Button>
-              <Button type="submit" disabled={loading || uploading}>
+              <Button type="submit" disabled={loading}>
                 {loading ? "Creating..." : "Create Request"}
               </Button>
             </div>
@@ -5,14 +5,26 @@ import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Badge } from "@/components/ui/badge";
-import { Plus, Wrench, Image as ImageIcon, Eye } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Plus, Wrench, Image as ImageIcon, Eye, BarChart3 } from "lucide-react";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+import { fetchAttachmentCounts } from "@/lib/attachments/attachments";
+import { AttachmentGallery } from "@/components/attachments/AttachmentGallery";
+import {
+  MaintenancePriorityBadge,
+  MaintenanceSlaBadge,
+  MaintenanceStatusBadge,
+} from "@/components/maintenance/MaintenanceBadges";
+import { MaintenanceBoard } from "@/components/maintenance/MaintenanceBoard";
 
 interface MaintenanceRequest {
   id: string;
+  user_id: string;
   title: string;
   description: string;
   priority: string;
@@ -20,7 +32,14 @@ interface MaintenanceRequest {
   request_date: string;
   completed_date: string | null;
   cost: number | null;
-  photos: string[] | null;
+  assignee_name: string | null;
+  scheduled_for: string | null;
+  reported_at: string;
+  response_due_at: string | null;
+  resolution_due_at: string | null;
+  responded_at: string | null;
+  completed_at: string | null;
+  photo_count: number;
   agreement: {
     agreement_number: string;
     property_address: string;
@@ -28,8 +47,10 @@ interface MaintenanceRequest {
 }
 
 export default function MaintenancePage() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
   const [requests, setRequests] = useState<MaintenanceRequest[]>([]);
   const [loading, setLoading] = useState(true);
+  const [galleryRequest, setGalleryRequest] = useState<MaintenanceRequest | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -44,6 +65,7 @@ export default function MaintenancePage() {
         .from("maintenance_requests")
         .select(`
           id,
+          user_id,
           title,
           description,
           priority,
@@ -51,7 +73,13 @@ export default function MaintenancePage() {
           request_date,
           completed_date,
           cost,
-          photos,
+          assignee_name,
+          scheduled_for,
+          reported_at,
+          response_due_at,
+          resolution_due_at,
+          responded_at,
+          completed_at,
           rent_agreements:agreement_id (
             agreement_number,
             property_address
@@ -63,6 +91,7 @@ export default function MaintenancePage() {
 
       interface MaintenanceRequestData {
         id: string;
+        user_id: string;
         title: string;
         description: string;
         priority: string;
@@ -70,15 +99,28 @@ export default function MaintenancePage() {
         request_date: string;
         completed_date: string | null;
         cost: number | null;
-        photos: string[] | null;
+        assignee_name: string | null;
+        scheduled_for: string | null;
+        reported_at: string;
+        response_due_at: string | null;
+        resolution_due_at: string | null;
+        responded_at: string | null;
+        completed_at: string | null;
         rent_agreements?: {
           agreement_number: string;
           property_address: string;
         }[] | null;
       }
 
+      const photoCounts = await fetchAttachmentCounts(
+        supabase,
+        "maintenance_request",
+        (data || []).map((req) => req.id)
+      );
+
       const formattedRequests = data?.map((req: MaintenanceRequestData) => ({
         id: req.id,
+        user_id: req.user_id,
         title: req.title,
         description: req.description,
         priority: req.priority,
@@ -86,7 +128,14 @@ export default function MaintenancePage() {
         request_date: req.request_date,
         completed_date: req.completed_date,
         cost: req.cost,
-        photos: req.photos || [],
+        assignee_name: req.assignee_name,
+        scheduled_for: req.scheduled_for,
+        reported_at: req.reported_at,
+        response_due_at: req.response_due_at,
+        resolution_due_at: req.resolution_due_at,
+        responded_at: req.responded_at,
+        completed_at: req.completed_at,
+        photo_count: photoCounts[req.id] ?? 0,
         agreement: req.rent_agreements?.[0] || null,
       })) || [];
 
@@ -103,36 +152,6 @@ export default function MaintenancePage() {
     }
   };
 
-  const getPriorityBadge = (priority: string) => {
-    const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
-      low: "outline",
-      medium: "secondary",
-      high: "default",
-      urgent: "destructive",
-    };
-
-    return (
-      <Badge variant={variants[priority] || "outline"}>
-        {priority.charAt(0).toUpperCase() + priority.slice(1)}
-      </Badge>
-    );
-  };
-
-  const getStatusBadge = (status: string) => {
-    const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
-      pending: "outline",
-      in_progress: "secondary",
-      completed: "default",
-      cancelled: "destructive",
-    };
-
-    return (
-      <Badge variant={variants[status] || "outline"}>
-        {status.replace("_", " ").split(" ").map(s => s.charAt(0).toUpperCase() + s.slice(1)).join(" ")}
-      </Badge>
-    );
-  };
-
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -142,12 +161,20 @@ export default function MaintenancePage() {
             Track and manage maintenance requests
           </p>
         </div>
-        <Button asChild>
-          <Link href="/dashboard/maintenance/new">
-            <Plus className="mr-2 h-4 w-4" />
-            New Request
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/maintenance/sla">
+              <BarChart3 className="mr-2 h-4 w-4" />
+              SLA Report
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link href="/dashboard/maintenance/new">
+              <Plus className="mr-2 h-4 w-4" />
+              New Request
+            </Link>
+          </Button>
+        </div>
       </div>
 
       <Card>
@@ -177,58 +204,101 @@ export default function MaintenancePage() {
               </Button>
             </div>
           ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Title</TableHead>
-                  <TableHead>Property</TableHead>
-                  <TableHead>Priority</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Request Date</TableHead>
-                  <TableHead>Cost</TableHead>
-                  <TableHead>Photos</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {requests.map((request) => (
-                  <TableRow key={request.id}>
-                    <TableCell className="font-medium">{request.title}</TableCell>
-                    <TableCell>
-                      {request.agreement?.property_address || "N/A"}
-                    </TableCell>
-                    <TableCell>{getPriorityBadge(request.priority)}</TableCell>
-                    <TableCell>{getStatusBadge(request.status)}</TableCell>
-                    <TableCell>
-                      {format(new Date(request.request_date), "MMM dd, yyyy")}
-                    </TableCell>
-                    <TableCell>
-                      {request.cost ? `₹${request.cost.toLocaleString()}` : "-"}
-                    </TableCell>
-                    <TableCell>
-                      {request.photos && request.photos.length > 0 ? (
-                        <div className="flex items-center gap-1">
-                          <ImageIcon className="h-4 w-4 text-muted-foreground" />
-                          <span className="text-sm">{request.photos.length}</span>
-                        </div>
-                      ) : (
-                        <span className="text-muted-foreground">-</span>
-                      )}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      <Button variant="ghost" size="icon" asChild>
-                        <Link href={`/dashboard/maintenance/${request.id}`}>
-                          <Eye className="h-4 w-4" />
-                        </Link>
-                      </Button>
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+            <Tabs defaultValue="table">
+              <TabsList>
+                <TabsTrigger value="table">Table</TabsTrigger>
+                <TabsTrigger value="board">Board</TabsTrigger>
+              </TabsList>
+              <TabsContent value="table">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Title</TableHead>
+                      <TableHead>Property</TableHead>
+                      <TableHead>Priority</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>SLA</TableHead>
+                      <TableHead>Request Date</TableHead>
+                      <TableHead>Cost</TableHead>
+                      <TableHead>Photos</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {requests.map((request) => (
+                      <TableRow key={request.id}>
+                        <TableCell className="font-medium">
+                          <Link href={`/dashboard/maintenance/${request.id}`} className="hover:underline">
+                            {request.title}
+                          </Link>
+                        </TableCell>
+                        <TableCell>
+                          {request.agreement?.property_address || "N/A"}
+                        </TableCell>
+                        <TableCell><MaintenancePriorityBadge priority={request.priority} /></TableCell>
+                        <TableCell><MaintenanceStatusBadge status={request.status} /></TableCell>
+                        <TableCell><MaintenanceSlaBadge request={request} /></TableCell>
+                        <TableCell>
+                          {format(new Date(request.request_date), "MMM dd, yyyy")}
+                        </TableCell>
+                        <TableCell>
+                          {request.cost ? `${formatCurrency(request.cost, baseCurrency)}` : "-"}
+                        </TableCell>
+                        <TableCell>
+                          {request.photo_count > 0 ? (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="gap-1 px-2"
+                              onClick={() => setGalleryRequest(request)}
+                            >
+                              <ImageIcon className="h-4 w-4 text-muted-foreground" />
+                              <span className="text-sm">{request.photo_count}</span>
+                            </Button>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="icon" asChild>
+                            <Link href={`/dashboard/maintenance/${request.id}`}>
+                              <Eye className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+              <TabsContent value="board">
+                <MaintenanceBoard requests={requests} onChanged={fetchRequests} />
+              </TabsContent>
+            </Tabs>
           )}
         </CardContent>
       </Card>
+
+      <Dialog open={galleryRequest !== null} onOpenChange={(open) => !open && setGalleryRequest(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{galleryRequest?.title}</DialogTitle>
+            <DialogDescription>Photos attached to this request</DialogDescription>
+          </DialogHeader>
+          {galleryRequest && (
+            <AttachmentGallery
+              entity="maintenance_request"
+              entityId={galleryRequest.id}
+              editable
+              onChange={(count) =>
+                setRequests((current) =>
+                  current.map((req) => (req.id === galleryRequest.id ? { ...req, photo_count: count } : req))
+                )
+              }
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
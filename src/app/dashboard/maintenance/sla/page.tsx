@@ -0,0 +1,221 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft } from "lucide-react";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+import {
+  SLA_COMPLIANCE_GROUPS,
+  SLA_COMPLIANCE_GROUP_LABELS,
+  buildSlaComplianceReport,
+  fetchComplianceRequests,
+  formatComplianceRate,
+  getComplianceMonths,
+  getComplianceRate,
+  getTotalComplianceRate,
+  type ComplianceRequest,
+  type SlaComplianceCounts,
+  type SlaComplianceGroup,
+} from "@/lib/maintenance/compliance";
+
+const RANGES = ["3", "6", "12"];
+
+export default function MaintenanceSlaPage() {
+  const [requests, setRequests] = useState<ComplianceRequest[]>([]);
+  const [group, setGroup] = useState<SlaComplianceGroup>("property");
+  const [range, setRange] = useState("6");
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const now = new Date();
+  const months = getComplianceMonths(now, Number(range));
+
+  useEffect(() => {
+    fetchRequests();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [range]);
+
+  const fetchRequests = async () => {
+    setLoading(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setRequests(await fetchComplianceRequests(supabase, parseISO(`${months[0]}-01`)));
+    } catch (error) {
+      console.error("Error fetching SLA compliance:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load SLA compliance",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const report = buildSlaComplianceReport(requests, group, months, now);
+
+  const describeCounts = (counts: SlaComplianceCounts) =>
+    `Response ${counts.response_met} met, ${counts.response_breached} breached; ` +
+    `resolution ${counts.resolution_met} met, ${counts.resolution_breached} breached`;
+
+  const complianceCells = (counts: Record<string, SlaComplianceCounts>, totals: SlaComplianceCounts) => (
+    <>
+      {months.map((month) => (
+        <TableCell key={month} className="text-right" title={describeCounts(counts[month])}>
+          {formatComplianceRate(getTotalComplianceRate(counts[month]))}
+        </TableCell>
+      ))}
+      <TableCell className="text-right">
+        {formatComplianceRate(getComplianceRate(totals.response_met, totals.response_breached))}
+      </TableCell>
+      <TableCell className="text-right">
+        {formatComplianceRate(getComplianceRate(totals.resolution_met, totals.resolution_breached))}
+      </TableCell>
+      <TableCell className="text-right">{totals.response_breached + totals.resolution_breached}</TableCell>
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/dashboard/maintenance">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">SLA Compliance</h1>
+          <p className="text-muted-foreground mt-2">
+            How often maintenance response and resolution targets were met
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Response Compliance</CardDescription>
+            <CardTitle className="text-2xl">
+              {formatComplianceRate(getComplianceRate(report.totals.response_met, report.totals.response_breached))}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Resolution Compliance</CardDescription>
+            <CardTitle className="text-2xl">
+              {formatComplianceRate(
+                getComplianceRate(report.totals.resolution_met, report.totals.resolution_breached)
+              )}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Breaches</CardDescription>
+            <CardTitle
+              className={`text-2xl ${report.totals.response_breached + report.totals.resolution_breached ? "text-destructive" : ""}`}
+            >
+              {report.totals.response_breached + report.totals.resolution_breached}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <CardTitle>By {SLA_COMPLIANCE_GROUP_LABELS[group]}</CardTitle>
+              <CardDescription>
+                Share of targets met by the month requests were reported. Targets that are still running are not
+                counted.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={group} onValueChange={(value) => setGroup(value as SlaComplianceGroup)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SLA_COMPLIANCE_GROUPS.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {SLA_COMPLIANCE_GROUP_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={range} onValueChange={setRange}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RANGES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      Last {value} months
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Loading compliance...
+            </div>
+          ) : report.rows.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No requests with targets were reported in this period
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{SLA_COMPLIANCE_GROUP_LABELS[group]}</TableHead>
+                  {months.map((month) => (
+                    <TableHead key={month} className="text-right">
+                      {format(parseISO(`${month}-01`), "MMM yyyy")}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Response</TableHead>
+                  <TableHead className="text-right">Resolution</TableHead>
+                  <TableHead className="text-right">Breaches</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map((row) => (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium">
+                      {row.key === "none" ? (
+                        <span className="text-muted-foreground">{row.label}</span>
+                      ) : (
+                        <Link
+                          href={group === "vendor" ? `/dashboard/vendors/${row.key}` : `/dashboard/agreements/${row.key}`}
+                          className="hover:underline"
+                        >
+                          {row.label}
+                        </Link>
+                      )}
+                    </TableCell>
+                    {complianceCells(row.months, row.totals)}
+                  </TableRow>
+                ))}
+                <TableRow className="font-semibold">
+                  <TableCell>All</TableCell>
+                  {complianceCells(report.months_totals, report.totals)}
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import Link from "next/link";
 import { FileText, Users, ArrowRight, Plus, DollarSign, TrendingUp, Home, Receipt } from "lucide-react";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
 
 const quickActions = [
   {
@@ -35,6 +37,7 @@ const quickActions = [
 ];
 
 export default function DashboardPage() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
   const [stats, setStats] = useState({
     totalAgreements: 0,
     activeAgreements: 0,
@@ -146,7 +149,7 @@ export default function DashboardPage() {
               <DollarSign className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">₹{stats.totalMonthlyRent.toLocaleString()}</div>
+              <div className="text-2xl font-bold">{formatCurrency(stats.totalMonthlyRent, baseCurrency)}</div>
               <p className="text-xs text-muted-foreground">Per month</p>
             </CardContent>
           </Card>
@@ -157,7 +160,7 @@ export default function DashboardPage() {
               <Receipt className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">₹{stats.totalDeposit.toLocaleString()}</div>
+              <div className="text-2xl font-bold">{formatCurrency(stats.totalDeposit, baseCurrency)}</div>
               <p className="text-xs text-muted-foreground">Security deposits</p>
             </CardContent>
           </Card>
@@ -233,7 +236,7 @@ export default function DashboardPage() {
                         </p>
                       </div>
                       <div className="text-right">
-                        <p className="font-medium">₹{agreement.monthly_rent.toLocaleString()}</p>
+                        <p className="font-medium">{formatCurrency(agreement.monthly_rent, baseCurrency)}</p>
                         <p className="text-xs text-muted-foreground capitalize">{agreement.status}</p>
                       </div>
                     </Link>
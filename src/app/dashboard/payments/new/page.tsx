@@ -13,8 +13,14 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { PAYABLE_STATUSES } from "@/lib/agreements/lifecycle";
+import { fetchRentAccount, type RentAccount } from "@/lib/agreements/dues";
+import { allocateDocumentNumber } from "@/lib/documents/numbering";
 import { ArrowLeft } from "lucide-react";
+import { format } from "date-fns";
 import Link from "next/link";
+import { formatCurrency, getCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
 
 const paymentSchema = z.object({
   agreement_id: z.string().min(1, "Agreement is required"),
@@ -26,9 +32,11 @@ const paymentSchema = z.object({
 });
 
 export default function NewPaymentPage() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
   const router = useRouter();
   const { toast } = useToast();
   const [agreements, setAgreements] = useState<Array<{ id: string; agreement_number: string; monthly_rent: number }>>([]);
+  const [account, setAccount] = useState<RentAccount | null>(null);
   const [loading, setLoading] = useState(false);
 
   const {
@@ -56,17 +64,35 @@ export default function NewPaymentPage() {
       const selectedAgreement = agreements.find(a => a.id === watchedAgreementId);
       if (selectedAgreement) {
         setValue("amount", selectedAgreement.monthly_rent);
+        loadAccount(selectedAgreement.id);
       }
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [watchedAgreementId, agreements, setValue]);
 
+  // Suggest clearing the arrears, or the next line due when the tenant is up to date
+  const loadAccount = async (agreementId: string) => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const rentAccount = await fetchRentAccount(supabase, agreementId);
+      setAccount(rentAccount);
+      const suggested = rentAccount.arrears > 0 ? rentAccount.arrears : rentAccount.next_due?.outstanding;
+      if (suggested) {
+        setValue("amount", suggested);
+      }
+    } catch (error) {
+      console.error("Error fetching rent account:", error);
+      setAccount(null);
+    }
+  };
+
   const fetchAgreements = async () => {
     try {
       const supabase = createSupabaseBrowserClient();
       const { data, error } = await supabase
         .from("rent_agreements")
         .select("id, agreement_number, monthly_rent")
-        .eq("status", "active")
+        .in("status", PAYABLE_STATUSES)
         .order("agreement_number");
 
       if (error) throw error;
@@ -76,10 +102,6 @@ export default function NewPaymentPage() {
     }
   };
 
-  const generateReceiptNumber = () => {
-    return `RCP-${Date.now()}`;
-  };
-
   const onSubmit = async (data: z.infer<typeof paymentSchema>) => {
     setLoading(true);
     try {
@@ -90,7 +112,7 @@ export default function NewPaymentPage() {
 
       if (!user) throw new Error("User not authenticated");
 
-      const receiptNumber = generateReceiptNumber();
+      const receiptNumber = await allocateDocumentNumber(supabase, user.id, "receipt", data.payment_date);
 
       const { error } = await supabase.from("rent_payments").insert({
         user_id: user.id,
@@ -107,7 +129,7 @@ export default function NewPaymentPage() {
 
       toast({
         title: "Success",
-        description: "Payment recorded successfully",
+        description: `Payment recorded with receipt ${receiptNumber}`,
       });
 
       router.push("/dashboard/payments");
@@ -161,7 +183,7 @@ export default function NewPaymentPage() {
                   <SelectContent>
                     {agreements.map((agreement) => (
                       <SelectItem key={agreement.id} value={agreement.id}>
-                        {agreement.agreement_number} (₹{agreement.monthly_rent.toLocaleString()}/month)
+                        {agreement.agreement_number} ({formatCurrency(agreement.monthly_rent, baseCurrency)}/month)
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -191,7 +213,7 @@ export default function NewPaymentPage() {
 
               <div className="space-y-2">
                 <Label htmlFor="amount">
-                  Amount (₹) <span className="text-destructive">*</span>
+                  Amount ({getCurrency(baseCurrency).symbol}) <span className="text-destructive">*</span>
                 </Label>
                 <Input
                   id="amount"
@@ -206,6 +228,18 @@ export default function NewPaymentPage() {
                     {errors.amount.message}
                   </p>
                 )}
+                {account && account.lines.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {account.arrears > 0
+                      ? `${formatCurrency(account.arrears, baseCurrency)} in arrears${
+                          account.late_fees > 0 ? ` (incl. ${formatCurrency(account.late_fees, baseCurrency)} late fees)` : ""
+                        }`
+                      : account.next_due
+                        ? `Next due ${formatCurrency(account.next_due.outstanding, baseCurrency)} on ${format(new Date(account.next_due.due_date), "MMM dd, yyyy")}`
+                        : "Rent is paid up for the whole term"}
+                    {account.advance > 0 && ` · ${formatCurrency(account.advance, baseCurrency)} already paid in advance`}
+                  </p>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -5,11 +5,17 @@ import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Plus, Receipt, Download } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { LateFeesCard } from "@/components/payments/LateFeesCard";
+import { TenantBalancesCard } from "@/components/payments/TenantBalancesCard";
+import { Plus, Receipt, Download, Send } from "lucide-react";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
-import jsPDF from "jspdf";
+import { getDocumentUrl } from "@/lib/documents/urls";
+import { SendDocumentDialog } from "@/components/documents/SendDocumentDialog";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
 
 interface RentPayment {
   id: string;
@@ -20,14 +26,16 @@ interface RentPayment {
   receipt_number: string | null;
   agreement: {
     agreement_number: string;
-    tenant: { name: string } | null;
+    tenant: { name: string; email: string | null } | null;
     landlord: { name: string } | null;
   } | null;
 }
 
 export default function PaymentsPage() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
   const [payments, setPayments] = useState<RentPayment[]>([]);
   const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState<RentPayment | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -49,7 +57,7 @@ export default function PaymentsPage() {
           receipt_number,
           rent_agreements:agreement_id (
             agreement_number,
-            tenants:tenant_id (name),
+            tenants:tenant_id (name, email),
             landlords:landlord_id (name)
           )
         `)
@@ -66,7 +74,7 @@ export default function PaymentsPage() {
         receipt_number: string | null;
         rent_agreements?: {
           agreement_number: string;
-          tenants?: { name: string }[] | { name: string } | null;
+          tenants?: { name: string; email: string | null }[] | { name: string; email: string | null } | null;
           landlords?: { name: string }[] | { name: string } | null;
         }[] | null;
       }
@@ -108,97 +116,6 @@ export default function PaymentsPage() {
     }
   };
 
-  const handleDownloadReceipt = async (payment: RentPayment) => {
-    try {
-      const doc = new jsPDF();
-      const pageWidth = doc.internal.pageSize.getWidth();
-      const margin = 20;
-      let yPos = margin;
-
-      // Header
-      doc.setFontSize(20);
-      doc.setFont("helvetica", "bold");
-      doc.text("RENT PAYMENT RECEIPT", margin, yPos);
-      yPos += 15;
-
-      // Receipt details
-      doc.setFontSize(10);
-      doc.setFont("helvetica", "normal");
-      doc.text(`Receipt #: ${payment.receipt_number || `PAY-${payment.id.slice(0, 8)}`}`, margin, yPos);
-      yPos += 6;
-      doc.text(`Payment Date: ${format(new Date(payment.payment_date), "MMM dd, yyyy")}`, margin, yPos);
-      yPos += 6;
-      if (payment.agreement) {
-        doc.text(`Agreement #: ${payment.agreement.agreement_number}`, margin, yPos);
-        yPos += 6;
-        if (payment.agreement.tenant) {
-          doc.text(`Tenant: ${payment.agreement.tenant.name}`, margin, yPos);
-          yPos += 6;
-        }
-        if (payment.agreement.landlord) {
-          doc.text(`Landlord: ${payment.agreement.landlord.name}`, margin, yPos);
-          yPos += 6;
-        }
-      }
-      yPos += 5;
-
-      // Payment details
-      doc.setFontSize(12);
-      doc.setFont("helvetica", "bold");
-      doc.text("PAYMENT DETAILS", margin, yPos);
-      doc.setDrawColor(100, 100, 100);
-      doc.line(margin, yPos + 2, margin + 60, yPos + 2);
-      yPos += 10;
-
-      const formatCurrency = (amount: number): string => {
-        return `₹ ${Math.round(amount).toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
-      };
-
-      doc.setFontSize(10);
-      doc.setFont("helvetica", "normal");
-      doc.text(`Amount Paid:`, margin, yPos);
-      doc.setFont("helvetica", "bold");
-      doc.text(formatCurrency(payment.amount), pageWidth - margin - 5, yPos, { align: "right" });
-      yPos += 7;
-
-      if (payment.payment_method) {
-        doc.setFont("helvetica", "normal");
-        doc.text(`Payment Method: ${payment.payment_method}`, margin, yPos);
-        yPos += 6;
-      }
-
-      if (payment.payment_reference) {
-        doc.text(`Reference: ${payment.payment_reference}`, margin, yPos);
-        yPos += 6;
-      }
-
-      // Footer
-      const pageHeight = doc.internal.pageSize.getHeight();
-      yPos = pageHeight - 30;
-      doc.setDrawColor(200, 200, 200);
-      doc.line(margin, yPos, pageWidth - margin, yPos);
-      yPos += 5;
-      doc.setFontSize(8);
-      doc.setFont("helvetica", "italic");
-      doc.setTextColor(100, 100, 100);
-      doc.text("This is an official receipt for rent payment.", margin, yPos);
-      doc.text(`Generated on: ${format(new Date(), "MMM dd, yyyy 'at' HH:mm")}`, pageWidth - margin - 5, yPos, { align: "right" });
-
-      doc.save(`receipt-${payment.receipt_number || payment.id.slice(0, 8)}.pdf`);
-      toast({
-        title: "Success",
-        description: "Receipt downloaded successfully",
-      });
-    } catch (error) {
-      console.error("Error generating receipt:", error);
-      toast({
-        title: "Error",
-        description: "Failed to generate receipt",
-        variant: "destructive",
-      });
-    }
-  };
-
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -216,82 +133,122 @@ export default function PaymentsPage() {
         </Button>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Payment History</CardTitle>
-          <CardDescription>
-            {payments.length} payment{payments.length !== 1 ? "s" : ""} recorded
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          {loading ? (
-            <div className="text-center py-8 text-muted-foreground">
-              Loading payments...
-            </div>
-          ) : payments.length === 0 ? (
-            <div className="text-center py-8">
-              <Receipt className="h-12 w-12 mx-auto mb-4 opacity-50 text-muted-foreground" />
-              <p className="text-muted-foreground mb-2">No payments recorded yet</p>
-              <p className="text-sm text-muted-foreground mb-4">
-                Record your first rent payment to get started
-              </p>
-              <Button asChild>
-                <Link href="/dashboard/payments/new">
-                  <Plus className="mr-2 h-4 w-4" />
-                  Record Payment
-                </Link>
-              </Button>
-            </div>
-          ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Receipt #</TableHead>
-                  <TableHead>Date</TableHead>
-                  <TableHead>Agreement</TableHead>
-                  <TableHead>Tenant</TableHead>
-                  <TableHead>Amount</TableHead>
-                  <TableHead>Method</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {payments.map((payment) => (
-                  <TableRow key={payment.id}>
-                    <TableCell className="font-medium">
-                      {payment.receipt_number || `PAY-${payment.id.slice(0, 8)}`}
-                    </TableCell>
-                    <TableCell>
-                      {format(new Date(payment.payment_date), "MMM dd, yyyy")}
-                    </TableCell>
-                    <TableCell>
-                      {payment.agreement?.agreement_number || "N/A"}
-                    </TableCell>
-                    <TableCell>
-                      {payment.agreement?.tenant?.name || "N/A"}
-                    </TableCell>
-                    <TableCell className="font-medium">
-                      ₹{payment.amount.toLocaleString()}
-                    </TableCell>
-                    <TableCell>
-                      {payment.payment_method || "N/A"}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => handleDownloadReceipt(payment)}
-                      >
-                        <Download className="h-4 w-4" />
-                      </Button>
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          )}
-        </CardContent>
-      </Card>
+      <Tabs defaultValue="history" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="history">Payment History</TabsTrigger>
+          <TabsTrigger value="balances">Balances by Tenant</TabsTrigger>
+          <TabsTrigger value="late_fees">Late Fees</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="history">
+          <Card>
+            <CardHeader>
+              <CardTitle>Payment History</CardTitle>
+              <CardDescription>
+                {payments.length} payment{payments.length !== 1 ? "s" : ""} recorded
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  Loading payments...
+                </div>
+              ) : payments.length === 0 ? (
+                <div className="text-center py-8">
+                  <Receipt className="h-12 w-12 mx-auto mb-4 opacity-50 text-muted-foreground" />
+                  <p className="text-muted-foreground mb-2">No payments recorded yet</p>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Record your first rent payment to get started
+                  </p>
+                  <Button asChild>
+                    <Link href="/dashboard/payments/new">
+                      <Plus className="mr-2 h-4 w-4" />
+                      Record Payment
+                    </Link>
+                  </Button>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Receipt #</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Agreement</TableHead>
+                      <TableHead>Tenant</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Method</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {payments.map((payment) => (
+                      <TableRow key={payment.id}>
+                        <TableCell className="font-medium">
+                          {payment.receipt_number || `PAY-${payment.id.slice(0, 8)}`}
+                        </TableCell>
+                        <TableCell>
+                          {format(new Date(payment.payment_date), "MMM dd, yyyy")}
+                        </TableCell>
+                        <TableCell>
+                          {payment.agreement?.agreement_number || "N/A"}
+                        </TableCell>
+                        <TableCell>
+                          {payment.agreement?.tenant?.name || "N/A"}
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {formatCurrency(payment.amount, baseCurrency)}
+                        </TableCell>
+                        <TableCell>
+                          {payment.payment_method || "N/A"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="icon" asChild>
+                            <a
+                              href={getDocumentUrl("receipt", payment.id)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              title="Download receipt"
+                            >
+                              <Download className="h-4 w-4" />
+                            </a>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Email receipt"
+                            onClick={() => setSending(payment)}
+                          >
+                            <Send className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="balances">
+          <TenantBalancesCard />
+        </TabsContent>
+
+        <TabsContent value="late_fees">
+          <LateFeesCard />
+        </TabsContent>
+      </Tabs>
+
+      {sending && (
+        <SendDocumentDialog
+          type="receipt"
+          documentId={sending.id}
+          reference={sending.receipt_number || `PAY-${sending.id.slice(0, 8)}`}
+          defaultTo={sending.agreement?.tenant?.email ?? null}
+          open={sending !== null}
+          onOpenChange={(open) => !open && setSending(null)}
+        />
+      )}
     </div>
   );
 }
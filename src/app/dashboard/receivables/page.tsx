@@ -0,0 +1,244 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight, Download, FileSpreadsheet } from "lucide-react";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { fetchExchangeRates } from "@/lib/currency/rates";
+import { toCsv } from "@/lib/documents/csv";
+import { getDocumentUrl } from "@/lib/documents/urls";
+import {
+  AGING_BUCKETS,
+  AGING_BUCKET_LABELS,
+  AGING_DETAIL_HEADERS,
+  AGING_SUMMARY_HEADERS,
+  RECEIVABLE_SOURCE_LABELS,
+  buildAgingReport,
+  fetchReceivables,
+  toAgingDetailRows,
+  toAgingSummaryRows,
+  type AgingReport,
+} from "@/lib/receivables/aging";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+export default function ReceivablesPage() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const [report, setReport] = useState<AgingReport | null>(null);
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  useEffect(() => {
+    fetchReport();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [baseCurrency]);
+
+  const fetchReport = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const [receivables, rates] = await Promise.all([
+        fetchReceivables(supabase, baseCurrency, today),
+        fetchExchangeRates(supabase),
+      ]);
+      setReport(buildAgingReport(receivables, rates, baseCurrency, today));
+    } catch (error) {
+      console.error("Error fetching receivables:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load receivables",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRow = (key: string) => {
+    setExpanded((keys) => (keys.includes(key) ? keys.filter((k) => k !== key) : [...keys, key]));
+  };
+
+  const downloadCsv = (kind: "summary" | "detail") => {
+    if (!report) return;
+    const csv =
+      kind === "summary"
+        ? toCsv(AGING_SUMMARY_HEADERS, toAgingSummaryRows(report))
+        : toCsv(AGING_DETAIL_HEADERS, toAgingDetailRows(report));
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `aged-receivables-${kind}-${today}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const money = (amount: number) => (amount ? formatCurrency(amount, baseCurrency) : "-");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Aged Receivables</h1>
+          <p className="text-muted-foreground mt-2">
+            Unpaid invoices and rent by how long they have been overdue
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => downloadCsv("summary")} disabled={!report}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Summary CSV
+          </Button>
+          <Button variant="outline" onClick={() => downloadCsv("detail")} disabled={!report}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Detail CSV
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={getDocumentUrl("aged_receivables", today)} target="_blank" rel="noopener noreferrer">
+              <Download className="mr-2 h-4 w-4" />
+              Download PDF
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
+        {AGING_BUCKETS.map((bucket) => (
+          <Card key={bucket}>
+            <CardHeader className="pb-2">
+              <CardDescription>{AGING_BUCKET_LABELS[bucket]}</CardDescription>
+              <CardTitle className={`text-2xl ${bucket !== "current" && report?.totals[bucket] ? "text-destructive" : ""}`}>
+                {formatCurrency(report?.totals[bucket] ?? 0, baseCurrency)}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+        ))}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Total Outstanding</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(report?.totals.total ?? 0, baseCurrency)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Client and Tenant</CardTitle>
+          <CardDescription>
+            As of {format(new Date(today), "MMM dd, yyyy")}, in {baseCurrency}. Select a row to see what is owed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Loading receivables...
+            </div>
+          ) : !report || report.rows.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Nothing is owed right now
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>Client / Tenant</TableHead>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <TableHead key={bucket} className="text-right">
+                      {AGING_BUCKET_LABELS[bucket]}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map((row) => {
+                  const open = expanded.includes(row.key);
+                  return (
+                    <Fragment key={row.key}>
+                      <TableRow className="cursor-pointer" onClick={() => toggleRow(row.key)}>
+                        <TableCell>
+                          {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {row.party_name}{" "}
+                          <Badge variant="outline" className="ml-1">
+                            {RECEIVABLE_SOURCE_LABELS[row.source]}
+                          </Badge>
+                        </TableCell>
+                        {AGING_BUCKETS.map((bucket) => (
+                          <TableCell
+                            key={bucket}
+                            className={`text-right ${bucket !== "current" && row.totals[bucket] ? "text-destructive" : ""}`}
+                          >
+                            {money(row.totals[bucket])}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-medium">{money(row.totals.total)}</TableCell>
+                      </TableRow>
+                      {open && (
+                        <TableRow>
+                          <TableCell></TableCell>
+                          <TableCell colSpan={AGING_BUCKETS.length + 2}>
+                            <Table>
+                              <TableHeader>
+                                <TableRow>
+                                  <TableHead>Reference</TableHead>
+                                  <TableHead>Due Date</TableHead>
+                                  <TableHead className="text-right">Days Overdue</TableHead>
+                                  <TableHead>Bucket</TableHead>
+                                  <TableHead className="text-right">Outstanding</TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {row.items.map((item) => (
+                                  <TableRow key={item.id}>
+                                    <TableCell>
+                                      <Link href={item.href} className="underline-offset-4 hover:underline">
+                                        {item.reference}
+                                      </Link>
+                                    </TableCell>
+                                    <TableCell>{format(new Date(item.due_date), "MMM dd, yyyy")}</TableCell>
+                                    <TableCell className="text-right">{item.days_overdue}</TableCell>
+                                    <TableCell>{AGING_BUCKET_LABELS[item.bucket]}</TableCell>
+                                    <TableCell className="text-right">
+                                      {formatCurrency(item.amount, item.currency)}
+                                      {item.currency !== baseCurrency && (
+                                        <span className="block text-xs text-muted-foreground">
+                                          {item.converted === null
+                                            ? "No exchange rate"
+                                            : formatCurrency(item.converted, baseCurrency)}
+                                        </span>
+                                      )}
+                                    </TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+          {report && report.unconverted.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {report.unconverted.length} item{report.unconverted.length !== 1 ? "s" : ""} left out of the totals: no
+              exchange rate into {baseCurrency}. Add one in Settings.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
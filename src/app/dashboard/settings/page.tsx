@@ -0,0 +1,298 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_BRANDING } from "@/lib/documents/branding";
+import { getGstinError, normalizeGstin } from "@/lib/invoices/gst";
+import { NumberingSettingsCard } from "@/components/documents/NumberingSettingsCard";
+import { ExchangeRatesCard } from "@/components/currency/ExchangeRatesCard";
+import { ReminderSettingsCard } from "@/components/reminders/ReminderSettingsCard";
+import { MaintenanceSlaSettingsCard } from "@/components/maintenance/MaintenanceSlaSettingsCard";
+import { CURRENCY_CODES, DEFAULT_CURRENCY, getCurrencyLabel } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+const settingsSchema = z.object({
+  name: z.string().min(1, "Organization name is required"),
+  address: z.string().optional(),
+  email: z.string().email("Invalid email").optional().or(z.literal("")),
+  phone: z.string().optional(),
+  website: z.string().optional(),
+  gstin: z
+    .string()
+    .optional()
+    .superRefine((value, ctx) => {
+      const gstinError = value ? getGstinError(value) : null;
+      if (gstinError) ctx.addIssue({ code: "custom", message: gstinError });
+    }),
+  base_currency: z.string().min(1, "Select a base currency"),
+  accent_color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Use a colour such as #1d4ed8"),
+  footer_text: z.string().optional(),
+});
+
+type SettingsFormData = z.infer<typeof settingsSchema>;
+
+export default function SettingsPage() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [fetching, setFetching] = useState(true);
+  // Agreement amounts carry no currency of their own, so the base currency is fixed once any exist
+  const [savedCurrency, setSavedCurrency] = useState<string | null>(null);
+  const [hasAgreements, setHasAgreements] = useState(false);
+  const setBaseCurrency = useCurrencyStore((s) => s.setBaseCurrency);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    reset,
+    formState: { errors },
+  } = useForm<SettingsFormData>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: {
+      name: DEFAULT_BRANDING.name,
+      base_currency: DEFAULT_CURRENCY,
+      accent_color: DEFAULT_BRANDING.accent_color,
+    },
+  });
+
+  useEffect(() => {
+    fetchSettings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const [{ data, error }, { count, error: agreementsError }] = await Promise.all([
+        supabase
+          .from("organization_settings")
+          .select("name, address, email, phone, website, gstin, base_currency, accent_color, footer_text")
+          .maybeSingle(),
+        supabase.from("rent_agreements").select("id", { count: "exact", head: true }),
+      ]);
+
+      if (error) throw error;
+      if (agreementsError) throw agreementsError;
+      setHasAgreements((count ?? 0) > 0);
+      setSavedCurrency(data?.base_currency ?? DEFAULT_CURRENCY);
+      if (data) {
+        reset({
+          name: data.name,
+          address: data.address || "",
+          email: data.email || "",
+          phone: data.phone || "",
+          website: data.website || "",
+          gstin: data.gstin || "",
+          base_currency: data.base_currency,
+          accent_color: data.accent_color,
+          footer_text: data.footer_text || "",
+        });
+      }
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load settings",
+        variant: "destructive",
+      });
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const onSubmit = async (data: SettingsFormData) => {
+    setLoading(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      if (hasAgreements && data.base_currency !== savedCurrency) {
+        throw new Error("The base currency cannot be changed once agreements exist");
+      }
+
+      const { error } = await supabase.from("organization_settings").upsert({
+        user_id: user.id,
+        name: data.name,
+        address: data.address || null,
+        email: data.email || null,
+        phone: data.phone || null,
+        website: data.website || null,
+        gstin: data.gstin ? normalizeGstin(data.gstin) : null,
+        base_currency: data.base_currency,
+        accent_color: data.accent_color,
+        footer_text: data.footer_text || null,
+        updated_at: new Date().toISOString(),
+      });
+
+      if (error) throw error;
+      setSavedCurrency(data.base_currency);
+      setBaseCurrency(data.base_currency);
+
+      toast({
+        title: "Success",
+        description: "Settings saved successfully",
+      });
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save settings",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (fetching) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Loading settings...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Settings</h1>
+        <p className="text-muted-foreground mt-2">
+          Organization details shown on agreements, invoices and receipts
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Document Branding</CardTitle>
+          <CardDescription>Printed in the header and footer of every generated PDF</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="name">
+                  Organization Name <span className="text-destructive">*</span>
+                </Label>
+                <Input id="name" {...register("name")} />
+                {errors.name && (
+                  <p className="text-sm text-destructive">{errors.name.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="accent_color">Accent Colour</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="color"
+                    className="w-14 p-1"
+                    value={watch("accent_color")}
+                    onChange={(e) => setValue("accent_color", e.target.value, { shouldValidate: true })}
+                  />
+                  <Input id="accent_color" {...register("accent_color")} />
+                </div>
+                {errors.accent_color && (
+                  <p className="text-sm text-destructive">{errors.accent_color.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input id="email" type="email" {...register("email")} />
+                {errors.email && (
+                  <p className="text-sm text-destructive">{errors.email.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="phone">Phone</Label>
+                <Input id="phone" {...register("phone")} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="website">Website</Label>
+                <Input id="website" {...register("website")} placeholder="www.example.com" />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="gstin">GSTIN</Label>
+                <Input id="gstin" {...register("gstin")} placeholder="27AAPFU0939F1ZV" className="uppercase" />
+                {errors.gstin && (
+                  <p className="text-sm text-destructive">{errors.gstin.message}</p>
+                )}
+                <p className="text-xs text-muted-foreground">Required to issue GST tax invoices</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Base Currency</Label>
+                <Select
+                  value={watch("base_currency")}
+                  disabled={hasAgreements}
+                  onValueChange={(value) => setValue("base_currency", value, { shouldValidate: true })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCY_CODES.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {getCurrencyLabel(code)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {hasAgreements
+                    ? "Fixed because agreements exist: rent, deposits and late fees are recorded without a currency and are read in this one"
+                    : "Rent, deposits and late fees are recorded in this currency, and reports total in it. It cannot be changed once agreements exist."}
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="address">Address</Label>
+              <Textarea id="address" {...register("address")} rows={2} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="footer_text">Footer Text</Label>
+              <Input
+                id="footer_text"
+                {...register("footer_text")}
+                placeholder="e.g. Registered office, licence number"
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={loading}>
+                {loading ? "Saving..." : "Save Settings"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <ExchangeRatesCard />
+
+      <ReminderSettingsCard />
+
+      <MaintenanceSlaSettingsCard />
+
+      <NumberingSettingsCard />
+    </div>
+  );
+}
@@ -5,9 +5,12 @@ import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Switch } from "@/components/ui/switch";
 import { Plus, Users, Edit, Trash2, Mail, Phone } from "lucide-react";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { deleteOwnerVaultDocuments } from "@/lib/vault/documents";
 import { useToast } from "@/hooks/use-toast";
+import { setTenantReminderOptOut } from "@/lib/reminders/schedules";
 
 interface Tenant {
   id: string;
@@ -19,6 +22,7 @@ interface Tenant {
   state: string | null;
   aadhar_number: string | null;
   pan_number: string | null;
+  reminders_opt_out: boolean;
   created_at: string;
 }
 
@@ -54,6 +58,23 @@ export default function TenantsPage() {
     }
   };
 
+  const handleReminderToggle = async (tenant: Tenant, enabled: boolean) => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      await setTenantReminderOptOut(supabase, tenant.id, !enabled);
+      setTenants((current) =>
+        current.map((row) => (row.id === tenant.id ? { ...row, reminders_opt_out: !enabled } : row))
+      );
+    } catch (error) {
+      console.error("Error updating reminder preference:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update reminder preference",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm("Are you sure you want to delete this tenant?")) return;
 
@@ -63,6 +84,8 @@ export default function TenantsPage() {
 
       if (error) throw error;
 
+      await deleteOwnerVaultDocuments(supabase, "tenant", id);
+
       toast({
         title: "Success",
         description: "Tenant deleted successfully",
@@ -130,13 +153,18 @@ export default function TenantsPage() {
                   <TableHead>Contact</TableHead>
                   <TableHead>Location</TableHead>
                   <TableHead>ID Proof</TableHead>
+                  <TableHead>Reminders</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {tenants.map((tenant) => (
                   <TableRow key={tenant.id}>
-                    <TableCell className="font-medium">{tenant.name}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link href={`/dashboard/tenants/${tenant.id}`} className="hover:underline">
+                        {tenant.name}
+                      </Link>
+                    </TableCell>
                     <TableCell>
                       <div className="space-y-1">
                         {tenant.email && (
@@ -179,6 +207,13 @@ export default function TenantsPage() {
                         )}
                       </div>
                     </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={!tenant.reminders_opt_out}
+                        onCheckedChange={(enabled) => handleReminderToggle(tenant, enabled)}
+                        title={tenant.reminders_opt_out ? "Opted out of rent reminders" : "Receives rent reminders"}
+                      />
+                    </TableCell>
                     <TableCell>
                       <div className="flex gap-2">
                         <Button variant="ghost" size="icon" asChild>
@@ -13,8 +13,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { OCCUPIED_STATUSES } from "@/lib/agreements/lifecycle";
 import { ArrowLeft, Calculator } from "lucide-react";
 import Link from "next/link";
+import { formatCurrency, getCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
 
 const utilityBillSchema = z.object({
   agreement_id: z.string().min(1, "Agreement is required"),
@@ -27,6 +30,7 @@ const utilityBillSchema = z.object({
 });
 
 export default function NewUtilityBillPage() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
   const router = useRouter();
   const { toast } = useToast();
   const [agreements, setAgreements] = useState<Array<{ id: string; agreement_number: string; property_address: string }>>([]);
@@ -61,7 +65,7 @@ export default function NewUtilityBillPage() {
       const { data, error } = await supabase
         .from("rent_agreements")
         .select("id, agreement_number, property_address")
-        .eq("status", "active")
+        .in("status", OCCUPIED_STATUSES)
         .order("agreement_number");
 
       if (error) throw error;
@@ -233,7 +237,7 @@ export default function NewUtilityBillPage() {
 
                 <div className="space-y-2">
                   <Label htmlFor="total_amount">
-                    Total Amount (₹) <span className="text-destructive">*</span>
+                    Total Amount ({getCurrency(baseCurrency).symbol}) <span className="text-destructive">*</span>
                   </Label>
                   <Input
                     id="total_amount"
@@ -298,19 +302,19 @@ export default function NewUtilityBillPage() {
               <div className="space-y-3">
                 <div className="flex justify-between border-b pb-2">
                   <span className="text-sm text-muted-foreground">Total Amount:</span>
-                  <span className="text-sm font-bold">₹{watchedTotalAmount.toLocaleString() || "0"}</span>
+                  <span className="text-sm font-bold">{formatCurrency(watchedTotalAmount || 0, baseCurrency)}</span>
                 </div>
                 <div className="space-y-2 pt-2">
                   <div className="flex justify-between">
                     <span className="text-sm">Tenant Share ({split.tenantPercent}%):</span>
                     <span className="text-sm font-medium text-blue-600">
-                      ₹{split.tenantShare.toLocaleString()}
+                      {formatCurrency(split.tenantShare, baseCurrency)}
                     </span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-sm">Landlord Share ({split.landlordPercent}%):</span>
                     <span className="text-sm font-medium text-green-600">
-                      ₹{split.landlordShare.toLocaleString()}
+                      {formatCurrency(split.landlordShare, baseCurrency)}
                     </span>
                   </div>
                 </div>
@@ -318,7 +322,7 @@ export default function NewUtilityBillPage() {
                   <div className="flex justify-between">
                     <span className="text-sm font-semibold">Total:</span>
                     <span className="text-sm font-bold">
-                      ₹{split.tenantShare + split.landlordShare}
+                      {formatCurrency(split.tenantShare + split.landlordShare, baseCurrency)}
                     </span>
                   </div>
                 </div>
@@ -10,6 +10,8 @@ import { Plus, Calculator } from "lucide-react";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
 
 interface UtilityBill {
   id: string;
@@ -27,6 +29,7 @@ interface UtilityBill {
 }
 
 export default function UtilitiesPage() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
   const [bills, setBills] = useState<UtilityBill[]>([]);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
@@ -186,13 +189,13 @@ export default function UtilitiesPage() {
                       {bill.bill_number || "-"}
                     </TableCell>
                     <TableCell className="text-right font-medium">
-                      ₹{bill.total_amount.toLocaleString()}
+                      {formatCurrency(bill.total_amount, baseCurrency)}
                     </TableCell>
                     <TableCell className="text-right">
-                      {bill.tenant_share ? `₹${bill.tenant_share.toLocaleString()}` : "-"}
+                      {bill.tenant_share ? `${formatCurrency(bill.tenant_share, baseCurrency)}` : "-"}
                     </TableCell>
                     <TableCell className="text-right">
-                      {bill.landlord_share ? `₹${bill.landlord_share.toLocaleString()}` : "-"}
+                      {bill.landlord_share ? `${formatCurrency(bill.landlord_share, baseCurrency)}` : "-"}
                     </TableCell>
                     <TableCell>
                       {bill.split_percentage}% / {100 - bill.split_percentage}%
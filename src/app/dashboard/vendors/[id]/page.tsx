@@ -0,0 +1,366 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ArrowLeft, Mail, Phone, User } from "lucide-react";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+import { DocumentVaultCard } from "@/components/vault/DocumentVaultCard";
+import { MaintenanceStatusBadge } from "@/components/maintenance/MaintenanceBadges";
+import { VendorInvoicesTable } from "@/components/vendors/VendorInvoicesTable";
+import { fetchVendorInvoices, type VendorInvoice } from "@/lib/vendors/invoices";
+import {
+  fetchVendor,
+  getTurnaroundDays,
+  getVendorTradeLabel,
+  summarizeVendorPerformance,
+  type Vendor,
+} from "@/lib/vendors/vendors";
+
+interface VendorJob {
+  id: string;
+  title: string;
+  status: string;
+  request_date: string;
+  completed_date: string | null;
+  cost: number | null;
+  vendor_rating: number | null;
+  agreement: { property_address: string } | null;
+}
+
+export default function VendorViewPage() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const { toast } = useToast();
+  const [vendor, setVendor] = useState<Vendor | null>(null);
+  const [jobs, setJobs] = useState<VendorJob[]>([]);
+  const [invoices, setInvoices] = useState<VendorInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (params.id) {
+      fetchVendorDetails();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params.id]);
+
+  const fetchVendorDetails = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const vendorId = params.id as string;
+      const [vendorData, invoiceData, { data: jobData, error: jobsError }] = await Promise.all([
+        fetchVendor(supabase, vendorId),
+        fetchVendorInvoices(supabase, vendorId),
+        supabase
+          .from("maintenance_requests")
+          .select("id, title, status, request_date, completed_date, cost, vendor_rating, rent_agreements:agreement_id (property_address)")
+          .eq("vendor_id", vendorId)
+          .order("request_date", { ascending: false }),
+      ]);
+
+      if (jobsError) throw jobsError;
+
+      setVendor(vendorData);
+      setInvoices(invoiceData);
+      setJobs(
+        (jobData || []).map(({ rent_agreements, ...job }) => ({
+          ...job,
+          cost: job.cost === null ? null : Number(job.cost),
+          agreement: (Array.isArray(rent_agreements) ? rent_agreements[0] : rent_agreements) ?? null,
+        }))
+      );
+    } catch (error) {
+      console.error("Error fetching vendor:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load vendor",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleActive = async () => {
+    if (!vendor) return;
+
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const { error } = await supabase.from("vendors").update({ is_active: !vendor.is_active }).eq("id", vendor.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: vendor.is_active
+          ? `${vendor.name} will no longer be offered for new jobs`
+          : `${vendor.name} is active again`,
+      });
+      setVendor({ ...vendor, is_active: !vendor.is_active });
+    } catch (error) {
+      console.error("Error updating vendor:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update vendor",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Loading vendor...</p>
+      </div>
+    );
+  }
+
+  if (!vendor) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Vendor not found</p>
+      </div>
+    );
+  }
+
+  const stats = summarizeVendorPerformance(jobs, invoices);
+  const location = [vendor.address, vendor.city].filter(Boolean).join(", ");
+  const tab = searchParams.get("tab");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard/vendors">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">{vendor.name}</h1>
+            <div className="flex gap-2 mt-2">
+              <Badge variant="secondary">{getVendorTradeLabel(vendor.trade)}</Badge>
+              {!vendor.is_active && <Badge variant="outline">Inactive</Badge>}
+            </div>
+          </div>
+        </div>
+        <Button variant="outline" onClick={handleToggleActive}>
+          {vendor.is_active ? "Mark Inactive" : "Mark Active"}
+        </Button>
+      </div>
+
+      <Tabs
+        defaultValue={tab === "jobs" || tab === "invoices" || tab === "documents" ? tab : "details"}
+        className="space-y-6"
+      >
+        <TabsList>
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="jobs">Jobs ({jobs.length})</TabsTrigger>
+          <TabsTrigger value="invoices">Invoices ({invoices.length})</TabsTrigger>
+          <TabsTrigger value="documents">Documents</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details" className="space-y-6">
+          <div className="grid gap-6 lg:grid-cols-3">
+            <Card>
+              <CardHeader>
+                <CardTitle>Contact</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {vendor.contact_person && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <User className="h-4 w-4 text-muted-foreground" />
+                    <span>{vendor.contact_person}</span>
+                  </div>
+                )}
+                {vendor.email && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Mail className="h-4 w-4 text-muted-foreground" />
+                    <span>{vendor.email}</span>
+                  </div>
+                )}
+                {vendor.phone && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Phone className="h-4 w-4 text-muted-foreground" />
+                    <span>{vendor.phone}</span>
+                  </div>
+                )}
+                <div>
+                  <h3 className="font-semibold mb-1 text-sm">Address:</h3>
+                  <p className="text-sm text-muted-foreground">{location || "-"}</p>
+                </div>
+                {vendor.notes && (
+                  <div>
+                    <h3 className="font-semibold mb-1 text-sm">Notes:</h3>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{vendor.notes}</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Rates &amp; Tax</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Hourly Rate:</span>
+                  <span className="text-sm font-medium">
+                    {vendor.hourly_rate !== null ? formatCurrency(vendor.hourly_rate, baseCurrency) : "-"}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Call-out Fee:</span>
+                  <span className="text-sm font-medium">
+                    {vendor.call_out_fee !== null ? formatCurrency(vendor.call_out_fee, baseCurrency) : "-"}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">GSTIN:</span>
+                  <span className="text-sm font-medium">{vendor.gstin || "-"}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">PAN:</span>
+                  <span className="text-sm font-medium">{vendor.pan_number || "-"}</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Performance</CardTitle>
+                <CardDescription>Across all jobs assigned to this vendor</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Jobs:</span>
+                  <span className="text-sm font-medium">
+                    {stats.jobs} ({stats.completedJobs} completed, {stats.openJobs} open)
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Avg Turnaround:</span>
+                  <span className="text-sm font-medium">
+                    {stats.averageTurnaroundDays !== null
+                      ? `${stats.averageTurnaroundDays} day${stats.averageTurnaroundDays !== 1 ? "s" : ""}`
+                      : "-"}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Rating:</span>
+                  <span className="text-sm font-medium">
+                    {stats.averageRating !== null
+                      ? `${stats.averageRating} / 5 from ${stats.ratedJobs} job${stats.ratedJobs !== 1 ? "s" : ""}`
+                      : "Not rated"}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Total Spend:</span>
+                  <span className="text-sm font-medium">{formatCurrency(stats.billed, baseCurrency)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Paid:</span>
+                  <span className="text-sm font-medium">{formatCurrency(stats.paid, baseCurrency)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Outstanding:</span>
+                  <span className="text-sm font-medium">{formatCurrency(stats.outstanding, baseCurrency)}</span>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="jobs">
+          <Card>
+            <CardHeader>
+              <CardTitle>Jobs</CardTitle>
+              <CardDescription>Maintenance requests assigned to this vendor</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {jobs.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  No jobs yet. Assign a maintenance request to this vendor from its workflow card.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Title</TableHead>
+                      <TableHead>Property</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Requested</TableHead>
+                      <TableHead>Turnaround</TableHead>
+                      <TableHead>Rating</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {jobs.map((job) => {
+                      const turnaround = job.status === "completed" ? getTurnaroundDays(job) : null;
+
+                      return (
+                        <TableRow key={job.id}>
+                          <TableCell className="font-medium">
+                            <Link href={`/dashboard/maintenance/${job.id}`} className="hover:underline">
+                              {job.title}
+                            </Link>
+                          </TableCell>
+                          <TableCell>{job.agreement?.property_address || "N/A"}</TableCell>
+                          <TableCell>
+                            <MaintenanceStatusBadge status={job.status} />
+                          </TableCell>
+                          <TableCell>{format(new Date(job.request_date), "MMM dd, yyyy")}</TableCell>
+                          <TableCell>
+                            {turnaround !== null ? `${turnaround} day${turnaround !== 1 ? "s" : ""}` : "-"}
+                          </TableCell>
+                          <TableCell>{job.vendor_rating ? "★".repeat(job.vendor_rating) : "-"}</TableCell>
+                          <TableCell className="text-right">
+                            {job.cost ? formatCurrency(job.cost, baseCurrency) : "-"}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="invoices">
+          <Card>
+            <CardHeader>
+              <CardTitle>Invoices</CardTitle>
+              <CardDescription>
+                {formatCurrency(stats.billed, baseCurrency)} invoiced, {formatCurrency(stats.outstanding, baseCurrency)} outstanding.
+                Record new invoices from the job they are for.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {invoices.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No invoices recorded yet</p>
+              ) : (
+                <VendorInvoicesTable invoices={invoices} show="job" onChanged={fetchVendorDetails} />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="documents">
+          <DocumentVaultCard owner="vendor" ownerId={vendor.id} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import { getCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+import { VENDOR_TRADES, VENDOR_TRADE_LABELS, type VendorTrade } from "@/lib/vendors/vendors";
+
+const rateSchema = z
+  .string()
+  .regex(/^\d+(\.\d{1,2})?$/, "Enter an amount, e.g. 500 or 499.50")
+  .optional()
+  .or(z.literal(""));
+
+const vendorSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  trade: z.enum(VENDOR_TRADES),
+  contact_person: z.string().optional(),
+  email: z.string().email("Invalid email").optional().or(z.literal("")),
+  phone: z.string().min(10, "Phone number must be at least 10 digits").optional().or(z.literal("")),
+  address: z.string().optional(),
+  city: z.string().optional(),
+  gstin: z.string().optional(),
+  pan_number: z.string().optional(),
+  hourly_rate: rateSchema,
+  call_out_fee: rateSchema,
+  notes: z.string().optional(),
+});
+
+export default function NewVendorPage() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const router = useRouter();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    formState: { errors },
+  } = useForm({
+    resolver: zodResolver(vendorSchema),
+    defaultValues: {
+      trade: "plumbing",
+    },
+  });
+
+  const onSubmit = async (data: z.infer<typeof vendorSchema>) => {
+    setLoading(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      const { data: vendor, error } = await supabase
+        .from("vendors")
+        .insert({
+          user_id: user.id,
+          name: data.name,
+          trade: data.trade,
+          contact_person: data.contact_person || null,
+          email: data.email || null,
+          phone: data.phone || null,
+          address: data.address || null,
+          city: data.city || null,
+          gstin: data.gstin || null,
+          pan_number: data.pan_number || null,
+          hourly_rate: data.hourly_rate ? Number(data.hourly_rate) : null,
+          call_out_fee: data.call_out_fee ? Number(data.call_out_fee) : null,
+          notes: data.notes || null,
+        })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Vendor created successfully",
+      });
+
+      router.push(`/dashboard/vendors/${vendor.id}`);
+    } catch (error) {
+      console.error("Error creating vendor:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create vendor",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const currencySymbol = getCurrency(baseCurrency).symbol;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/dashboard/vendors">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Add Vendor</h1>
+          <p className="text-muted-foreground mt-2">
+            Add a contractor to your directory
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Vendor Information</CardTitle>
+          <CardDescription>Enter the vendor&apos;s trade, contact details and quoted rates</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="name">
+                  Business Name <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="name"
+                  {...register("name")}
+                  placeholder="Sharma Plumbing Works"
+                />
+                {errors.name && (
+                  <p className="text-sm text-destructive">{errors.name.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="trade">
+                  Trade <span className="text-destructive">*</span>
+                </Label>
+                <Select
+                  value={watch("trade")}
+                  onValueChange={(value) => setValue("trade", value as VendorTrade)}
+                >
+                  <SelectTrigger id="trade">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VENDOR_TRADES.map((trade) => (
+                      <SelectItem key={trade} value={trade}>
+                        {VENDOR_TRADE_LABELS[trade]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="contact_person">Contact Person</Label>
+                <Input
+                  id="contact_person"
+                  {...register("contact_person")}
+                  placeholder="Ramesh Sharma"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="phone">Phone Number</Label>
+                <Input
+                  id="phone"
+                  {...register("phone")}
+                  placeholder="+91 9876543210"
+                />
+                {errors.phone && (
+                  <p className="text-sm text-destructive">{errors.phone.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  {...register("email")}
+                  placeholder="contact@example.com"
+                />
+                {errors.email && (
+                  <p className="text-sm text-destructive">{errors.email.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="city">City</Label>
+                <Input
+                  id="city"
+                  {...register("city")}
+                  placeholder="Mumbai"
+                />
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="address">Address</Label>
+                <Input
+                  id="address"
+                  {...register("address")}
+                  placeholder="Shop number, street, area"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="hourly_rate">Hourly Rate ({currencySymbol})</Label>
+                <Input
+                  id="hourly_rate"
+                  inputMode="decimal"
+                  {...register("hourly_rate")}
+                  placeholder="0"
+                />
+                {errors.hourly_rate && (
+                  <p className="text-sm text-destructive">{errors.hourly_rate.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="call_out_fee">Call-out Fee ({currencySymbol})</Label>
+                <Input
+                  id="call_out_fee"
+                  inputMode="decimal"
+                  {...register("call_out_fee")}
+                  placeholder="0"
+                />
+                {errors.call_out_fee && (
+                  <p className="text-sm text-destructive">{errors.call_out_fee.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="gstin">GSTIN</Label>
+                <Input
+                  id="gstin"
+                  {...register("gstin")}
+                  placeholder="22AAAAA0000A1Z5"
+                  maxLength={15}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="pan_number">PAN Number</Label>
+                <Input
+                  id="pan_number"
+                  {...register("pan_number")}
+                  placeholder="ABCDE1234F"
+                  maxLength={10}
+                />
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea
+                  id="notes"
+                  {...register("notes")}
+                  placeholder="Availability, areas served, past work..."
+                  rows={3}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => router.back()}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? "Creating..." : "Create Vendor"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, HardHat, Trash2, Mail, Phone, Star } from "lucide-react";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+import {
+  VENDOR_TRADES,
+  VENDOR_TRADE_LABELS,
+  deleteVendor,
+  fetchVendorPerformance,
+  fetchVendors,
+  getVendorTradeLabel,
+  type Vendor,
+  type VendorPerformance,
+} from "@/lib/vendors/vendors";
+
+export default function VendorsPage() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [performance, setPerformance] = useState<Record<string, VendorPerformance>>({});
+  const [trade, setTrade] = useState("all");
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchVendorList();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchVendorList = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const [vendorData, performanceData] = await Promise.all([
+        fetchVendors(supabase),
+        fetchVendorPerformance(supabase),
+      ]);
+
+      setVendors(vendorData);
+      setPerformance(performanceData);
+    } catch (error) {
+      console.error("Error fetching vendors:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load vendors",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (vendor: Vendor) => {
+    if (!confirm(`Are you sure you want to delete ${vendor.name}?`)) return;
+
+    try {
+      const supabase = createSupabaseBrowserClient();
+      await deleteVendor(supabase, vendor.id);
+
+      toast({
+        title: "Success",
+        description: "Vendor deleted successfully",
+      });
+
+      fetchVendorList();
+    } catch (error) {
+      console.error("Error deleting vendor:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete vendor",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const filteredVendors = trade === "all" ? vendors : vendors.filter((vendor) => vendor.trade === trade);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Vendors</h1>
+          <p className="text-muted-foreground mt-2">
+            Contractors and tradespeople who carry out maintenance
+          </p>
+        </div>
+        <Button asChild>
+          <Link href="/dashboard/vendors/new">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Vendor
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <CardTitle>All Vendors</CardTitle>
+              <CardDescription>
+                {filteredVendors.length} vendor{filteredVendors.length !== 1 ? "s" : ""}
+                {trade === "all" ? " total" : ` in ${getVendorTradeLabel(trade).toLowerCase()}`}
+              </CardDescription>
+            </div>
+            <Select value={trade} onValueChange={setTrade}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All trades</SelectItem>
+                {VENDOR_TRADES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {VENDOR_TRADE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Loading vendors...
+            </div>
+          ) : vendors.length === 0 ? (
+            <div className="text-center py-8">
+              <HardHat className="h-12 w-12 mx-auto mb-4 opacity-50 text-muted-foreground" />
+              <p className="text-muted-foreground mb-2">No vendors yet</p>
+              <p className="text-sm text-muted-foreground mb-4">
+                Add the plumbers, electricians and other contractors you call on
+              </p>
+              <Button asChild>
+                <Link href="/dashboard/vendors/new">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Vendor
+                </Link>
+              </Button>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Trade</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Jobs</TableHead>
+                  <TableHead>Avg Turnaround</TableHead>
+                  <TableHead>Rating</TableHead>
+                  <TableHead className="text-right">Spend</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredVendors.map((vendor) => {
+                  const stats = performance[vendor.id];
+
+                  return (
+                    <TableRow key={vendor.id}>
+                      <TableCell className="font-medium">
+                        <Link href={`/dashboard/vendors/${vendor.id}`} className="hover:underline">
+                          {vendor.name}
+                        </Link>
+                        {!vendor.is_active && (
+                          <Badge variant="outline" className="ml-2">
+                            Inactive
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{getVendorTradeLabel(vendor.trade)}</TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          {vendor.email && (
+                            <div className="flex items-center gap-2 text-sm">
+                              <Mail className="h-3 w-3 text-muted-foreground" />
+                              <span>{vendor.email}</span>
+                            </div>
+                          )}
+                          {vendor.phone && (
+                            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                              <Phone className="h-3 w-3" />
+                              <span>{vendor.phone}</span>
+                            </div>
+                          )}
+                          {!vendor.email && !vendor.phone && <span className="text-sm text-muted-foreground">-</span>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {stats ? (
+                          <span className="text-sm">
+                            {stats.jobs}
+                            {stats.openJobs > 0 && <span className="text-muted-foreground"> ({stats.openJobs} open)</span>}
+                          </span>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {stats?.averageTurnaroundDays != null ? (
+                          <span className="text-sm">
+                            {stats.averageTurnaroundDays} day{stats.averageTurnaroundDays !== 1 ? "s" : ""}
+                          </span>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {stats?.averageRating != null ? (
+                          <span className="flex items-center gap-1 text-sm">
+                            <Star className="h-3 w-3 fill-current" />
+                            {stats.averageRating}
+                          </span>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {stats && stats.billed > 0 ? (
+                          <div className="text-sm">
+                            {formatCurrency(stats.billed, baseCurrency)}
+                            {stats.outstanding > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                {formatCurrency(stats.outstanding, baseCurrency)} unpaid
+                              </p>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(vendor)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { CheckCircle2, FileText } from "lucide-react";
+import { SignaturePad } from "@/components/agreements/SignaturePad";
+import { SIGNING_PARTY_LABELS, type SigningParty, type SignatureStatus } from "@/lib/agreements/signatures";
+import { formatCurrency } from "@/lib/currency/currencies";
+
+interface SigningDetails {
+  party: SigningParty;
+  signer_name: string;
+  status: SignatureStatus;
+  signed_at: string | null;
+  version_number: number;
+  blocked_reason: string | null;
+  // Expired links can no longer open the full agreement
+  expired: boolean;
+  agreement: {
+    agreement_number: string;
+    property_address: string;
+    property_city: string;
+    start_date: string;
+    end_date: string;
+    monthly_rent: number;
+    currency: string;
+    tenant: { name: string } | null;
+    landlord: { name: string } | null;
+  };
+}
+
+export default function SignAgreementPage() {
+  const params = useParams();
+  const { toast } = useToast();
+  const [details, setDetails] = useState<SigningDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [method, setMethod] = useState<"drawn" | "typed">("drawn");
+  const [drawn, setDrawn] = useState<string | null>(null);
+  const [typed, setTyped] = useState("");
+  const [consent, setConsent] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [completed, setCompleted] = useState<boolean | null>(null);
+
+  const token = params.token as string;
+
+  useEffect(() => {
+    if (token) {
+      fetchDetails();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  const fetchDetails = async () => {
+    try {
+      const response = await fetch(`/api/signatures/${token}`);
+      if (response.status === 404) {
+        setNotFound(true);
+        return;
+      }
+      if (!response.ok) throw new Error("Failed to load signing link");
+
+      const data: SigningDetails = await response.json();
+      setDetails(data);
+      setTyped(data.signer_name);
+    } catch (error) {
+      console.error("Error fetching signing link:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load signing link",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSign = async () => {
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/signatures/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type: method,
+          data: method === "drawn" ? drawn : typed,
+          consent,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) throw new Error(result.error || "Failed to sign agreement");
+
+      setCompleted(result.completed);
+    } catch (error) {
+      console.error("Error signing agreement:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sign agreement",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Loading agreement...</p>
+      </div>
+    );
+  }
+
+  if (notFound || !details) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Link not found</CardTitle>
+          <CardDescription>
+            This signing link is not valid. Check the link or ask the sender for a new one.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  if (completed !== null || details.status === "signed") {
+    return (
+      <Card>
+        <CardContent className="pt-6 text-center space-y-3">
+          <CheckCircle2 className="mx-auto h-12 w-12 text-green-600" />
+          <h2 className="text-xl font-semibold">Thank you, {details.signer_name}</h2>
+          <p className="text-muted-foreground">
+            {completed === true
+              ? "All parties have now signed. The agreement is in effect."
+              : details.signed_at
+                ? `You signed this agreement on ${format(new Date(details.signed_at), "MMM dd, yyyy")}.`
+                : "Your signature has been recorded. We are waiting for the other party to sign."}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { agreement } = details;
+  const signature = method === "drawn" ? drawn : typed.trim();
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Rent Agreement {agreement.agreement_number}</CardTitle>
+          <CardDescription>
+            You are signing as {SIGNING_PARTY_LABELS[details.party].toLowerCase()}, {details.signer_name}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2 text-sm">
+            <div>
+              <p className="text-muted-foreground">Property</p>
+              <p>{agreement.property_address}, {agreement.property_city}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Monthly Rent</p>
+              <p>{formatCurrency(agreement.monthly_rent, agreement.currency)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Landlord</p>
+              <p>{agreement.landlord?.name || "-"}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Tenant</p>
+              <p>{agreement.tenant?.name || "-"}</p>
+            </div>
+            <div className="sm:col-span-2">
+              <p className="text-muted-foreground">Period</p>
+              <p>
+                {format(new Date(agreement.start_date), "MMM dd, yyyy")} to{" "}
+                {format(new Date(agreement.end_date), "MMM dd, yyyy")}
+              </p>
+            </div>
+          </div>
+
+          {!details.expired && (
+            <Button variant="outline" asChild>
+              <a href={`/api/signatures/${token}/document`} target="_blank" rel="noopener noreferrer">
+                <FileText className="mr-2 h-4 w-4" />
+                Read Full Agreement
+              </a>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Signature</CardTitle>
+          <CardDescription>Draw your signature or type your full name</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {details.blocked_reason ? (
+            <p className="text-sm text-destructive">{details.blocked_reason}</p>
+          ) : (
+            <>
+              <Tabs value={method} onValueChange={(value) => setMethod(value as "drawn" | "typed")}>
+                <TabsList>
+                  <TabsTrigger value="drawn">Draw</TabsTrigger>
+                  <TabsTrigger value="typed">Type</TabsTrigger>
+                </TabsList>
+                <TabsContent value="drawn">
+                  <SignaturePad onChange={setDrawn} />
+                </TabsContent>
+                <TabsContent value="typed" className="space-y-2">
+                  <Label htmlFor="typed_signature">Full Name</Label>
+                  <Input
+                    id="typed_signature"
+                    value={typed}
+                    onChange={(e) => setTyped(e.target.value)}
+                  />
+                  {typed.trim() && (
+                    <p className="border rounded-md bg-white px-4 py-3 text-2xl italic font-serif">
+                      {typed}
+                    </p>
+                  )}
+                </TabsContent>
+              </Tabs>
+
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="consent"
+                  checked={consent}
+                  onCheckedChange={(checked) => setConsent(checked === true)}
+                />
+                <Label htmlFor="consent" className="text-sm font-normal leading-snug">
+                  I have read the agreement and agree to sign it electronically. My electronic signature
+                  is as binding as a handwritten one.
+                </Label>
+              </div>
+
+              <div className="flex justify-end">
+                <Button onClick={handleSign} disabled={submitting || !consent || !signature}>
+                  {submitting ? "Signing..." : "Sign Agreement"}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Sign Agreement",
+  description: "Review and sign your rent agreement",
+  robots: { index: false, follow: false },
+};
+
+export default function SignLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <div className="min-h-screen bg-muted/40">
+      <div className="mx-auto w-full max-w-2xl px-6 py-12">
+        <h1 className="mb-8 text-center text-2xl font-semibold">LeaseFlow</h1>
+        {children}
+      </div>
+    </div>
+  );
+}
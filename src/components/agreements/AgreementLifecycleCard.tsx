@@ -0,0 +1,211 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import {
+  fetchStatusHistory,
+  getAvailableTransitions,
+  getEarliestTerminationDate,
+  getStatusLabel,
+  transitionAgreement,
+  type AvailableTransition,
+  type LifecycleAgreement,
+  type StatusHistoryEntry,
+} from "@/lib/agreements/lifecycle";
+
+interface AgreementLifecycleCardProps {
+  agreement: LifecycleAgreement & { user_id: string };
+  onChanged: () => void;
+}
+
+export function AgreementLifecycleCard({ agreement, onChanged }: AgreementLifecycleCardProps) {
+  const { toast } = useToast();
+  const [history, setHistory] = useState<StatusHistoryEntry[]>([]);
+  const [pending, setPending] = useState<AvailableTransition | null>(null);
+  const [reason, setReason] = useState("");
+  const [noticeDate, setNoticeDate] = useState(new Date().toISOString().split("T")[0]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadHistory();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [agreement.id, agreement.status]);
+
+  const loadHistory = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setHistory(await fetchStatusHistory(supabase, agreement.id));
+    } catch (error) {
+      console.error("Error fetching status history:", error);
+    }
+  };
+
+  const transitions = getAvailableTransitions(agreement);
+
+  const openTransition = (transition: AvailableTransition) => {
+    setReason("");
+    setNoticeDate(new Date().toISOString().split("T")[0]);
+    setPending(transition);
+  };
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+
+    setSaving(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      await transitionAgreement(supabase, agreement, pending.to, {
+        reason,
+        noticeDate: pending.to === "notice_given" ? noticeDate : undefined,
+        actorId: user.id,
+      });
+
+      toast({
+        title: "Success",
+        description: `Agreement moved to ${getStatusLabel(pending.to)}`,
+      });
+      setPending(null);
+      onChanged();
+    } catch (error) {
+      console.error("Error changing agreement status:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change agreement status",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Lifecycle</CardTitle>
+        <CardDescription>Current status: {getStatusLabel(agreement.status)}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {agreement.status === "notice_given" && agreement.termination_date && (
+          <p className="text-sm text-muted-foreground">
+            Notice served {agreement.notice_date && format(new Date(agreement.notice_date), "MMM dd, yyyy")}.
+            Tenancy can end on {format(new Date(agreement.termination_date), "MMM dd, yyyy")}.
+          </p>
+        )}
+
+        {transitions.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {transitions.map((transition) => (
+              <Button
+                key={transition.to}
+                variant={transition.to === "terminated" ? "destructive" : "outline"}
+                size="sm"
+                disabled={!!transition.blockedReason}
+                title={transition.blockedReason || undefined}
+                onClick={() => openTransition(transition)}
+              >
+                {transition.label}
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No further status changes are possible.</p>
+        )}
+
+        {history.length > 0 && (
+          <div className="border-t pt-4 space-y-3">
+            <h3 className="text-sm font-semibold">Status History</h3>
+            {history.map((entry) => (
+              <div key={entry.id} className="text-sm">
+                <p>
+                  {entry.from_status ? `${getStatusLabel(entry.from_status)} → ` : ""}
+                  <span className="font-medium">{getStatusLabel(entry.to_status)}</span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(entry.created_at), "MMM dd, yyyy HH:mm")} ·{" "}
+                  {entry.changed_by ? "User" : "System"}
+                  {entry.reason && ` · ${entry.reason}`}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pending?.label}</DialogTitle>
+            <DialogDescription>
+              Move this agreement from {getStatusLabel(agreement.status)} to{" "}
+              {pending && getStatusLabel(pending.to)}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {pending?.to === "notice_given" && (
+              <div className="space-y-2">
+                <Label htmlFor="notice_date">Notice Date</Label>
+                <Input
+                  id="notice_date"
+                  type="date"
+                  value={noticeDate}
+                  onChange={(e) => setNoticeDate(e.target.value)}
+                />
+                {noticeDate && (
+                  <p className="text-xs text-muted-foreground">
+                    With a {agreement.notice_period_days}-day notice period the tenancy can end on{" "}
+                    {format(
+                      new Date(getEarliestTerminationDate(noticeDate, agreement.notice_period_days)),
+                      "MMM dd, yyyy"
+                    )}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="transition_reason">Reason</Label>
+              <Textarea
+                id="transition_reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why is the status changing?"
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={saving}>
+              {saving ? "Saving..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
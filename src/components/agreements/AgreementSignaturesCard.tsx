@@ -0,0 +1,230 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { Copy, Download, Send } from "lucide-react";
+import { getDocumentUrl } from "@/lib/documents/urls";
+import {
+  SIGNING_PARTY_LABELS,
+  fetchSignatureRequests,
+  getRequestSignaturesError,
+  getSigningPath,
+  requestSignatures,
+  type SignableAgreement,
+  type SignatureRequest,
+} from "@/lib/agreements/signatures";
+
+interface AgreementSignaturesCardProps {
+  agreement: SignableAgreement & { signed_version: number | null };
+  onChanged: () => void;
+}
+
+const getStatusBadge = (request: SignatureRequest) => {
+  if (request.status === "pending" && new Date(request.expires_at) < new Date()) {
+    return <Badge variant="outline">Expired</Badge>;
+  }
+  const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+    pending: "secondary",
+    signed: "default",
+    revoked: "outline",
+  };
+  return (
+    <Badge variant={variants[request.status] || "secondary"}>
+      {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+    </Badge>
+  );
+};
+
+export function AgreementSignaturesCard({ agreement, onChanged }: AgreementSignaturesCardProps) {
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<SignatureRequest[]>([]);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    loadRequests();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [agreement.id, agreement.status, agreement.current_version]);
+
+  const loadRequests = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setRequests(await fetchSignatureRequests(supabase, agreement.id));
+    } catch (error) {
+      console.error("Error fetching signature requests:", error);
+    }
+  };
+
+  const handleSend = async () => {
+    setSending(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      const issued = await requestSignatures(supabase, agreement, user.id);
+
+      toast({
+        title: "Success",
+        description: `Signing link${issued.length === 1 ? "" : "s"} created. Share ${issued.length === 1 ? "it" : "them"} with the signer${issued.length === 1 ? "" : "s"}.`,
+      });
+      onChanged();
+      loadRequests();
+    } catch (error) {
+      console.error("Error requesting signatures:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send for signature",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRevoke = async (request: SignatureRequest) => {
+    if (!confirm(`Withdraw the signing link for ${request.signer_name}?`)) return;
+
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const { error } = await supabase
+        .from("agreement_signatures")
+        .update({ status: "revoked" })
+        .eq("id", request.id)
+        .eq("status", "pending");
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Signing link withdrawn",
+      });
+      loadRequests();
+    } catch (error) {
+      console.error("Error revoking signature request:", error);
+      toast({
+        title: "Error",
+        description: "Failed to withdraw signing link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCopy = async (request: SignatureRequest) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${getSigningPath(request.token)}`);
+      toast({
+        title: "Success",
+        description: `Signing link for ${request.signer_name} copied`,
+      });
+    } catch (error) {
+      console.error("Error copying signing link:", error);
+      toast({
+        title: "Error",
+        description: "Failed to copy signing link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const canSend = agreement.status === "draft" || agreement.status === "pending_signature";
+  const sendError = canSend ? getRequestSignaturesError(agreement) : null;
+  // Revoked links are noise once replaced; keep them out of the list
+  const visible = requests.filter((request) => request.status !== "revoked");
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle>Signatures</CardTitle>
+            <CardDescription>
+              {agreement.signed_version
+                ? `Version ${agreement.signed_version} signed by all parties`
+                : "Landlord and tenant sign online through a private link"}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {agreement.signed_version && (
+              <Button variant="outline" size="sm" asChild>
+                <a
+                  href={getDocumentUrl("agreement", agreement.id, { version: agreement.signed_version, download: 1 })}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Signed PDF
+                </a>
+              </Button>
+            )}
+            {canSend && (
+              <Button
+                size="sm"
+                onClick={handleSend}
+                disabled={sending || !!sendError}
+                title={sendError || undefined}
+              >
+                <Send className="mr-2 h-4 w-4" />
+                {sending
+                  ? "Sending..."
+                  : agreement.status === "pending_signature"
+                    ? "Reissue Links"
+                    : "Send for Signature"}
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No signatures requested yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((request) => (
+              <div key={request.id} className="flex justify-between items-start gap-4 border rounded-lg p-3">
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{request.signer_name}</p>
+                    {getStatusBadge(request)}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {SIGNING_PARTY_LABELS[request.party]} · Version {request.version_number}
+                    {request.signer_email && ` · ${request.signer_email}`}
+                  </p>
+                  {request.signed_at ? (
+                    <p className="text-xs text-muted-foreground">
+                      Signed {format(new Date(request.signed_at), "MMM dd, yyyy HH:mm")}
+                      {request.ip_address && ` from ${request.ip_address}`}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      Link expires {format(new Date(request.expires_at), "MMM dd, yyyy")}
+                    </p>
+                  )}
+                </div>
+                {request.status === "pending" && (
+                  <div className="flex gap-2 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => handleCopy(request)}>
+                      <Copy className="mr-2 h-4 w-4" />
+                      Copy Link
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleRevoke(request)}>
+                      Withdraw
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
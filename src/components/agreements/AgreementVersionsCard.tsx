@@ -0,0 +1,196 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { format } from "date-fns";
+import { Download } from "lucide-react";
+import { getDocumentUrl } from "@/lib/documents/urls";
+import {
+  VERSIONED_FIELD_LABELS,
+  diffSnapshots,
+  fetchAmendments,
+  fetchVersions,
+  formatFieldValue,
+  type AgreementAmendment,
+  type AgreementVersion,
+} from "@/lib/agreements/versions";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+interface AgreementVersionsCardProps {
+  agreement: { id: string; current_version: number | null };
+}
+
+export function AgreementVersionsCard({ agreement }: AgreementVersionsCardProps) {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const [versions, setVersions] = useState<AgreementVersion[]>([]);
+  const [amendments, setAmendments] = useState<AgreementAmendment[]>([]);
+  const [fromVersion, setFromVersion] = useState<string>("");
+  const [toVersion, setToVersion] = useState<string>("");
+
+  useEffect(() => {
+    loadVersions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [agreement.id, agreement.current_version]);
+
+  const loadVersions = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const [versionData, amendmentData] = await Promise.all([
+        fetchVersions(supabase, agreement.id),
+        fetchAmendments(supabase, agreement.id),
+      ]);
+      setVersions(versionData);
+      setAmendments(amendmentData);
+      if (versionData.length > 1) {
+        setFromVersion(String(versionData[versionData.length - 2].version_number));
+        setToVersion(String(versionData[versionData.length - 1].version_number));
+      }
+    } catch (error) {
+      console.error("Error fetching agreement versions:", error);
+    }
+  };
+
+  if (amendments.length === 0) return null;
+
+  const from = versions.find((version) => String(version.version_number) === fromVersion);
+  const to = versions.find((version) => String(version.version_number) === toVersion);
+  const changes = from && to ? diffSnapshots(from.snapshot, to.snapshot) : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Amendments & Versions</CardTitle>
+        <CardDescription>
+          Version {agreement.current_version} is current · {amendments.length} amendment
+          {amendments.length !== 1 ? "s" : ""}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Version</TableHead>
+              <TableHead>Effective</TableHead>
+              <TableHead>Changed</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead className="text-right">Documents</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {versions.map((version) => {
+              const amendment = amendments.find((a) => a.version_number === version.version_number);
+              return (
+                <TableRow key={version.id}>
+                  <TableCell className="font-medium">v{version.version_number}</TableCell>
+                  <TableCell>
+                    {amendment
+                      ? format(new Date(amendment.effective_date), "MMM dd, yyyy")
+                      : format(new Date(version.created_at), "MMM dd, yyyy")}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {amendment
+                      ? amendment.changes.map((change) => VERSIONED_FIELD_LABELS[change.field]).join(", ")
+                      : "Original"}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{amendment?.reason || "-"}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button variant="ghost" size="sm" asChild>
+                        <a
+                          href={getDocumentUrl("agreement", agreement.id, { version: version.version_number })}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          <Download className="mr-1 h-4 w-4" />
+                          Agreement
+                        </a>
+                      </Button>
+                      {amendment && (
+                        <Button variant="ghost" size="sm" asChild>
+                          <a href={getDocumentUrl("addendum", amendment.id)} target="_blank" rel="noopener noreferrer">
+                            <Download className="mr-1 h-4 w-4" />
+                            Addendum
+                          </a>
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {versions.length > 1 && (
+          <div className="border-t pt-4 space-y-4">
+            <h3 className="font-semibold">Compare Versions</h3>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Select value={fromVersion} onValueChange={setFromVersion}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={String(version.version_number)}>
+                        Version {version.version_number}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Select value={toVersion} onValueChange={setToVersion}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={String(version.version_number)}>
+                        Version {version.version_number}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No differences between these versions.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Term</TableHead>
+                    <TableHead>Version {fromVersion}</TableHead>
+                    <TableHead>Version {toVersion}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.map((change) => (
+                    <TableRow key={change.field}>
+                      <TableCell className="font-medium">{VERSIONED_FIELD_LABELS[change.field]}</TableCell>
+                      <TableCell className="text-sm text-red-600 line-through whitespace-pre-wrap">
+                        {formatFieldValue(change.field, change.from, baseCurrency)}
+                      </TableCell>
+                      <TableCell className="text-sm text-green-600 whitespace-pre-wrap">
+                        {formatFieldValue(change.field, change.to, baseCurrency)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
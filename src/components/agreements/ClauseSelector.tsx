@@ -0,0 +1,207 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { ArrowDown, ArrowUp, Eye, EyeOff, Trash2 } from "lucide-react";
+import {
+  CLAUSE_CATEGORY_LABELS,
+  findUnresolvedPlaceholders,
+  mergeSelectedClauses,
+  selectTemplateClauses,
+  type AgreementTemplate,
+  type Clause,
+  type ClauseSelection,
+} from "@/lib/agreements/clauses";
+
+interface ClauseSelectorProps {
+  value: ClauseSelection[];
+  onChange: (clauses: ClauseSelection[]) => void;
+  mergeContext: Record<string, string>;
+}
+
+export function ClauseSelector({ value, onChange, mergeContext }: ClauseSelectorProps) {
+  const [library, setLibrary] = useState<Clause[]>([]);
+  const [templates, setTemplates] = useState<AgreementTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string>("");
+  const [showPreview, setShowPreview] = useState(false);
+
+  useEffect(() => {
+    fetchLibrary();
+  }, []);
+
+  const fetchLibrary = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const [clauseResult, templateResult] = await Promise.all([
+        supabase.from("clauses").select("id, title, category, body").order("title"),
+        supabase.from("agreement_templates").select("id, name, description, clause_ids").order("name"),
+      ]);
+
+      if (clauseResult.error) throw clauseResult.error;
+      if (templateResult.error) throw templateResult.error;
+      setLibrary(clauseResult.data || []);
+      setTemplates(templateResult.data || []);
+    } catch (error) {
+      console.error("Error fetching clause library:", error);
+    }
+  };
+
+  const handleTemplateChange = (id: string) => {
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+    if (value.length > 0 && !confirm("Replace the selected clauses with this template?")) return;
+    setTemplateId(id);
+    onChange(selectTemplateClauses(template, library));
+  };
+
+  const handleAddClause = (id: string) => {
+    const clause = library.find((c) => c.id === id);
+    if (!clause) return;
+    onChange([...value, { clause_id: clause.id, title: clause.title, body: clause.body, enabled: true }]);
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= value.length) return;
+    const next = [...value];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const handleToggle = (index: number, enabled: boolean) => {
+    onChange(value.map((clause, i) => (i === index ? { ...clause, enabled } : clause)));
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const availableClauses = library.filter((clause) => !value.some((c) => c.clause_id === clause.id));
+  const merged = mergeSelectedClauses(value, mergeContext);
+  const unresolved = Array.from(
+    new Set(value.filter((clause) => clause.enabled).flatMap((clause) => findUnresolvedPlaceholders(clause.body, mergeContext)))
+  );
+
+  if (library.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No clauses in your library yet.{" "}
+        <Link href="/dashboard/clauses/new" className="underline">
+          Add a clause
+        </Link>{" "}
+        to reuse it across agreements.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Template</Label>
+          <Select value={templateId} onValueChange={handleTemplateChange}>
+            <SelectTrigger>
+              <SelectValue placeholder={templates.length > 0 ? "Select a template" : "No templates yet"} />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map((template) => (
+                <SelectItem key={template.id} value={template.id}>
+                  {template.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Add Clause</Label>
+          <Select value="" onValueChange={handleAddClause} disabled={availableClauses.length === 0}>
+            <SelectTrigger>
+              <SelectValue placeholder="Add a clause from the library" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableClauses.map((clause) => (
+                <SelectItem key={clause.id} value={clause.id}>
+                  {clause.title} ({CLAUSE_CATEGORY_LABELS[clause.category]})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {value.length > 0 && (
+        <div className="border rounded-md divide-y">
+          {value.map((clause, index) => {
+            const category = library.find((c) => c.id === clause.clause_id)?.category;
+            return (
+              <div key={`${clause.clause_id}-${index}`} className="flex items-center gap-3 p-3">
+                <Switch checked={clause.enabled} onCheckedChange={(checked) => handleToggle(index, checked)} />
+                <div className={`flex-1 min-w-0 ${clause.enabled ? "" : "opacity-50"}`}>
+                  <p className="font-medium text-sm truncate">{clause.title}</p>
+                  {category && (
+                    <Badge variant="outline" className="mt-1">
+                      {CLAUSE_CATEGORY_LABELS[category]}
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <Button type="button" variant="ghost" size="icon" onClick={() => handleMove(index, -1)} disabled={index === 0}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === value.length - 1}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="icon" onClick={() => handleRemove(index)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {value.length > 0 && (
+        <div className="space-y-3">
+          <Button type="button" variant="outline" size="sm" onClick={() => setShowPreview(!showPreview)}>
+            {showPreview ? <EyeOff className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+            {showPreview ? "Hide Preview" : "Preview Clauses"}
+          </Button>
+          {unresolved.length > 0 && (
+            <p className="text-sm text-yellow-700">
+              Not filled in yet: {unresolved.map((key) => `{{${key}}}`).join(", ")}
+            </p>
+          )}
+          {showPreview && (
+            <div className="rounded-md bg-muted p-4 space-y-3">
+              {merged.length === 0 ? (
+                <p className="text-sm text-muted-foreground">All clauses are switched off.</p>
+              ) : (
+                merged.map((clause, index) => (
+                  <div key={`${clause.clause_id}-${index}`}>
+                    <p className="font-semibold text-sm">
+                      {index + 1}. {clause.title}
+                    </p>
+                    <p className="text-sm whitespace-pre-wrap mt-1">{clause.body}</p>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
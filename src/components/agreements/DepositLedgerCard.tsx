@@ -0,0 +1,446 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { Download, Plus } from "lucide-react";
+import { getDocumentUrl } from "@/lib/documents/urls";
+import {
+  DEPOSIT_ENTRY_LABELS,
+  DEPOSIT_ENTRY_TYPES,
+  fetchDepositLedger,
+  getDepositEffect,
+  getSettlementError,
+  recordDepositEntry,
+  settleDeposit,
+  summarizeDeposit,
+  type DepositAgreement,
+  type DepositEntry,
+  type DepositEntryType,
+} from "@/lib/agreements/deposits";
+import { formatCurrency, getCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+interface DepositLedgerCardProps {
+  agreement: DepositAgreement & { deposit_refund_amount: number | null };
+  onChanged: () => void;
+}
+
+interface MaintenanceOption {
+  id: string;
+  title: string;
+  cost: number | null;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export function DepositLedgerCard({ agreement, onChanged }: DepositLedgerCardProps) {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<DepositEntry[]>([]);
+  const [maintenance, setMaintenance] = useState<MaintenanceOption[]>([]);
+  const [entryOpen, setEntryOpen] = useState(false);
+  const [settleOpen, setSettleOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [entryType, setEntryType] = useState<DepositEntryType>("receipt");
+  const [amount, setAmount] = useState("");
+  const [entryDate, setEntryDate] = useState(today());
+  const [description, setDescription] = useState("");
+  const [maintenanceId, setMaintenanceId] = useState("");
+  const [reference, setReference] = useState("");
+
+  useEffect(() => {
+    loadLedger();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [agreement.id, agreement.deposit_settled_at]);
+
+  const loadLedger = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const [ledger, { data: requests, error }] = await Promise.all([
+        fetchDepositLedger(supabase, agreement.id),
+        supabase
+          .from("maintenance_requests")
+          .select("id, title, cost")
+          .eq("agreement_id", agreement.id)
+          .order("request_date", { ascending: false }),
+      ]);
+
+      if (error) throw error;
+      setEntries(ledger);
+      setMaintenance(requests || []);
+    } catch (error) {
+      console.error("Error fetching deposit ledger:", error);
+    }
+  };
+
+  const summary = summarizeDeposit(entries, agreement.deposit_amount);
+  const settlementError = getSettlementError(agreement);
+
+  const openEntry = () => {
+    setEntryType(summary.outstanding > 0 ? "receipt" : "deduction");
+    setAmount(summary.outstanding > 0 ? String(summary.outstanding) : "");
+    setEntryDate(today());
+    setDescription(summary.outstanding > 0 ? "Security deposit received" : "");
+    setMaintenanceId("");
+    setReference("");
+    setEntryOpen(true);
+  };
+
+  // Linking a maintenance job fills in its cost and title as the deduction
+  const selectMaintenance = (id: string) => {
+    setMaintenanceId(id);
+    const request = maintenance.find((option) => option.id === id);
+    if (!request) return;
+    if (request.cost) setAmount(String(request.cost));
+    if (!description) setDescription(`Repair: ${request.title}`);
+  };
+
+  const getActorId = async () => {
+    const supabase = createSupabaseBrowserClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) throw new Error("User not authenticated");
+    return { supabase, actorId: user.id };
+  };
+
+  const handleAddEntry = async () => {
+    setSaving(true);
+    try {
+      const { supabase, actorId } = await getActorId();
+      await recordDepositEntry(
+        supabase,
+        agreement,
+        {
+          entry_type: entryType,
+          amount: parseFloat(amount),
+          entry_date: entryDate,
+          description,
+          maintenance_request_id: maintenanceId || null,
+          reference,
+        },
+        actorId
+      );
+
+      toast({
+        title: "Success",
+        description: `${DEPOSIT_ENTRY_LABELS[entryType]} recorded`,
+      });
+      setEntryOpen(false);
+      loadLedger();
+    } catch (error) {
+      console.error("Error recording deposit entry:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record deposit entry",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSettle = async () => {
+    setSaving(true);
+    try {
+      const { supabase, actorId } = await getActorId();
+      const result = await settleDeposit(supabase, agreement, {
+        settlementDate: entryDate,
+        reference,
+        actorId,
+      });
+
+      toast({
+        title: "Success",
+        description: `Deposit settled with ${formatCurrency(result.refunded, baseCurrency)} refunded${
+          result.terminated ? " and the agreement terminated" : ""
+        }`,
+      });
+      setSettleOpen(false);
+      onChanged();
+    } catch (error) {
+      console.error("Error settling deposit:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to settle deposit",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle>Security Deposit</CardTitle>
+            <CardDescription>
+              {agreement.deposit_settled_at
+                ? `Settled on ${format(new Date(agreement.deposit_settled_at), "MMM dd, yyyy")} with ${formatCurrency(
+                    Number(agreement.deposit_refund_amount ?? 0),
+                    baseCurrency
+                  )} refunded`
+                : `Agreed deposit ${formatCurrency(agreement.deposit_amount, baseCurrency)}`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {entries.length > 0 && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={getDocumentUrl("settlement", agreement.id)} target="_blank" rel="noopener noreferrer">
+                  <Download className="mr-2 h-4 w-4" />
+                  Settlement Statement
+                </a>
+              </Button>
+            )}
+            {!agreement.deposit_settled_at && (
+              <>
+                <Button variant="outline" size="sm" onClick={openEntry}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Entry
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={!!settlementError}
+                  title={settlementError || undefined}
+                  onClick={() => {
+                    setEntryDate(today());
+                    setReference("");
+                    setSettleOpen(true);
+                  }}
+                >
+                  Finalize Settlement
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Received</p>
+            <p className="font-semibold">{formatCurrency(summary.received, baseCurrency)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Deducted</p>
+            <p className="font-semibold">{formatCurrency(summary.deducted, baseCurrency)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Refunded</p>
+            <p className="font-semibold">{formatCurrency(summary.refunded, baseCurrency)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Held</p>
+            <p className="font-semibold">{formatCurrency(summary.held, baseCurrency)}</p>
+          </div>
+        </div>
+
+        {summary.outstanding > 0 && !agreement.deposit_settled_at && (
+          <p className="text-sm text-muted-foreground">
+            {formatCurrency(summary.outstanding, baseCurrency)} of the agreed deposit is still to be received.
+          </p>
+        )}
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No deposit transactions recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const effect = getDepositEffect(entry);
+                return (
+                  <TableRow key={entry.id}>
+                    <TableCell>{format(new Date(entry.entry_date), "MMM dd, yyyy")}</TableCell>
+                    <TableCell>{DEPOSIT_ENTRY_LABELS[entry.entry_type]}</TableCell>
+                    <TableCell>
+                      <p>{entry.description}</p>
+                      {(entry.maintenance || entry.reference) && (
+                        <p className="text-xs text-muted-foreground">
+                          {entry.maintenance && `Maintenance: ${entry.maintenance.title}`}
+                          {entry.maintenance && entry.reference && " · "}
+                          {entry.reference}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right ${effect < 0 ? "text-destructive" : ""}`}>
+                      {effect < 0 ? "-" : "+"}{formatCurrency(Math.abs(effect), baseCurrency)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={entryOpen} onOpenChange={setEntryOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Deposit Entry</DialogTitle>
+            <DialogDescription>{formatCurrency(summary.held, baseCurrency)} is currently held.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={entryType} onValueChange={(value) => setEntryType(value as DepositEntryType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEPOSIT_ENTRY_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {DEPOSIT_ENTRY_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="deposit_entry_date">Date</Label>
+                <Input
+                  id="deposit_entry_date"
+                  type="date"
+                  value={entryDate}
+                  onChange={(e) => setEntryDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {entryType === "deduction" && maintenance.length > 0 && (
+              <div className="space-y-2">
+                <Label>Maintenance Request</Label>
+                <Select value={maintenanceId} onValueChange={selectMaintenance}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Link a repair (optional)" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {maintenance.map((request) => (
+                      <SelectItem key={request.id} value={request.id}>
+                        {request.title}
+                        {request.cost ? ` (${formatCurrency(request.cost, baseCurrency)})` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="deposit_amount_input">Amount ({getCurrency(baseCurrency).symbol})</Label>
+              <Input
+                id="deposit_amount_input"
+                type="number"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+              {entryType === "adjustment" && (
+                <p className="text-xs text-muted-foreground">Use a negative amount to reduce the deposit held.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="deposit_description">Description</Label>
+              <Input
+                id="deposit_description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="deposit_reference">Reference</Label>
+              <Input
+                id="deposit_reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="e.g. bank transfer ID"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEntryOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAddEntry} disabled={saving}>
+              {saving ? "Saving..." : "Add Entry"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={settleOpen} onOpenChange={setSettleOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Finalize Move-out Settlement</DialogTitle>
+            <DialogDescription>
+              The remaining {formatCurrency(Math.max(0, summary.held), baseCurrency)} will be recorded as refunded and the
+              ledger closed.
+              {agreement.status === "notice_given" && " The agreement is terminated once its notice period has ended."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="settlement_date">Refund Date</Label>
+              <Input
+                id="settlement_date"
+                type="date"
+                value={entryDate}
+                onChange={(e) => setEntryDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settlement_reference">Reference</Label>
+              <Input
+                id="settlement_reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="e.g. bank transfer ID"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSettleOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSettle} disabled={saving}>
+              {saving ? "Settling..." : "Finalize Settlement"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
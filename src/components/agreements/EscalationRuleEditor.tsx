@@ -0,0 +1,225 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  ESCALATION_TYPES,
+  ESCALATION_TYPE_LABELS,
+  type EscalationRule,
+  type EscalationType,
+} from "@/lib/agreements/escalation";
+import { getCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+interface EscalationRuleEditorProps {
+  value: EscalationRule;
+  onChange: (rule: EscalationRule) => void;
+}
+
+const toNumber = (value: string) => (value === "" ? undefined : Number(value));
+
+export function EscalationRuleEditor({ value, onChange }: EscalationRuleEditorProps) {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const update = (changes: Partial<EscalationRule>) => onChange({ ...value, ...changes });
+
+  const handleTypeChange = (type: EscalationType) => {
+    update({
+      type,
+      value: type === "fixed_percentage" ? 10 : type === "fixed_amount" ? 0 : undefined,
+      steps: type === "step" ? value.steps ?? [{ year: 2, percentage: 5 }] : undefined,
+      index_table:
+        type === "index" ? value.index_table ?? [{ year: new Date().getFullYear(), rate: 5 }] : undefined,
+    });
+  };
+
+  const steps = value.steps ?? [];
+  const indexTable = value.index_table ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Escalation Rule</Label>
+        <Select value={value.type} onValueChange={(type) => handleTypeChange(type as EscalationType)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ESCALATION_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {ESCALATION_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {(value.type === "fixed_percentage" || value.type === "fixed_amount") && (
+        <div className="space-y-2">
+          <Label htmlFor="escalation_value">
+            {value.type === "fixed_percentage" ? "Increase per Year (%)" : `Increase per Year (${getCurrency(baseCurrency).symbol})`}
+          </Label>
+          <Input
+            id="escalation_value"
+            type="number"
+            step="0.01"
+            min="0"
+            value={value.value ?? ""}
+            onChange={(e) => update({ value: toNumber(e.target.value) })}
+          />
+        </div>
+      )}
+
+      {value.type === "step" && (
+        <div className="space-y-2">
+          <Label>Steps</Label>
+          {steps.map((step, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                type="number"
+                min="2"
+                value={step.year}
+                onChange={(e) =>
+                  update({
+                    steps: steps.map((s, i) => (i === index ? { ...s, year: Number(e.target.value) } : s)),
+                  })
+                }
+                aria-label="Lease year"
+              />
+              <Input
+                type="number"
+                step="0.01"
+                value={step.percentage}
+                onChange={(e) =>
+                  update({
+                    steps: steps.map((s, i) => (i === index ? { ...s, percentage: Number(e.target.value) } : s)),
+                  })
+                }
+                aria-label="Increase (%)"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => update({ steps: steps.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">Lease year and % increase applied from that year</p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              update({
+                steps: [...steps, { year: (steps[steps.length - 1]?.year ?? 1) + 1, percentage: 5 }],
+              })
+            }
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Step
+          </Button>
+        </div>
+      )}
+
+      {value.type === "index" && (
+        <div className="space-y-2">
+          <Label>Index Rates</Label>
+          {indexTable.map((entry, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                type="number"
+                value={entry.year}
+                onChange={(e) =>
+                  update({
+                    index_table: indexTable.map((r, i) => (i === index ? { ...r, year: Number(e.target.value) } : r)),
+                  })
+                }
+                aria-label="Calendar year"
+              />
+              <Input
+                type="number"
+                step="0.01"
+                value={entry.rate}
+                onChange={(e) =>
+                  update({
+                    index_table: indexTable.map((r, i) => (i === index ? { ...r, rate: Number(e.target.value) } : r)),
+                  })
+                }
+                aria-label="Rate (%)"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => update({ index_table: indexTable.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">Calendar year and published index rate (%)</p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              update({
+                index_table: [
+                  ...indexTable,
+                  { year: (indexTable[indexTable.length - 1]?.year ?? new Date().getFullYear() - 1) + 1, rate: 5 },
+                ],
+              })
+            }
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Rate
+          </Button>
+        </div>
+      )}
+
+      <div className="grid gap-4 grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="escalation_cap">Cap per Year (%)</Label>
+          <Input
+            id="escalation_cap"
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="No cap"
+            value={value.cap_percentage ?? ""}
+            onChange={(e) => update({ cap_percentage: toNumber(e.target.value) ?? null })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="escalation_max_rent">Maximum Rent ({getCurrency(baseCurrency).symbol})</Label>
+          <Input
+            id="escalation_max_rent"
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="No limit"
+            value={value.max_rent ?? ""}
+            onChange={(e) => update({ max_rent: toNumber(e.target.value) ?? null })}
+          />
+        </div>
+      </div>
+
+      {value.type !== "fixed_amount" && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="escalation_compounding">Compound on previous year&apos;s rent</Label>
+          <Switch
+            id="escalation_compounding"
+            checked={value.compounding}
+            onCheckedChange={(compounding) => update({ compounding })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  LATE_FEE_TYPES,
+  LATE_FEE_TYPE_LABELS,
+  describeLateFeePolicy,
+  type LateFeePolicy,
+  type LateFeeType,
+} from "@/lib/agreements/fees";
+import { getCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+interface LateFeePolicyEditorProps {
+  value: LateFeePolicy;
+  onChange: (policy: LateFeePolicy) => void;
+}
+
+const toNumber = (value: string) => (value === "" ? 0 : Number(value));
+
+export function LateFeePolicyEditor({ value, onChange }: LateFeePolicyEditorProps) {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const update = (changes: Partial<LateFeePolicy>) => onChange({ ...value, ...changes });
+  const unit = value.fee_type === "flat" ? getCurrency(baseCurrency).symbol : "%";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="late_fee_enabled">Late Fee</Label>
+        <Switch
+          id="late_fee_enabled"
+          checked={value.enabled}
+          onCheckedChange={(enabled) => update({ enabled })}
+        />
+      </div>
+
+      {value.enabled && (
+        <>
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="late_fee_grace">Grace Period (days)</Label>
+              <Input
+                id="late_fee_grace"
+                type="number"
+                min="0"
+                value={value.grace_days}
+                onChange={(e) => update({ grace_days: Math.floor(toNumber(e.target.value)) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Fee Type</Label>
+              <Select value={value.fee_type} onValueChange={(type) => update({ fee_type: type as LateFeeType })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LATE_FEE_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {LATE_FEE_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="late_fee_value">Fee ({unit})</Label>
+              <Input
+                id="late_fee_value"
+                type="number"
+                step="0.01"
+                min="0"
+                value={value.fee_value}
+                onChange={(e) => update({ fee_value: toNumber(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="late_fee_daily">Per Day After ({unit})</Label>
+              <Input
+                id="late_fee_daily"
+                type="number"
+                step="0.01"
+                min="0"
+                value={value.daily_accrual}
+                onChange={(e) => update({ daily_accrual: toNumber(e.target.value) })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="late_fee_max">Maximum Fee ({getCurrency(baseCurrency).symbol})</Label>
+            <Input
+              id="late_fee_max"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="No cap"
+              value={value.max_fee ?? ""}
+              onChange={(e) => update({ max_fee: e.target.value === "" ? null : Number(e.target.value) })}
+            />
+          </div>
+        </>
+      )}
+
+      <p className="text-xs text-muted-foreground">{describeLateFeePolicy(value, baseCurrency)}</p>
+    </div>
+  );
+}
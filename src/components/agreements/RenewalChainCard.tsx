@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { format } from "date-fns";
+import { getStatusLabel } from "@/lib/agreements/lifecycle";
+import { fetchRenewalChain, type RenewalChainEntry } from "@/lib/agreements/renewal";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+interface RenewalChainCardProps {
+  agreement: RenewalChainEntry;
+}
+
+export function RenewalChainCard({ agreement }: RenewalChainCardProps) {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const [chain, setChain] = useState<RenewalChainEntry[]>([]);
+
+  useEffect(() => {
+    loadChain();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [agreement.id, agreement.status]);
+
+  const loadChain = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setChain(await fetchRenewalChain(supabase, agreement));
+    } catch (error) {
+      console.error("Error fetching renewal chain:", error);
+    }
+  };
+
+  if (chain.length < 2) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Renewal History</CardTitle>
+        <CardDescription>
+          {chain.length} linked agreement{chain.length !== 1 ? "s" : ""} for this tenancy
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Agreement #</TableHead>
+              <TableHead>Period</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Monthly Rent</TableHead>
+              <TableHead className="text-right">Change</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {chain.map((entry, index) => {
+              const previous = chain[index - 1];
+              const change = previous && previous.monthly_rent > 0
+                ? ((entry.monthly_rent - previous.monthly_rent) / previous.monthly_rent) * 100
+                : null;
+
+              return (
+                <TableRow key={entry.id} className={entry.id === agreement.id ? "bg-muted/50" : undefined}>
+                  <TableCell className="font-medium">
+                    {entry.id === agreement.id ? (
+                      entry.agreement_number
+                    ) : (
+                      <Link href={`/dashboard/agreements/${entry.id}`} className="underline">
+                        {entry.agreement_number}
+                      </Link>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {format(new Date(entry.start_date), "MMM dd, yyyy")} - {format(new Date(entry.end_date), "MMM dd, yyyy")}
+                  </TableCell>
+                  <TableCell>{getStatusLabel(entry.status)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(entry.monthly_rent, baseCurrency)}</TableCell>
+                  <TableCell className="text-right text-green-600">
+                    {change === null ? "-" : `${change >= 0 ? "+" : ""}${change.toFixed(1)}%`}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { CalendarPlus, Plus } from "lucide-react";
+import {
+  RENT_DUE_STATUS_LABELS,
+  fetchRentAccount,
+  syncRentDues,
+  type RentAccount,
+  type RentDueStatus,
+  type ScheduledAgreement,
+} from "@/lib/agreements/dues";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+interface RentAccountCardProps {
+  agreement: ScheduledAgreement;
+}
+
+const getStatusBadge = (status: RentDueStatus) => {
+  const variants: Record<RentDueStatus, "default" | "secondary" | "destructive" | "outline"> = {
+    paid: "default",
+    partial: "secondary",
+    due: "destructive",
+    upcoming: "outline",
+  };
+
+  return <Badge variant={variants[status]}>{RENT_DUE_STATUS_LABELS[status]}</Badge>;
+};
+
+export function RentAccountCard({ agreement }: RentAccountCardProps) {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const { toast } = useToast();
+  const [account, setAccount] = useState<RentAccount | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    loadAccount();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [agreement.id, agreement.monthly_rent, agreement.end_date, agreement.termination_date]);
+
+  const loadAccount = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setAccount(await fetchRentAccount(supabase, agreement.id));
+    } catch (error) {
+      console.error("Error fetching rent account:", error);
+    }
+  };
+
+  // Agreements created before the schedule existed get theirs on demand
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const plan = await syncRentDues(supabase, agreement);
+
+      toast({
+        title: "Success",
+        description: `${plan.insert.length} due line${plan.insert.length === 1 ? "" : "s"} generated`,
+      });
+      loadAccount();
+    } catch (error) {
+      console.error("Error generating rent schedule:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate rent schedule",
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  if (!account) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle>Rent Account</CardTitle>
+            <CardDescription>
+              {account.balance < 0
+                ? `${formatCurrency(account.arrears, baseCurrency)} in arrears${
+                    account.late_fees > 0 ? `, including ${formatCurrency(account.late_fees, baseCurrency)} late fees` : ""
+                  }`
+                : account.advance > 0
+                  ? `${formatCurrency(account.advance, baseCurrency)} paid in advance`
+                  : "Up to date"}
+            </CardDescription>
+          </div>
+          {account.lines.length > 0 ? (
+            <Button size="sm" variant="outline" asChild>
+              <Link href="/dashboard/payments/new">
+                <Plus className="mr-2 h-4 w-4" />
+                Record Payment
+              </Link>
+            </Button>
+          ) : (
+            <Button size="sm" variant="outline" onClick={handleGenerate} disabled={generating}>
+              <CalendarPlus className="mr-2 h-4 w-4" />
+              {generating ? "Generating..." : "Generate Schedule"}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Due to Date</p>
+            <p className="font-semibold">{formatCurrency(account.due_to_date, baseCurrency)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Paid</p>
+            <p className="font-semibold">{formatCurrency(account.paid, baseCurrency)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Arrears</p>
+            <p className={`font-semibold ${account.arrears > 0 ? "text-destructive" : ""}`}>
+              {formatCurrency(account.arrears, baseCurrency)}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Balance</p>
+            <p className="font-semibold">
+              {account.balance < 0 ? "-" : ""}{formatCurrency(Math.abs(account.balance), baseCurrency)}
+            </p>
+          </div>
+        </div>
+
+        {account.lines.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No rent schedule generated yet.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {account.lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell>
+                      {line.kind === "late_fee" && <span className="text-muted-foreground">Late fee · </span>}
+                      {format(new Date(line.period_start), "MMM dd")} -{" "}
+                      {format(new Date(line.period_end), "MMM dd, yyyy")}
+                    </TableCell>
+                    <TableCell>{format(new Date(line.due_date), "MMM dd, yyyy")}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.amount, baseCurrency)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.paid, baseCurrency)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.outstanding, baseCurrency)}</TableCell>
+                    <TableCell>{getStatusBadge(line.status)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {account.credit > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {formatCurrency(account.credit, baseCurrency)} paid beyond the end of the schedule is held as credit.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
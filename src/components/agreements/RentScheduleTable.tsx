@@ -0,0 +1,41 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format } from "date-fns";
+import type { RentScheduleEntry } from "@/lib/agreements/escalation";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+interface RentScheduleTableProps {
+  schedule: RentScheduleEntry[];
+}
+
+export function RentScheduleTable({ schedule }: RentScheduleTableProps) {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Year</TableHead>
+          <TableHead>Period</TableHead>
+          <TableHead className="text-right">Monthly Rent</TableHead>
+          <TableHead className="text-right">Increase</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {schedule.map((entry) => (
+          <TableRow key={entry.year}>
+            <TableCell>{entry.year}</TableCell>
+            <TableCell className="text-xs text-muted-foreground">
+              {format(new Date(entry.start_date), "MMM yyyy")} - {format(new Date(entry.end_date), "MMM yyyy")}
+            </TableCell>
+            <TableCell className="text-right font-medium">
+              {formatCurrency(entry.monthly_rent, baseCurrency)}
+            </TableCell>
+            <TableCell className="text-right text-green-600">
+              {entry.year === 1 ? "-" : `+${entry.increase_percentage.toFixed(1)}%`}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { FileText, Trash2 } from "lucide-react";
+import {
+  deleteAttachment,
+  fetchAttachments,
+  formatFileSize,
+  type AttachmentEntity,
+  type SignedAttachment,
+} from "@/lib/attachments/attachments";
+
+interface AttachmentGalleryProps {
+  entity: AttachmentEntity;
+  entityId: string;
+  // Only show files with this tag
+  tag?: string;
+  // Show a delete button on each file
+  editable?: boolean;
+  onChange?: (count: number) => void;
+}
+
+/**
+ * Thumbnails of an entity's attachments, each opening the full file through a signed URL
+ */
+export function AttachmentGallery({ entity, entityId, tag, editable, onChange }: AttachmentGalleryProps) {
+  const { toast } = useToast();
+  const [attachments, setAttachments] = useState<SignedAttachment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadAttachments();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [entity, entityId, tag]);
+
+  const loadAttachments = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setAttachments(await fetchAttachments(supabase, entity, entityId, tag));
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (attachment: SignedAttachment) => {
+    if (!confirm(`Delete ${attachment.file_name}?`)) return;
+
+    try {
+      const supabase = createSupabaseBrowserClient();
+      await deleteAttachment(supabase, attachment);
+      const remaining = attachments.filter((item) => item.id !== attachment.id);
+      setAttachments(remaining);
+      onChange?.(remaining.length);
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete attachment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground text-center py-4">Loading...</p>;
+  }
+
+  if (attachments.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No attachments</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+      {attachments.map((attachment) => (
+        <div key={attachment.id} className="relative group">
+          <a href={attachment.url} target="_blank" rel="noopener noreferrer" title={attachment.file_name}>
+            {attachment.thumbnail_url ? (
+              <Image
+                src={attachment.thumbnail_url}
+                alt={attachment.file_name}
+                width={160}
+                height={128}
+                className="w-full h-32 object-cover rounded border"
+                unoptimized
+              />
+            ) : (
+              <div className="w-full h-32 rounded border flex flex-col items-center justify-center gap-1 p-2">
+                <FileText className="h-8 w-8 text-muted-foreground" />
+                <span className="text-xs truncate max-w-full">{attachment.file_name}</span>
+                <span className="text-xs text-muted-foreground">{formatFileSize(attachment.size_bytes)}</span>
+              </div>
+            )}
+          </a>
+          {editable && (
+            <Button
+              type="button"
+              variant="destructive"
+              size="icon"
+              className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100"
+              onClick={() => handleDelete(attachment)}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { FileText, Upload, X } from "lucide-react";
+import { ATTACHMENT_CONTENT_TYPES, MAX_ATTACHMENT_BYTES, formatFileSize, type PreparedAttachment } from "@/lib/attachments/attachments";
+import { prepareAttachment } from "@/lib/attachments/images";
+
+interface AttachmentPickerProps {
+  id: string;
+  value: PreparedAttachment[];
+  onChange: (attachments: PreparedAttachment[]) => void;
+  // Defaults to every type the bucket accepts
+  accept?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Pick files to attach once the record is saved. Photos are downscaled as they are picked.
+ */
+export function AttachmentPicker({ id, value, onChange, accept, disabled }: AttachmentPickerProps) {
+  const { toast } = useToast();
+  const [preparing, setPreparing] = useState(false);
+
+  const previews = useMemo(
+    () => value.map((attachment) => (attachment.thumbnail ? URL.createObjectURL(attachment.thumbnail) : null)),
+    [value]
+  );
+
+  useEffect(() => () => previews.forEach((url) => url && URL.revokeObjectURL(url)), [previews]);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) return;
+
+    setPreparing(true);
+    const prepared: PreparedAttachment[] = [];
+    const failures: string[] = [];
+
+    for (const file of files) {
+      try {
+        prepared.push(await prepareAttachment(file));
+      } catch (error) {
+        console.error("Error preparing attachment:", error);
+        failures.push(error instanceof Error ? error.message : `${file.name}: could not be read`);
+      }
+    }
+
+    onChange([...value, ...prepared]);
+    setPreparing(false);
+
+    if (failures.length > 0) {
+      toast({
+        title: "Error",
+        description: failures.join("\n"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="border-2 border-dashed rounded-lg p-4">
+        <input
+          type="file"
+          id={id}
+          accept={accept ?? ATTACHMENT_CONTENT_TYPES.join(",")}
+          multiple
+          onChange={handleFiles}
+          className="hidden"
+          disabled={disabled || preparing}
+        />
+        <label htmlFor={id} className="flex flex-col items-center justify-center cursor-pointer">
+          <Upload className="h-8 w-8 text-muted-foreground mb-2" />
+          <span className="text-sm text-muted-foreground">
+            {preparing ? "Preparing..." : "Click to add files"}
+          </span>
+          <span className="text-xs text-muted-foreground mt-1">
+            Up to {formatFileSize(MAX_ATTACHMENT_BYTES)} each; large photos are resized
+          </span>
+        </label>
+      </div>
+      {value.length > 0 && (
+        <div className="grid grid-cols-4 gap-2">
+          {value.map((attachment, index) => (
+            <div key={index} className="relative">
+              {previews[index] ? (
+                <Image
+                  src={previews[index] as string}
+                  alt={attachment.file_name}
+                  width={96}
+                  height={96}
+                  className="w-full h-24 object-cover rounded border"
+                  unoptimized
+                />
+              ) : (
+                <div className="w-full h-24 rounded border flex flex-col items-center justify-center gap-1 p-2">
+                  <FileText className="h-6 w-6 text-muted-foreground" />
+                  <span className="text-xs text-muted-foreground truncate max-w-full">{attachment.file_name}</span>
+                </div>
+              )}
+              <Button
+                type="button"
+                variant="destructive"
+                size="icon"
+                className="absolute top-1 right-1 h-6 w-6"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                disabled={disabled}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
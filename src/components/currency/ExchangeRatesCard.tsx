@@ -0,0 +1,204 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { CURRENCY_CODES, getCurrencyLabel } from "@/lib/currency/currencies";
+import {
+  deleteExchangeRate,
+  fetchExchangeRates,
+  formatExchangeRate,
+  getExchangeRateError,
+  saveExchangeRate,
+  type ExchangeRate,
+  type ExchangeRateInput,
+} from "@/lib/currency/rates";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+export function ExchangeRatesCard() {
+  const { toast } = useToast();
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<ExchangeRateInput>({
+    base_currency: "USD",
+    quote_currency: baseCurrency,
+    rate: 0,
+    effective_date: format(new Date(), "yyyy-MM-dd"),
+  });
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  const loadRates = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setRates(await fetchExchangeRates(supabase));
+    } catch (error) {
+      console.error("Error fetching exchange rates:", error);
+    }
+  };
+
+  const handleAdd = async () => {
+    setSaving(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      await saveExchangeRate(supabase, user.id, draft);
+      toast({
+        title: "Success",
+        description: "Exchange rate saved",
+      });
+      setDraft({ ...draft, rate: 0 });
+      loadRates();
+    } catch (error) {
+      console.error("Error saving exchange rate:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save exchange rate",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!confirm(`Delete the ${rate.base_currency}/${rate.quote_currency} rate from ${rate.effective_date}?`)) return;
+
+    try {
+      const supabase = createSupabaseBrowserClient();
+      await deleteExchangeRate(supabase, rate.id);
+      loadRates();
+    } catch (error) {
+      console.error("Error deleting exchange rate:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete exchange rate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const rateError = draft.rate > 0 ? getExchangeRateError(draft) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exchange Rates</CardTitle>
+        <CardDescription>
+          Invoices and payments in other currencies store the rate into {baseCurrency} in force on their date.
+          Each rate applies from its date until a newer one is entered.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-5 items-end">
+          <div className="space-y-2">
+            <Label>From</Label>
+            <Select value={draft.base_currency} onValueChange={(value) => setDraft({ ...draft, base_currency: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCY_CODES.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {getCurrencyLabel(code)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>To</Label>
+            <Select value={draft.quote_currency} onValueChange={(value) => setDraft({ ...draft, quote_currency: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCY_CODES.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {getCurrencyLabel(code)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="exchange_rate">Rate</Label>
+            <Input
+              id="exchange_rate"
+              type="number"
+              step="0.000001"
+              min="0"
+              value={draft.rate || ""}
+              onChange={(e) => setDraft({ ...draft, rate: parseFloat(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="exchange_rate_date">Applies From</Label>
+            <Input
+              id="exchange_rate_date"
+              type="date"
+              value={draft.effective_date}
+              onChange={(e) => setDraft({ ...draft, effective_date: e.target.value })}
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={saving || draft.rate <= 0 || rateError !== null}>
+            {saving ? "Saving..." : "Add Rate"}
+          </Button>
+        </div>
+        <p className={`text-xs ${rateError ? "text-destructive" : "text-muted-foreground"}`}>
+          {rateError ||
+            (draft.rate > 0
+              ? formatExchangeRate(draft.rate, draft.base_currency, draft.quote_currency)
+              : "Enter what one unit of the first currency buys in the second")}
+        </p>
+
+        {rates.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No exchange rates yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rate</TableHead>
+                <TableHead>Applies From</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="w-12"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map((rate) => (
+                <TableRow key={rate.id}>
+                  <TableCell>{formatExchangeRate(rate.rate, rate.base_currency, rate.quote_currency)}</TableCell>
+                  <TableCell>{format(new Date(rate.effective_date), "MMM dd, yyyy")}</TableCell>
+                  <TableCell>{rate.user_id ? "Yours" : "Platform"}</TableCell>
+                  <TableCell>
+                    {rate.user_id && (
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(rate)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
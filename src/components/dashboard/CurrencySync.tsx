@@ -0,0 +1,33 @@
+"use client";
+
+import { useEffect } from "react";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { fetchBaseCurrency } from "@/lib/currency/rates";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+export function CurrencySync() {
+  const setBaseCurrency = useCurrencyStore((s) => s.setBaseCurrency);
+
+  useEffect(() => {
+    const syncCurrency = async () => {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        return;
+      }
+
+      try {
+        setBaseCurrency(await fetchBaseCurrency(supabase, user.id));
+      } catch (error) {
+        console.error("Error fetching base currency:", error);
+      }
+    };
+
+    syncCurrency();
+  }, [setBaseCurrency]);
+
+  return null;
+}
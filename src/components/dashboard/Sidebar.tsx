@@ -2,7 +2,7 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { LayoutDashboard, FileText, Users, Plus, LogOut, User, Home, Wrench, Receipt, Calculator } from "lucide-react";
+import { LayoutDashboard, FileText, Users, Plus, LogOut, User, Home, Wrench, Receipt, Calculator, ScrollText, Settings, Hourglass, HardHat } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -28,6 +28,11 @@ const navItems = [
     label: "New Agreement",
     icon: Plus,
   },
+  {
+    href: "/dashboard/clauses",
+    label: "Clause Library",
+    icon: ScrollText,
+  },
   {
     href: "/dashboard/tenants",
     label: "Tenants",
@@ -43,16 +48,31 @@ const navItems = [
     label: "Rent Payments",
     icon: Receipt,
   },
+  {
+    href: "/dashboard/receivables",
+    label: "Receivables",
+    icon: Hourglass,
+  },
   {
     href: "/dashboard/maintenance",
     label: "Maintenance",
     icon: Wrench,
   },
+  {
+    href: "/dashboard/vendors",
+    label: "Vendors",
+    icon: HardHat,
+  },
   {
     href: "/dashboard/utilities",
     label: "Utility Bills",
     icon: Calculator,
   },
+  {
+    href: "/dashboard/settings",
+    label: "Settings",
+    icon: Settings,
+  },
 ];
 
 export function Sidebar() {
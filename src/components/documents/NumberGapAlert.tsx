@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { AlertTriangle } from "lucide-react";
+import { fetchNumberGaps, type NumberedDocumentType } from "@/lib/documents/numbering";
+
+interface NumberGapAlertProps {
+  type: NumberedDocumentType;
+  number: string;
+}
+
+// Listing every missing number is noise once a series has many holes
+const MAX_LISTED_GAPS = 10;
+
+/**
+ * Warns when numbers before this document's are missing from its series
+ */
+export function NumberGapAlert({ type, number }: NumberGapAlertProps) {
+  const [gaps, setGaps] = useState<string[]>([]);
+
+  useEffect(() => {
+    const loadGaps = async () => {
+      try {
+        const supabase = createSupabaseBrowserClient();
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+
+        if (!user) return;
+        setGaps(await fetchNumberGaps(supabase, user.id, type, number));
+      } catch (error) {
+        console.error("Error checking number sequence:", error);
+      }
+    };
+
+    loadGaps();
+  }, [type, number]);
+
+  if (gaps.length === 0) return null;
+
+  const listed = gaps.slice(-MAX_LISTED_GAPS);
+
+  return (
+    <Alert>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {gaps.length} number{gaps.length === 1 ? " is" : "s are"} missing before {number}
+      </AlertTitle>
+      <AlertDescription>
+        {listed.join(", ")}
+        {gaps.length > listed.length && ` and ${gaps.length - listed.length} earlier`}. These numbers were issued
+        but no record with them exists, for example because saving failed or the record was deleted.
+      </AlertDescription>
+    </Alert>
+  );
+}
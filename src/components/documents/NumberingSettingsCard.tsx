@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import {
+  DEFAULT_NUMBERING_RULES,
+  NUMBERED_DOCUMENT_LABELS,
+  NUMBERED_DOCUMENT_TYPES,
+  NUMBER_TOKENS,
+  formatDocumentNumber,
+  getNumberSeries,
+  getNumberingRuleError,
+  type NumberedDocumentType,
+  type NumberingRule,
+} from "@/lib/documents/numbering";
+
+const MONTHS = Array.from({ length: 12 }, (_, index) => ({
+  value: index + 1,
+  label: format(new Date(2000, index, 1), "MMMM"),
+}));
+
+export function NumberingSettingsCard() {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<Record<NumberedDocumentType, NumberingRule>>(DEFAULT_NUMBERING_RULES);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const { data, error } = await supabase
+        .from("document_numbering")
+        .select("document_type, format, padding, fiscal_year_start");
+
+      if (error) throw error;
+
+      const loaded = { ...DEFAULT_NUMBERING_RULES };
+      for (const row of data || []) {
+        if (NUMBERED_DOCUMENT_TYPES.includes(row.document_type)) {
+          loaded[row.document_type as NumberedDocumentType] = {
+            format: row.format,
+            padding: row.padding,
+            fiscal_year_start: row.fiscal_year_start,
+          };
+        }
+      }
+      setRules(loaded);
+    } catch (error) {
+      console.error("Error fetching numbering rules:", error);
+    }
+  };
+
+  const updateRule = (type: NumberedDocumentType, changes: Partial<NumberingRule>) => {
+    setRules((current) => ({ ...current, [type]: { ...current[type], ...changes } }));
+  };
+
+  const handleSave = async () => {
+    const invalid = NUMBERED_DOCUMENT_TYPES.find((type) => getNumberingRuleError(rules[type]));
+    if (invalid) {
+      toast({
+        title: "Error",
+        description: `${NUMBERED_DOCUMENT_LABELS[invalid]}: ${getNumberingRuleError(rules[invalid])}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      const { error } = await supabase.from("document_numbering").upsert(
+        NUMBERED_DOCUMENT_TYPES.map((type) => ({
+          user_id: user.id,
+          document_type: type,
+          ...rules[type],
+          updated_at: new Date().toISOString(),
+        }))
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Numbering saved successfully",
+      });
+    } catch (error) {
+      console.error("Error saving numbering rules:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save numbering",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Document Numbering</CardTitle>
+        <CardDescription>
+          Numbers are issued in sequence and restart whenever the date part of the format changes.
+          Tokens: {Object.entries(NUMBER_TOKENS).map(([token, description]) => `${token} ${description.toLowerCase()}`).join("; ")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {NUMBERED_DOCUMENT_TYPES.map((type) => {
+          const rule = rules[type];
+          const ruleError = getNumberingRuleError(rule);
+
+          return (
+            <div key={type} className="grid gap-4 md:grid-cols-4 items-start">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor={`format_${type}`}>{NUMBERED_DOCUMENT_LABELS[type]}</Label>
+                <Input
+                  id={`format_${type}`}
+                  value={rule.format}
+                  onChange={(e) => updateRule(type, { format: e.target.value })}
+                />
+                <p className={`text-xs ${ruleError ? "text-destructive" : "text-muted-foreground"}`}>
+                  {ruleError || `e.g. ${formatDocumentNumber(getNumberSeries(rule, today), 42, rule.padding)}`}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor={`padding_${type}`}>Digits</Label>
+                <Input
+                  id={`padding_${type}`}
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={rule.padding}
+                  onChange={(e) => updateRule(type, { padding: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Fiscal Year Starts</Label>
+                <Select
+                  value={String(rule.fiscal_year_start)}
+                  onValueChange={(value) => updateRule(type, { fiscal_year_start: Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MONTHS.map((month) => (
+                      <SelectItem key={month.value} value={String(month.value)}>
+                        {month.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save Numbering"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { fetchEmailDeliveries, type EmailDelivery } from "@/lib/mail/deliveries";
+import {
+  MAIL_DOCUMENT_LABELS,
+  getSendDocumentError,
+  parseAddressList,
+  type MailDocumentType,
+} from "@/lib/mail/templates";
+
+interface SendDocumentDialogProps {
+  type: MailDocumentType;
+  documentId: string;
+  // Shown in the title, e.g. the invoice number
+  reference: string;
+  defaultTo: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSent?: () => void;
+}
+
+export function SendDocumentDialog({
+  type,
+  documentId,
+  reference,
+  defaultTo,
+  open,
+  onOpenChange,
+  onSent,
+}: SendDocumentDialogProps) {
+  const { toast } = useToast();
+  const [to, setTo] = useState(defaultTo ?? "");
+  const [cc, setCc] = useState("");
+  const [message, setMessage] = useState("");
+  const [sending, setSending] = useState(false);
+  const [deliveries, setDeliveries] = useState<EmailDelivery[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setTo(defaultTo ?? "");
+      loadDeliveries();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, documentId]);
+
+  const loadDeliveries = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setDeliveries(await fetchEmailDeliveries(supabase, type, documentId));
+    } catch (error) {
+      console.error("Error fetching email history:", error);
+    }
+  };
+
+  const request = { to: parseAddressList(to), cc: parseAddressList(cc), message };
+  const requestError = to.trim() ? getSendDocumentError(request) : null;
+
+  const handleSend = async () => {
+    setSending(true);
+    try {
+      const response = await fetch(`/api/documents/${type}/${documentId}/send`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+      const result = await response.json();
+
+      if (!response.ok) throw new Error(result.error || "Failed to send email");
+
+      toast({
+        title: "Success",
+        description: `${MAIL_DOCUMENT_LABELS[type]} sent to ${request.to.join(", ")}`,
+      });
+      setCc("");
+      setMessage("");
+      onOpenChange(false);
+      onSent?.();
+    } catch (error) {
+      console.error("Error sending document:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send email",
+        variant: "destructive",
+      });
+      loadDeliveries();
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            Send {MAIL_DOCUMENT_LABELS[type]} {reference}
+          </DialogTitle>
+          <DialogDescription>
+            The PDF is attached to an email written from the {MAIL_DOCUMENT_LABELS[type].toLowerCase()} template.
+            {type === "invoice" && " A draft invoice is marked as sent once the email goes out."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="send_to">To *</Label>
+            <Input id="send_to" value={to} onChange={(e) => setTo(e.target.value)} placeholder="name@example.com" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="send_cc">CC</Label>
+            <Input id="send_cc" value={cc} onChange={(e) => setCc(e.target.value)} placeholder="Separate addresses with commas" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="send_message">Message</Label>
+            <Textarea
+              id="send_message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Optional note added to the email"
+              rows={3}
+            />
+          </div>
+          {requestError && <p className="text-sm text-destructive">{requestError}</p>}
+
+          {deliveries.length > 0 && (
+            <div className="space-y-2">
+              <Label>Sent Before</Label>
+              <div className="max-h-40 overflow-y-auto space-y-2">
+                {deliveries.map((delivery) => (
+                  <div key={delivery.id} className="flex items-start justify-between gap-2 text-sm">
+                    <div>
+                      <p>{delivery.recipients.join(", ")}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(delivery.created_at), "MMM dd, yyyy HH:mm")}
+                        {delivery.error && ` - ${delivery.error}`}
+                      </p>
+                    </div>
+                    <Badge variant={delivery.status === "sent" ? "secondary" : "destructive"}>
+                      {delivery.status === "sent" ? "Sent" : "Failed"}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={sending || !to.trim() || requestError !== null}>
+            {sending ? "Sending..." : "Send"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
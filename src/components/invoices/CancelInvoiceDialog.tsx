@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cancelInvoice, fetchCreditableInvoice } from "@/lib/invoices/credits";
+
+interface CancelInvoiceDialogProps {
+  invoiceId: string;
+  invoiceNumber: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCancelled: () => void;
+}
+
+export function CancelInvoiceDialog({ invoiceId, invoiceNumber, open, onOpenChange, onCancelled }: CancelInvoiceDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleCancel = async () => {
+    setSaving(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const invoice = await fetchCreditableInvoice(supabase, invoiceId);
+      const { creditNoteId } = await cancelInvoice(supabase, invoice, reason, user.id);
+
+      toast({
+        title: "Success",
+        description: creditNoteId
+          ? "Invoice cancelled and a credit note issued for it"
+          : "Invoice cancelled",
+      });
+      setReason("");
+      onOpenChange(false);
+      onCancelled();
+    } catch (error) {
+      console.error("Error cancelling invoice:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel invoice",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel Invoice {invoiceNumber}</DialogTitle>
+          <DialogDescription>
+            The invoice is kept on record and a credit note is issued for everything not yet credited.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="cancel_reason">Reason *</Label>
+          <Textarea
+            id="cancel_reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why is this invoice being cancelled?"
+            rows={3}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Keep Invoice
+          </Button>
+          <Button variant="destructive" onClick={handleCancel} disabled={saving || !reason.trim()}>
+            {saving ? "Cancelling..." : "Cancel Invoice"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
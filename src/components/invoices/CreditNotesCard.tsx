@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { format } from "date-fns";
+import { Download, FileMinus } from "lucide-react";
+import { getDocumentUrl } from "@/lib/documents/urls";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { fetchCreditNotes, getCreditableAmount, type CreditNote } from "@/lib/invoices/credits";
+
+interface CreditNotesCardProps {
+  invoice: {
+    id: string;
+    status: string;
+    total: number;
+    credited_amount: number;
+    currency: string;
+  };
+}
+
+export function CreditNotesCard({ invoice }: CreditNotesCardProps) {
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+
+  const canCredit = !["draft", "cancelled"].includes(invoice.status) && getCreditableAmount(invoice) > 0;
+
+  useEffect(() => {
+    loadCreditNotes();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [invoice.id, invoice.credited_amount]);
+
+  const loadCreditNotes = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setCreditNotes(await fetchCreditNotes(supabase, invoice.id));
+    } catch (error) {
+      console.error("Error fetching credit notes:", error);
+    }
+  };
+
+  if (creditNotes.length === 0 && !canCredit) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle>Credit Notes</CardTitle>
+            <CardDescription>
+              {invoice.credited_amount > 0
+                ? `${formatCurrency(invoice.credited_amount, invoice.currency)} credited against this invoice`
+                : "Nothing credited yet"}
+            </CardDescription>
+          </div>
+          {canCredit && (
+            <Button size="sm" variant="outline" asChild>
+              <Link href={`/dashboard/invoices/${invoice.id}/credit-notes/new`}>
+                <FileMinus className="mr-2 h-4 w-4" />
+                Issue Credit Note
+              </Link>
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      {creditNotes.length > 0 && (
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Credit Note #</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {creditNotes.map((creditNote) => (
+                <TableRow key={creditNote.id}>
+                  <TableCell className="font-medium">{creditNote.credit_note_number}</TableCell>
+                  <TableCell>{format(new Date(creditNote.issue_date), "MMM dd, yyyy")}</TableCell>
+                  <TableCell className="max-w-xs truncate">{creditNote.reason}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(creditNote.total, invoice.currency)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" asChild>
+                      <a href={getDocumentUrl("credit_note", creditNote.id)} target="_blank" rel="noopener noreferrer">
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,254 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  INVOICE_STATUS_LABELS,
+  PAYMENT_METHODS,
+  PAYMENT_METHOD_LABELS,
+  deleteInvoicePayment,
+  fetchInvoicePayments,
+  getPaymentMethodLabel,
+  recordInvoicePayment,
+  type InvoicePayment,
+  type PayableInvoice,
+} from "@/lib/invoices/payments";
+
+interface InvoicePaymentsCardProps {
+  invoice: PayableInvoice & { paid_amount: number };
+  onChange: () => void;
+}
+
+export function InvoicePaymentsCard({ invoice, onChange }: InvoicePaymentsCardProps) {
+  const { toast } = useToast();
+  const [payments, setPayments] = useState<InvoicePayment[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [amount, setAmount] = useState(0);
+  const [paymentDate, setPaymentDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [paymentMethod, setPaymentMethod] = useState<string>("bank_transfer");
+  const [reference, setReference] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const balance = Math.max(0, invoice.total - invoice.paid_amount - invoice.credited_amount);
+
+  useEffect(() => {
+    loadPayments();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [invoice.id, invoice.paid_amount]);
+
+  const loadPayments = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setPayments(await fetchInvoicePayments(supabase, invoice.id));
+    } catch (error) {
+      console.error("Error fetching invoice payments:", error);
+    }
+  };
+
+  const openDialog = () => {
+    setAmount(balance);
+    setPaymentDate(format(new Date(), "yyyy-MM-dd"));
+    setReference("");
+    setNotes("");
+    setDialogOpen(true);
+  };
+
+  const handleRecord = async () => {
+    setSaving(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const { status } = await recordInvoicePayment(supabase, invoice, {
+        amount,
+        payment_date: paymentDate,
+        payment_method: paymentMethod,
+        reference,
+        notes,
+      });
+
+      toast({
+        title: "Success",
+        description: `Payment recorded; invoice is now ${INVOICE_STATUS_LABELS[status].toLowerCase()}`,
+      });
+      setDialogOpen(false);
+      onChange();
+    } catch (error) {
+      console.error("Error recording invoice payment:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record payment",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (payment: InvoicePayment) => {
+    if (!confirm(`Delete the payment of ${formatCurrency(payment.amount, invoice.currency)} received ${format(new Date(payment.payment_date), "MMM dd, yyyy")}?`)) return;
+
+    try {
+      const supabase = createSupabaseBrowserClient();
+      await deleteInvoicePayment(supabase, invoice, payment.id);
+
+      toast({
+        title: "Success",
+        description: "Payment deleted successfully",
+      });
+      onChange();
+    } catch (error) {
+      console.error("Error deleting invoice payment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete payment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle>Payments</CardTitle>
+            <CardDescription>
+              {invoice.paid_amount > 0
+                ? `${formatCurrency(invoice.paid_amount, invoice.currency)} received, ${formatCurrency(balance, invoice.currency)} outstanding`
+                : "No payments received yet"}
+            </CardDescription>
+          </div>
+          {invoice.status !== "cancelled" && balance > 0 && (
+            <Button size="sm" variant="outline" onClick={openDialog}>
+              <Plus className="mr-2 h-4 w-4" />
+              Record Payment
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      {payments.length > 0 && (
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payments.map((payment) => (
+                <TableRow key={payment.id}>
+                  <TableCell>{format(new Date(payment.payment_date), "MMM dd, yyyy")}</TableCell>
+                  <TableCell>{getPaymentMethodLabel(payment.payment_method)}</TableCell>
+                  <TableCell>
+                    {payment.reference || "-"}
+                    {payment.notes && <p className="text-xs text-muted-foreground">{payment.notes}</p>}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(payment.amount, invoice.currency)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(payment)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              {formatCurrency(balance, invoice.currency)} is due on {invoice.due_date ? format(new Date(invoice.due_date), "MMM dd, yyyy") : "this invoice"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="payment_amount">Amount</Label>
+              <Input
+                id="payment_amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={balance}
+                value={amount}
+                onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="payment_date">Date</Label>
+              <Input id="payment_date" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {PAYMENT_METHOD_LABELS[method]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="payment_reference">Reference</Label>
+              <Input
+                id="payment_reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="Transaction ID, cheque number..."
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment_notes">Notes</Label>
+            <Textarea id="payment_notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRecord} disabled={saving || amount <= 0}>
+              {saving ? "Saving..." : "Record Payment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
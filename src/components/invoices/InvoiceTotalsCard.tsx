@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { CURRENCY_CODES, formatCurrency, getCurrencyLabel } from "@/lib/currency/currencies";
+import {
+  fetchExchangeRates,
+  sumInCurrency,
+  type ConvertibleAmount,
+  type ExchangeRate,
+} from "@/lib/currency/rates";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+interface InvoiceTotalsData {
+  rates: ExchangeRate[];
+  invoiced: ConvertibleAmount[];
+  outstanding: ConvertibleAmount[];
+  received: ConvertibleAmount[];
+}
+
+export function InvoiceTotalsCard() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const [currency, setCurrency] = useState<string | null>(null);
+  const [data, setData] = useState<InvoiceTotalsData | null>(null);
+
+  useEffect(() => {
+    loadTotals();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const loadTotals = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const [rates, invoicesResult, paymentsResult] = await Promise.all([
+        fetchExchangeRates(supabase),
+        supabase
+          .from("invoices")
+          .select("issue_date, currency, total, paid_amount, credited_amount, base_currency, exchange_rate")
+          .not("status", "in", "(draft,cancelled)"),
+        supabase
+          .from("invoice_payments")
+          .select("amount, payment_date, base_currency, exchange_rate, invoices:invoice_id (currency)"),
+      ]);
+
+      if (invoicesResult.error) throw invoicesResult.error;
+      if (paymentsResult.error) throw paymentsResult.error;
+
+      const invoices = invoicesResult.data || [];
+      setData({
+        rates,
+        invoiced: invoices.map((invoice) => ({
+          amount: Number(invoice.total) - Number(invoice.credited_amount || 0),
+          currency: invoice.currency,
+          date: invoice.issue_date,
+          base_currency: invoice.base_currency,
+          exchange_rate: invoice.exchange_rate === null ? null : Number(invoice.exchange_rate),
+        })),
+        outstanding: invoices.map((invoice) => ({
+          amount: Number(invoice.total) - Number(invoice.paid_amount || 0) - Number(invoice.credited_amount || 0),
+          currency: invoice.currency,
+          date: invoice.issue_date,
+          base_currency: invoice.base_currency,
+          exchange_rate: invoice.exchange_rate === null ? null : Number(invoice.exchange_rate),
+        })),
+        received: (paymentsResult.data || []).map((payment) => {
+          const invoice = Array.isArray(payment.invoices) ? payment.invoices[0] : payment.invoices;
+          return {
+            amount: Number(payment.amount),
+            currency: invoice?.currency ?? baseCurrency,
+            date: payment.payment_date,
+            base_currency: payment.base_currency,
+            exchange_rate: payment.exchange_rate === null ? null : Number(payment.exchange_rate),
+          };
+        }),
+      });
+    } catch (error) {
+      console.error("Error loading invoice totals:", error);
+    }
+  };
+
+  const target = currency ?? baseCurrency;
+  const invoiced = data ? sumInCurrency(data.rates, data.invoiced, target) : null;
+  const received = data ? sumInCurrency(data.rates, data.received, target) : null;
+  const outstanding = data ? sumInCurrency(data.rates, data.outstanding, target) : null;
+  const unconverted = (invoiced?.unconverted ?? 0) + (received?.unconverted ?? 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle>Totals</CardTitle>
+            <CardDescription>
+              Issued invoices converted at the rate stored when each invoice and payment was recorded, or
+              from the exchange rates in Settings
+            </CardDescription>
+          </div>
+          <Select value={target} onValueChange={setCurrency}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCY_CODES.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {getCurrencyLabel(code)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div>
+            <p className="text-sm text-muted-foreground">Invoiced</p>
+            <p className="text-2xl font-bold">{invoiced ? formatCurrency(invoiced.total, target) : "-"}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Received</p>
+            <p className="text-2xl font-bold">{received ? formatCurrency(received.total, target) : "-"}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Outstanding</p>
+            <p className="text-2xl font-bold">{outstanding ? formatCurrency(outstanding.total, target) : "-"}</p>
+          </div>
+        </div>
+        {unconverted > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {unconverted} amount{unconverted !== 1 ? "s" : ""} left out: no exchange rate into {target} on the
+            document date. Add one in Settings.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,476 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import {
+  RECURRING_FREQUENCIES,
+  RECURRING_FREQUENCY_LABELS,
+  getNextIssueDate,
+  type RecurringProfileInput,
+} from "@/lib/invoices/recurring";
+import { calculateInvoiceTotals } from "@/lib/invoices/totals";
+import { CURRENCY_CODES, formatCurrency, getCurrencyLabel } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+export const recurringInvoiceSchema = z
+  .object({
+    name: z.string().min(1, "Name is required"),
+    client_id: z.string().optional(),
+    frequency: z.enum(RECURRING_FREQUENCIES),
+    day_of_month: z.number().int().min(1, "Use a day from 1 to 31").max(31, "Use a day from 1 to 31"),
+    start_date: z.string().min(1, "Start date is required"),
+    end_date: z.string().optional(),
+    due_days: z.number().int().min(0, "Due days must be 0 or more"),
+    invoice_status: z.enum(["draft", "sent"]),
+    currency: z.string(),
+    tax_rate: z.number().min(0).max(100),
+    discount: z.number().min(0),
+    discount_type: z.enum(["amount", "percentage"]),
+    notes: z.string().optional(),
+    terms: z.string().optional(),
+    items: z.array(
+      z.object({
+        description: z.string().min(1, "Description is required"),
+        quantity: z.number().min(0.01, "Quantity must be greater than 0"),
+        unit_price: z.number().min(0, "Unit price must be 0 or greater"),
+        tax_rate: z.number().min(0).max(100),
+      })
+    ).min(1, "At least one item is required"),
+  })
+  .refine((data) => !data.end_date || data.end_date >= data.start_date, {
+    message: "End date must be after the start date",
+    path: ["end_date"],
+  });
+
+export type RecurringInvoiceFormData = z.infer<typeof recurringInvoiceSchema>;
+
+/**
+ * Profile fields as stored, with blank optional fields saved as null
+ */
+export function toRecurringProfileInput(data: RecurringInvoiceFormData): RecurringProfileInput {
+  return {
+    name: data.name,
+    client_id: data.client_id || null,
+    frequency: data.frequency,
+    day_of_month: data.day_of_month,
+    start_date: data.start_date,
+    end_date: data.end_date || null,
+    due_days: data.due_days,
+    invoice_status: data.invoice_status,
+    currency: data.currency,
+    tax_rate: data.tax_rate,
+    discount: data.discount,
+    discount_type: data.discount_type,
+    notes: data.notes || null,
+    terms: data.terms || null,
+  };
+}
+
+interface RecurringInvoiceFormProps {
+  defaultValues?: RecurringInvoiceFormData;
+  submitLabel: string;
+  onSubmit: (data: RecurringInvoiceFormData) => Promise<void>;
+  onCancel: () => void;
+}
+
+const today = format(new Date(), "yyyy-MM-dd");
+
+export const EMPTY_RECURRING_INVOICE: RecurringInvoiceFormData = {
+  name: "",
+  frequency: "monthly",
+  day_of_month: 1,
+  start_date: today,
+  due_days: 30,
+  invoice_status: "draft",
+  currency: "USD",
+  tax_rate: 0,
+  discount: 0,
+  discount_type: "amount",
+  items: [{ description: "", quantity: 1, unit_price: 0, tax_rate: 0 }],
+};
+
+export function RecurringInvoiceForm({ defaultValues, submitLabel, onSubmit, onCancel }: RecurringInvoiceFormProps) {
+  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([]);
+  const [saving, setSaving] = useState(false);
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    watch,
+    setValue,
+    formState: { errors },
+  } = useForm<RecurringInvoiceFormData>({
+    resolver: zodResolver(recurringInvoiceSchema),
+    defaultValues: defaultValues ?? { ...EMPTY_RECURRING_INVOICE, currency: baseCurrency },
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: "items",
+  });
+
+  useEffect(() => {
+    const fetchClients = async () => {
+      try {
+        const supabase = createSupabaseBrowserClient();
+        const { data, error } = await supabase
+          .from("clients")
+          .select("id, name")
+          .order("name");
+
+        if (error) throw error;
+        setClients(data || []);
+      } catch (error) {
+        console.error("Error fetching clients:", error);
+      }
+    };
+
+    fetchClients();
+  }, []);
+
+  const totals = calculateInvoiceTotals(watch("items"), {
+    tax_rate: watch("tax_rate"),
+    discount: watch("discount"),
+    discount_type: watch("discount_type"),
+  });
+
+  const startDate = watch("start_date");
+  const dayOfMonth = watch("day_of_month");
+  const firstIssueDate =
+    startDate && dayOfMonth >= 1 && dayOfMonth <= 31
+      ? getNextIssueDate(
+          { frequency: watch("frequency"), start_date: startDate, end_date: watch("end_date") || null, day_of_month: dayOfMonth },
+          null
+        )
+      : null;
+
+  const submit = async (data: RecurringInvoiceFormData) => {
+    setSaving(true);
+    try {
+      await onSubmit(data);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-6">
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Profile</CardTitle>
+            <CardDescription>Who is billed and how often</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="name">
+                  Name <span className="text-destructive">*</span>
+                </Label>
+                <Input id="name" {...register("name")} placeholder="e.g. Monthly retainer" />
+                {errors.name && (
+                  <p className="text-sm text-destructive">{errors.name.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="client_id">Client</Label>
+                <Select
+                  value={watch("client_id") || "none"}
+                  onValueChange={(value) => setValue("client_id", value === "none" ? undefined : value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a client" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No client</SelectItem>
+                    {clients.map((client) => (
+                      <SelectItem key={client.id} value={client.id}>
+                        {client.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <Select
+                  value={watch("frequency")}
+                  onValueChange={(value) => setValue("frequency", value as RecurringInvoiceFormData["frequency"])}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECURRING_FREQUENCIES.map((frequency) => (
+                      <SelectItem key={frequency} value={frequency}>
+                        {RECURRING_FREQUENCY_LABELS[frequency]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="day_of_month">Day of Month</Label>
+                <Input
+                  id="day_of_month"
+                  type="number"
+                  min="1"
+                  max="31"
+                  {...register("day_of_month", { valueAsNumber: true })}
+                />
+                {errors.day_of_month && (
+                  <p className="text-sm text-destructive">{errors.day_of_month.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="start_date">
+                  Start Date <span className="text-destructive">*</span>
+                </Label>
+                <Input id="start_date" type="date" {...register("start_date")} />
+                {errors.start_date && (
+                  <p className="text-sm text-destructive">{errors.start_date.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="end_date">End Date</Label>
+                <Input id="end_date" type="date" {...register("end_date")} />
+                {errors.end_date && (
+                  <p className="text-sm text-destructive">{errors.end_date.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="due_days">Payment Due (Days After Issue)</Label>
+                <Input
+                  id="due_days"
+                  type="number"
+                  min="0"
+                  {...register("due_days", { valueAsNumber: true })}
+                />
+                {errors.due_days && (
+                  <p className="text-sm text-destructive">{errors.due_days.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Generated Invoices</Label>
+                <Select
+                  value={watch("invoice_status")}
+                  onValueChange={(value) => setValue("invoice_status", value as "draft" | "sent")}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="draft">Stay as draft for review</SelectItem>
+                    <SelectItem value="sent">Are marked as sent</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Currency</Label>
+                <Select value={watch("currency")} onValueChange={(value) => setValue("currency", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCY_CODES.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {getCurrencyLabel(code)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              {firstIssueDate
+                ? `First invoice dated ${format(new Date(firstIssueDate), "MMM dd, yyyy")}. Invoices dated on or before today are issued on the next scheduled run.`
+                : "No invoice falls between the start and end dates."}
+            </p>
+
+            <div className="space-y-2">
+              <Label htmlFor="notes">Notes</Label>
+              <Textarea id="notes" {...register("notes")} placeholder="Printed on every invoice..." rows={3} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="terms">Terms & Conditions</Label>
+              <Textarea id="terms" {...register("terms")} placeholder="Payment terms and conditions..." rows={3} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Totals</CardTitle>
+            <CardDescription>Amount billed each period</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="tax_rate">Tax Rate (%)</Label>
+              <Input
+                id="tax_rate"
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                {...register("tax_rate", { valueAsNumber: true })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="discount">Discount</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="discount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  {...register("discount", { valueAsNumber: true })}
+                />
+                <Select
+                  value={watch("discount_type")}
+                  onValueChange={(value) => setValue("discount_type", value as "amount" | "percentage")}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="amount">Amount</SelectItem>
+                    <SelectItem value="percentage">%</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="border-t pt-4 space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Subtotal:</span>
+                <span>{formatCurrency(totals.subtotal, watch("currency"))}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Tax:</span>
+                <span>{formatCurrency(totals.tax, watch("currency"))}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Discount:</span>
+                <span>-{formatCurrency(totals.discount, watch("currency"))}</span>
+              </div>
+              <div className="flex justify-between text-lg font-bold pt-2 border-t">
+                <span>Total:</span>
+                <span>{formatCurrency(totals.total, watch("currency"))}</span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Invoice Items</CardTitle>
+              <CardDescription>Copied onto every generated invoice</CardDescription>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append({ description: "", quantity: 1, unit_price: 0, tax_rate: 0 })}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Item
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {fields.map((field, index) => (
+              <div key={field.id} className="grid gap-4 p-4 border rounded-lg md:grid-cols-12">
+                <div className="md:col-span-5 space-y-2">
+                  <Label>Description</Label>
+                  <Input {...register(`items.${index}.description`)} placeholder="Item description" />
+                  {errors.items?.[index]?.description && (
+                    <p className="text-sm text-destructive">{errors.items[index]?.description?.message}</p>
+                  )}
+                </div>
+                <div className="md:col-span-2 space-y-2">
+                  <Label>Quantity</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    {...register(`items.${index}.quantity`, { valueAsNumber: true })}
+                  />
+                </div>
+                <div className="md:col-span-2 space-y-2">
+                  <Label>Unit Price</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    {...register(`items.${index}.unit_price`, { valueAsNumber: true })}
+                  />
+                </div>
+                <div className="md:col-span-2 space-y-2">
+                  <Label>Tax (%)</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    {...register(`items.${index}.tax_rate`, { valueAsNumber: true })}
+                  />
+                </div>
+                <div className="md:col-span-1 flex items-end">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => remove(index)}
+                    disabled={fields.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {errors.items?.message && (
+              <p className="text-sm text-destructive">{errors.items.message}</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saving}>
+          {saving ? "Saving..." : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,61 @@
+import { Badge } from "@/components/ui/badge";
+import { format, parseISO } from "date-fns";
+import { getMaintenanceStatusLabel } from "@/lib/maintenance/workflow";
+import {
+  SLA_STATUS_LABELS,
+  SLA_TARGET_LABELS,
+  getMaintenanceSla,
+  type SlaRequest,
+  type SlaStatus,
+} from "@/lib/maintenance/sla";
+
+type BadgeVariant = "default" | "secondary" | "destructive" | "outline";
+
+const PRIORITY_VARIANTS: Record<string, BadgeVariant> = {
+  low: "outline",
+  medium: "secondary",
+  high: "default",
+  urgent: "destructive",
+};
+
+const STATUS_VARIANTS: Record<string, BadgeVariant> = {
+  pending: "outline",
+  acknowledged: "outline",
+  scheduled: "secondary",
+  in_progress: "secondary",
+  completed: "default",
+  rejected: "destructive",
+};
+
+const SLA_VARIANTS: Record<SlaStatus, BadgeVariant> = {
+  on_track: "outline",
+  at_risk: "secondary",
+  breached: "destructive",
+  met: "default",
+};
+
+export function MaintenancePriorityBadge({ priority }: { priority: string }) {
+  return (
+    <Badge variant={PRIORITY_VARIANTS[priority] || "outline"}>
+      {priority.charAt(0).toUpperCase() + priority.slice(1)}
+    </Badge>
+  );
+}
+
+export function MaintenanceStatusBadge({ status }: { status: string }) {
+  return <Badge variant={STATUS_VARIANTS[status] || "outline"}>{getMaintenanceStatusLabel(status)}</Badge>;
+}
+
+export function MaintenanceSlaBadge({ request }: { request: SlaRequest }) {
+  const sla = getMaintenanceSla(request, new Date());
+  if (!sla) return <span className="text-muted-foreground">-</span>;
+
+  return (
+    <Badge
+      variant={SLA_VARIANTS[sla.status]}
+      title={`${SLA_TARGET_LABELS[sla.target]} due by ${format(parseISO(sla.due_at), "MMM dd, yyyy HH:mm")}`}
+    >
+      {SLA_STATUS_LABELS[sla.status]}
+    </Badge>
+  );
+}
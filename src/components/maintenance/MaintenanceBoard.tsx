@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { CalendarClock, Image as ImageIcon, User } from "lucide-react";
+import { MaintenancePriorityBadge, MaintenanceSlaBadge } from "@/components/maintenance/MaintenanceBadges";
+import { MaintenanceTransitionDialog } from "@/components/maintenance/MaintenanceTransitionDialog";
+import {
+  MAINTENANCE_STATUSES,
+  MAINTENANCE_STATUS_LABELS,
+  getAvailableMaintenanceTransitions,
+  getMaintenanceStatusLabel,
+  type MaintenanceStatus,
+  type WorkflowRequest,
+} from "@/lib/maintenance/workflow";
+import type { SlaRequest } from "@/lib/maintenance/sla";
+
+export interface BoardRequest extends WorkflowRequest, SlaRequest {
+  title: string;
+  priority: string;
+  scheduled_for: string | null;
+  photo_count: number;
+  agreement: { property_address: string } | null;
+}
+
+interface MaintenanceBoardProps {
+  requests: BoardRequest[];
+  onChanged: () => void;
+}
+
+/**
+ * Requests grouped by status. Dragging a card to another column starts that status change.
+ */
+export function MaintenanceBoard({ requests, onChanged }: MaintenanceBoardProps) {
+  const { toast } = useToast();
+  const [dragging, setDragging] = useState<BoardRequest | null>(null);
+  const [pending, setPending] = useState<{ request: BoardRequest; to: MaintenanceStatus } | null>(null);
+
+  const allowedTargets = dragging
+    ? getAvailableMaintenanceTransitions(dragging).map((transition) => transition.to)
+    : [];
+
+  const handleDrop = (to: MaintenanceStatus) => {
+    const request = dragging;
+    setDragging(null);
+    if (!request || request.status === to) return;
+
+    const transition = getAvailableMaintenanceTransitions(request).find((candidate) => candidate.to === to);
+    const blockedReason = transition
+      ? transition.blockedReason
+      : `Cannot move a ${getMaintenanceStatusLabel(request.status)} request to ${MAINTENANCE_STATUS_LABELS[to]}`;
+
+    if (blockedReason) {
+      toast({
+        title: "Error",
+        description: blockedReason,
+        variant: "destructive",
+      });
+      return;
+    }
+    setPending({ request, to });
+  };
+
+  return (
+    <>
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {MAINTENANCE_STATUSES.map((status) => {
+          const column = requests.filter((request) => request.status === status);
+          const isTarget = allowedTargets.includes(status);
+
+          return (
+            <div
+              key={status}
+              className={`flex-shrink-0 w-64 rounded-lg border p-2 space-y-2 ${isTarget ? "border-primary bg-primary/5" : "bg-muted/30"}`}
+              onDragOver={(e) => {
+                if (isTarget) e.preventDefault();
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(status);
+              }}
+            >
+              <div className="flex items-center justify-between px-1">
+                <h3 className="text-sm font-semibold">{MAINTENANCE_STATUS_LABELS[status]}</h3>
+                <span className="text-xs text-muted-foreground">{column.length}</span>
+              </div>
+              {column.map((request) => (
+                <div
+                  key={request.id}
+                  draggable
+                  onDragStart={() => setDragging(request)}
+                  onDragEnd={() => setDragging(null)}
+                  className="rounded-md border bg-background p-3 space-y-2 cursor-grab shadow-sm"
+                >
+                  <Link href={`/dashboard/maintenance/${request.id}`} className="text-sm font-medium hover:underline">
+                    {request.title}
+                  </Link>
+                  {request.agreement && (
+                    <p className="text-xs text-muted-foreground truncate">{request.agreement.property_address}</p>
+                  )}
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-1">
+                      <MaintenancePriorityBadge priority={request.priority} />
+                      {request.response_due_at && <MaintenanceSlaBadge request={request} />}
+                    </div>
+                    {request.photo_count > 0 && (
+                      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <ImageIcon className="h-3 w-3" />
+                        {request.photo_count}
+                      </span>
+                    )}
+                  </div>
+                  {request.assignee_name && (
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <User className="h-3 w-3" />
+                      {request.assignee_name}
+                    </p>
+                  )}
+                  {request.status === "scheduled" && request.scheduled_for && (
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <CalendarClock className="h-3 w-3" />
+                      {format(new Date(request.scheduled_for), "MMM dd, HH:mm")}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <MaintenanceTransitionDialog
+        request={pending?.request ?? null}
+        to={pending?.to ?? null}
+        onClose={() => setPending(null)}
+        onChanged={onChanged}
+      />
+    </>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { AttachmentGallery } from "@/components/attachments/AttachmentGallery";
+import { AttachmentPicker } from "@/components/attachments/AttachmentPicker";
+import { uploadAttachment, type PreparedAttachment } from "@/lib/attachments/attachments";
+import { MAINTENANCE_PHOTO_TAGS, recordMaintenanceEvent, type MaintenancePhotoTag } from "@/lib/maintenance/workflow";
+
+const PHOTO_TAG_LABELS: Record<MaintenancePhotoTag, string> = {
+  before: "Before",
+  after: "After",
+};
+
+interface MaintenancePhotosCardProps {
+  request: { id: string; user_id: string };
+  onChanged?: () => void;
+}
+
+/**
+ * Photos of the problem as reported and of the finished repair
+ */
+export function MaintenancePhotosCard({ request, onChanged }: MaintenancePhotosCardProps) {
+  const { toast } = useToast();
+  const [pending, setPending] = useState<Record<MaintenancePhotoTag, PreparedAttachment[]>>({ before: [], after: [] });
+  const [uploading, setUploading] = useState<MaintenancePhotoTag | null>(null);
+  // Remounts the galleries after an upload so they pick up the new files
+  const [version, setVersion] = useState(0);
+
+  const handleUpload = async (tag: MaintenancePhotoTag) => {
+    setUploading(tag);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      for (const photo of pending[tag]) {
+        await uploadAttachment(supabase, user.id, "maintenance_request", request.id, photo, tag);
+      }
+      await recordMaintenanceEvent(supabase, request, {
+        type: "photo",
+        body: `${pending[tag].length} ${tag} photo${pending[tag].length !== 1 ? "s" : ""}`,
+        actorId: user.id,
+      });
+
+      setPending((current) => ({ ...current, [tag]: [] }));
+      setVersion((current) => current + 1);
+      onChanged?.();
+    } catch (error) {
+      console.error("Error uploading photos:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload photos",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Photos</CardTitle>
+        <CardDescription>Before photos show the problem as reported; after photos show the finished work</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        {MAINTENANCE_PHOTO_TAGS.map((tag) => (
+          <div key={tag} className="space-y-3">
+            <h3 className="text-sm font-semibold">{PHOTO_TAG_LABELS[tag]}</h3>
+            <AttachmentGallery
+              key={`${tag}-${version}`}
+              entity="maintenance_request"
+              entityId={request.id}
+              tag={tag}
+              editable
+            />
+            <AttachmentPicker
+              id={`photos_${tag}`}
+              accept="image/*"
+              value={pending[tag]}
+              onChange={(photos) => setPending((current) => ({ ...current, [tag]: photos }))}
+              disabled={uploading !== null}
+            />
+            {pending[tag].length > 0 && (
+              <Button size="sm" onClick={() => handleUpload(tag)} disabled={uploading !== null}>
+                {uploading === tag ? "Uploading..." : `Upload ${pending[tag].length} Photo${pending[tag].length !== 1 ? "s" : ""}`}
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_SLA_POLICIES,
+  MAINTENANCE_PRIORITIES,
+  MAINTENANCE_PRIORITY_LABELS,
+  describeSlaHours,
+  fetchSlaPolicies,
+  getSlaPolicyError,
+  saveSlaPolicies,
+  type MaintenancePriority,
+  type SlaPolicy,
+} from "@/lib/maintenance/sla";
+
+export function MaintenanceSlaSettingsCard() {
+  const { toast } = useToast();
+  const [policies, setPolicies] = useState<Record<MaintenancePriority, SlaPolicy>>(DEFAULT_SLA_POLICIES);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadPolicies();
+  }, []);
+
+  const loadPolicies = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setPolicies(await fetchSlaPolicies(supabase));
+    } catch (error) {
+      console.error("Error fetching SLA policies:", error);
+    }
+  };
+
+  const updatePolicy = (priority: MaintenancePriority, changes: Partial<SlaPolicy>) => {
+    setPolicies((current) => ({ ...current, [priority]: { ...current[priority], ...changes } }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      await saveSlaPolicies(supabase, user.id, policies);
+      toast({
+        title: "Success",
+        description: "Maintenance targets saved successfully",
+      });
+    } catch (error) {
+      console.error("Error saving SLA policies:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save maintenance targets",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Maintenance Targets</CardTitle>
+        <CardDescription>
+          Hours from when a request is reported to the first response and to completion, by priority. New requests
+          take their due-by times from these targets; the daily job escalates any that are missed by email to the
+          organization address above.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {MAINTENANCE_PRIORITIES.map((priority) => {
+          const policy = policies[priority];
+          const policyError = getSlaPolicyError(policy);
+
+          return (
+            <div key={priority} className="grid gap-4 md:grid-cols-4 items-start">
+              <div className="pt-8">
+                <Label>{MAINTENANCE_PRIORITY_LABELS[priority]}</Label>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`sla_response_${priority}`}>Response (hours)</Label>
+                <Input
+                  id={`sla_response_${priority}`}
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={Number.isNaN(policy.response_hours) ? "" : policy.response_hours}
+                  onChange={(e) => updatePolicy(priority, { response_hours: parseInt(e.target.value, 10) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`sla_resolution_${priority}`}>Resolution (hours)</Label>
+                <Input
+                  id={`sla_resolution_${priority}`}
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={Number.isNaN(policy.resolution_hours) ? "" : policy.resolution_hours}
+                  onChange={(e) => updatePolicy(priority, { resolution_hours: parseInt(e.target.value, 10) })}
+                />
+              </div>
+              <p className={`text-xs md:pt-8 ${policyError ? "text-destructive" : "text-muted-foreground"}`}>
+                {policyError ||
+                  `Respond within ${describeSlaHours(policy.response_hours)}, resolve within ${describeSlaHours(policy.resolution_hours)}`}
+              </p>
+            </div>
+          );
+        })}
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSave}
+            disabled={saving || MAINTENANCE_PRIORITIES.some((priority) => getSlaPolicyError(policies[priority]))}
+          >
+            {saving ? "Saving..." : "Save Targets"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
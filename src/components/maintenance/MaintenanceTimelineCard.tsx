@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import {
+  describeMaintenanceEvent,
+  fetchMaintenanceTimeline,
+  recordMaintenanceEvent,
+  type MaintenanceEvent,
+} from "@/lib/maintenance/workflow";
+
+interface MaintenanceTimelineCardProps {
+  request: { id: string; user_id: string; status: string };
+  // Bumped by the page when something else adds to the timeline
+  refreshKey?: number;
+}
+
+export function MaintenanceTimelineCard({ request, refreshKey }: MaintenanceTimelineCardProps) {
+  const { toast } = useToast();
+  const [events, setEvents] = useState<MaintenanceEvent[]>([]);
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadTimeline();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [request.id, request.status, refreshKey]);
+
+  const loadTimeline = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setEvents(await fetchMaintenanceTimeline(supabase, request.id));
+    } catch (error) {
+      console.error("Error fetching timeline:", error);
+    }
+  };
+
+  const handleComment = async () => {
+    setSaving(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      await recordMaintenanceEvent(supabase, request, { type: "comment", body: comment.trim(), actorId: user.id });
+      setComment("");
+      loadTimeline();
+    } catch (error) {
+      console.error("Error adding comment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to add comment",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Timeline</CardTitle>
+        <CardDescription>Status changes, assignments, photos and comments</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Nothing recorded yet</p>
+        ) : (
+          <ol className="border-l pl-4 space-y-4">
+            {events.map((event) => (
+              <li key={event.id} className="text-sm">
+                <p className="font-medium">{describeMaintenanceEvent(event)}</p>
+                {event.body && <p className="text-muted-foreground whitespace-pre-wrap">{event.body}</p>}
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(event.created_at), "MMM dd, yyyy HH:mm")} · {event.changed_by ? "User" : "System"}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="border-t pt-4 space-y-2">
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Add a comment..."
+            rows={2}
+          />
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleComment} disabled={saving || !comment.trim()}>
+              {saving ? "Posting..." : "Comment"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MAINTENANCE_TRANSITION_LABELS,
+  getMaintenanceStatusLabel,
+  getMaintenanceTransitionError,
+  transitionMaintenanceRequest,
+  type MaintenanceStatus,
+  type WorkflowRequest,
+} from "@/lib/maintenance/workflow";
+
+interface MaintenanceTransitionDialogProps {
+  request: (WorkflowRequest & { title: string }) | null;
+  // Status to move to; the dialog is open while this is set
+  to: MaintenanceStatus | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export function MaintenanceTransitionDialog({ request, to, onClose, onChanged }: MaintenanceTransitionDialogProps) {
+  const { toast } = useToast();
+  const [scheduledFor, setScheduledFor] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (to) {
+      setScheduledFor("");
+      setReason("");
+    }
+  }, [to, request?.id]);
+
+  const options = { scheduledFor: scheduledFor || undefined, reason };
+  const transitionError = request && to ? getMaintenanceTransitionError(request, to, options) : null;
+
+  const handleConfirm = async () => {
+    if (!request || !to) return;
+
+    setSaving(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      await transitionMaintenanceRequest(supabase, request, to, { ...options, actorId: user.id });
+
+      toast({
+        title: "Success",
+        description: `${request.title} moved to ${getMaintenanceStatusLabel(to)}`,
+      });
+      onClose();
+      onChanged();
+    } catch (error) {
+      console.error("Error changing request status:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change request status",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!request && !!to} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{to && MAINTENANCE_TRANSITION_LABELS[to]}</DialogTitle>
+          <DialogDescription>
+            Move {request?.title} from {request && getMaintenanceStatusLabel(request.status)} to{" "}
+            {to && getMaintenanceStatusLabel(to)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {to === "scheduled" && (
+            <div className="space-y-2">
+              <Label htmlFor="scheduled_for">Visit *</Label>
+              <Input
+                id="scheduled_for"
+                type="datetime-local"
+                value={scheduledFor}
+                onChange={(e) => setScheduledFor(e.target.value)}
+              />
+              {request?.assignee_name && (
+                <p className="text-xs text-muted-foreground">{request.assignee_name} will attend</p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="maintenance_reason">{to === "rejected" ? "Reason *" : "Note"}</Label>
+            <Textarea
+              id="maintenance_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={to === "rejected" ? "Why is the request being rejected?" : "Optional note for the timeline"}
+              rows={3}
+            />
+          </div>
+
+          {transitionError && <p className="text-sm text-destructive">{transitionError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={saving || transitionError !== null}>
+            {saving ? "Saving..." : "Confirm"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
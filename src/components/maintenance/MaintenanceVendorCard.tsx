@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+import { useToast } from "@/hooks/use-toast";
+import { Plus } from "lucide-react";
+import { VendorInvoiceDialog } from "@/components/vendors/VendorInvoiceDialog";
+import { VendorInvoicesTable } from "@/components/vendors/VendorInvoicesTable";
+import { fetchRequestVendorInvoices, type VendorInvoice } from "@/lib/vendors/invoices";
+import { VENDOR_RATINGS, rateVendorJob } from "@/lib/vendors/vendors";
+
+interface MaintenanceVendorCardProps {
+  request: {
+    id: string;
+    user_id: string;
+    status: string;
+    vendor_id: string | null;
+    vendor_rating: number | null;
+    vendor: { name: string } | null;
+  };
+  onChanged: () => void;
+}
+
+/**
+ * The assigned vendor's invoices for a job, what has been paid against them and how the vendor did
+ */
+export function MaintenanceVendorCard({ request, onChanged }: MaintenanceVendorCardProps) {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const { toast } = useToast();
+  const [invoices, setInvoices] = useState<VendorInvoice[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  useEffect(() => {
+    loadInvoices();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [request.id]);
+
+  const loadInvoices = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setInvoices(await fetchRequestVendorInvoices(supabase, request.id));
+    } catch (error) {
+      console.error("Error fetching vendor invoices:", error);
+    }
+  };
+
+  // Invoices change the job's cost, so the page reloads too
+  const handleInvoicesChanged = () => {
+    loadInvoices();
+    onChanged();
+  };
+
+  const handleRate = async (value: string) => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      await rateVendorJob(supabase, request.id, value === "none" ? null : Number(value));
+      onChanged();
+    } catch (error) {
+      console.error("Error rating vendor:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save rating",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!request.vendor_id && invoices.length === 0) return null;
+
+  const billed = invoices.reduce((sum, invoice) => sum + invoice.amount, 0);
+  const paid = invoices.reduce((sum, invoice) => sum + invoice.paid_amount, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle>Vendor Billing</CardTitle>
+            <CardDescription>
+              {invoices.length > 0
+                ? `${formatCurrency(billed, baseCurrency)} invoiced, ${formatCurrency(paid, baseCurrency)} paid`
+                : "No invoices recorded yet"}
+            </CardDescription>
+          </div>
+          {request.vendor_id && (
+            <Button size="sm" variant="outline" onClick={() => setDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Record Invoice
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {request.vendor_id && (
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground">Vendor</p>
+              <Link href={`/dashboard/vendors/${request.vendor_id}`} className="font-medium hover:underline">
+                {request.vendor?.name ?? "View vendor"}
+              </Link>
+            </div>
+            <div className="space-y-2 w-40">
+              <Label htmlFor="vendor_rating">Rating</Label>
+              <Select value={request.vendor_rating ? String(request.vendor_rating) : "none"} onValueChange={handleRate}>
+                <SelectTrigger id="vendor_rating">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not rated</SelectItem>
+                  {VENDOR_RATINGS.map((rating) => (
+                    <SelectItem key={rating} value={String(rating)}>
+                      {"★".repeat(rating)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {invoices.length > 0 && <VendorInvoicesTable invoices={invoices} show="vendor" onChanged={handleInvoicesChanged} />}
+      </CardContent>
+
+      {request.vendor_id && (
+        <VendorInvoiceDialog
+          request={request}
+          vendorName={request.vendor?.name ?? "the vendor"}
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          onSaved={handleInvoicesChanged}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,254 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { MaintenanceTransitionDialog } from "@/components/maintenance/MaintenanceTransitionDialog";
+import {
+  ASSIGNEE_TYPES,
+  ASSIGNEE_TYPE_LABELS,
+  assignMaintenanceRequest,
+  getAssigneeError,
+  getAvailableMaintenanceTransitions,
+  getMaintenanceStatusLabel,
+  type AssigneeType,
+  type MaintenanceAssignee,
+  type MaintenanceStatus,
+  type WorkflowRequest,
+} from "@/lib/maintenance/workflow";
+import { fetchVendors, getVendorTradeLabel, type Vendor } from "@/lib/vendors/vendors";
+
+export interface WorkflowCardRequest extends WorkflowRequest {
+  title: string;
+  assignee_type: AssigneeType | null;
+  vendor_id: string | null;
+  assignee_phone: string | null;
+  scheduled_for: string | null;
+  acknowledged_at: string | null;
+  completed_date: string | null;
+  rejection_reason: string | null;
+}
+
+interface MaintenanceWorkflowCardProps {
+  request: WorkflowCardRequest;
+  onChanged: () => void;
+}
+
+export function MaintenanceWorkflowCard({ request, onChanged }: MaintenanceWorkflowCardProps) {
+  const { toast } = useToast();
+  const [pending, setPending] = useState<MaintenanceStatus | null>(null);
+  const [assignee, setAssignee] = useState<MaintenanceAssignee>({ type: "staff", vendorId: null, name: "", phone: "" });
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setAssignee({
+      type: request.assignee_type ?? "staff",
+      vendorId: request.vendor_id,
+      name: request.assignee_name ?? "",
+      phone: request.assignee_phone ?? "",
+    });
+  }, [request.assignee_type, request.vendor_id, request.assignee_name, request.assignee_phone]);
+
+  useEffect(() => {
+    loadVendors();
+  }, []);
+
+  const loadVendors = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setVendors(await fetchVendors(supabase, { activeOnly: true }));
+    } catch (error) {
+      console.error("Error fetching vendors:", error);
+    }
+  };
+
+  // Picking a vendor fills in their name and phone from the directory
+  const selectVendor = (vendorId: string) => {
+    const vendor = vendors.find((candidate) => candidate.id === vendorId);
+    if (!vendor) return;
+    setAssignee({ type: "vendor", vendorId: vendor.id, name: vendor.name, phone: vendor.phone ?? "" });
+  };
+
+  const transitions = getAvailableMaintenanceTransitions(request);
+  const assigneeChanged =
+    assignee.type !== (request.assignee_type ?? "staff") ||
+    (assignee.type === "vendor" && assignee.vendorId !== request.vendor_id) ||
+    assignee.name.trim() !== (request.assignee_name ?? "") ||
+    assignee.phone.trim() !== (request.assignee_phone ?? "");
+
+  const handleAssign = async () => {
+    setSaving(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      await assignMaintenanceRequest(supabase, request, assignee, user.id);
+      toast({
+        title: "Success",
+        description: `Assigned to ${assignee.name.trim()}`,
+      });
+      onChanged();
+    } catch (error) {
+      console.error("Error assigning request:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to assign request",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Workflow</CardTitle>
+        <CardDescription>Current status: {getMaintenanceStatusLabel(request.status)}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1 text-sm">
+          {request.acknowledged_at && (
+            <p className="text-muted-foreground">
+              Acknowledged {format(new Date(request.acknowledged_at), "MMM dd, yyyy HH:mm")}
+            </p>
+          )}
+          {request.scheduled_for && (
+            <p className="text-muted-foreground">
+              Visit {format(new Date(request.scheduled_for), "MMM dd, yyyy HH:mm")}
+            </p>
+          )}
+          {request.completed_date && (
+            <p className="text-muted-foreground">
+              Completed {format(new Date(request.completed_date), "MMM dd, yyyy")}
+            </p>
+          )}
+          {request.rejection_reason && <p className="text-destructive">Rejected: {request.rejection_reason}</p>}
+        </div>
+
+        {transitions.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {transitions.map((transition) => (
+              <Button
+                key={transition.to}
+                variant={transition.to === "rejected" ? "destructive" : "outline"}
+                size="sm"
+                disabled={!!transition.blockedReason}
+                title={transition.blockedReason || undefined}
+                onClick={() => setPending(transition.to)}
+              >
+                {transition.label}
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No further status changes are possible.</p>
+        )}
+
+        <div className="border-t pt-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-sm font-semibold">Assigned To</h3>
+            {request.vendor_id && (
+              <Link href={`/dashboard/vendors/${request.vendor_id}`} className="text-sm hover:underline">
+                View vendor
+              </Link>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="assignee_type">Type</Label>
+            <Select
+              value={assignee.type}
+              onValueChange={(value) =>
+                setAssignee((current) => ({
+                  ...current,
+                  type: value as AssigneeType,
+                  vendorId: value === "vendor" ? current.vendorId : null,
+                }))
+              }
+            >
+              <SelectTrigger id="assignee_type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ASSIGNEE_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {ASSIGNEE_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {assignee.type === "vendor" ? (
+            <div className="space-y-2">
+              <Label htmlFor="assignee_vendor">Vendor</Label>
+              <Select value={assignee.vendorId ?? ""} onValueChange={selectVendor}>
+                <SelectTrigger id="assignee_vendor">
+                  <SelectValue placeholder={vendors.length > 0 ? "Select a vendor" : "No vendors yet"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {vendors.map((vendor) => (
+                    <SelectItem key={vendor.id} value={vendor.id}>
+                      {vendor.name} ({getVendorTradeLabel(vendor.trade)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {vendors.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  <Link href="/dashboard/vendors/new" className="hover:underline">
+                    Add a vendor
+                  </Link>{" "}
+                  to the directory first.
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="assignee_name">Name</Label>
+              <Input
+                id="assignee_name"
+                value={assignee.name}
+                onChange={(e) => setAssignee((current) => ({ ...current, name: e.target.value }))}
+                placeholder="e.g., Building supervisor"
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="assignee_phone">Phone</Label>
+            <Input
+              id="assignee_phone"
+              value={assignee.phone}
+              onChange={(e) => setAssignee((current) => ({ ...current, phone: e.target.value }))}
+            />
+          </div>
+          <Button
+            size="sm"
+            onClick={handleAssign}
+            disabled={saving || !assigneeChanged || getAssigneeError(assignee) !== null}
+          >
+            {saving ? "Saving..." : request.assignee_name ? "Reassign" : "Assign"}
+          </Button>
+        </div>
+      </CardContent>
+
+      <MaintenanceTransitionDialog
+        request={request}
+        to={pending}
+        onClose={() => setPending(null)}
+        onChanged={onChanged}
+      />
+    </Card>
+  );
+}
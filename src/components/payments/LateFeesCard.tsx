@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { fetchLateFees, waiveLateFee, type LateFee } from "@/lib/agreements/fees";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+interface LateFeeRow extends LateFee {
+  agreement_number: string;
+  tenant_name: string | null;
+  due_date: string | null;
+}
+
+export function LateFeesCard() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const { toast } = useToast();
+  const [fees, setFees] = useState<LateFeeRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [waiving, setWaiving] = useState<LateFeeRow | null>(null);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchFees();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchFees = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const [feeData, agreementsResult, scheduleResult] = await Promise.all([
+        fetchLateFees(supabase),
+        supabase.from("rent_agreements").select("id, agreement_number, tenants:tenant_id (name)"),
+        supabase.from("rent_schedule").select("id, due_date"),
+      ]);
+
+      if (agreementsResult.error) throw agreementsResult.error;
+      if (scheduleResult.error) throw scheduleResult.error;
+
+      setFees(
+        feeData
+          .map((fee) => {
+            const agreement = agreementsResult.data?.find((a) => a.id === fee.agreement_id);
+            const tenant = Array.isArray(agreement?.tenants) ? agreement.tenants[0] : agreement?.tenants;
+            return {
+              ...fee,
+              agreement_number: agreement?.agreement_number ?? "N/A",
+              tenant_name: tenant?.name ?? null,
+              due_date: scheduleResult.data?.find((line) => line.id === fee.schedule_id)?.due_date ?? null,
+            };
+          })
+          .reverse()
+      );
+    } catch (error) {
+      console.error("Error fetching late fees:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load late fees",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleWaive = async () => {
+    if (!waiving) return;
+
+    setSaving(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      await waiveLateFee(supabase, waiving, reason, user.id);
+
+      toast({
+        title: "Success",
+        description: `Late fee of ${formatCurrency(waiving.amount, baseCurrency)} waived`,
+      });
+      setWaiving(null);
+      fetchFees();
+    } catch (error) {
+      console.error("Error waiving late fee:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to waive late fee",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const outstanding = fees.filter((fee) => fee.status === "charged").reduce((sum, fee) => sum + fee.amount, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Late Fees</CardTitle>
+        <CardDescription>
+          Posted daily on rent unpaid after the grace period; {formatCurrency(outstanding, baseCurrency)} charged in total
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Loading late fees...
+          </div>
+        ) : fees.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No late fees have been charged.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Agreement</TableHead>
+                <TableHead>Tenant</TableHead>
+                <TableHead>Rent Due</TableHead>
+                <TableHead>Days Late</TableHead>
+                <TableHead className="text-right">Fee</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {fees.map((fee) => (
+                <TableRow key={fee.id}>
+                  <TableCell className="font-medium">
+                    <Link href={`/dashboard/agreements/${fee.agreement_id}`} className="hover:underline">
+                      {fee.agreement_number}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{fee.tenant_name || "N/A"}</TableCell>
+                  <TableCell>{fee.due_date ? format(new Date(fee.due_date), "MMM dd, yyyy") : "N/A"}</TableCell>
+                  <TableCell>{fee.days_late}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(fee.amount, baseCurrency)}</TableCell>
+                  <TableCell>
+                    {fee.status === "waived" ? (
+                      <Badge variant="outline" title={fee.waive_reason || undefined}>Waived</Badge>
+                    ) : (
+                      <Badge variant="destructive">Charged</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {fee.status === "charged" ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setReason("");
+                          setWaiving(fee);
+                        }}
+                      >
+                        Waive
+                      </Button>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">{fee.waive_reason}</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!waiving} onOpenChange={(open) => !open && setWaiving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Waive Late Fee</DialogTitle>
+            <DialogDescription>
+              Waive the {formatCurrency(waiving?.amount ?? 0, baseCurrency)} late fee on {waiving?.agreement_number}. The fee stays on
+              record but is removed from the tenant&apos;s balance.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="waive_reason">Reason</Label>
+            <Textarea
+              id="waive_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why is the fee being waived?"
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWaiving(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleWaive} disabled={saving || !reason.trim()}>
+              {saving ? "Waiving..." : "Waive Fee"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
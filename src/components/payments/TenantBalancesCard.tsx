@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { fetchTenantRentBalances, type TenantRentBalance } from "@/lib/agreements/dues";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+export function TenantBalancesCard() {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const { toast } = useToast();
+  const [balances, setBalances] = useState<TenantRentBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchBalances();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchBalances = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setBalances(await fetchTenantRentBalances(supabase));
+    } catch (error) {
+      console.error("Error fetching tenant balances:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load tenant balances",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totalOutstanding = balances.reduce((sum, balance) => sum + balance.outstanding, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Balances by Tenant</CardTitle>
+        <CardDescription>
+          Rent due to date against payments received; {formatCurrency(totalOutstanding, baseCurrency)} outstanding in total
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Loading balances...
+          </div>
+        ) : balances.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No rent schedules yet. Schedules are generated for each agreement automatically.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tenant</TableHead>
+                <TableHead>Agreements</TableHead>
+                <TableHead className="text-right">Due</TableHead>
+                <TableHead className="text-right">Paid</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+                <TableHead className="text-right">Advance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {balances.map((balance) => (
+                <TableRow key={balance.tenant_id}>
+                  <TableCell className="font-medium">{balance.tenant_name}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {balance.agreement_numbers.join(", ")}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(balance.due_to_date, baseCurrency)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(balance.paid, baseCurrency)}</TableCell>
+                  <TableCell className={`text-right font-medium ${balance.outstanding > 0 ? "text-destructive" : ""}`}>
+                    {formatCurrency(balance.outstanding, baseCurrency)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(balance.advance, baseCurrency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { format } from "date-fns";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { describeReminderOffset, fetchReminderHistory, type PaymentReminder, type ReminderStatus } from "@/lib/reminders/schedules";
+
+const STATUS_BADGES: Record<ReminderStatus, { label: string; variant: "secondary" | "destructive" | "outline" }> = {
+  sent: { label: "Sent", variant: "secondary" },
+  failed: { label: "Failed", variant: "destructive" },
+  skipped: { label: "Skipped", variant: "outline" },
+};
+
+interface PaymentRemindersCardProps {
+  filter: { agreementId: string } | { invoiceId: string };
+  currency: string;
+}
+
+export function PaymentRemindersCard({ filter, currency }: PaymentRemindersCardProps) {
+  const [reminders, setReminders] = useState<PaymentReminder[]>([]);
+  const filterId = "agreementId" in filter ? filter.agreementId : filter.invoiceId;
+
+  useEffect(() => {
+    loadReminders();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filterId]);
+
+  const loadReminders = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setReminders(await fetchReminderHistory(supabase, filter));
+    } catch (error) {
+      console.error("Error fetching reminders:", error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reminders</CardTitle>
+        <CardDescription>
+          Payment reminders emailed by the daily job, following the schedule in Settings
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {reminders.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No reminders sent yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sent</TableHead>
+                <TableHead>Due Date</TableHead>
+                <TableHead>Step</TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reminders.map((reminder) => (
+                <TableRow key={reminder.id}>
+                  <TableCell>{format(new Date(reminder.created_at), "MMM dd, yyyy HH:mm")}</TableCell>
+                  <TableCell>{format(new Date(reminder.due_date), "MMM dd, yyyy")}</TableCell>
+                  <TableCell>{describeReminderOffset(reminder.offset_days)}</TableCell>
+                  <TableCell className="text-muted-foreground">{reminder.recipient || "-"}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(reminder.amount, currency)}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_BADGES[reminder.status].variant} title={reminder.error ?? undefined}>
+                      {STATUS_BADGES[reminder.status].label}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_REMINDER_SCHEDULE,
+  REMINDER_TARGETS,
+  REMINDER_TARGET_LABELS,
+  describeReminderOffset,
+  fetchReminderSchedules,
+  getReminderScheduleError,
+  parseReminderOffsets,
+  saveReminderSchedules,
+  type ReminderSchedule,
+  type ReminderTarget,
+} from "@/lib/reminders/schedules";
+
+export function ReminderSettingsCard() {
+  const { toast } = useToast();
+  const [schedules, setSchedules] = useState<Record<ReminderTarget, ReminderSchedule>>({
+    rent: DEFAULT_REMINDER_SCHEDULE,
+    invoice: DEFAULT_REMINDER_SCHEDULE,
+  });
+  // Offsets as typed, so a half-written list is not reformatted while editing
+  const [drafts, setDrafts] = useState<Record<ReminderTarget, string>>({
+    rent: DEFAULT_REMINDER_SCHEDULE.offsets.join(", "),
+    invoice: DEFAULT_REMINDER_SCHEDULE.offsets.join(", "),
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSchedules();
+  }, []);
+
+  const loadSchedules = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const loaded = await fetchReminderSchedules(supabase);
+      setSchedules(loaded);
+      setDrafts({ rent: loaded.rent.offsets.join(", "), invoice: loaded.invoice.offsets.join(", ") });
+    } catch (error) {
+      console.error("Error fetching reminder schedules:", error);
+    }
+  };
+
+  const updateSchedule = (target: ReminderTarget, changes: Partial<ReminderSchedule>) => {
+    setSchedules((current) => ({ ...current, [target]: { ...current[target], ...changes } }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      await saveReminderSchedules(supabase, user.id, schedules);
+      toast({
+        title: "Success",
+        description: "Reminder schedules saved successfully",
+      });
+    } catch (error) {
+      console.error("Error saving reminder schedules:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save reminder schedules",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payment Reminders</CardTitle>
+        <CardDescription>
+          Email tenants about rent and clients about invoices around the due date. Enter steps as days from the
+          due date, negative before it. Reminders stop once the amount is paid, and tenants can be opted out on the
+          Tenants page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {REMINDER_TARGETS.map((target) => {
+          const schedule = schedules[target];
+          const scheduleError = getReminderScheduleError(schedule);
+
+          return (
+            <div key={target} className="grid gap-4 md:grid-cols-4 items-start">
+              <div className="flex items-center gap-3 pt-8">
+                <Switch
+                  id={`reminders_${target}`}
+                  checked={schedule.enabled}
+                  onCheckedChange={(enabled) => updateSchedule(target, { enabled })}
+                />
+                <Label htmlFor={`reminders_${target}`}>{REMINDER_TARGET_LABELS[target]}</Label>
+              </div>
+              <div className="space-y-2 md:col-span-3">
+                <Label htmlFor={`offsets_${target}`}>Steps (days)</Label>
+                <Input
+                  id={`offsets_${target}`}
+                  value={drafts[target]}
+                  onChange={(e) => {
+                    setDrafts((current) => ({ ...current, [target]: e.target.value }));
+                    updateSchedule(target, { offsets: parseReminderOffsets(e.target.value) });
+                  }}
+                  placeholder="-3, 0, 7, 14"
+                />
+                <p className={`text-xs ${scheduleError ? "text-destructive" : "text-muted-foreground"}`}>
+                  {scheduleError ||
+                    [...schedule.offsets]
+                      .sort((a, b) => a - b)
+                      .map(describeReminderOffset)
+                      .join(", ")}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSave}
+            disabled={saving || REMINDER_TARGETS.some((target) => getReminderScheduleError(schedules[target]))}
+          >
+            {saving ? "Saving..." : "Save Reminders"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
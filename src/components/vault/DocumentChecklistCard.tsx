@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { format } from "date-fns";
+import { CheckCircle2, CircleAlert, Plus } from "lucide-react";
+import { VAULT_STATUS_BADGES } from "@/components/vault/DocumentVaultCard";
+import { VaultDocumentDialog } from "@/components/vault/VaultDocumentDialog";
+import {
+  VAULT_DOCUMENT_LABELS,
+  VAULT_OWNER_LABELS,
+  fetchAgreementChecklist,
+  type ChecklistItem,
+  type VaultDocumentType,
+} from "@/lib/vault/documents";
+
+interface DocumentChecklistCardProps {
+  agreement: { id: string; tenant_id: string; landlord_id: string };
+  onChanged?: () => void;
+}
+
+const OWNER_PAGES = {
+  tenant: "/dashboard/tenants",
+  landlord: "/dashboard/landlords",
+} as const;
+
+/**
+ * Required documents for an agreement, its tenant and its landlord, with what is missing or expired
+ */
+export function DocumentChecklistCard({ agreement, onChanged }: DocumentChecklistCardProps) {
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [addType, setAddType] = useState<VaultDocumentType | null>(null);
+
+  useEffect(() => {
+    loadChecklist();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [agreement.id]);
+
+  const loadChecklist = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setItems(await fetchAgreementChecklist(supabase, agreement, format(new Date(), "yyyy-MM-dd")));
+    } catch (error) {
+      console.error("Error fetching document checklist:", error);
+    }
+  };
+
+  const outstanding = items.filter((item) => item.status === "missing" || item.status === "expired").length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Required Documents</CardTitle>
+        <CardDescription>
+          {items.length === 0
+            ? "Checking documents..."
+            : outstanding === 0
+              ? "Everything required is on file"
+              : `${outstanding} of ${items.length} required document${items.length !== 1 ? "s" : ""} missing or expired`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {items.map((item) => {
+            const complete = item.status === "valid" || item.status === "expiring";
+            const badge = VAULT_STATUS_BADGES[item.status];
+
+            return (
+              <li key={`${item.owner}:${item.document_type}`} className="flex items-center justify-between gap-4 py-2">
+                <div className="flex items-center gap-3">
+                  {complete ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <CircleAlert className="h-4 w-4 text-destructive" />
+                  )}
+                  <div>
+                    <p className="text-sm font-medium">
+                      {VAULT_OWNER_LABELS[item.owner]} {VAULT_DOCUMENT_LABELS[item.document_type].toLowerCase()}
+                    </p>
+                    {item.document?.expires_on && (
+                      <p className="text-xs text-muted-foreground">
+                        {item.document.title}, expires {format(new Date(item.document.expires_on), "MMM dd, yyyy")}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={badge.variant}>{badge.label}</Badge>
+                  {!complete &&
+                    (item.owner === "agreement" ? (
+                      <Button variant="ghost" size="sm" onClick={() => setAddType(item.document_type)}>
+                        <Plus className="mr-1 h-3 w-3" />
+                        Add
+                      </Button>
+                    ) : (
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link href={`${OWNER_PAGES[item.owner]}/${item.owner_id}?tab=documents`}>Add</Link>
+                      </Button>
+                    ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+
+      <VaultDocumentDialog
+        owner="agreement"
+        ownerId={agreement.id}
+        defaultType={addType ?? undefined}
+        open={addType !== null}
+        onOpenChange={(open) => !open && setAddType(null)}
+        onSaved={() => {
+          loadChecklist();
+          onChanged?.();
+        }}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ChevronDown, ChevronRight, Plus, Trash2 } from "lucide-react";
+import { AttachmentGallery } from "@/components/attachments/AttachmentGallery";
+import { VaultDocumentDialog } from "@/components/vault/VaultDocumentDialog";
+import {
+  VAULT_DOCUMENT_LABELS,
+  VAULT_OWNER_LABELS,
+  deleteVaultDocument,
+  fetchVaultDocuments,
+  getVaultDocumentStatus,
+  type VaultDocument,
+  type VaultDocumentStatus,
+  type VaultOwner,
+} from "@/lib/vault/documents";
+
+export const VAULT_STATUS_BADGES: Record<VaultDocumentStatus | "missing", { label: string; variant: "secondary" | "destructive" | "outline" | "default" }> = {
+  valid: { label: "Valid", variant: "secondary" },
+  expiring: { label: "Expiring", variant: "default" },
+  expired: { label: "Expired", variant: "destructive" },
+  missing: { label: "Missing", variant: "outline" },
+};
+
+interface DocumentVaultCardProps {
+  owner: VaultOwner;
+  ownerId: string;
+  onChanged?: () => void;
+}
+
+export function DocumentVaultCard({ owner, ownerId, onChanged }: DocumentVaultCardProps) {
+  const { toast } = useToast();
+  const [documents, setDocuments] = useState<VaultDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  useEffect(() => {
+    loadDocuments();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [owner, ownerId]);
+
+  const loadDocuments = async () => {
+    try {
+      const supabase = createSupabaseBrowserClient();
+      setDocuments(await fetchVaultDocuments(supabase, owner, ownerId));
+    } catch (error) {
+      console.error("Error fetching documents:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (document: VaultDocument) => {
+    if (!confirm(`Delete ${document.title} and its files?`)) return;
+
+    try {
+      const supabase = createSupabaseBrowserClient();
+      await deleteVaultDocument(supabase, document.id);
+      toast({
+        title: "Success",
+        description: "Document deleted successfully",
+      });
+      loadDocuments();
+      onChanged?.();
+    } catch (error) {
+      console.error("Error deleting document:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete document",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle>Documents</CardTitle>
+            <CardDescription>
+              ID proofs, verifications and other papers kept for this {VAULT_OWNER_LABELS[owner].toLowerCase()}
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Document
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Loading documents...</p>
+        ) : documents.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No documents yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Type</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead>Issued</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {documents.map((document) => {
+                const status = VAULT_STATUS_BADGES[getVaultDocumentStatus(document, today)];
+                const isExpanded = expanded === document.id;
+
+                return (
+                  <Fragment key={document.id}>
+                    <TableRow>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => setExpanded(isExpanded ? null : document.id)}
+                        >
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </Button>
+                      </TableCell>
+                      <TableCell>{VAULT_DOCUMENT_LABELS[document.document_type]}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{document.title}</p>
+                        {document.reference && <p className="text-xs text-muted-foreground">{document.reference}</p>}
+                      </TableCell>
+                      <TableCell>{document.issued_on ? format(new Date(document.issued_on), "MMM dd, yyyy") : "-"}</TableCell>
+                      <TableCell>{document.expires_on ? format(new Date(document.expires_on), "MMM dd, yyyy") : "-"}</TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(document)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="bg-muted/30 space-y-2">
+                          {document.notes && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{document.notes}</p>}
+                          <AttachmentGallery entity="vault_document" entityId={document.id} editable />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <VaultDocumentDialog
+        owner={owner}
+        ownerId={ownerId}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={() => {
+          loadDocuments();
+          onChanged?.();
+        }}
+      />
+    </Card>
+  );
+}
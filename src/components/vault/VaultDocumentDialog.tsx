@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { AttachmentPicker } from "@/components/attachments/AttachmentPicker";
+import { uploadAttachment, type PreparedAttachment } from "@/lib/attachments/attachments";
+import {
+  VAULT_DOCUMENT_LABELS,
+  VAULT_DOCUMENT_TYPES_BY_OWNER,
+  VAULT_OWNER_LABELS,
+  createVaultDocument,
+  getVaultDocumentError,
+  type VaultDocumentInput,
+  type VaultDocumentType,
+  type VaultOwner,
+} from "@/lib/vault/documents";
+
+interface VaultDocumentDialogProps {
+  owner: VaultOwner;
+  ownerId: string;
+  // Preselected type, e.g. when adding a missing item from the checklist
+  defaultType?: VaultDocumentType;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+const emptyInput = (type: VaultDocumentType): VaultDocumentInput => ({
+  document_type: type,
+  title: VAULT_DOCUMENT_LABELS[type],
+  reference: "",
+  issued_on: "",
+  expires_on: "",
+  notes: "",
+});
+
+export function VaultDocumentDialog({ owner, ownerId, defaultType, open, onOpenChange, onSaved }: VaultDocumentDialogProps) {
+  const { toast } = useToast();
+  const types = VAULT_DOCUMENT_TYPES_BY_OWNER[owner];
+  const [input, setInput] = useState<VaultDocumentInput>(emptyInput(defaultType ?? types[0]));
+  const [files, setFiles] = useState<PreparedAttachment[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setInput(emptyInput(defaultType ?? types[0]));
+      setFiles([]);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, defaultType]);
+
+  const updateInput = (changes: Partial<VaultDocumentInput>) => setInput((current) => ({ ...current, ...changes }));
+
+  const handleTypeChange = (type: VaultDocumentType) => {
+    // Keep a typed title, but follow the type while the title is still the default
+    const titleIsDefault = input.title === VAULT_DOCUMENT_LABELS[input.document_type];
+    updateInput({ document_type: type, ...(titleIsDefault ? { title: VAULT_DOCUMENT_LABELS[type] } : {}) });
+  };
+
+  const inputError = getVaultDocumentError(owner, input);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      const document = await createVaultDocument(supabase, user.id, owner, ownerId, input);
+      for (const file of files) {
+        await uploadAttachment(supabase, user.id, "vault_document", document.id, file);
+      }
+
+      toast({
+        title: "Success",
+        description: `${document.title} added`,
+      });
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      console.error("Error saving document:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save document",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Add Document</DialogTitle>
+          <DialogDescription>
+            Store a scan against this {VAULT_OWNER_LABELS[owner].toLowerCase()}. Add an expiry date to be warned before it lapses.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="vault_type">Type *</Label>
+            <Select value={input.document_type} onValueChange={(value) => handleTypeChange(value as VaultDocumentType)}>
+              <SelectTrigger id="vault_type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {types.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {VAULT_DOCUMENT_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="vault_title">Title *</Label>
+            <Input id="vault_title" value={input.title} onChange={(e) => updateInput({ title: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="vault_reference">Document Number</Label>
+            <Input
+              id="vault_reference"
+              value={input.reference}
+              onChange={(e) => updateInput({ reference: e.target.value })}
+              placeholder="Optional"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="vault_issued_on">Issued</Label>
+              <Input
+                id="vault_issued_on"
+                type="date"
+                value={input.issued_on}
+                onChange={(e) => updateInput({ issued_on: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vault_expires_on">Expires</Label>
+              <Input
+                id="vault_expires_on"
+                type="date"
+                value={input.expires_on}
+                onChange={(e) => updateInput({ expires_on: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="vault_notes">Notes</Label>
+            <Textarea id="vault_notes" value={input.notes} onChange={(e) => updateInput({ notes: e.target.value })} rows={2} />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="vault_files">Files</Label>
+            <AttachmentPicker id="vault_files" value={files} onChange={setFiles} disabled={saving} />
+          </div>
+          {inputError && <p className="text-sm text-destructive md:col-span-2">{inputError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || inputError !== null}>
+            {saving ? "Saving..." : "Add Document"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
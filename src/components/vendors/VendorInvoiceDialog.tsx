@@ -0,0 +1,141 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { recordVendorInvoice, type InvoiceableRequest } from "@/lib/vendors/invoices";
+
+interface VendorInvoiceDialogProps {
+  request: InvoiceableRequest;
+  vendorName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+export function VendorInvoiceDialog({ request, vendorName, open, onOpenChange, onSaved }: VendorInvoiceDialogProps) {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [invoiceDate, setInvoiceDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [amount, setAmount] = useState(0);
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setInvoiceNumber("");
+      setInvoiceDate(format(new Date(), "yyyy-MM-dd"));
+      setAmount(0);
+      setNotes("");
+    }
+  }, [open]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      await recordVendorInvoice(supabase, request, {
+        invoice_number: invoiceNumber,
+        invoice_date: invoiceDate,
+        amount,
+        notes,
+      });
+
+      toast({
+        title: "Success",
+        description: "Vendor invoice recorded",
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error("Error recording vendor invoice:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record invoice",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Vendor Invoice</DialogTitle>
+          <DialogDescription>
+            What {vendorName} billed for this job. The job&apos;s cost is the total of its invoices.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="vendor_invoice_number">Invoice Number</Label>
+            <Input
+              id="vendor_invoice_number"
+              value={invoiceNumber}
+              onChange={(e) => setInvoiceNumber(e.target.value)}
+              placeholder="As printed on the bill"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vendor_invoice_date">Invoice Date</Label>
+            <Input
+              id="vendor_invoice_date"
+              type="date"
+              value={invoiceDate}
+              onChange={(e) => setInvoiceDate(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vendor_invoice_amount">Amount</Label>
+            <Input
+              id="vendor_invoice_amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={amount}
+              onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="vendor_invoice_notes">Notes</Label>
+          <Textarea
+            id="vendor_invoice_notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Parts, labour..."
+            rows={2}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || amount <= 0}>
+            {saving ? "Saving..." : "Record Invoice"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
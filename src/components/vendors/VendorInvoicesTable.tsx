@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { Trash2, X } from "lucide-react";
+import { getPaymentMethodLabel } from "@/lib/invoices/payments";
+import {
+  VENDOR_INVOICE_STATUS_LABELS,
+  deleteVendorInvoice,
+  deleteVendorPayment,
+  getVendorInvoiceStatus,
+  type VendorInvoice,
+  type VendorInvoiceStatus,
+  type VendorPayment,
+} from "@/lib/vendors/invoices";
+import { VendorPaymentDialog } from "@/components/vendors/VendorPaymentDialog";
+
+const STATUS_VARIANTS: Record<VendorInvoiceStatus, "default" | "secondary" | "outline"> = {
+  unpaid: "outline",
+  partially_paid: "secondary",
+  paid: "default",
+};
+
+interface VendorInvoicesTableProps {
+  invoices: VendorInvoice[];
+  // Which side of the invoice to name in each row: the job on a vendor's page, the vendor on a job's
+  show: "job" | "vendor";
+  onChanged: () => void;
+}
+
+export function VendorInvoicesTable({ invoices, show, onChanged }: VendorInvoicesTableProps) {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const { toast } = useToast();
+  const [payingInvoice, setPayingInvoice] = useState<VendorInvoice | null>(null);
+
+  const handleDeleteInvoice = async (invoice: VendorInvoice) => {
+    if (!confirm(`Delete the invoice for ${formatCurrency(invoice.amount, baseCurrency)} and any payments against it?`)) return;
+
+    try {
+      const supabase = createSupabaseBrowserClient();
+      await deleteVendorInvoice(supabase, invoice);
+
+      toast({
+        title: "Success",
+        description: "Invoice deleted successfully",
+      });
+      onChanged();
+    } catch (error) {
+      console.error("Error deleting vendor invoice:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete invoice",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeletePayment = async (payment: VendorPayment) => {
+    if (!confirm(`Delete the payment of ${formatCurrency(payment.amount, baseCurrency)} made ${format(new Date(payment.payment_date), "MMM dd, yyyy")}?`)) return;
+
+    try {
+      const supabase = createSupabaseBrowserClient();
+      await deleteVendorPayment(supabase, payment);
+
+      toast({
+        title: "Success",
+        description: "Payment deleted successfully",
+      });
+      onChanged();
+    } catch (error) {
+      console.error("Error deleting vendor payment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete payment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Invoice</TableHead>
+            <TableHead>{show === "job" ? "Job" : "Vendor"}</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+            <TableHead>Payments</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {invoices.map((invoice) => {
+            const status = getVendorInvoiceStatus(invoice);
+
+            return (
+              <TableRow key={invoice.id}>
+                <TableCell>{format(new Date(invoice.invoice_date), "MMM dd, yyyy")}</TableCell>
+                <TableCell>
+                  {invoice.invoice_number || "-"}
+                  {invoice.notes && <p className="text-xs text-muted-foreground">{invoice.notes}</p>}
+                </TableCell>
+                <TableCell>
+                  {show === "job" ? (
+                    <Link href={`/dashboard/maintenance/${invoice.maintenance_request_id}`} className="hover:underline">
+                      {invoice.maintenance?.title ?? "Maintenance job"}
+                    </Link>
+                  ) : (
+                    <Link href={`/dashboard/vendors/${invoice.vendor_id}`} className="hover:underline">
+                      {invoice.vendor?.name ?? "Vendor"}
+                    </Link>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(invoice.amount, baseCurrency)}</TableCell>
+                <TableCell>
+                  {invoice.payments.length === 0 ? (
+                    <span className="text-muted-foreground">-</span>
+                  ) : (
+                    <ul className="space-y-1">
+                      {invoice.payments.map((payment) => (
+                        <li key={payment.id} className="flex items-center gap-1 text-xs">
+                          <span>
+                            {formatCurrency(payment.amount, baseCurrency)} on {format(new Date(payment.payment_date), "MMM dd")}
+                            {payment.payment_method && ` · ${getPaymentMethodLabel(payment.payment_method)}`}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-5 w-5"
+                            onClick={() => handleDeletePayment(payment)}
+                          >
+                            <X className="h-3 w-3 text-destructive" />
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={STATUS_VARIANTS[status]}>{VENDOR_INVOICE_STATUS_LABELS[status]}</Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    {status !== "paid" && (
+                      <Button variant="outline" size="sm" onClick={() => setPayingInvoice(invoice)}>
+                        Pay
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="icon" onClick={() => handleDeleteInvoice(invoice)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <VendorPaymentDialog invoice={payingInvoice} onClose={() => setPayingInvoice(null)} onSaved={onChanged} />
+    </>
+  );
+}
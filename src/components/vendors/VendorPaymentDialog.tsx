@@ -0,0 +1,160 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from "@/lib/invoices/payments";
+import { recordVendorPayment, type VendorInvoice } from "@/lib/vendors/invoices";
+
+interface VendorPaymentDialogProps {
+  invoice: VendorInvoice | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export function VendorPaymentDialog({ invoice, onClose, onSaved }: VendorPaymentDialogProps) {
+  const baseCurrency = useCurrencyStore((s) => s.baseCurrency);
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+  const [amount, setAmount] = useState(0);
+  const [paymentDate, setPaymentDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [paymentMethod, setPaymentMethod] = useState<string>("bank_transfer");
+  const [reference, setReference] = useState("");
+
+  const balance = invoice ? Math.max(0, invoice.amount - invoice.paid_amount) : 0;
+
+  useEffect(() => {
+    if (invoice) {
+      setAmount(Math.max(0, invoice.amount - invoice.paid_amount));
+      setPaymentDate(format(new Date(), "yyyy-MM-dd"));
+      setReference("");
+    }
+  }, [invoice]);
+
+  const handleSave = async () => {
+    if (!invoice) return;
+
+    setSaving(true);
+    try {
+      const supabase = createSupabaseBrowserClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) throw new Error("User not authenticated");
+
+      await recordVendorPayment(
+        supabase,
+        user.id,
+        invoice,
+        { amount, payment_date: paymentDate, payment_method: paymentMethod, reference },
+        baseCurrency
+      );
+
+      toast({
+        title: "Success",
+        description: `Payment of ${formatCurrency(amount, baseCurrency)} recorded`,
+      });
+      onClose();
+      onSaved();
+    } catch (error) {
+      console.error("Error recording vendor payment:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record payment",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={invoice !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pay Vendor</DialogTitle>
+          <DialogDescription>
+            {formatCurrency(balance, baseCurrency)} is still owed
+            {invoice?.invoice_number ? ` on invoice ${invoice.invoice_number}` : " on this invoice"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="vendor_payment_amount">Amount</Label>
+            <Input
+              id="vendor_payment_amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              max={balance}
+              value={amount}
+              onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vendor_payment_date">Date</Label>
+            <Input
+              id="vendor_payment_date"
+              type="date"
+              value={paymentDate}
+              onChange={(e) => setPaymentDate(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Method</Label>
+            <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAYMENT_METHODS.map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {PAYMENT_METHOD_LABELS[method]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vendor_payment_reference">Reference</Label>
+            <Input
+              id="vendor_payment_reference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="Transaction ID, cheque number..."
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || amount <= 0}>
+            {saving ? "Saving..." : "Record Payment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,179 @@
+import { format } from "date-fns";
+import { DEFAULT_CURRENCY, formatCurrency } from "@/lib/currency/currencies";
+
+export const CLAUSE_CATEGORIES = [
+  "general",
+  "payment",
+  "maintenance",
+  "utilities",
+  "pets",
+  "subletting",
+  "lock_in",
+  "termination",
+] as const;
+
+export type ClauseCategory = (typeof CLAUSE_CATEGORIES)[number];
+
+export const CLAUSE_CATEGORY_LABELS: Record<ClauseCategory, string> = {
+  general: "General",
+  payment: "Payment",
+  maintenance: "Maintenance",
+  utilities: "Utilities",
+  pets: "Pets",
+  subletting: "Subletting",
+  lock_in: "Lock-in",
+  termination: "Termination",
+};
+
+export interface Clause {
+  id: string;
+  title: string;
+  category: ClauseCategory;
+  body: string;
+}
+
+export interface AgreementTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  clause_ids: string[];
+}
+
+// A clause as merged into an agreement
+export interface AgreementClause {
+  clause_id: string | null;
+  title: string;
+  body: string;
+  // The body before placeholders were merged, so the clause can be merged again on renewal
+  source_body?: string;
+}
+
+// A clause picked for a new agreement, before placeholders are merged
+export interface ClauseSelection extends AgreementClause {
+  enabled: boolean;
+}
+
+export const CLAUSE_PLACEHOLDERS: Array<{ key: string; description: string }> = [
+  { key: "tenant.name", description: "Tenant name" },
+  { key: "landlord.name", description: "Landlord name" },
+  { key: "property_address", description: "Property address" },
+  { key: "property_city", description: "Property city" },
+  { key: "monthly_rent", description: "Monthly rent" },
+  { key: "deposit_amount", description: "Security deposit" },
+  { key: "notice_period_days", description: "Notice period in days" },
+  { key: "start_date", description: "Agreement start date" },
+  { key: "end_date", description: "Agreement end date" },
+];
+
+export interface ClauseMergeValues {
+  tenant: { name: string } | null;
+  landlord: { name: string } | null;
+  property_address?: string;
+  property_city?: string;
+  monthly_rent?: number;
+  deposit_amount?: number;
+  notice_period_days?: number;
+  start_date?: string;
+  end_date?: string;
+  // Amounts are written in this currency; defaults to the app default
+  currency?: string;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Flatten agreement values into display strings keyed by placeholder name
+ */
+export function buildMergeContext(values: ClauseMergeValues): Record<string, string> {
+  const context: Record<string, string> = {};
+  const formatAmount = (amount: number) => formatCurrency(Math.round(amount), values.currency ?? DEFAULT_CURRENCY);
+  const formatDate = (date: string) => format(new Date(date), "MMM dd, yyyy");
+
+  if (values.tenant) context["tenant.name"] = values.tenant.name;
+  if (values.landlord) context["landlord.name"] = values.landlord.name;
+  if (values.property_address) context.property_address = values.property_address;
+  if (values.property_city) context.property_city = values.property_city;
+  if (values.monthly_rent) context.monthly_rent = formatAmount(values.monthly_rent);
+  if (Number.isFinite(values.deposit_amount)) context.deposit_amount = formatAmount(values.deposit_amount as number);
+  if (Number.isFinite(values.notice_period_days)) context.notice_period_days = String(values.notice_period_days);
+  if (values.start_date) context.start_date = formatDate(values.start_date);
+  if (values.end_date) context.end_date = formatDate(values.end_date);
+
+  return context;
+}
+
+/**
+ * Replace {{placeholders}} in a clause body. Unknown placeholders are left in place.
+ */
+export function mergeClauseText(body: string, context: Record<string, string>): string {
+  return body.replace(PLACEHOLDER_PATTERN, (match, key: string) => context[key] ?? match);
+}
+
+/**
+ * Placeholders in a clause body that the context cannot fill
+ */
+export function findUnresolvedPlaceholders(body: string, context: Record<string, string>): string[] {
+  return Array.from(body.matchAll(PLACEHOLDER_PATTERN))
+    .map((match) => match[1])
+    .filter((key) => context[key] === undefined);
+}
+
+/**
+ * Read stored agreement clauses, ignoring malformed entries
+ */
+export function parseAgreementClauses(raw: unknown): AgreementClause[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((clause) => clause && typeof clause.title === "string" && typeof clause.body === "string")
+    .map((clause) => ({
+      clause_id: clause.clause_id ?? null,
+      title: clause.title,
+      body: clause.body,
+      ...(typeof clause.source_body === "string" ? { source_body: clause.source_body } : {}),
+    }));
+}
+
+/**
+ * Merge the enabled clauses, in order, into the clauses stored on an agreement
+ */
+export function mergeSelectedClauses(
+  selection: ClauseSelection[],
+  context: Record<string, string>
+): AgreementClause[] {
+  return selection
+    .filter((clause) => clause.enabled)
+    .map((clause) => ({
+      clause_id: clause.clause_id,
+      title: clause.title,
+      body: mergeClauseText(clause.body, context),
+      source_body: clause.body,
+    }));
+}
+
+/**
+ * Merge an agreement's clauses again with new values, as for a renewal. Each clause is merged
+ * from the body it was written with; clauses stored before that was kept fall back to their
+ * library clause, and keep their merged text when that has been deleted too.
+ */
+export function remergeAgreementClauses(
+  clauses: AgreementClause[],
+  library: Pick<Clause, "id" | "body">[],
+  context: Record<string, string>
+): AgreementClause[] {
+  return clauses.map((clause) => {
+    const source = clause.source_body ?? library.find((c) => c.id === clause.clause_id)?.body;
+    return source === undefined
+      ? clause
+      : { ...clause, body: mergeClauseText(source, context), source_body: source };
+  });
+}
+
+/**
+ * Build the clause list for a template, in template order. Clauses deleted from the library are skipped.
+ */
+export function selectTemplateClauses(template: AgreementTemplate, library: Clause[]): ClauseSelection[] {
+  return template.clause_ids.flatMap((clauseId) => {
+    const clause = library.find((c) => c.id === clauseId);
+    return clause ? [{ clause_id: clause.id, title: clause.title, body: clause.body, enabled: true }] : [];
+  });
+}
@@ -0,0 +1,247 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DEFAULT_CURRENCY, formatCurrency } from "@/lib/currency/currencies";
+import { fetchBaseCurrency } from "@/lib/currency/rates";
+import { getStatusLabel, getTransitionError, transitionAgreement, type LifecycleAgreement } from "@/lib/agreements/lifecycle";
+
+export const DEPOSIT_ENTRY_TYPES = ["receipt", "deduction", "adjustment", "refund"] as const;
+
+export type DepositEntryType = (typeof DEPOSIT_ENTRY_TYPES)[number];
+
+export const DEPOSIT_ENTRY_LABELS: Record<DepositEntryType, string> = {
+  receipt: "Received",
+  deduction: "Deduction",
+  adjustment: "Adjustment",
+  refund: "Refund",
+};
+
+export interface DepositEntry {
+  id: string;
+  entry_type: DepositEntryType;
+  amount: number;
+  entry_date: string;
+  description: string;
+  maintenance_request_id: string | null;
+  reference: string | null;
+  created_at: string;
+  maintenance: { title: string; cost: number | null } | null;
+}
+
+export interface DepositEntryInput {
+  entry_type: DepositEntryType;
+  amount: number;
+  entry_date: string;
+  description: string;
+  maintenance_request_id?: string | null;
+  reference?: string | null;
+}
+
+export interface DepositSummary {
+  // Deposit required by the agreement
+  expected: number;
+  received: number;
+  deducted: number;
+  adjusted: number;
+  refunded: number;
+  // Currently held on the tenant's behalf
+  held: number;
+  // Still to be collected against the agreed deposit
+  outstanding: number;
+}
+
+export interface DepositAgreement extends LifecycleAgreement {
+  user_id: string;
+  deposit_amount: number;
+  deposit_settled_at: string | null;
+}
+
+// A settlement can only be drawn up once the tenant is moving out
+const SETTLEMENT_STATUSES = ["notice_given", "terminated", "expired"];
+
+const ENTRY_COLUMNS =
+  "id, entry_type, amount, entry_date, description, maintenance_request_id, reference, created_at, maintenance_requests:maintenance_request_id (title, cost)";
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Signed effect of an entry on the deposit held
+ */
+export function getDepositEffect(entry: Pick<DepositEntry, "entry_type" | "amount">): number {
+  const amount = Number(entry.amount);
+  return entry.entry_type === "deduction" || entry.entry_type === "refund" ? -amount : amount;
+}
+
+/**
+ * Totals of a deposit ledger against the agreed deposit
+ */
+export function summarizeDeposit(entries: Pick<DepositEntry, "entry_type" | "amount">[], expected: number): DepositSummary {
+  const total = (type: DepositEntryType) =>
+    roundMoney(entries.filter((entry) => entry.entry_type === type).reduce((sum, entry) => sum + Number(entry.amount), 0));
+
+  const received = total("receipt");
+  const deducted = total("deduction");
+  const adjusted = total("adjustment");
+  const refunded = total("refund");
+
+  return {
+    expected,
+    received,
+    deducted,
+    adjusted,
+    refunded,
+    held: roundMoney(received + adjusted - deducted - refunded),
+    outstanding: Math.max(0, roundMoney(expected - received)),
+  };
+}
+
+/**
+ * Return why an entry cannot be added to the ledger, or null when it can
+ */
+export function getDepositEntryError(
+  agreement: Pick<DepositAgreement, "deposit_settled_at">,
+  summary: DepositSummary,
+  entry: DepositEntryInput,
+  currency = DEFAULT_CURRENCY
+): string | null {
+  if (agreement.deposit_settled_at) {
+    return "The deposit has been settled; the ledger is closed";
+  }
+  if (!entry.description.trim()) {
+    return "Describe the entry";
+  }
+  if (!Number.isFinite(entry.amount) || entry.amount === 0) {
+    return "Amount must not be zero";
+  }
+  if (entry.entry_type !== "adjustment" && entry.amount < 0) {
+    return "Amount must be positive";
+  }
+  if (getDepositEffect(entry) < 0 && -getDepositEffect(entry) > summary.held) {
+    return `Only ${formatCurrency(summary.held, currency)} is held`;
+  }
+  return null;
+}
+
+/**
+ * Return why the move-out settlement cannot be finalised, or null when it can
+ */
+export function getSettlementError(agreement: DepositAgreement): string | null {
+  if (agreement.deposit_settled_at) {
+    return "The deposit has already been settled";
+  }
+  if (!SETTLEMENT_STATUSES.includes(agreement.status)) {
+    return `A ${getStatusLabel(agreement.status)} agreement cannot be settled; serve notice first`;
+  }
+  return null;
+}
+
+/**
+ * Load the deposit ledger of an agreement, oldest first
+ */
+export async function fetchDepositLedger(supabase: SupabaseClient, agreementId: string): Promise<DepositEntry[]> {
+  const { data, error } = await supabase
+    .from("deposit_transactions")
+    .select(ENTRY_COLUMNS)
+    .eq("agreement_id", agreementId)
+    .order("entry_date", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(({ maintenance_requests, ...entry }) => ({
+    ...entry,
+    amount: Number(entry.amount),
+    maintenance: (Array.isArray(maintenance_requests) ? maintenance_requests[0] : maintenance_requests) ?? null,
+  }));
+}
+
+/**
+ * Add an entry to the deposit ledger after checking it against the current balance
+ */
+export async function recordDepositEntry(
+  supabase: SupabaseClient,
+  agreement: DepositAgreement,
+  entry: DepositEntryInput,
+  actorId: string | null
+): Promise<void> {
+  const [ledger, currency] = await Promise.all([
+    fetchDepositLedger(supabase, agreement.id),
+    fetchBaseCurrency(supabase, agreement.user_id),
+  ]);
+  const entryError = getDepositEntryError(agreement, summarizeDeposit(ledger, agreement.deposit_amount), entry, currency);
+  if (entryError) throw new Error(entryError);
+
+  const { error } = await supabase.from("deposit_transactions").insert({
+    agreement_id: agreement.id,
+    user_id: agreement.user_id,
+    entry_type: entry.entry_type,
+    amount: roundMoney(entry.amount),
+    entry_date: entry.entry_date,
+    description: entry.description.trim(),
+    maintenance_request_id: entry.entry_type === "deduction" ? entry.maintenance_request_id || null : null,
+    reference: entry.reference || null,
+    created_by: actorId,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Finalise the move-out settlement: refund whatever is still held, close the ledger
+ * and terminate the agreement once its notice period has run out.
+ * Returns the amount refunded and whether the agreement was terminated.
+ */
+export async function settleDeposit(
+  supabase: SupabaseClient,
+  agreement: DepositAgreement,
+  options: { settlementDate: string; reference?: string | null; actorId: string | null }
+): Promise<{ refunded: number; terminated: boolean }> {
+  const settlementError = getSettlementError(agreement);
+  if (settlementError) throw new Error(settlementError);
+
+  const summary = summarizeDeposit(await fetchDepositLedger(supabase, agreement.id), agreement.deposit_amount);
+  const refunded = Math.max(0, summary.held);
+
+  // Close the ledger first so a second settlement cannot refund the balance twice
+  const { data: closed, error: closeError } = await supabase
+    .from("rent_agreements")
+    .update({ deposit_settled_at: new Date().toISOString(), deposit_refund_amount: refunded })
+    .eq("id", agreement.id)
+    .is("deposit_settled_at", null)
+    .select("id");
+
+  if (closeError) throw closeError;
+  if (!closed || closed.length === 0) throw new Error("The deposit has already been settled");
+
+  if (refunded > 0) {
+    const { error } = await supabase.from("deposit_transactions").insert({
+      agreement_id: agreement.id,
+      user_id: agreement.user_id,
+      entry_type: "refund",
+      amount: refunded,
+      entry_date: options.settlementDate,
+      description: "Move-out settlement refund",
+      reference: options.reference || null,
+      created_by: options.actorId,
+    });
+
+    if (error) {
+      await supabase
+        .from("rent_agreements")
+        .update({ deposit_settled_at: null, deposit_refund_amount: null })
+        .eq("id", agreement.id);
+      throw error;
+    }
+  }
+
+  // Before the notice period ends the daily job terminates the agreement instead
+  let terminated = false;
+  if (agreement.status === "notice_given" && !getTransitionError(agreement, "terminated")) {
+    const currency = await fetchBaseCurrency(supabase, agreement.user_id);
+    await transitionAgreement(supabase, agreement, "terminated", {
+      reason: `Deposit settled, ${formatCurrency(refunded, currency)} refunded`,
+      actorId: options.actorId,
+    });
+    terminated = true;
+  }
+
+  return { refunded, terminated };
+}
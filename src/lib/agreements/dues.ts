@@ -0,0 +1,417 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addDays, addMonths, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { buildRentSchedule, parseEscalationRule } from "@/lib/agreements/escalation";
+import { fetchLateFees, toLateFeeCharges } from "@/lib/agreements/fees";
+import { fetchAllRows, fetchRowsByIds } from "@/lib/supabase/paging";
+
+export type RentChargeKind = "rent" | "late_fee";
+
+export interface RentDue {
+  id: string;
+  // Scheduled rent unless stated; late fees are charged against the rent line's period
+  kind?: RentChargeKind;
+  period_start: string;
+  period_end: string;
+  due_date: string;
+  amount: number;
+}
+
+export type RentDueLine = Omit<RentDue, "id" | "kind">;
+
+export interface RentPaymentEntry {
+  id: string;
+  payment_date: string;
+  amount: number;
+}
+
+export type RentDueStatus = "paid" | "partial" | "due" | "upcoming";
+
+export const RENT_DUE_STATUS_LABELS: Record<RentDueStatus, string> = {
+  paid: "Paid",
+  partial: "Part Paid",
+  due: "Due",
+  upcoming: "Upcoming",
+};
+
+export interface AllocatedRentDue extends RentDue {
+  kind: RentChargeKind;
+  paid: number;
+  outstanding: number;
+  status: RentDueStatus;
+  // Payments that settled this line, oldest first
+  payments: Array<{ payment_id: string; amount: number }>;
+}
+
+export interface RentAccount {
+  lines: AllocatedRentDue[];
+  // Rent that has fallen due up to today
+  due_to_date: number;
+  paid: number;
+  // Unpaid rent and late fees on lines already due
+  arrears: number;
+  // Unpaid late fees included in the arrears
+  late_fees: number;
+  // Paid towards lines not yet due, plus any unallocated credit
+  advance: number;
+  // Paid beyond the whole schedule
+  credit: number;
+  // Positive when the tenant is ahead, negative when in arrears
+  balance: number;
+  // Oldest line with something left to pay
+  next_due: AllocatedRentDue | null;
+}
+
+export interface ScheduledAgreement {
+  id: string;
+  user_id: string;
+  start_date: string;
+  end_date: string;
+  termination_date?: string | null;
+  monthly_rent: number;
+  escalation_rule: unknown;
+}
+
+export interface RentDueSyncPlan {
+  insert: RentDueLine[];
+  update: RentDue[];
+  remove: RentDue[];
+}
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Last day rent is owed: the end date, or the termination date when notice ends the tenancy early
+ */
+export function getScheduleEnd(agreement: Pick<ScheduledAgreement, "end_date" | "termination_date">): string {
+  return agreement.termination_date && agreement.termination_date < agreement.end_date
+    ? agreement.termination_date
+    : agreement.end_date;
+}
+
+/**
+ * One due line per monthly period from the start date, with rent payable in advance
+ * and escalated each lease year. A short final period is charged pro rata.
+ */
+export function generateRentDues(agreement: Omit<ScheduledAgreement, "id" | "user_id">): RentDueLine[] {
+  const start = parseISO(agreement.start_date);
+  const end = getScheduleEnd(agreement);
+
+  const periods: Array<{ start: Date; end: string; fullEnd: Date; year: number }> = [];
+  for (let index = 0; toDateString(addMonths(start, index)) <= end; index++) {
+    const fullEnd = addDays(addMonths(start, index + 1), -1);
+    periods.push({
+      start: addMonths(start, index),
+      end: toDateString(fullEnd) > end ? end : toDateString(fullEnd),
+      fullEnd,
+      year: Math.floor(index / 12) + 1,
+    });
+  }
+  if (periods.length === 0) return [];
+
+  const schedule = buildRentSchedule(
+    agreement.monthly_rent,
+    agreement.start_date,
+    parseEscalationRule(agreement.escalation_rule),
+    periods[periods.length - 1].year
+  );
+
+  return periods.map((period) => {
+    const rent = schedule[period.year - 1].monthly_rent;
+    const days = differenceInCalendarDays(parseISO(period.end), period.start) + 1;
+    const fullDays = differenceInCalendarDays(period.fullEnd, period.start) + 1;
+    return {
+      period_start: toDateString(period.start),
+      period_end: period.end,
+      due_date: toDateString(period.start),
+      amount: days < fullDays ? Math.round((rent * days) / fullDays) : rent,
+    };
+  });
+}
+
+/**
+ * Allocate payments to due lines oldest first. Partial payments leave a line part paid,
+ * and anything left over carries forward to the next line, then to lines not yet due.
+ */
+export function allocatePayments(dues: RentDue[], payments: RentPaymentEntry[], today: string): RentAccount {
+  const sortedDues = [...dues].sort(
+    (a, b) =>
+      a.due_date.localeCompare(b.due_date) ||
+      a.period_start.localeCompare(b.period_start) ||
+      (a.kind ?? "rent").localeCompare(b.kind ?? "rent")
+  );
+  const queue = [...payments]
+    .sort((a, b) => a.payment_date.localeCompare(b.payment_date) || a.id.localeCompare(b.id))
+    .map((payment) => ({ id: payment.id, remaining: Number(payment.amount) }));
+
+  let cursor = 0;
+  const lines = sortedDues.map((due): AllocatedRentDue => {
+    let outstanding = Number(due.amount);
+    const applied: AllocatedRentDue["payments"] = [];
+
+    while (outstanding > 0.005 && cursor < queue.length) {
+      const payment = queue[cursor];
+      const amount = Math.min(outstanding, payment.remaining);
+      if (amount > 0) {
+        applied.push({ payment_id: payment.id, amount: roundMoney(amount) });
+        payment.remaining -= amount;
+        outstanding -= amount;
+      }
+      if (payment.remaining <= 0.005) cursor++;
+    }
+
+    outstanding = roundMoney(Math.max(0, outstanding));
+    const paid = roundMoney(Number(due.amount) - outstanding);
+    let status: RentDueStatus = "paid";
+    if (outstanding > 0) {
+      status = paid > 0 ? "partial" : due.due_date > today ? "upcoming" : "due";
+    }
+
+    return { ...due, kind: due.kind ?? "rent", amount: Number(due.amount), paid, outstanding, status, payments: applied };
+  });
+
+  const sum = (values: number[]) => roundMoney(values.reduce((total, value) => total + value, 0));
+  const dueLines = lines.filter((line) => line.due_date <= today);
+  const credit = sum(queue.map((payment) => Math.max(0, payment.remaining)));
+  const dueToDate = sum(dueLines.map((line) => line.amount));
+  const paid = sum(payments.map((payment) => Number(payment.amount)));
+
+  return {
+    lines,
+    due_to_date: dueToDate,
+    paid,
+    arrears: sum(dueLines.map((line) => line.outstanding)),
+    late_fees: sum(dueLines.filter((line) => line.kind === "late_fee").map((line) => line.outstanding)),
+    advance: roundMoney(sum(lines.filter((line) => line.due_date > today).map((line) => line.paid)) + credit),
+    credit,
+    balance: roundMoney(paid - dueToDate),
+    next_due: lines.find((line) => line.outstanding > 0) ?? null,
+  };
+}
+
+/**
+ * Work out how the stored schedule must change to match the agreement's terms.
+ * Lines due before `from` keep their amounts, so an amendment only reprices rent
+ * from its effective date; lines past the end of the tenancy are always removed.
+ */
+export function planRentDueSync(existing: RentDue[], desired: RentDueLine[], scheduleEnd: string, from: string): RentDueSyncPlan {
+  const desiredByStart = new Map(desired.map((line) => [line.period_start, line]));
+
+  const remove = existing.filter(
+    (line) => line.period_start > scheduleEnd || (line.due_date >= from && !desiredByStart.has(line.period_start))
+  );
+  const kept = existing.filter((line) => !remove.includes(line));
+
+  const update = kept
+    .filter((line) => line.due_date >= from)
+    .flatMap((line) => {
+      const target = desiredByStart.get(line.period_start);
+      if (!target || (Number(line.amount) === target.amount && line.period_end === target.period_end)) return [];
+      return [{ ...line, amount: target.amount, period_end: target.period_end }];
+    });
+
+  // Never add a line over a period that an older, differently aligned line already covers
+  const insert = desired.filter(
+    (line) =>
+      !kept.some((other) => other.period_start <= line.period_end && other.period_end >= line.period_start)
+  );
+
+  return { insert, update, remove };
+}
+
+/**
+ * Load the stored rent schedule of an agreement, oldest first
+ */
+export async function fetchRentDues(supabase: SupabaseClient, agreementId: string): Promise<RentDue[]> {
+  const { data, error } = await supabase
+    .from("rent_schedule")
+    .select("id, period_start, period_end, due_date, amount")
+    .eq("agreement_id", agreementId)
+    .order("due_date", { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map((line) => ({ ...line, amount: Number(line.amount) }));
+}
+
+/**
+ * Bring the stored schedule in line with the agreement's current terms. Pass the date
+ * an amendment takes effect as `from`; earlier lines are left as they were charged.
+ * Returns the changes, which are only written when dryRun is not set.
+ */
+export async function syncRentDues(
+  supabase: SupabaseClient,
+  agreement: ScheduledAgreement,
+  options: { from?: string; dryRun?: boolean } = {}
+): Promise<RentDueSyncPlan> {
+  const existing = await fetchRentDues(supabase, agreement.id);
+  const plan = planRentDueSync(existing, generateRentDues(agreement), getScheduleEnd(agreement), options.from ?? agreement.start_date);
+  if (options.dryRun) return plan;
+
+  if (plan.remove.length > 0) {
+    const { error } = await supabase
+      .from("rent_schedule")
+      .delete()
+      .in("id", plan.remove.map((line) => line.id));
+
+    if (error) throw error;
+  }
+
+  for (const line of plan.update) {
+    const { error } = await supabase
+      .from("rent_schedule")
+      .update({ amount: line.amount, period_end: line.period_end, updated_at: new Date().toISOString() })
+      .eq("id", line.id);
+
+    if (error) throw error;
+  }
+
+  if (plan.insert.length > 0) {
+    const { error } = await supabase
+      .from("rent_schedule")
+      .insert(plan.insert.map((line) => ({ ...line, agreement_id: agreement.id, user_id: agreement.user_id })));
+
+    if (error) throw error;
+  }
+
+  return plan;
+}
+
+/**
+ * Load an agreement's schedule, late fees and payments and work out its balance as of today
+ */
+export async function fetchRentAccount(
+  supabase: SupabaseClient,
+  agreementId: string,
+  today = toDateString(new Date())
+): Promise<RentAccount> {
+  const [dues, fees, { data: payments, error }] = await Promise.all([
+    fetchRentDues(supabase, agreementId),
+    fetchLateFees(supabase, agreementId),
+    supabase.from("rent_payments").select("id, payment_date, amount").eq("agreement_id", agreementId),
+  ]);
+
+  if (error) throw error;
+  return allocatePayments([...dues, ...toLateFeeCharges(fees, dues)], payments || [], today);
+}
+
+export interface AgreementRentAccount {
+  agreement_id: string;
+  user_id: string;
+  agreement_number: string;
+  tenant_id: string;
+  tenant_name: string;
+  account: RentAccount;
+}
+
+/**
+ * Rent account of every issued agreement that has a schedule, as of today. Pass
+ * `agreementIds` to load only those agreements.
+ */
+export async function fetchRentAccounts(
+  supabase: SupabaseClient,
+  today = toDateString(new Date()),
+  agreementIds?: string[]
+): Promise<AgreementRentAccount[]> {
+  const agreementsQuery = () =>
+    supabase
+      .from("rent_agreements")
+      .select("id, user_id, agreement_number, tenant_id, tenants:tenant_id (name)")
+      .neq("status", "draft")
+      .order("id");
+
+  const agreements = agreementIds
+    ? await fetchRowsByIds(agreementIds, (ids, from, to) => agreementsQuery().in("id", ids).range(from, to))
+    : await fetchAllRows((from, to) => agreementsQuery().range(from, to));
+
+  const ids = agreements.map((agreement) => agreement.id);
+  const [dues, payments, fees] = await Promise.all([
+    fetchRowsByIds(ids, (chunk, from, to) =>
+      supabase
+        .from("rent_schedule")
+        .select("id, agreement_id, period_start, period_end, due_date, amount")
+        .in("agreement_id", chunk)
+        .order("id")
+        .range(from, to)
+    ),
+    fetchRowsByIds(ids, (chunk, from, to) =>
+      supabase
+        .from("rent_payments")
+        .select("id, agreement_id, payment_date, amount")
+        .in("agreement_id", chunk)
+        .order("id")
+        .range(from, to)
+    ),
+    fetchLateFees(supabase, ids),
+  ]);
+
+  const byAgreement = <T extends { agreement_id: string }>(rows: T[]) => {
+    const grouped = new Map<string, T[]>();
+    for (const row of rows) grouped.set(row.agreement_id, [...(grouped.get(row.agreement_id) ?? []), row]);
+    return grouped;
+  };
+  const duesByAgreement = byAgreement(dues);
+  const paymentsByAgreement = byAgreement(payments);
+  const feesByAgreement = byAgreement(fees);
+
+  return agreements.flatMap((agreement) => {
+    const agreementDues = duesByAgreement.get(agreement.id) ?? [];
+    if (agreementDues.length === 0) return [];
+
+    const charges = toLateFeeCharges(feesByAgreement.get(agreement.id) ?? [], agreementDues);
+    const tenant = Array.isArray(agreement.tenants) ? agreement.tenants[0] : agreement.tenants;
+
+    return [
+      {
+        agreement_id: agreement.id,
+        user_id: agreement.user_id,
+        agreement_number: agreement.agreement_number,
+        tenant_id: agreement.tenant_id,
+        tenant_name: tenant?.name ?? "Unknown tenant",
+        account: allocatePayments(
+          [...agreementDues, ...charges],
+          paymentsByAgreement.get(agreement.id) ?? [],
+          today
+        ),
+      },
+    ];
+  });
+}
+
+export interface TenantRentBalance {
+  tenant_id: string;
+  tenant_name: string;
+  agreement_numbers: string[];
+  due_to_date: number;
+  paid: number;
+  outstanding: number;
+  advance: number;
+}
+
+/**
+ * Due, paid and outstanding rent per tenant across all their scheduled agreements, most in arrears first
+ */
+export async function fetchTenantRentBalances(
+  supabase: SupabaseClient,
+  today = toDateString(new Date())
+): Promise<TenantRentBalance[]> {
+  const balances = new Map<string, TenantRentBalance>();
+  for (const { agreement_number, tenant_id, tenant_name, account } of await fetchRentAccounts(supabase, today)) {
+    const balance: TenantRentBalance = balances.get(tenant_id) ?? {
+      tenant_id,
+      tenant_name,
+      agreement_numbers: [],
+      due_to_date: 0,
+      paid: 0,
+      outstanding: 0,
+      advance: 0,
+    };
+    balance.agreement_numbers.push(agreement_number);
+    balance.due_to_date = roundMoney(balance.due_to_date + account.due_to_date);
+    balance.paid = roundMoney(balance.paid + account.paid);
+    balance.outstanding = roundMoney(balance.outstanding + account.arrears);
+    balance.advance = roundMoney(balance.advance + account.advance);
+    balances.set(tenant_id, balance);
+  }
+
+  return [...balances.values()].sort((a, b) => b.outstanding - a.outstanding || a.tenant_name.localeCompare(b.tenant_name));
+}
@@ -0,0 +1,216 @@
+import * as z from "zod";
+import { addDays, addYears, format } from "date-fns";
+import { DEFAULT_CURRENCY, formatCurrency } from "@/lib/currency/currencies";
+
+export const ESCALATION_TYPES = ["fixed_percentage", "fixed_amount", "index", "step"] as const;
+
+export type EscalationType = (typeof ESCALATION_TYPES)[number];
+
+export const ESCALATION_TYPE_LABELS: Record<EscalationType, string> = {
+  fixed_percentage: "Fixed percentage",
+  fixed_amount: "Fixed amount",
+  index: "Index table (CPI)",
+  step: "Step schedule",
+};
+
+export const escalationRuleSchema = z
+  .object({
+    type: z.enum(ESCALATION_TYPES),
+    // Percentage for fixed_percentage, amount for fixed_amount
+    value: z.number().min(0).optional(),
+    // Published annual index rate (%) per calendar year
+    index_table: z.array(z.object({ year: z.number().int(), rate: z.number() })).optional(),
+    // Percentage increase applied at the start of a given lease year (year 2 = first renewal)
+    steps: z.array(z.object({ year: z.number().int().min(2), percentage: z.number() })).optional(),
+    cap_percentage: z.number().min(0).nullable().optional(),
+    max_rent: z.number().min(0).nullable().optional(),
+    compounding: z.boolean(),
+  })
+  .superRefine((rule, ctx) => {
+    if ((rule.type === "fixed_percentage" || rule.type === "fixed_amount") && rule.value === undefined) {
+      ctx.addIssue({ code: "custom", path: ["value"], message: "Escalation value is required" });
+    }
+    if (rule.type === "step" && !rule.steps?.length) {
+      ctx.addIssue({ code: "custom", path: ["steps"], message: "Add at least one step" });
+    }
+    if (rule.type === "index" && !rule.index_table?.length) {
+      ctx.addIssue({ code: "custom", path: ["index_table"], message: "Add at least one index rate" });
+    }
+  });
+
+export type EscalationRule = z.infer<typeof escalationRuleSchema>;
+
+export interface RentScheduleEntry {
+  year: number;
+  start_date: string;
+  end_date: string;
+  monthly_rent: number;
+  increase: number;
+  increase_percentage: number;
+}
+
+export const DEFAULT_ESCALATION_RULE: EscalationRule = {
+  type: "fixed_percentage",
+  value: 10,
+  compounding: true,
+};
+
+/**
+ * Read a stored escalation rule, falling back to the default 10% rule
+ */
+export function parseEscalationRule(raw: unknown): EscalationRule {
+  const result = escalationRuleSchema.safeParse(raw);
+  return result.success ? result.data : DEFAULT_ESCALATION_RULE;
+}
+
+/**
+ * Percentage increase the rule applies when entering the given lease year
+ */
+function getIncreasePercentage(rule: EscalationRule, year: number, anniversary: Date): number {
+  switch (rule.type) {
+    case "fixed_percentage":
+      return rule.value ?? 0;
+    case "step":
+      return rule.steps?.find((step) => step.year === year)?.percentage ?? 0;
+    case "index": {
+      // Use the rate for the anniversary's calendar year, or the latest one published before it
+      const calendarYear = anniversary.getFullYear();
+      const rates = [...(rule.index_table ?? [])]
+        .filter((entry) => entry.year <= calendarYear)
+        .sort((a, b) => b.year - a.year);
+      return rates[0]?.rate ?? 0;
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Build the projected rent for each lease year, starting with the base rent in year 1
+ */
+export function buildRentSchedule(
+  monthlyRent: number,
+  startDate: string,
+  rule: EscalationRule,
+  years: number
+): RentScheduleEntry[] {
+  const start = new Date(startDate);
+  const schedule: RentScheduleEntry[] = [];
+  let previousRent = monthlyRent;
+  let totalPercentage = 0;
+
+  for (let year = 1; year <= years; year++) {
+    const periodStart = addYears(start, year - 1);
+    const periodEnd = addDays(addYears(start, year), -1);
+    let rent = monthlyRent;
+
+    if (year > 1) {
+      let increase: number;
+      if (rule.type === "fixed_amount") {
+        increase = rule.value ?? 0;
+      } else {
+        const percentage = getIncreasePercentage(rule, year, periodStart);
+        totalPercentage += percentage;
+        // Simple escalation always grows from the base rent
+        increase = rule.compounding
+          ? previousRent * (percentage / 100)
+          : monthlyRent * (1 + totalPercentage / 100) - previousRent;
+      }
+
+      if (rule.cap_percentage != null) {
+        increase = Math.min(increase, previousRent * (rule.cap_percentage / 100));
+      }
+
+      rent = Math.round(previousRent + increase);
+      if (rule.max_rent != null && rule.max_rent > 0) {
+        rent = Math.min(rent, Math.max(rule.max_rent, previousRent));
+      }
+    }
+
+    const increase = rent - previousRent;
+    schedule.push({
+      year,
+      start_date: format(periodStart, "yyyy-MM-dd"),
+      end_date: format(periodEnd, "yyyy-MM-dd"),
+      monthly_rent: rent,
+      increase,
+      increase_percentage: previousRent > 0 ? (increase / previousRent) * 100 : 0,
+    });
+    previousRent = rent;
+  }
+
+  return schedule;
+}
+
+/**
+ * Number of lease years the term spans, counting a part year as a whole one
+ */
+export function getLeaseYears(startDate: string, endDate: string): number {
+  const months =
+    (new Date(endDate).getFullYear() - new Date(startDate).getFullYear()) * 12 +
+    (new Date(endDate).getMonth() - new Date(startDate).getMonth());
+  return Math.max(1, Math.ceil(months / 12));
+}
+
+/**
+ * Number of lease years to project: the full term, and never fewer than three
+ */
+export function getProjectionYears(startDate: string, endDate: string): number {
+  return Math.max(3, getLeaseYears(startDate, endDate));
+}
+
+/**
+ * Rent for the second lease year, used for the "next year rent" figure
+ */
+export function calculateNextYearRent(monthlyRent: number, startDate: string, rule: EscalationRule): number {
+  return buildRentSchedule(monthlyRent, startDate, rule, 2)[1].monthly_rent;
+}
+
+/**
+ * Rent for a renewal: the final lease year's rent escalated one more year
+ */
+export function calculateRenewalRent(
+  monthlyRent: number,
+  startDate: string,
+  endDate: string,
+  rule: EscalationRule
+): number {
+  const schedule = buildRentSchedule(monthlyRent, startDate, rule, getLeaseYears(startDate, endDate) + 1);
+  return schedule[schedule.length - 1].monthly_rent;
+}
+
+/**
+ * Human readable summary of a rule, e.g. "10% per year (compounding)"
+ */
+export function describeEscalationRule(rule: EscalationRule, currency = DEFAULT_CURRENCY): string {
+  let description: string;
+  switch (rule.type) {
+    case "fixed_percentage":
+      description = `${rule.value ?? 0}% per year`;
+      break;
+    case "fixed_amount":
+      description = `+${formatCurrency(rule.value ?? 0, currency)} per year`;
+      break;
+    case "step":
+      description = (rule.steps ?? [])
+        .map((step) => `+${step.percentage}% in year ${step.year}`)
+        .join(", ");
+      break;
+    case "index":
+      description = "Index-linked (CPI table)";
+      break;
+  }
+
+  const extras: string[] = [];
+  if (rule.type !== "fixed_amount") {
+    extras.push(rule.compounding ? "compounding" : "simple");
+  }
+  if (rule.cap_percentage != null) {
+    extras.push(`capped at ${rule.cap_percentage}% per year`);
+  }
+  if (rule.max_rent != null && rule.max_rent > 0) {
+    extras.push(`max ${formatCurrency(rule.max_rent, currency)}`);
+  }
+
+  return extras.length > 0 ? `${description} (${extras.join(", ")})` : description;
+}
@@ -0,0 +1,199 @@
+import * as z from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import type { RentAccount, RentDue } from "@/lib/agreements/dues";
+import { DEFAULT_CURRENCY, formatCurrency } from "@/lib/currency/currencies";
+import { fetchAllRows, fetchRowsByIds } from "@/lib/supabase/paging";
+
+export const LATE_FEE_TYPES = ["flat", "percentage"] as const;
+
+export type LateFeeType = (typeof LATE_FEE_TYPES)[number];
+
+export const LATE_FEE_TYPE_LABELS: Record<LateFeeType, string> = {
+  flat: "Flat amount",
+  percentage: "Percentage of overdue rent",
+};
+
+export const lateFeePolicySchema = z.object({
+  enabled: z.boolean(),
+  // Days after the due date before a fee is charged
+  grace_days: z.number().int().min(0),
+  fee_type: z.enum(LATE_FEE_TYPES),
+  // Amount for flat fees, percentage of the overdue rent otherwise
+  fee_value: z.number().min(0),
+  // Added for each further day the rent stays unpaid, in the same unit as fee_value
+  daily_accrual: z.number().min(0),
+  max_fee: z.number().min(0).nullable().optional(),
+});
+
+export type LateFeePolicy = z.infer<typeof lateFeePolicySchema>;
+
+export const DEFAULT_LATE_FEE_POLICY: LateFeePolicy = {
+  enabled: false,
+  grace_days: 5,
+  fee_type: "flat",
+  fee_value: 500,
+  daily_accrual: 0,
+  max_fee: null,
+};
+
+export type LateFeeStatus = "charged" | "waived";
+
+export interface LateFee {
+  id: string;
+  agreement_id: string;
+  schedule_id: string;
+  amount: number;
+  days_late: number;
+  charged_on: string;
+  status: LateFeeStatus;
+  waive_reason: string | null;
+  waived_at: string | null;
+}
+
+export interface LateFeePlan {
+  insert: Array<{ schedule_id: string; amount: number; days_late: number; due_date: string }>;
+  update: Array<LateFee & { due_date: string }>;
+}
+
+const LATE_FEE_COLUMNS = "id, agreement_id, schedule_id, amount, days_late, charged_on, status, waive_reason, waived_at";
+
+/**
+ * Read a stored late fee policy; agreements without one charge no late fees
+ */
+export function parseLateFeePolicy(raw: unknown): LateFeePolicy {
+  const result = lateFeePolicySchema.safeParse(raw);
+  return result.success ? result.data : DEFAULT_LATE_FEE_POLICY;
+}
+
+/**
+ * Human readable summary of a policy, e.g. "₹500.00 after 5 days' grace, +₹50.00 per day"
+ */
+export function describeLateFeePolicy(policy: LateFeePolicy, currency = DEFAULT_CURRENCY): string {
+  if (!policy.enabled) return "No late fee";
+
+  const amount = (value: number) =>
+    policy.fee_type === "flat" ? formatCurrency(value, currency) : `${value}% of overdue rent`;
+
+  const parts = [`${amount(policy.fee_value)} after ${policy.grace_days} days' grace`];
+  if (policy.daily_accrual > 0) parts.push(`+${amount(policy.daily_accrual)} per day`);
+  if (policy.max_fee != null && policy.max_fee > 0) parts.push(`capped at ${formatCurrency(policy.max_fee, currency)}`);
+  return parts.join(", ");
+}
+
+/**
+ * Fee owed on a rent line that is `daysLate` days past due with `outstanding` still unpaid
+ */
+export function calculateLateFee(policy: LateFeePolicy, outstanding: number, daysLate: number): number {
+  if (!policy.enabled || outstanding <= 0 || daysLate <= policy.grace_days) return 0;
+
+  const unit = policy.fee_type === "flat" ? 1 : outstanding / 100;
+  let fee = unit * (policy.fee_value + policy.daily_accrual * (daysLate - policy.grace_days - 1));
+  if (policy.max_fee != null && policy.max_fee > 0) {
+    fee = Math.min(fee, policy.max_fee);
+  }
+  return Math.round(fee * 100) / 100;
+}
+
+/**
+ * Work out which late fees to post for an agreement as of today. A fee is charged
+ * once per rent line and grows while the line stays unpaid; it never goes down,
+ * and a waived fee is left alone.
+ */
+export function planLateFees(policy: LateFeePolicy, account: RentAccount, fees: LateFee[], today: string): LateFeePlan {
+  const plan: LateFeePlan = { insert: [], update: [] };
+  if (!policy.enabled) return plan;
+
+  for (const line of account.lines) {
+    if (line.kind === "late_fee" || line.outstanding <= 0) continue;
+
+    const daysLate = differenceInCalendarDays(parseISO(today), parseISO(line.due_date));
+    const amount = calculateLateFee(policy, line.outstanding, daysLate);
+    if (amount <= 0) continue;
+
+    const existing = fees.find((fee) => fee.schedule_id === line.id);
+    if (!existing) {
+      plan.insert.push({ schedule_id: line.id, amount, days_late: daysLate, due_date: line.due_date });
+    } else if (existing.status === "charged" && amount > existing.amount) {
+      plan.update.push({ ...existing, amount, days_late: daysLate, due_date: line.due_date });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Late fees as charges on the rent account, due from the day they were first posted
+ */
+export function toLateFeeCharges(fees: LateFee[], dues: RentDue[]): RentDue[] {
+  return fees
+    .filter((fee) => fee.status === "charged")
+    .map((fee) => {
+      const line = dues.find((due) => due.id === fee.schedule_id);
+      return {
+        id: fee.id,
+        kind: "late_fee" as const,
+        period_start: line?.period_start ?? fee.charged_on,
+        period_end: line?.period_end ?? fee.charged_on,
+        due_date: fee.charged_on,
+        amount: fee.amount,
+      };
+    });
+}
+
+export function getWaiveError(fee: Pick<LateFee, "status">, reason: string): string | null {
+  if (fee.status === "waived") return "This late fee has already been waived";
+  if (!reason.trim()) return "A reason is required to waive a late fee";
+  return null;
+}
+
+/**
+ * Load the late fees of one agreement, of a list of agreements, or of every agreement when none is given
+ */
+export async function fetchLateFees(supabase: SupabaseClient, agreementIds?: string | string[]): Promise<LateFee[]> {
+  const query = () =>
+    supabase
+      .from("late_fees")
+      .select(LATE_FEE_COLUMNS)
+      .order("charged_on", { ascending: true })
+      .order("id", { ascending: true });
+
+  const fees = Array.isArray(agreementIds)
+    ? await fetchRowsByIds(agreementIds, (ids, from, to) => query().in("agreement_id", ids).range(from, to))
+    : await fetchAllRows((from, to) =>
+        (agreementIds ? query().eq("agreement_id", agreementIds) : query()).range(from, to)
+      );
+
+  return fees
+    .sort((a, b) => a.charged_on.localeCompare(b.charged_on))
+    .map((fee) => ({ ...fee, amount: Number(fee.amount) }));
+}
+
+/**
+ * Waive a late fee, recording who waived it and why. The fee stays on record
+ * but no longer counts towards the tenant's balance.
+ */
+export async function waiveLateFee(
+  supabase: SupabaseClient,
+  fee: Pick<LateFee, "id" | "status">,
+  reason: string,
+  actorId: string | null
+): Promise<void> {
+  const waiveError = getWaiveError(fee, reason);
+  if (waiveError) throw new Error(waiveError);
+
+  const { data, error } = await supabase
+    .from("late_fees")
+    .update({
+      status: "waived",
+      waive_reason: reason.trim(),
+      waived_by: actorId,
+      waived_at: new Date().toISOString(),
+    })
+    .eq("id", fee.id)
+    .eq("status", "charged")
+    .select("id");
+
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error("This late fee has already been waived");
+}
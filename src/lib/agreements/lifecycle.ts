@@ -0,0 +1,294 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addDays, format } from "date-fns";
+
+export const AGREEMENT_STATUSES = [
+  "draft",
+  "pending_signature",
+  "active",
+  "notice_given",
+  "terminated",
+  "expired",
+  "renewed",
+] as const;
+
+export type AgreementStatus = (typeof AGREEMENT_STATUSES)[number];
+
+export const AGREEMENT_STATUS_LABELS: Record<AgreementStatus, string> = {
+  draft: "Draft",
+  pending_signature: "Pending Signature",
+  active: "Active",
+  notice_given: "Notice Given",
+  terminated: "Terminated",
+  expired: "Expired",
+  renewed: "Renewed",
+};
+
+// Statuses in which the tenant occupies the property and rent is collected
+export const OCCUPIED_STATUSES: AgreementStatus[] = ["active", "notice_given"];
+
+// Statuses that can take payments: any signed lease, including ended ones with arrears left to settle
+export const PAYABLE_STATUSES: AgreementStatus[] = ["active", "notice_given", "terminated", "expired", "renewed"];
+
+const TRANSITIONS: Record<AgreementStatus, AgreementStatus[]> = {
+  draft: ["pending_signature"],
+  pending_signature: ["active", "draft"],
+  active: ["notice_given", "expired", "renewed"],
+  notice_given: ["active", "terminated", "expired", "renewed"],
+  terminated: [],
+  expired: ["renewed"],
+  renewed: [],
+};
+
+export const TRANSITION_LABELS: Record<AgreementStatus, string> = {
+  draft: "Back to Draft",
+  pending_signature: "Send for Signature",
+  active: "Activate",
+  notice_given: "Record Notice",
+  terminated: "Terminate",
+  expired: "Mark Expired",
+  renewed: "Mark Renewed",
+};
+
+export interface LifecycleAgreement {
+  id: string;
+  status: string;
+  end_date: string;
+  notice_period_days: number;
+  notice_date?: string | null;
+  termination_date?: string | null;
+}
+
+export interface TransitionOptions {
+  reason?: string;
+  // Date the notice was served, required when moving to notice_given
+  noticeDate?: string;
+  // Actor recorded in the history; null for scheduled jobs
+  actorId?: string | null;
+  today?: Date;
+}
+
+export interface AvailableTransition {
+  to: AgreementStatus;
+  label: string;
+  blockedReason: string | null;
+}
+
+export interface StatusHistoryEntry {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  reason: string | null;
+  changed_by: string | null;
+  created_at: string;
+}
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+export function isAgreementStatus(status: string): status is AgreementStatus {
+  return (AGREEMENT_STATUSES as readonly string[]).includes(status);
+}
+
+export function getStatusLabel(status: string): string {
+  return isAgreementStatus(status) ? AGREEMENT_STATUS_LABELS[status] : status;
+}
+
+/**
+ * Earliest date a tenancy can end when notice is served on the given date
+ */
+export function getEarliestTerminationDate(noticeDate: string, noticePeriodDays: number): string {
+  return toDateString(addDays(new Date(noticeDate), noticePeriodDays));
+}
+
+/**
+ * Return why a transition is not allowed, or null when it is
+ */
+export function getTransitionError(
+  agreement: LifecycleAgreement,
+  to: AgreementStatus,
+  options: TransitionOptions = {}
+): string | null {
+  const today = toDateString(options.today ?? new Date());
+
+  if (!isAgreementStatus(agreement.status)) {
+    return `Unknown agreement status "${agreement.status}"`;
+  }
+  if (!TRANSITIONS[agreement.status].includes(to)) {
+    return `Cannot move a ${getStatusLabel(agreement.status)} agreement to ${getStatusLabel(to)}`;
+  }
+
+  switch (to) {
+    case "notice_given":
+      if (options.noticeDate && options.noticeDate > today) {
+        return "Notice date cannot be in the future";
+      }
+      break;
+    case "terminated": {
+      const terminationDate =
+        agreement.termination_date ??
+        (agreement.notice_date
+          ? getEarliestTerminationDate(agreement.notice_date, agreement.notice_period_days)
+          : null);
+      if (!terminationDate) {
+        return "Notice must be recorded before terminating";
+      }
+      if (terminationDate > today) {
+        return `Notice period runs until ${format(new Date(terminationDate), "MMM dd, yyyy")}`;
+      }
+      break;
+    }
+    case "expired":
+      if (agreement.end_date >= today) {
+        return `Agreement runs until ${format(new Date(agreement.end_date), "MMM dd, yyyy")}`;
+      }
+      break;
+  }
+
+  return null;
+}
+
+/**
+ * List the transitions allowed from the agreement's current status, with any guard that blocks them
+ */
+export function getAvailableTransitions(
+  agreement: LifecycleAgreement,
+  options: TransitionOptions = {}
+): AvailableTransition[] {
+  if (!isAgreementStatus(agreement.status)) return [];
+
+  // Renewals go through renewAgreement so the new lease is linked to this one, and
+  // signing through requestSignatures so each party gets a signing link
+  const manual = TRANSITIONS[agreement.status].filter((to) => to !== "renewed" && to !== "pending_signature");
+  return manual.map((to) => ({
+    to,
+    label: TRANSITION_LABELS[to],
+    blockedReason: to === "notice_given" ? null : getTransitionError(agreement, to, options),
+  }));
+}
+
+/**
+ * Move an agreement to a new status and record the change in its status history
+ */
+export async function transitionAgreement(
+  supabase: SupabaseClient,
+  agreement: LifecycleAgreement & { user_id: string },
+  to: AgreementStatus,
+  options: TransitionOptions = {}
+): Promise<void> {
+  const error = getTransitionError(agreement, to, options);
+  if (error) throw new Error(error);
+
+  const updates: Record<string, string | null> = { status: to };
+  if (to === "notice_given") {
+    const noticeDate = options.noticeDate ?? toDateString(options.today ?? new Date());
+    updates.notice_date = noticeDate;
+    updates.termination_date = getEarliestTerminationDate(noticeDate, agreement.notice_period_days);
+  } else if (to === "active" && agreement.status === "notice_given") {
+    // Notice withdrawn
+    updates.notice_date = null;
+    updates.termination_date = null;
+  }
+
+  // Guard against a concurrent change: only update if the status is still what we validated
+  const { data: updated, error: updateError } = await supabase
+    .from("rent_agreements")
+    .update(updates)
+    .eq("id", agreement.id)
+    .eq("status", agreement.status)
+    .select("id");
+
+  if (updateError) throw updateError;
+  if (!updated || updated.length === 0) {
+    throw new Error("Agreement status was changed by someone else. Please reload and try again.");
+  }
+
+  await recordStatusChange(supabase, {
+    agreementId: agreement.id,
+    userId: agreement.user_id,
+    from: agreement.status,
+    to,
+    reason: options.reason,
+    actorId: options.actorId,
+  });
+
+  if (to === "active" && agreement.status === "pending_signature") {
+    await closeRenewedAgreement(supabase, agreement.id, options);
+  }
+}
+
+/**
+ * Once a renewal is active, mark the lease it renews as renewed if that lease's term is over.
+ * A lease still running stays occupied; the daily job marks it renewed when its end date passes.
+ */
+async function closeRenewedAgreement(
+  supabase: SupabaseClient,
+  renewalId: string,
+  options: TransitionOptions
+): Promise<void> {
+  const { data: renewal, error } = await supabase
+    .from("rent_agreements")
+    .select("agreement_number, renewed_from")
+    .eq("id", renewalId)
+    .single();
+
+  if (error) throw error;
+  if (!renewal.renewed_from) return;
+
+  const { data: previous, error: previousError } = await supabase
+    .from("rent_agreements")
+    .select("id, user_id, status, end_date, notice_period_days, notice_date, termination_date")
+    .eq("id", renewal.renewed_from)
+    .maybeSingle();
+
+  if (previousError) throw previousError;
+  if (!previous || previous.end_date >= toDateString(options.today ?? new Date())) return;
+  if (getTransitionError(previous, "renewed", options)) return;
+
+  await transitionAgreement(supabase, previous, "renewed", {
+    reason: `Renewed as ${renewal.agreement_number}`,
+    actorId: options.actorId,
+    today: options.today,
+  });
+}
+
+/**
+ * Append an entry to the agreement's status history
+ */
+export async function recordStatusChange(
+  supabase: SupabaseClient,
+  entry: {
+    agreementId: string;
+    userId: string;
+    from: string | null;
+    to: string;
+    reason?: string;
+    actorId?: string | null;
+  }
+): Promise<void> {
+  const { error } = await supabase.from("agreement_status_history").insert({
+    agreement_id: entry.agreementId,
+    user_id: entry.userId,
+    from_status: entry.from,
+    to_status: entry.to,
+    reason: entry.reason || null,
+    changed_by: entry.actorId ?? null,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Load an agreement's status history, oldest first
+ */
+export async function fetchStatusHistory(
+  supabase: SupabaseClient,
+  agreementId: string
+): Promise<StatusHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from("agreement_status_history")
+    .select("id, from_status, to_status, reason, changed_by, created_at")
+    .eq("agreement_id", agreementId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
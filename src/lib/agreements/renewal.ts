@@ -0,0 +1,241 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+import {
+  buildMergeContext,
+  parseAgreementClauses,
+  remergeAgreementClauses,
+  type Clause,
+} from "@/lib/agreements/clauses";
+import { syncRentDues } from "@/lib/agreements/dues";
+import { calculateRenewalRent, parseEscalationRule } from "@/lib/agreements/escalation";
+import { parseLateFeePolicy } from "@/lib/agreements/fees";
+import { getTransitionError, recordStatusChange } from "@/lib/agreements/lifecycle";
+import { createInitialVersion, takeSnapshot } from "@/lib/agreements/versions";
+import { fetchBaseCurrency } from "@/lib/currency/rates";
+import { allocateDocumentNumber } from "@/lib/documents/numbering";
+
+export interface RenewableAgreement {
+  id: string;
+  user_id: string;
+  agreement_number: string;
+  status: string;
+  tenant_id: string;
+  landlord_id: string;
+  property_address: string;
+  property_city: string;
+  property_state: string;
+  property_pincode: string;
+  start_date: string;
+  end_date: string;
+  monthly_rent: number;
+  deposit_amount: number;
+  notice_period_days: number;
+  escalation_rule: unknown;
+  late_fee_policy?: unknown;
+  notice_date?: string | null;
+  termination_date?: string | null;
+  clauses?: unknown;
+  terms: string | null;
+  notes: string | null;
+}
+
+export interface RenewalChainEntry {
+  id: string;
+  agreement_number: string;
+  status: string;
+  start_date: string;
+  end_date: string;
+  monthly_rent: number;
+  renewed_from: string | null;
+}
+
+// What a renewal's clauses are merged again with
+export interface RenewalClauseSources {
+  library: Pick<Clause, "id" | "body">[];
+  tenant: { name: string } | null;
+  landlord: { name: string } | null;
+  currency: string;
+}
+
+const CHAIN_COLUMNS = "id, agreement_number, status, start_date, end_date, monthly_rent, renewed_from";
+
+/**
+ * Return why an agreement cannot be renewed, or null when it can
+ */
+export function getRenewalError(agreement: RenewableAgreement): string | null {
+  return getTransitionError(agreement, "renewed");
+}
+
+/**
+ * Build the new draft for a renewal: same property, parties, deposit, clauses and terms,
+ * escalated rent, and the same term length starting the day after the old lease ends.
+ * Clauses are merged again so they state the renewal's rent and dates.
+ */
+export function buildRenewalDraft(agreement: RenewableAgreement, clauseSources: RenewalClauseSources) {
+  const escalationRule = parseEscalationRule(agreement.escalation_rule);
+  const termDays = differenceInCalendarDays(new Date(agreement.end_date), new Date(agreement.start_date));
+  const startDate = format(addDays(new Date(agreement.end_date), 1), "yyyy-MM-dd");
+  const endDate = format(addDays(new Date(startDate), termDays), "yyyy-MM-dd");
+  const monthlyRent = calculateRenewalRent(
+    agreement.monthly_rent,
+    agreement.start_date,
+    agreement.end_date,
+    escalationRule
+  );
+  const mergeContext = buildMergeContext({
+    tenant: clauseSources.tenant,
+    landlord: clauseSources.landlord,
+    property_address: agreement.property_address,
+    property_city: agreement.property_city,
+    monthly_rent: monthlyRent,
+    deposit_amount: agreement.deposit_amount,
+    notice_period_days: agreement.notice_period_days,
+    start_date: startDate,
+    end_date: endDate,
+    currency: clauseSources.currency,
+  });
+
+  return {
+    user_id: agreement.user_id,
+    tenant_id: agreement.tenant_id,
+    landlord_id: agreement.landlord_id,
+    property_address: agreement.property_address,
+    property_city: agreement.property_city,
+    property_state: agreement.property_state,
+    property_pincode: agreement.property_pincode,
+    start_date: startDate,
+    end_date: endDate,
+    monthly_rent: monthlyRent,
+    deposit_amount: agreement.deposit_amount,
+    notice_period_days: agreement.notice_period_days,
+    escalation_rule: escalationRule,
+    late_fee_policy: parseLateFeePolicy(agreement.late_fee_policy),
+    status: "draft",
+    current_version: 1,
+    clauses: remergeAgreementClauses(
+      parseAgreementClauses(agreement.clauses),
+      clauseSources.library,
+      mergeContext
+    ),
+    terms: agreement.terms,
+    notes: agreement.notes,
+    renewed_from: agreement.id,
+  };
+}
+
+async function fetchRenewalClauseSources(
+  supabase: SupabaseClient,
+  agreement: RenewableAgreement
+): Promise<RenewalClauseSources> {
+  const clauseIds = parseAgreementClauses(agreement.clauses).flatMap((clause) =>
+    clause.clause_id ? [clause.clause_id] : []
+  );
+  const [libraryResult, tenantResult, landlordResult, currency] = await Promise.all([
+    supabase.from("clauses").select("id, body").in("id", clauseIds),
+    supabase.from("tenants").select("name").eq("id", agreement.tenant_id).maybeSingle(),
+    supabase.from("landlords").select("name").eq("id", agreement.landlord_id).maybeSingle(),
+    fetchBaseCurrency(supabase, agreement.user_id),
+  ]);
+
+  if (libraryResult.error) throw libraryResult.error;
+  if (tenantResult.error) throw tenantResult.error;
+  if (landlordResult.error) throw landlordResult.error;
+
+  return {
+    library: libraryResult.data || [],
+    tenant: tenantResult.data,
+    landlord: landlordResult.data,
+    currency,
+  };
+}
+
+/**
+ * Create the renewal draft. Returns the new agreement's id. The old agreement stays occupied
+ * and is marked renewed once the renewal is active and its own term has ended.
+ */
+export async function renewAgreement(
+  supabase: SupabaseClient,
+  agreement: RenewableAgreement,
+  actorId: string | null
+): Promise<string> {
+  const renewalError = getRenewalError(agreement);
+  if (renewalError) throw new Error(renewalError);
+
+  const { data: existing, error: existingError } = await supabase
+    .from("rent_agreements")
+    .select("agreement_number")
+    .eq("renewed_from", agreement.id)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+  if (existing) throw new Error(`This agreement has already been renewed as ${existing.agreement_number}`);
+
+  const draft = buildRenewalDraft(agreement, await fetchRenewalClauseSources(supabase, agreement));
+  const agreementNumber = await allocateDocumentNumber(
+    supabase,
+    agreement.user_id,
+    "agreement",
+    format(new Date(), "yyyy-MM-dd")
+  );
+  const { data: renewal, error: insertError } = await supabase
+    .from("rent_agreements")
+    .insert({ ...draft, agreement_number: agreementNumber })
+    .select("id, agreement_number")
+    .single();
+
+  if (insertError) throw insertError;
+
+  await createInitialVersion(supabase, renewal.id, agreement.user_id, takeSnapshot(draft));
+  await syncRentDues(supabase, { ...draft, id: renewal.id });
+
+  await recordStatusChange(supabase, {
+    agreementId: renewal.id,
+    userId: agreement.user_id,
+    from: null,
+    to: "draft",
+    reason: `Renewal of ${agreement.agreement_number}`,
+    actorId,
+  });
+
+  return renewal.id;
+}
+
+/**
+ * Load every agreement in the renewal chain containing the given agreement, oldest first
+ */
+export async function fetchRenewalChain(
+  supabase: SupabaseClient,
+  agreement: RenewalChainEntry
+): Promise<RenewalChainEntry[]> {
+  const chain: RenewalChainEntry[] = [agreement];
+
+  let previousId = agreement.renewed_from;
+  while (previousId) {
+    const { data, error } = await supabase
+      .from("rent_agreements")
+      .select(CHAIN_COLUMNS)
+      .eq("id", previousId)
+      .maybeSingle<RenewalChainEntry>();
+
+    if (error) throw error;
+    if (!data) break;
+    chain.unshift(data);
+    previousId = data.renewed_from;
+  }
+
+  let current: RenewalChainEntry = agreement;
+  while (true) {
+    const { data, error } = await supabase
+      .from("rent_agreements")
+      .select(CHAIN_COLUMNS)
+      .eq("renewed_from", current.id)
+      .maybeSingle<RenewalChainEntry>();
+
+    if (error) throw error;
+    if (!data) break;
+    chain.push(data);
+    current = data;
+  }
+
+  return chain;
+}
@@ -0,0 +1,315 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getStatusLabel, transitionAgreement } from "@/lib/agreements/lifecycle";
+import { createInitialVersion, takeSnapshot, type AgreementSnapshot } from "@/lib/agreements/versions";
+
+export const SIGNING_PARTIES = ["landlord", "tenant"] as const;
+
+export type SigningParty = (typeof SIGNING_PARTIES)[number];
+
+export const SIGNING_PARTY_LABELS: Record<SigningParty, string> = {
+  landlord: "Landlord",
+  tenant: "Tenant",
+};
+
+export type SignatureStatus = "pending" | "signed" | "revoked";
+
+export interface SignatureRequest {
+  id: string;
+  agreement_id: string;
+  version_number: number;
+  party: SigningParty;
+  signer_name: string;
+  signer_email: string | null;
+  token: string;
+  status: SignatureStatus;
+  signature_type: "drawn" | "typed" | null;
+  signature_data: string | null;
+  document_hash: string | null;
+  signed_at: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface SignatureCapture {
+  type: "drawn" | "typed";
+  // PNG data URL for drawn signatures, the signer's name for typed ones
+  data: string;
+}
+
+export interface SignableAgreement extends AgreementSnapshot {
+  id: string;
+  user_id: string;
+  status: string;
+  current_version: number | null;
+  tenant: { name: string; email: string | null } | null;
+  landlord: { name: string; email: string | null } | null;
+}
+
+const SIGNATURE_COLUMNS =
+  "id, agreement_id, version_number, party, signer_name, signer_email, token, status, signature_type, signature_data, document_hash, signed_at, ip_address, user_agent, expires_at, created_at";
+
+// Drawn signatures are small PNGs; anything larger is rejected
+const MAX_SIGNATURE_LENGTH = 200_000;
+
+/**
+ * Random, unguessable token for a signing link
+ */
+export function generateSigningToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * SHA-256 of a version snapshot, recorded with each signature as proof of what was signed
+ */
+export async function hashSnapshot(snapshot: AgreementSnapshot): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(snapshot)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function getSigningPath(token: string): string {
+  return `/sign/${token}`;
+}
+
+export function getRequestSignaturesError(agreement: SignableAgreement): string | null {
+  if (agreement.status !== "draft" && agreement.status !== "pending_signature") {
+    return `A ${getStatusLabel(agreement.status)} agreement cannot be sent for signature`;
+  }
+  if (!agreement.tenant || !agreement.landlord) {
+    return "Both a tenant and a landlord are needed to collect signatures";
+  }
+  return null;
+}
+
+export function getSignatureCaptureError(capture: SignatureCapture): string | null {
+  if (capture.type === "typed") {
+    return capture.data.trim().length >= 2 ? null : "Type your full name to sign";
+  }
+  if (capture.type === "drawn") {
+    if (!capture.data.startsWith("data:image/png;base64,")) return "Draw your signature to sign";
+    if (capture.data.length > MAX_SIGNATURE_LENGTH) return "Signature image is too large";
+    return null;
+  }
+  return "Unknown signature type";
+}
+
+/**
+ * Issue signing links for the landlord and tenant on the agreement's current version.
+ * Earlier pending links are revoked and a draft agreement moves to pending signature.
+ * Returns the new requests.
+ */
+export async function requestSignatures(
+  supabase: SupabaseClient,
+  agreement: SignableAgreement,
+  actorId: string | null
+): Promise<SignatureRequest[]> {
+  const requestError = getRequestSignaturesError(agreement);
+  if (requestError) throw new Error(requestError);
+
+  // Agreements created before versioning get their current terms stored as version 1
+  const versionNumber = agreement.current_version ?? 1;
+  if (agreement.current_version === null) {
+    await createInitialVersion(supabase, agreement.id, agreement.user_id, takeSnapshot(agreement));
+    const { error } = await supabase.from("rent_agreements").update({ current_version: 1 }).eq("id", agreement.id);
+    if (error) throw error;
+  }
+
+  const { error: revokeError } = await supabase
+    .from("agreement_signatures")
+    .update({ status: "revoked" })
+    .eq("agreement_id", agreement.id)
+    .eq("status", "pending");
+
+  if (revokeError) throw revokeError;
+
+  // Parties who already signed this version keep their signature; only the others get new links
+  const signed = await fetchVersionSignatures(supabase, agreement.id, versionNumber);
+  const unsigned = SIGNING_PARTIES.filter((party) => !signed.some((signature) => signature.party === party));
+  if (unsigned.length === 0) throw new Error("Every party has already signed this version");
+
+  const parties = { landlord: agreement.landlord, tenant: agreement.tenant };
+  const { data, error } = await supabase
+    .from("agreement_signatures")
+    .insert(
+      unsigned.map((party) => ({
+        agreement_id: agreement.id,
+        user_id: agreement.user_id,
+        version_number: versionNumber,
+        party,
+        signer_name: parties[party]!.name,
+        signer_email: parties[party]!.email,
+        token: generateSigningToken(),
+      }))
+    )
+    .select(SIGNATURE_COLUMNS);
+
+  if (error) throw error;
+
+  if (agreement.status === "draft") {
+    await transitionAgreement(supabase, agreement, "pending_signature", {
+      reason: "Sent for signature",
+      actorId,
+    });
+  }
+
+  return data || [];
+}
+
+/**
+ * Load the signature requests of an agreement, newest first
+ */
+export async function fetchSignatureRequests(
+  supabase: SupabaseClient,
+  agreementId: string
+): Promise<SignatureRequest[]> {
+  const { data, error } = await supabase
+    .from("agreement_signatures")
+    .select(SIGNATURE_COLUMNS)
+    .eq("agreement_id", agreementId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Load the signatures collected on one version of an agreement
+ */
+export async function fetchVersionSignatures(
+  supabase: SupabaseClient,
+  agreementId: string,
+  versionNumber: number
+): Promise<SignatureRequest[]> {
+  const { data, error } = await supabase
+    .from("agreement_signatures")
+    .select(SIGNATURE_COLUMNS)
+    .eq("agreement_id", agreementId)
+    .eq("version_number", versionNumber)
+    .eq("status", "signed")
+    .order("signed_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Look up a signing link by its token
+ */
+export async function fetchSignatureRequestByToken(
+  supabase: SupabaseClient,
+  token: string
+): Promise<SignatureRequest | null> {
+  const { data, error } = await supabase
+    .from("agreement_signatures")
+    .select(SIGNATURE_COLUMNS)
+    .eq("token", token)
+    .maybeSingle<SignatureRequest>();
+
+  if (error) throw error;
+  return data;
+}
+
+export function isSignatureRequestExpired(request: Pick<SignatureRequest, "expires_at">, now = new Date()): boolean {
+  return new Date(request.expires_at) < now;
+}
+
+/**
+ * Return why a signing link cannot be used, or null when it can
+ */
+export function getSigningError(
+  request: SignatureRequest,
+  agreement: { status: string; current_version: number | null },
+  now = new Date()
+): string | null {
+  if (request.status === "signed") return "This agreement has already been signed with this link";
+  if (request.status === "revoked") return "This signing link has been withdrawn";
+  if (isSignatureRequestExpired(request, now)) return "This signing link has expired";
+  if (agreement.status !== "pending_signature" || agreement.current_version !== request.version_number) {
+    return "This agreement has changed since the link was sent; ask for a new link";
+  }
+  return null;
+}
+
+/**
+ * Record a signature. Once every party has signed the version is locked as the
+ * signed version and the agreement becomes active. Needs a service-role client.
+ */
+export async function signAgreement(
+  supabase: SupabaseClient,
+  token: string,
+  capture: SignatureCapture,
+  meta: { ipAddress: string | null; userAgent: string | null }
+): Promise<{ completed: boolean }> {
+  const captureError = getSignatureCaptureError(capture);
+  if (captureError) throw new Error(captureError);
+
+  const request = await fetchSignatureRequestByToken(supabase, token);
+  if (!request) throw new Error("Signing link not found");
+
+  const { data: agreement, error: agreementError } = await supabase
+    .from("rent_agreements")
+    .select("id, user_id, status, end_date, notice_period_days, current_version")
+    .eq("id", request.agreement_id)
+    .single();
+
+  if (agreementError) throw agreementError;
+
+  const signingError = getSigningError(request, agreement);
+  if (signingError) throw new Error(signingError);
+
+  const { data: version, error: versionError } = await supabase
+    .from("agreement_versions")
+    .select("snapshot")
+    .eq("agreement_id", request.agreement_id)
+    .eq("version_number", request.version_number)
+    .single();
+
+  if (versionError) throw versionError;
+
+  const { data: signed, error: signError } = await supabase
+    .from("agreement_signatures")
+    .update({
+      status: "signed",
+      signature_type: capture.type,
+      signature_data: capture.type === "typed" ? capture.data.trim() : capture.data,
+      document_hash: await hashSnapshot(takeSnapshot(version.snapshot)),
+      signed_at: new Date().toISOString(),
+      ip_address: meta.ipAddress,
+      user_agent: meta.userAgent,
+    })
+    .eq("id", request.id)
+    .eq("status", "pending")
+    .select("id");
+
+  if (signError) throw signError;
+  if (!signed || signed.length === 0) throw new Error("This agreement has already been signed with this link");
+
+  // Withdrawn links are not signatures: every party needs a signed row on this version
+  const signatures = await fetchVersionSignatures(supabase, request.agreement_id, request.version_number);
+  if (!SIGNING_PARTIES.every((party) => signatures.some((signature) => signature.party === party))) {
+    return { completed: false };
+  }
+
+  const { error: lockError } = await supabase
+    .from("rent_agreements")
+    .update({ signed_version: request.version_number })
+    .eq("id", request.agreement_id);
+
+  if (lockError) throw lockError;
+
+  try {
+    await transitionAgreement(supabase, agreement, "active", {
+      reason: "Signed by all parties",
+      actorId: null,
+    });
+  } catch (error) {
+    // Both parties signed at the same moment and the other request already activated it
+    const { data: current } = await supabase.from("rent_agreements").select("status").eq("id", agreement.id).single();
+    if (current?.status !== "active") throw error;
+  }
+
+  return { completed: true };
+}
@@ -0,0 +1,287 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import { describeEscalationRule, parseEscalationRule, type EscalationRule } from "@/lib/agreements/escalation";
+import { parseAgreementClauses, type AgreementClause } from "@/lib/agreements/clauses";
+import { syncRentDues } from "@/lib/agreements/dues";
+import { describeLateFeePolicy, parseLateFeePolicy, type LateFeePolicy } from "@/lib/agreements/fees";
+import { DEFAULT_CURRENCY, formatCurrency } from "@/lib/currency/currencies";
+
+// Agreement fields captured in each version; everything an amendment can change
+export const VERSIONED_FIELDS = [
+  "property_address",
+  "property_city",
+  "property_state",
+  "property_pincode",
+  "start_date",
+  "end_date",
+  "monthly_rent",
+  "deposit_amount",
+  "notice_period_days",
+  "escalation_rule",
+  "late_fee_policy",
+  "clauses",
+  "terms",
+  "notes",
+] as const;
+
+export type VersionedField = (typeof VERSIONED_FIELDS)[number];
+
+export const VERSIONED_FIELD_LABELS: Record<VersionedField, string> = {
+  property_address: "Property Address",
+  property_city: "City",
+  property_state: "State",
+  property_pincode: "Pincode",
+  start_date: "Start Date",
+  end_date: "End Date",
+  monthly_rent: "Monthly Rent",
+  deposit_amount: "Security Deposit",
+  notice_period_days: "Notice Period",
+  escalation_rule: "Rent Escalation",
+  late_fee_policy: "Late Fee",
+  clauses: "Clauses",
+  terms: "Terms & Conditions",
+  notes: "Notes",
+};
+
+export interface AgreementSnapshot {
+  property_address: string;
+  property_city: string;
+  property_state: string;
+  property_pincode: string;
+  start_date: string;
+  end_date: string;
+  monthly_rent: number;
+  deposit_amount: number;
+  notice_period_days: number;
+  escalation_rule: EscalationRule;
+  late_fee_policy: LateFeePolicy;
+  clauses: AgreementClause[];
+  terms: string | null;
+  notes: string | null;
+}
+
+export interface FieldChange {
+  field: VersionedField;
+  from: unknown;
+  to: unknown;
+}
+
+export interface AgreementVersion {
+  id: string;
+  version_number: number;
+  snapshot: AgreementSnapshot;
+  amendment_id: string | null;
+  created_at: string;
+}
+
+export interface AgreementAmendment {
+  id: string;
+  version_number: number;
+  effective_date: string;
+  reason: string;
+  changes: FieldChange[];
+  created_at: string;
+}
+
+// Statuses in which an agreement can no longer be amended
+const CLOSED_STATUSES = ["terminated", "expired", "renewed"];
+
+/**
+ * Capture the versioned fields of an agreement row
+ */
+export function takeSnapshot(
+  agreement: Omit<AgreementSnapshot, "escalation_rule" | "late_fee_policy" | "clauses"> & {
+    escalation_rule: unknown;
+    late_fee_policy?: unknown;
+    clauses?: unknown;
+  }
+): AgreementSnapshot {
+  return {
+    property_address: agreement.property_address,
+    property_city: agreement.property_city,
+    property_state: agreement.property_state,
+    property_pincode: agreement.property_pincode,
+    start_date: agreement.start_date,
+    end_date: agreement.end_date,
+    monthly_rent: agreement.monthly_rent,
+    deposit_amount: agreement.deposit_amount,
+    notice_period_days: agreement.notice_period_days,
+    escalation_rule: parseEscalationRule(agreement.escalation_rule),
+    late_fee_policy: parseLateFeePolicy(agreement.late_fee_policy),
+    clauses: parseAgreementClauses(agreement.clauses),
+    terms: agreement.terms ?? null,
+    notes: agreement.notes ?? null,
+  };
+}
+
+/**
+ * List the fields that differ between two snapshots
+ */
+export function diffSnapshots(from: AgreementSnapshot, to: AgreementSnapshot): FieldChange[] {
+  return VERSIONED_FIELDS.filter(
+    (field) => JSON.stringify(from[field] ?? null) !== JSON.stringify(to[field] ?? null)
+  ).map((field) => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
+
+/**
+ * Display value for a versioned field
+ */
+export function formatFieldValue(field: VersionedField, value: unknown, currency = DEFAULT_CURRENCY): string {
+  if (value === null || value === undefined || value === "") return "-";
+
+  switch (field) {
+    case "monthly_rent":
+    case "deposit_amount":
+      return formatCurrency(Number(value), currency);
+    case "notice_period_days":
+      return `${value} days`;
+    case "start_date":
+    case "end_date":
+      return format(new Date(String(value)), "MMM dd, yyyy");
+    case "escalation_rule":
+      return describeEscalationRule(parseEscalationRule(value), currency);
+    case "late_fee_policy":
+      return describeLateFeePolicy(parseLateFeePolicy(value), currency);
+    case "clauses": {
+      const clauses = parseAgreementClauses(value);
+      return clauses.length > 0
+        ? clauses.map((clause, index) => `${index + 1}. ${clause.title}`).join("\n")
+        : "-";
+    }
+    default:
+      return String(value);
+  }
+}
+
+export function getAmendmentError(status: string): string | null {
+  // The version out for signature is locked until signing completes or the agreement goes back to draft
+  if (status === "pending_signature") {
+    return "Move the agreement back to draft before amending; it is out for signature";
+  }
+  return CLOSED_STATUSES.includes(status)
+    ? `A ${status} agreement can no longer be amended`
+    : null;
+}
+
+/**
+ * Store version 1 of a newly created agreement
+ */
+export async function createInitialVersion(
+  supabase: SupabaseClient,
+  agreementId: string,
+  userId: string,
+  snapshot: AgreementSnapshot
+): Promise<void> {
+  const { error } = await supabase.from("agreement_versions").insert({
+    agreement_id: agreementId,
+    user_id: userId,
+    version_number: 1,
+    snapshot,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Load all versions of an agreement, oldest first
+ */
+export async function fetchVersions(supabase: SupabaseClient, agreementId: string): Promise<AgreementVersion[]> {
+  const { data, error } = await supabase
+    .from("agreement_versions")
+    .select("id, version_number, snapshot, amendment_id, created_at")
+    .eq("agreement_id", agreementId)
+    .order("version_number", { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map((version) => ({
+    ...version,
+    snapshot: takeSnapshot(version.snapshot),
+  }));
+}
+
+/**
+ * Load all amendments of an agreement, oldest first
+ */
+export async function fetchAmendments(supabase: SupabaseClient, agreementId: string): Promise<AgreementAmendment[]> {
+  const { data, error } = await supabase
+    .from("agreement_amendments")
+    .select("id, version_number, effective_date, reason, changes, created_at")
+    .eq("agreement_id", agreementId)
+    .order("version_number", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Record an amendment: store the changed fields, add a new immutable version
+ * and apply the new values to the agreement. Returns the new version number.
+ */
+export async function amendAgreement(
+  supabase: SupabaseClient,
+  agreement: AgreementSnapshot & {
+    id: string;
+    user_id: string;
+    status: string;
+    current_version: number | null;
+    termination_date?: string | null;
+  },
+  updated: AgreementSnapshot,
+  options: { effectiveDate: string; reason: string; actorId: string | null }
+): Promise<number> {
+  const amendmentError = getAmendmentError(agreement.status);
+  if (amendmentError) throw new Error(amendmentError);
+
+  const current = takeSnapshot(agreement);
+  const changes = diffSnapshots(current, updated);
+  if (changes.length === 0) throw new Error("No changes to amend");
+
+  // Agreements created before versioning get their original terms stored as version 1
+  const currentVersion = agreement.current_version ?? 1;
+  if (agreement.current_version === null) {
+    await createInitialVersion(supabase, agreement.id, agreement.user_id, current);
+  }
+  const versionNumber = currentVersion + 1;
+
+  const { data: amendment, error: amendmentInsertError } = await supabase
+    .from("agreement_amendments")
+    .insert({
+      agreement_id: agreement.id,
+      user_id: agreement.user_id,
+      version_number: versionNumber,
+      effective_date: options.effectiveDate,
+      reason: options.reason,
+      changes,
+      created_by: options.actorId,
+    })
+    .select("id")
+    .single();
+
+  if (amendmentInsertError) throw amendmentInsertError;
+
+  const { error: versionError } = await supabase.from("agreement_versions").insert({
+    agreement_id: agreement.id,
+    user_id: agreement.user_id,
+    version_number: versionNumber,
+    snapshot: updated,
+    amendment_id: amendment.id,
+  });
+
+  if (versionError) throw versionError;
+
+  const { error: updateError } = await supabase
+    .from("rent_agreements")
+    .update({ ...updated, current_version: versionNumber })
+    .eq("id", agreement.id);
+
+  if (updateError) throw updateError;
+
+  // Reprice the rent schedule from the date the amendment takes effect
+  await syncRentDues(
+    supabase,
+    { ...updated, id: agreement.id, user_id: agreement.user_id, termination_date: agreement.termination_date },
+    { from: options.effectiveDate }
+  );
+
+  return versionNumber;
+}
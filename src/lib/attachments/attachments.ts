@@ -0,0 +1,302 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const ATTACHMENTS_BUCKET = "attachments";
+
+// Kept in step with the bucket limits in the attachments migration
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const ATTACHMENT_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "application/pdf"] as const;
+
+export const ATTACHMENT_ENTITIES = ["maintenance_request", "vault_document"] as const;
+
+export type AttachmentEntity = (typeof ATTACHMENT_ENTITIES)[number];
+
+// Signed URLs are fetched when a gallery opens, so an hour outlasts any page view
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "application/pdf": "pdf",
+};
+
+export interface Attachment {
+  id: string;
+  entity_type: AttachmentEntity;
+  entity_id: string;
+  path: string;
+  thumbnail_path: string | null;
+  // Label within the entity's files, e.g. "before" and "after" photos of a repair
+  tag: string | null;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  created_at: string;
+}
+
+export interface SignedAttachment extends Attachment {
+  url: string;
+  // Falls back to the full image when there is no thumbnail; null for non-images
+  thumbnail_url: string | null;
+}
+
+// A file ready to upload, after downscaling on the client
+export interface PreparedAttachment {
+  file_name: string;
+  content_type: string;
+  data: Blob;
+  thumbnail: Blob | null;
+  width: number | null;
+  height: number | null;
+}
+
+export const ATTACHMENT_COLUMNS =
+  "id, entity_type, entity_id, path, thumbnail_path, tag, file_name, content_type, size_bytes, width, height, created_at";
+
+export const isImageAttachment = (contentType: string) => contentType.startsWith("image/");
+
+/**
+ * Return why a file cannot be attached, or null when it can
+ */
+export function getAttachmentError(file: { name: string; type: string; size: number }): string | null {
+  if (!(ATTACHMENT_CONTENT_TYPES as readonly string[]).includes(file.type)) {
+    return `${file.name}: only JPEG, PNG, WebP, GIF and PDF files can be attached`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name}: files must be ${formatFileSize(MAX_ATTACHMENT_BYTES)} or smaller`;
+  }
+  return null;
+}
+
+/**
+ * Size for display, e.g. "240 KB" or "3.4 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${Number((bytes / (1024 * 1024)).toFixed(1))} MB`;
+}
+
+/**
+ * Storage path for a new file; the leading user id is what the bucket policies check
+ */
+export function buildAttachmentPath(userId: string, entity: AttachmentEntity, entityId: string, contentType: string): string {
+  return `${userId}/${entity}/${entityId}/${crypto.randomUUID()}.${EXTENSIONS[contentType] ?? "bin"}`;
+}
+
+/**
+ * Split a base64 data URL into its content type and bytes, or null when it is not one
+ */
+export function decodeDataUrl(dataUrl: string): { content_type: string; bytes: Uint8Array<ArrayBuffer> } | null {
+  const match = /^data:([a-z]+\/[a-z0-9.+-]+);base64,(.+)$/i.exec(dataUrl);
+  if (!match) return null;
+
+  let binary: string;
+  try {
+    binary = atob(match[2]);
+  } catch {
+    // Malformed base64
+    return null;
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { content_type: match[1].toLowerCase(), bytes };
+}
+
+/**
+ * Upload a file and its thumbnail to the bucket and record it against an entity.
+ * Uploaded objects are removed again if the row cannot be written.
+ */
+export async function uploadAttachment(
+  supabase: SupabaseClient,
+  userId: string,
+  entity: AttachmentEntity,
+  entityId: string,
+  file: PreparedAttachment,
+  tag: string | null = null
+): Promise<Attachment> {
+  const validationError = getAttachmentError({ name: file.file_name, type: file.content_type, size: file.data.size });
+  if (validationError) throw new Error(validationError);
+
+  const path = buildAttachmentPath(userId, entity, entityId, file.content_type);
+  const thumbnailPath = file.thumbnail ? path.replace(/\.[a-z]+$/, ".thumb.jpg") : null;
+  const bucket = supabase.storage.from(ATTACHMENTS_BUCKET);
+
+  const { error: uploadError } = await bucket.upload(path, file.data, { contentType: file.content_type });
+  if (uploadError) throw uploadError;
+
+  if (file.thumbnail && thumbnailPath) {
+    const { error: thumbnailError } = await bucket.upload(thumbnailPath, file.thumbnail, { contentType: "image/jpeg" });
+    if (thumbnailError) {
+      await bucket.remove([path]);
+      throw thumbnailError;
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("attachments")
+    .insert({
+      user_id: userId,
+      entity_type: entity,
+      entity_id: entityId,
+      path,
+      thumbnail_path: thumbnailPath,
+      tag,
+      file_name: file.file_name,
+      content_type: file.content_type,
+      size_bytes: file.data.size,
+      width: file.width,
+      height: file.height,
+    })
+    .select(ATTACHMENT_COLUMNS)
+    .single();
+
+  if (error) {
+    await bucket.remove([path, ...(thumbnailPath ? [thumbnailPath] : [])]);
+    throw error;
+  }
+  return data as Attachment;
+}
+
+/**
+ * Return why a data URL can never be stored as an attachment, or null when it can
+ */
+export function getDataUrlError(dataUrl: string, fileName: string): string | null {
+  const decoded = decodeDataUrl(dataUrl);
+  if (!decoded) return `${fileName}: not a base64 data URL`;
+  return getAttachmentError({ name: fileName, type: decoded.content_type, size: decoded.bytes.length });
+}
+
+/**
+ * Store a base64 data URL, as photos were kept before storage was used, as an attachment
+ */
+export async function attachDataUrl(
+  supabase: SupabaseClient,
+  userId: string,
+  entity: AttachmentEntity,
+  entityId: string,
+  dataUrl: string,
+  fileName: string,
+  tag: string | null = null
+): Promise<Attachment> {
+  const decoded = decodeDataUrl(dataUrl);
+  if (!decoded) throw new Error(`${fileName}: not a base64 data URL`);
+
+  return uploadAttachment(supabase, userId, entity, entityId, {
+    file_name: `${fileName}.${EXTENSIONS[decoded.content_type] ?? "bin"}`,
+    content_type: decoded.content_type,
+    data: new Blob([decoded.bytes], { type: decoded.content_type }),
+    thumbnail: null,
+    width: null,
+    height: null,
+  }, tag);
+}
+
+/**
+ * An entity's attachments in upload order, with signed URLs for reading them.
+ * Pass a tag to only load files with that label.
+ */
+export async function fetchAttachments(
+  supabase: SupabaseClient,
+  entity: AttachmentEntity,
+  entityId: string,
+  tag?: string
+): Promise<SignedAttachment[]> {
+  const query = supabase
+    .from("attachments")
+    .select(ATTACHMENT_COLUMNS)
+    .eq("entity_type", entity)
+    .eq("entity_id", entityId);
+
+  const { data, error } = await (tag ? query.eq("tag", tag) : query).order("created_at");
+
+  if (error) throw error;
+
+  const attachments = (data || []) as Attachment[];
+  if (attachments.length === 0) return [];
+
+  const paths = attachments.flatMap((attachment) => [attachment.path, ...(attachment.thumbnail_path ? [attachment.thumbnail_path] : [])]);
+  const { data: signed, error: signError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+  if (signError) throw signError;
+
+  const urls = new Map((signed || []).map((entry) => [entry.path, entry.signedUrl]));
+  return attachments.map((attachment) => {
+    const url = urls.get(attachment.path) ?? "";
+    const thumbnailUrl = attachment.thumbnail_path ? urls.get(attachment.thumbnail_path) : undefined;
+    return {
+      ...attachment,
+      url,
+      thumbnail_url: isImageAttachment(attachment.content_type) ? thumbnailUrl ?? url : null,
+    };
+  });
+}
+
+/**
+ * Number of attachments per entity, for list pages
+ */
+export async function fetchAttachmentCounts(
+  supabase: SupabaseClient,
+  entity: AttachmentEntity,
+  entityIds: string[]
+): Promise<Record<string, number>> {
+  if (entityIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("attachments")
+    .select("entity_id")
+    .eq("entity_type", entity)
+    .in("entity_id", entityIds);
+
+  if (error) throw error;
+
+  const counts: Record<string, number> = {};
+  for (const row of data || []) {
+    counts[row.entity_id] = (counts[row.entity_id] ?? 0) + 1;
+  }
+  return counts;
+}
+
+export async function deleteAttachment(supabase: SupabaseClient, attachment: Attachment): Promise<void> {
+  const { error } = await supabase.from("attachments").delete().eq("id", attachment.id);
+  if (error) throw error;
+
+  const { error: removeError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .remove([attachment.path, ...(attachment.thumbnail_path ? [attachment.thumbnail_path] : [])]);
+
+  if (removeError) throw removeError;
+}
+
+/**
+ * Remove every file attached to an entity, before the entity itself is deleted
+ */
+export async function deleteEntityAttachments(supabase: SupabaseClient, entity: AttachmentEntity, entityId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from("attachments")
+    .select("id, path, thumbnail_path")
+    .eq("entity_type", entity)
+    .eq("entity_id", entityId);
+
+  if (error) throw error;
+  if (!data?.length) return;
+
+  const { error: removeError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .remove(data.flatMap((row) => [row.path, ...(row.thumbnail_path ? [row.thumbnail_path] : [])]));
+
+  if (removeError) throw removeError;
+
+  const { error: deleteError } = await supabase
+    .from("attachments")
+    .delete()
+    .in("id", data.map((row) => row.id));
+
+  if (deleteError) throw deleteError;
+}
@@ -0,0 +1,84 @@
+import { getAttachmentError, type PreparedAttachment } from "@/lib/attachments/attachments";
+
+// Longest side of a stored photo; phone cameras produce far more than a repair photo needs
+export const MAX_IMAGE_DIMENSION = 1920;
+
+export const THUMBNAIL_DIMENSION = 320;
+
+const JPEG_QUALITY = 0.85;
+
+// Animated GIFs would lose their frames on a canvas, so they are stored as uploaded
+const RESIZABLE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+/**
+ * Draw an image onto a canvas no larger than `maxDimension` on either side and encode it.
+ * JPEG output gets a white background so transparent areas do not turn black.
+ */
+async function resizeImage(
+  image: ImageBitmap,
+  maxDimension: number,
+  contentType: string
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const width = Math.round(image.width * scale);
+  const height = Math.round(image.height * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Images cannot be resized in this browser");
+
+  if (contentType === "image/jpeg") {
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, width, height);
+  }
+  context.drawImage(image, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, contentType, JPEG_QUALITY));
+  if (!blob) throw new Error("Image could not be encoded");
+  return { blob, width, height };
+}
+
+/**
+ * Validate a picked file and, for photos, downscale it and make a JPEG thumbnail.
+ * Runs in the browser so full-size camera images never leave the device.
+ */
+export async function prepareAttachment(file: File): Promise<PreparedAttachment> {
+  const validationError = getAttachmentError(file);
+  if (validationError) throw new Error(validationError);
+
+  const prepared: PreparedAttachment = {
+    file_name: file.name,
+    content_type: file.type,
+    data: file,
+    thumbnail: null,
+    width: null,
+    height: null,
+  };
+
+  if (!file.type.startsWith("image/")) return prepared;
+
+  const image = await createImageBitmap(file);
+  try {
+    prepared.width = image.width;
+    prepared.height = image.height;
+
+    if (RESIZABLE_TYPES.includes(file.type) && Math.max(image.width, image.height) > MAX_IMAGE_DIMENSION) {
+      const resized = await resizeImage(image, MAX_IMAGE_DIMENSION, file.type);
+      // Re-encoding a small but heavily compressed file can make it larger
+      if (resized.blob.size < file.size) {
+        prepared.data = resized.blob;
+        prepared.width = resized.width;
+        prepared.height = resized.height;
+      }
+    }
+
+    prepared.thumbnail = (await resizeImage(image, THUMBNAIL_DIMENSION, "image/jpeg")).blob;
+  } finally {
+    image.close();
+  }
+
+  return prepared;
+}
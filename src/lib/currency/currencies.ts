@@ -0,0 +1,96 @@
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  symbol: string;
+  // Digits after the decimal point (ISO 4217 minor unit)
+  decimals: number;
+  // Locale used to group digits, e.g. 1,00,000 for INR
+  locale: string;
+}
+
+export const DEFAULT_CURRENCY = "INR";
+
+// ISO 4217 currencies offered in the app
+export const CURRENCIES: Record<string, CurrencyInfo> = {
+  INR: { code: "INR", name: "Indian Rupee", symbol: "₹", decimals: 2, locale: "en-IN" },
+  USD: { code: "USD", name: "US Dollar", symbol: "$", decimals: 2, locale: "en-US" },
+  EUR: { code: "EUR", name: "Euro", symbol: "€", decimals: 2, locale: "de-DE" },
+  GBP: { code: "GBP", name: "Pound Sterling", symbol: "£", decimals: 2, locale: "en-GB" },
+  PKR: { code: "PKR", name: "Pakistani Rupee", symbol: "Rs", decimals: 2, locale: "en-PK" },
+  BDT: { code: "BDT", name: "Bangladeshi Taka", symbol: "৳", decimals: 2, locale: "en-BD" },
+  LKR: { code: "LKR", name: "Sri Lankan Rupee", symbol: "Rs", decimals: 2, locale: "en-LK" },
+  NPR: { code: "NPR", name: "Nepalese Rupee", symbol: "Rs", decimals: 2, locale: "en-NP" },
+  AED: { code: "AED", name: "UAE Dirham", symbol: "AED", decimals: 2, locale: "en-AE" },
+  SAR: { code: "SAR", name: "Saudi Riyal", symbol: "SAR", decimals: 2, locale: "en-SA" },
+  QAR: { code: "QAR", name: "Qatari Riyal", symbol: "QAR", decimals: 2, locale: "en-QA" },
+  KWD: { code: "KWD", name: "Kuwaiti Dinar", symbol: "KWD", decimals: 3, locale: "en-KW" },
+  BHD: { code: "BHD", name: "Bahraini Dinar", symbol: "BHD", decimals: 3, locale: "en-BH" },
+  OMR: { code: "OMR", name: "Omani Rial", symbol: "OMR", decimals: 3, locale: "en-OM" },
+  SGD: { code: "SGD", name: "Singapore Dollar", symbol: "S$", decimals: 2, locale: "en-SG" },
+  MYR: { code: "MYR", name: "Malaysian Ringgit", symbol: "RM", decimals: 2, locale: "en-MY" },
+  HKD: { code: "HKD", name: "Hong Kong Dollar", symbol: "HK$", decimals: 2, locale: "en-HK" },
+  JPY: { code: "JPY", name: "Japanese Yen", symbol: "¥", decimals: 0, locale: "ja-JP" },
+  CNY: { code: "CNY", name: "Chinese Yuan", symbol: "¥", decimals: 2, locale: "zh-CN" },
+  AUD: { code: "AUD", name: "Australian Dollar", symbol: "A$", decimals: 2, locale: "en-AU" },
+  NZD: { code: "NZD", name: "New Zealand Dollar", symbol: "NZ$", decimals: 2, locale: "en-NZ" },
+  CAD: { code: "CAD", name: "Canadian Dollar", symbol: "CA$", decimals: 2, locale: "en-CA" },
+  CHF: { code: "CHF", name: "Swiss Franc", symbol: "CHF", decimals: 2, locale: "de-CH" },
+  ZAR: { code: "ZAR", name: "South African Rand", symbol: "R", decimals: 2, locale: "en-ZA" },
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES);
+
+/**
+ * Metadata for a currency code; unknown codes get two decimals and the code as symbol
+ */
+export function getCurrency(code: string): CurrencyInfo {
+  const upper = code.toUpperCase();
+  return CURRENCIES[upper] ?? { code: upper, name: upper, symbol: upper, decimals: 2, locale: "en-US" };
+}
+
+/**
+ * Label for currency pickers, e.g. "INR (₹)"
+ */
+export function getCurrencyLabel(code: string): string {
+  const currency = getCurrency(code);
+  return currency.symbol === currency.code ? currency.code : `${currency.code} (${currency.symbol})`;
+}
+
+/**
+ * Format an amount in the currency's own locale, e.g. "₹1,00,000.00" or "$1,200.00".
+ * `display: "code"` prints the ISO code instead of the symbol.
+ */
+export function formatCurrency(
+  amount: number,
+  currency: string,
+  options: { display?: "symbol" | "code" } = {}
+): string {
+  const info = getCurrency(currency);
+  try {
+    return new Intl.NumberFormat(info.locale, {
+      style: "currency",
+      currency: info.code,
+      currencyDisplay: options.display === "code" ? "code" : "narrowSymbol",
+      minimumFractionDigits: info.decimals,
+      maximumFractionDigits: info.decimals,
+    }).format(amount);
+  } catch {
+    // Code Intl does not know
+    return `${info.code} ${amount.toFixed(info.decimals)}`;
+  }
+}
+
+/**
+ * Round an amount to the currency's minor unit
+ */
+export function roundToCurrency(amount: number, currency: string): number {
+  const factor = 10 ** getCurrency(currency).decimals;
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Amount in the smallest unit of the currency, as payment processors expect (cents, paise)
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** getCurrency(currency).decimals);
+}
@@ -0,0 +1,207 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { CURRENCIES, DEFAULT_CURRENCY, roundToCurrency } from "@/lib/currency/currencies";
+
+// One unit of base_currency buys `rate` units of quote_currency from effective_date on
+export interface ExchangeRate {
+  id: string;
+  // Null for the platform rates used by subscription billing
+  user_id: string | null;
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  effective_date: string;
+}
+
+export type ExchangeRateInput = Pick<ExchangeRate, "base_currency" | "quote_currency" | "rate" | "effective_date">;
+
+// Stored on invoices and payments: what one unit of the document currency was worth in
+// the organization's base currency on the document date, or null when no rate was known
+export interface RateSnapshot {
+  base_currency: string;
+  exchange_rate: number | null;
+}
+
+// An amount to convert; documents that carry a snapshot in the target currency use it
+export interface ConvertibleAmount {
+  amount: number;
+  currency: string;
+  date: string;
+  base_currency?: string | null;
+  exchange_rate?: number | null;
+}
+
+export const EXCHANGE_RATE_COLUMNS = "id, user_id, base_currency, quote_currency, rate, effective_date";
+
+/**
+ * Currency the organization reports in; agreements, rent and other property amounts are kept in it
+ */
+export async function fetchBaseCurrency(supabase: SupabaseClient, userId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from("organization_settings")
+    .select("base_currency")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.base_currency || DEFAULT_CURRENCY;
+}
+
+/**
+ * The user's own exchange rates followed by the platform rates, latest first
+ */
+export async function fetchExchangeRates(supabase: SupabaseClient): Promise<ExchangeRate[]> {
+  const { data, error } = await supabase
+    .from("exchange_rates")
+    .select(EXCHANGE_RATE_COLUMNS)
+    .order("effective_date", { ascending: false });
+
+  if (error) throw error;
+  return (data || [])
+    .map((row) => ({ ...row, rate: Number(row.rate) }))
+    .sort((a, b) => Number(a.user_id === null) - Number(b.user_id === null));
+}
+
+function findStoredRate(rates: ExchangeRate[], from: string, to: string, date: string): number | null {
+  // Rates are ordered own before platform and latest first, so the first match wins
+  for (const rate of rates) {
+    if (rate.effective_date > date) continue;
+    if (rate.base_currency === from && rate.quote_currency === to) return rate.rate;
+    if (rate.base_currency === to && rate.quote_currency === from) return 1 / rate.rate;
+  }
+  return null;
+}
+
+/**
+ * Rate from one currency to another on a date: the latest rate entered on or before it,
+ * used directly, inverted, or crossed through a third currency. Null when none applies.
+ */
+export function findExchangeRate(rates: ExchangeRate[], from: string, to: string, date: string): number | null {
+  if (from === to) return 1;
+
+  const direct = findStoredRate(rates, from, to, date);
+  if (direct !== null) return direct;
+
+  for (const pivot of Object.keys(CURRENCIES)) {
+    if (pivot === from || pivot === to) continue;
+    const first = findStoredRate(rates, from, pivot, date);
+    const second = first === null ? null : findStoredRate(rates, pivot, to, date);
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+}
+
+/**
+ * Describe a rate, e.g. "1 USD = 83.25 INR"
+ */
+export function formatExchangeRate(rate: number, from: string, to: string): string {
+  return `1 ${from} = ${Number(rate.toPrecision(6))} ${to}`;
+}
+
+/**
+ * Convert an amount at the rate in force on `date`, or null when no rate is known
+ */
+export function convertAmount(
+  rates: ExchangeRate[],
+  amount: number,
+  from: string,
+  to: string,
+  date: string
+): number | null {
+  const rate = findExchangeRate(rates, from, to, date);
+  return rate === null ? null : roundToCurrency(amount * rate, to);
+}
+
+/**
+ * Convert a document amount into `target`, preferring the rate stored on the document when
+ * its snapshot is in the target currency. Null when no rate is known.
+ */
+export function convertDocumentAmount(rates: ExchangeRate[], item: ConvertibleAmount, target: string): number | null {
+  if (item.currency !== target && item.base_currency === target && item.exchange_rate) {
+    return roundToCurrency(item.amount * item.exchange_rate, target);
+  }
+  return convertAmount(rates, item.amount, item.currency, target, item.date);
+}
+
+/**
+ * Total a list of amounts in one currency. Amounts with no rate are counted, not added.
+ */
+export function sumInCurrency(
+  rates: ExchangeRate[],
+  amounts: ConvertibleAmount[],
+  target: string
+): { total: number; unconverted: number } {
+  let total = 0;
+  let unconverted = 0;
+  for (const item of amounts) {
+    const converted = convertDocumentAmount(rates, item, target);
+    if (converted === null) {
+      unconverted++;
+    } else {
+      total += converted;
+    }
+  }
+  return { total: roundToCurrency(total, target), unconverted };
+}
+
+/**
+ * The rate to store on a document in `currency` dated `date`
+ */
+export async function snapshotExchangeRate(
+  supabase: SupabaseClient,
+  userId: string,
+  currency: string,
+  date: string
+): Promise<RateSnapshot> {
+  const baseCurrency = await fetchBaseCurrency(supabase, userId);
+  if (currency === baseCurrency) {
+    return { base_currency: baseCurrency, exchange_rate: 1 };
+  }
+  const rates = await fetchExchangeRates(supabase);
+  return { base_currency: baseCurrency, exchange_rate: findExchangeRate(rates, currency, baseCurrency, date) };
+}
+
+/**
+ * Return why an exchange rate cannot be saved, or null when it can
+ */
+export function getExchangeRateError(input: ExchangeRateInput): string | null {
+  if (!(input.base_currency in CURRENCIES) || !(input.quote_currency in CURRENCIES)) {
+    return "Select both currencies";
+  }
+  if (input.base_currency === input.quote_currency) {
+    return "Choose two different currencies";
+  }
+  if (!Number.isFinite(input.rate) || input.rate <= 0) {
+    return "Rate must be greater than zero";
+  }
+  if (!input.effective_date) {
+    return "Enter the date the rate applies from";
+  }
+  return null;
+}
+
+/**
+ * Add a rate, replacing any rate for the same pair and date
+ */
+export async function saveExchangeRate(
+  supabase: SupabaseClient,
+  userId: string,
+  input: ExchangeRateInput
+): Promise<void> {
+  const rateError = getExchangeRateError(input);
+  if (rateError) throw new Error(rateError);
+
+  const { error } = await supabase
+    .from("exchange_rates")
+    .upsert({ user_id: userId, ...input }, { onConflict: "user_id,base_currency,quote_currency,effective_date" });
+
+  if (error) throw error;
+}
+
+/**
+ * Remove one of the user's rates; documents keep the rate stored on them
+ */
+export async function deleteExchangeRate(supabase: SupabaseClient, rateId: string): Promise<void> {
+  const { error } = await supabase.from("exchange_rates").delete().eq("id", rateId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,47 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export interface OrganizationBranding {
+  name: string;
+  address: string | null;
+  email: string | null;
+  phone: string | null;
+  website: string | null;
+  // Printed under the contact details when registered for GST
+  gstin: string | null;
+  accent_color: string;
+  footer_text: string | null;
+}
+
+export const DEFAULT_BRANDING: OrganizationBranding = {
+  name: "LeaseFlow",
+  address: null,
+  email: null,
+  phone: null,
+  website: null,
+  gstin: null,
+  accent_color: "#111827",
+  footer_text: null,
+};
+
+/**
+ * Load the organization details for a user, falling back to the default branding
+ */
+export async function fetchBranding(supabase: SupabaseClient, userId: string): Promise<OrganizationBranding> {
+  const { data, error } = await supabase
+    .from("organization_settings")
+    .select("name, address, email, phone, website, gstin, accent_color, footer_text")
+    .eq("user_id", userId)
+    .maybeSingle<OrganizationBranding>();
+
+  if (error) throw error;
+  return data ?? DEFAULT_BRANDING;
+}
+
+/**
+ * Convert a #rrggbb colour into RGB components
+ */
+export function hexToRgb(hex: string): [number, number, number] {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return [17, 24, 39];
+  return [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)];
+}
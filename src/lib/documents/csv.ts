@@ -0,0 +1,10 @@
+/**
+ * CSV text with a header row; values containing commas, quotes or newlines are quoted
+ */
+export function toCsv(headers: string[], rows: Array<Array<string | number>>): string {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+  };
+  return [headers, ...rows].map((row) => row.map(escape).join(",")).join("\n");
+}
@@ -0,0 +1,25 @@
+import { format } from "date-fns";
+import { formatCurrency } from "@/lib/currency/currencies";
+
+// Currency symbols the built-in PDF fonts can draw; other currencies are shown by ISO code
+const PDF_SAFE_SYMBOLS = new Set(["USD", "EUR", "GBP"]);
+
+/**
+ * Format an amount for a generated document, e.g. "INR 12,500.00" or "$1,200.00"
+ */
+export function formatMoney(amount: number, currency: string): string {
+  return formatCurrency(amount, currency, {
+    display: PDF_SAFE_SYMBOLS.has(currency.toUpperCase()) ? "symbol" : "code",
+  }).replace(/[\u00a0\u202f]/g, " ");
+}
+
+export function formatDocumentDate(date: string | Date): string {
+  return format(new Date(date), "MMM dd, yyyy");
+}
+
+/**
+ * Join the non-empty parts of an address into one line
+ */
+export function joinAddress(...parts: Array<string | null | undefined>): string {
+  return parts.filter(Boolean).join(", ");
+}
@@ -0,0 +1,44 @@
+// Declarative description of a generated document. Templates build a layout from
+// database rows; the renderer takes care of positioning, wrapping and pagination.
+
+export interface DocumentField {
+  label: string;
+  value: string;
+}
+
+export interface DocumentSignature {
+  label: string;
+  // Drawn signature as a PNG data URL
+  image?: string;
+  // Typed signature
+  typed?: string;
+  signedAt?: string;
+}
+
+export interface DocumentTableColumn {
+  header: string;
+  // Share of the content width, e.g. 0.5 for half
+  width: number;
+  align?: "left" | "right";
+}
+
+export type DocumentBlock =
+  | { type: "heading"; text: string }
+  | { type: "paragraph"; text: string; muted?: boolean }
+  | { type: "fields"; items: DocumentField[] }
+  | { type: "columns"; columns: Array<{ title: string; lines: string[] }> }
+  | { type: "table"; columns: DocumentTableColumn[]; rows: string[][] }
+  | { type: "totals"; items: Array<DocumentField & { emphasis?: boolean }> }
+  | { type: "sections"; items: Array<{ title: string; body: string }> }
+  | { type: "signatures"; parties: DocumentSignature[] }
+  | { type: "spacer"; height?: number }
+  | { type: "pageBreak" };
+
+export interface DocumentLayout {
+  title: string;
+  // Shown on the right of the header, e.g. document number and dates
+  meta: DocumentField[];
+  blocks: DocumentBlock[];
+  footer?: string;
+  filename: string;
+}
@@ -0,0 +1,230 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchAllRows } from "@/lib/supabase/paging";
+
+export const NUMBERED_DOCUMENT_TYPES = ["agreement", "invoice", "credit_note", "receipt"] as const;
+
+export type NumberedDocumentType = (typeof NUMBERED_DOCUMENT_TYPES)[number];
+
+export const NUMBERED_DOCUMENT_LABELS: Record<NumberedDocumentType, string> = {
+  agreement: "Agreements",
+  invoice: "Invoices",
+  credit_note: "Credit Notes",
+  receipt: "Receipts",
+};
+
+export interface NumberingRule {
+  // e.g. INV/{FY}/{SEQ}; see NUMBER_TOKENS
+  format: string;
+  padding: number;
+  // First month of the fiscal year, 1-12
+  fiscal_year_start: number;
+}
+
+export const NUMBER_TOKENS: Record<string, string> = {
+  "{SEQ}": "Sequence number, zero padded",
+  "{FY}": "Fiscal year, e.g. 2026-27",
+  "{YYYY}": "Four digit year",
+  "{YY}": "Two digit year",
+  "{MM}": "Two digit month",
+};
+
+export const DEFAULT_NUMBERING_RULES: Record<NumberedDocumentType, NumberingRule> = {
+  agreement: { format: "RENT/{FY}/{SEQ}", padding: 4, fiscal_year_start: 4 },
+  invoice: { format: "INV/{FY}/{SEQ}", padding: 4, fiscal_year_start: 4 },
+  credit_note: { format: "CN/{FY}/{SEQ}", padding: 4, fiscal_year_start: 4 },
+  receipt: { format: "RCP/{FY}/{SEQ}", padding: 4, fiscal_year_start: 4 },
+};
+
+// Where each document type keeps its number
+const NUMBER_COLUMNS: Record<NumberedDocumentType, { table: string; column: string }> = {
+  agreement: { table: "rent_agreements", column: "agreement_number" },
+  invoice: { table: "invoices", column: "invoice_number" },
+  credit_note: { table: "credit_notes", column: "credit_note_number" },
+  receipt: { table: "rent_payments", column: "receipt_number" },
+};
+
+const SEQ_TOKEN = "{SEQ}";
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Return why a numbering rule is unusable, or null when it is valid
+ */
+export function getNumberingRuleError(rule: NumberingRule): string | null {
+  if (rule.format.split(SEQ_TOKEN).length !== 2) {
+    return "The format must contain {SEQ} exactly once";
+  }
+  const unknown = (rule.format.match(/\{[^}]*\}/g) || []).find((token) => !(token in NUMBER_TOKENS));
+  if (unknown) {
+    return `Unknown token ${unknown}`;
+  }
+  if (!Number.isInteger(rule.padding) || rule.padding < 1 || rule.padding > 10) {
+    return "Padding must be between 1 and 10 digits";
+  }
+  if (!Number.isInteger(rule.fiscal_year_start) || rule.fiscal_year_start < 1 || rule.fiscal_year_start > 12) {
+    return "Fiscal year must start in a month from 1 to 12";
+  }
+  return null;
+}
+
+/**
+ * Fiscal year containing a yyyy-MM-dd date, e.g. "2026-27" for April 2026 to March 2027
+ */
+export function getFiscalYear(date: string, startMonth: number): string {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+  if (startMonth === 1) return String(year);
+
+  const first = month >= startMonth ? year : year - 1;
+  return `${first}-${String((first + 1) % 100).padStart(2, "0")}`;
+}
+
+/**
+ * Fill in the date tokens of a format; the result identifies the counter to draw from
+ */
+export function getNumberSeries(rule: NumberingRule, date: string): string {
+  return rule.format
+    .replaceAll("{FY}", getFiscalYear(date, rule.fiscal_year_start))
+    .replaceAll("{YYYY}", date.slice(0, 4))
+    .replaceAll("{YY}", date.slice(2, 4))
+    .replaceAll("{MM}", date.slice(5, 7));
+}
+
+export function formatDocumentNumber(series: string, sequence: number, padding: number): string {
+  return series.replace(SEQ_TOKEN, String(sequence).padStart(padding, "0"));
+}
+
+/**
+ * Split a number issued under a rule into its series and sequence, or null when it
+ * was not issued under this rule (hand-typed or older timestamp numbers)
+ */
+export function parseDocumentNumber(rule: NumberingRule, value: string): { series: string; sequence: number } | null {
+  const toPattern = (part: string) =>
+    escapeRegExp(part)
+      .replaceAll(escapeRegExp("{FY}"), "\\d{4}(?:-\\d{2})?")
+      .replaceAll(escapeRegExp("{YYYY}"), "\\d{4}")
+      .replaceAll(escapeRegExp("{YY}"), "\\d{2}")
+      .replaceAll(escapeRegExp("{MM}"), "\\d{2}");
+
+  const [before, after] = rule.format.split(SEQ_TOKEN);
+  const match = new RegExp(`^(${toPattern(before)})(\\d+)(${toPattern(after ?? "")})$`).exec(value);
+  if (!match) return null;
+
+  return { series: `${match[1]}${SEQ_TOKEN}${match[3]}`, sequence: Number(match[2]) };
+}
+
+/**
+ * Sequence numbers below `upTo` that are missing from a series
+ */
+export function findNumberGaps(sequences: number[], upTo: number): number[] {
+  const issued = new Set(sequences);
+  const gaps: number[] = [];
+  for (let sequence = 1; sequence < upTo; sequence++) {
+    if (!issued.has(sequence)) gaps.push(sequence);
+  }
+  return gaps;
+}
+
+/**
+ * Load a user's numbering rule for a document type, falling back to the default
+ */
+export async function fetchNumberingRule(
+  supabase: SupabaseClient,
+  userId: string,
+  type: NumberedDocumentType
+): Promise<NumberingRule> {
+  const { data, error } = await supabase
+    .from("document_numbering")
+    .select("format, padding, fiscal_year_start")
+    .eq("user_id", userId)
+    .eq("document_type", type)
+    .maybeSingle<NumberingRule>();
+
+  if (error) throw error;
+  return data ?? DEFAULT_NUMBERING_RULES[type];
+}
+
+/**
+ * Atomically take the next number for a document dated `date` (yyyy-MM-dd).
+ * A number is used up even if the document is never saved, which shows as a gap.
+ */
+export async function allocateDocumentNumber(
+  supabase: SupabaseClient,
+  userId: string,
+  type: NumberedDocumentType,
+  date: string
+): Promise<string> {
+  const rule = await fetchNumberingRule(supabase, userId, type);
+  const series = getNumberSeries(rule, date);
+
+  const { data, error } = await supabase.rpc("allocate_document_number", {
+    p_user_id: userId,
+    p_document_type: type,
+    p_series: series,
+  });
+
+  if (error) throw error;
+  return formatDocumentNumber(series, Number(data), rule.padding);
+}
+
+/**
+ * The number the next document would get, for display only; it is not reserved
+ */
+export async function previewDocumentNumber(
+  supabase: SupabaseClient,
+  userId: string,
+  type: NumberedDocumentType,
+  date: string
+): Promise<string> {
+  const rule = await fetchNumberingRule(supabase, userId, type);
+  const series = getNumberSeries(rule, date);
+
+  const { data, error } = await supabase
+    .from("document_sequences")
+    .select("last_value")
+    .eq("user_id", userId)
+    .eq("document_type", type)
+    .eq("series", series)
+    .maybeSingle();
+
+  if (error) throw error;
+  return formatDocumentNumber(series, (data?.last_value ?? 0) + 1, rule.padding);
+}
+
+/**
+ * Numbers missing from the series of `value` before it, e.g. a receipt number that
+ * was handed out but never saved, or a document that was deleted
+ */
+export async function fetchNumberGaps(
+  supabase: SupabaseClient,
+  userId: string,
+  type: NumberedDocumentType,
+  value: string
+): Promise<string[]> {
+  const rule = await fetchNumberingRule(supabase, userId, type);
+  const parsed = parseDocumentNumber(rule, value);
+  if (!parsed) return [];
+
+  const { table, column } = NUMBER_COLUMNS[type];
+  // Escape LIKE wildcards so a prefix such as INV_2026 only matches itself
+  const prefix = parsed.series.split(SEQ_TOKEN)[0].replace(/[\\%_]/g, "\\$&");
+  const rows = await fetchAllRows((from, to) =>
+    supabase
+      .from(table)
+      .select(column)
+      .eq("user_id", userId)
+      .like(column, `${prefix}%`)
+      .order("id")
+      .range(from, to)
+  );
+
+  const sequences = (rows as unknown as Record<string, string | null>[])
+    .map((row) => (row[column] ? parseDocumentNumber(rule, row[column]) : null))
+    .filter((number) => number?.series === parsed.series)
+    .map((number) => number!.sequence);
+
+  const width = value.length - parsed.series.length + SEQ_TOKEN.length;
+  return findNumberGaps(sequences, parsed.sequence).map((sequence) =>
+    formatDocumentNumber(parsed.series, sequence, width)
+  );
+}
@@ -0,0 +1,34 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { DocumentLayout } from "@/lib/documents/layout";
+import type { DocumentType } from "@/lib/documents/urls";
+import { buildAgedReceivablesDocument } from "@/lib/documents/templates/aged-receivables";
+import { buildAddendumDocument, buildAgreementDocument } from "@/lib/documents/templates/agreement";
+import { buildCreditNoteDocument } from "@/lib/documents/templates/credit-note";
+import { buildInvoiceDocument } from "@/lib/documents/templates/invoice";
+import { buildReceiptDocument } from "@/lib/documents/templates/receipt";
+import { buildSettlementDocument } from "@/lib/documents/templates/settlement";
+
+type DocumentBuilder = (
+  supabase: SupabaseClient,
+  id: string,
+  params: URLSearchParams
+) => Promise<DocumentLayout | null>;
+
+// Document types served from /api/documents/<type>/<id>.pdf
+export const DOCUMENT_BUILDERS: Record<DocumentType, DocumentBuilder> = {
+  agreement: (supabase, id, params) => {
+    const version = Number(params.get("version"));
+    return buildAgreementDocument(supabase, id, { version: version > 0 ? version : undefined });
+  },
+  addendum: (supabase, id) => buildAddendumDocument(supabase, id),
+  invoice: (supabase, id) => buildInvoiceDocument(supabase, id),
+  credit_note: (supabase, id) => buildCreditNoteDocument(supabase, id),
+  receipt: (supabase, id) => buildReceiptDocument(supabase, id),
+  settlement: (supabase, id) => buildSettlementDocument(supabase, id),
+  // Reports are keyed by their as-of date instead of a record id
+  aged_receivables: (supabase, id) => buildAgedReceivablesDocument(supabase, id),
+};
+
+export function isDocumentType(type: string): type is DocumentType {
+  return Object.prototype.hasOwnProperty.call(DOCUMENT_BUILDERS, type);
+}
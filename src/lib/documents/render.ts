@@ -0,0 +1,323 @@
+import jsPDF from "jspdf";
+import { format } from "date-fns";
+import { hexToRgb, type OrganizationBranding } from "@/lib/documents/branding";
+import type { DocumentBlock, DocumentLayout } from "@/lib/documents/layout";
+
+const MARGIN = 18;
+// Space kept free at the bottom of each page for the footer
+const FOOTER_SPACE = 24;
+const LINE_HEIGHT = 4.5;
+const MUTED: [number, number, number] = [100, 100, 100];
+const TEXT: [number, number, number] = [17, 17, 17];
+
+// The built-in PDF fonts only cover Latin-1, so symbols such as ₹ in stored text are spelled out
+function toPdfText<T>(value: T): T {
+  if (typeof value === "string") return value.replace(/₹\s?/g, "Rs. ") as T;
+  if (Array.isArray(value)) return value.map(toPdfText) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toPdfText(entry)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Render a document layout to PDF bytes
+ */
+export function renderDocument(source: DocumentLayout, sourceBranding: OrganizationBranding): ArrayBuffer {
+  const layout = toPdfText(source);
+  const branding = toPdfText(sourceBranding);
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - 2 * MARGIN;
+  const bottom = pageHeight - FOOTER_SPACE;
+  const accent = hexToRgb(branding.accent_color);
+
+  doc.setProperties({ title: layout.title, author: branding.name, creator: branding.name });
+
+  const setFont = (size: number, style: "normal" | "bold" | "italic" = "normal", color = TEXT) => {
+    doc.setFontSize(size);
+    doc.setFont("helvetica", style);
+    doc.setTextColor(...color);
+  };
+
+  let y = drawFirstHeader();
+
+  const newPage = () => {
+    doc.addPage();
+    y = drawContinuationHeader();
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) newPage();
+  };
+
+  // Write wrapped lines one at a time so long text flows onto the next page
+  const writeLines = (lines: string[], x: number) => {
+    lines.forEach((line) => {
+      ensureSpace(LINE_HEIGHT);
+      doc.text(line, x, y);
+      y += LINE_HEIGHT;
+    });
+  };
+
+  layout.blocks.forEach(drawBlock);
+  drawFooters();
+
+  return doc.output("arraybuffer");
+
+  function drawFirstHeader(): number {
+    doc.setFillColor(...accent);
+    doc.rect(0, 0, pageWidth, 4, "F");
+
+    // Organization on the left
+    let leftY = 16;
+    setFont(14, "bold", accent);
+    doc.text(branding.name, MARGIN, leftY);
+    leftY += 5;
+    setFont(8, "normal", MUTED);
+    const contact = [
+      branding.address,
+      [branding.email, branding.phone].filter(Boolean).join("  ·  "),
+      branding.website,
+      branding.gstin ? `GSTIN: ${branding.gstin}` : null,
+    ].filter((line): line is string => Boolean(line));
+    contact.forEach((line) => {
+      const wrapped: string[] = doc.splitTextToSize(line, contentWidth / 2);
+      doc.text(wrapped, MARGIN, leftY);
+      leftY += wrapped.length * 3.8;
+    });
+
+    // Title and document details on the right
+    let rightY = 17;
+    const right = pageWidth - MARGIN;
+    setFont(18, "bold");
+    doc.text(layout.title, right, rightY, { align: "right" });
+    rightY += 6;
+    setFont(9);
+    layout.meta.forEach((field) => {
+      doc.text(`${field.label}: ${field.value}`, right, rightY, { align: "right" });
+      rightY += 4.5;
+    });
+
+    const headerBottom = Math.max(leftY, rightY) + 2;
+    doc.setDrawColor(...accent);
+    doc.setLineWidth(0.5);
+    doc.line(MARGIN, headerBottom, right, headerBottom);
+    return headerBottom + 9;
+  }
+
+  function drawContinuationHeader(): number {
+    doc.setFillColor(...accent);
+    doc.rect(0, 0, pageWidth, 2, "F");
+    setFont(9, "bold", accent);
+    doc.text(branding.name, MARGIN, 12);
+    setFont(9, "normal", MUTED);
+    const reference = layout.meta[0] ? `${layout.title} · ${layout.meta[0].value}` : layout.title;
+    doc.text(reference, pageWidth - MARGIN, 12, { align: "right" });
+    doc.setDrawColor(200, 200, 200);
+    doc.setLineWidth(0.3);
+    doc.line(MARGIN, 15, pageWidth - MARGIN, 15);
+    return 24;
+  }
+
+  function drawBlock(block: DocumentBlock) {
+    switch (block.type) {
+      case "heading": {
+        ensureSpace(16);
+        y += 2;
+        setFont(11, "bold", accent);
+        doc.text(block.text.toUpperCase(), MARGIN, y);
+        doc.setDrawColor(...accent);
+        doc.setLineWidth(0.4);
+        doc.line(MARGIN, y + 1.5, MARGIN + doc.getTextWidth(block.text.toUpperCase()), y + 1.5);
+        y += 8;
+        break;
+      }
+
+      case "paragraph": {
+        setFont(9, "normal", block.muted ? MUTED : TEXT);
+        writeLines(doc.splitTextToSize(block.text, contentWidth), MARGIN);
+        y += 3;
+        break;
+      }
+
+      case "fields": {
+        const labelWidth = 45;
+        block.items.forEach((field) => {
+          setFont(9);
+          const lines: string[] = doc.splitTextToSize(field.value || "-", contentWidth - labelWidth);
+          ensureSpace(lines.length * LINE_HEIGHT);
+          setFont(9, "normal", MUTED);
+          doc.text(field.label, MARGIN, y);
+          setFont(9);
+          doc.text(lines, MARGIN + labelWidth, y);
+          y += lines.length * LINE_HEIGHT + 1;
+        });
+        y += 3;
+        break;
+      }
+
+      case "columns": {
+        const columnWidth = contentWidth / block.columns.length;
+        setFont(9);
+        const wrapped = block.columns.map((column) =>
+          column.lines.flatMap((line) => doc.splitTextToSize(line, columnWidth - 4) as string[])
+        );
+        const height = 6 + Math.max(...wrapped.map((lines) => lines.length)) * LINE_HEIGHT;
+        ensureSpace(height);
+        block.columns.forEach((column, index) => {
+          const x = MARGIN + index * columnWidth;
+          setFont(10, "bold");
+          doc.text(column.title, x, y);
+          setFont(9);
+          doc.text(wrapped[index], x, y + 6);
+        });
+        y += height + 4;
+        break;
+      }
+
+      case "table": {
+        const widths = block.columns.map((column) => column.width * contentWidth);
+        const cellX = (index: number) => MARGIN + widths.slice(0, index).reduce((sum, width) => sum + width, 0);
+
+        const drawTableHeader = () => {
+          doc.setFillColor(...accent);
+          doc.rect(MARGIN, y - 4.5, contentWidth, 7, "F");
+          setFont(9, "bold", [255, 255, 255]);
+          block.columns.forEach((column, index) => {
+            const x = column.align === "right" ? cellX(index) + widths[index] - 2 : cellX(index) + 2;
+            doc.text(column.header, x, y, { align: column.align ?? "left" });
+          });
+          y += 7;
+        };
+
+        ensureSpace(16);
+        drawTableHeader();
+
+        block.rows.forEach((row, rowIndex) => {
+          setFont(9);
+          const cells = row.map((cell, index) => doc.splitTextToSize(cell, widths[index] - 4) as string[]);
+          const rowHeight = Math.max(...cells.map((lines) => lines.length)) * 4.2 + 3;
+
+          if (y + rowHeight > bottom) {
+            newPage();
+            drawTableHeader();
+            setFont(9);
+          }
+
+          if (rowIndex % 2 === 1) {
+            doc.setFillColor(245, 245, 245);
+            doc.rect(MARGIN, y - 4, contentWidth, rowHeight, "F");
+          }
+          cells.forEach((lines, index) => {
+            const column = block.columns[index];
+            const x = column.align === "right" ? cellX(index) + widths[index] - 2 : cellX(index) + 2;
+            doc.text(lines, x, y, { align: column.align ?? "left" });
+          });
+          y += rowHeight;
+        });
+
+        doc.setDrawColor(200, 200, 200);
+        doc.setLineWidth(0.3);
+        doc.line(MARGIN, y - 3, pageWidth - MARGIN, y - 3);
+        y += 4;
+        break;
+      }
+
+      case "totals": {
+        const right = pageWidth - MARGIN;
+        ensureSpace(block.items.length * 6 + 4);
+        block.items.forEach((item) => {
+          if (item.emphasis) {
+            doc.setDrawColor(...accent);
+            doc.setLineWidth(0.4);
+            doc.line(right - 80, y - 4, right, y - 4);
+            y += 1;
+            setFont(11, "bold");
+          } else {
+            setFont(9, "normal", MUTED);
+          }
+          doc.text(item.label, right - 45, y, { align: "right" });
+          doc.text(item.value, right, y, { align: "right" });
+          y += item.emphasis ? 7 : 5.5;
+        });
+        y += 4;
+        break;
+      }
+
+      case "sections": {
+        block.items.forEach((section, index) => {
+          setFont(9);
+          const lines: string[] = doc.splitTextToSize(section.body, contentWidth - 6);
+          // Keep each title with at least the start of its text
+          ensureSpace(6 + Math.min(lines.length, 3) * LINE_HEIGHT);
+          setFont(10, "bold");
+          doc.text(`${index + 1}. ${section.title}`, MARGIN, y);
+          y += 5.5;
+          setFont(9);
+          writeLines(lines, MARGIN + 6);
+          y += 3;
+        });
+        break;
+      }
+
+      case "signatures": {
+        ensureSpace(32);
+        y += 20;
+        const slotWidth = contentWidth / block.parties.length;
+        doc.setDrawColor(...TEXT);
+        doc.setLineWidth(0.3);
+        block.parties.forEach((party, index) => {
+          const x = MARGIN + index * slotWidth;
+          if (party.image) {
+            doc.addImage(party.image, "PNG", x, y - 17, 50, 15);
+          } else if (party.typed) {
+            setFont(16, "italic");
+            doc.text(party.typed, x + 2, y - 3);
+          }
+          doc.setDrawColor(...TEXT);
+          doc.line(x, y, x + Math.min(60, slotWidth - 10), y);
+          setFont(9);
+          const label: string[] = doc.splitTextToSize(party.label, slotWidth - 10);
+          doc.text(label, x, y + 5);
+          if (party.signedAt) {
+            setFont(8, "normal", MUTED);
+            doc.text(`Signed ${party.signedAt}`, x, y + 5 + label.length * 4);
+          }
+        });
+        y += 18;
+        break;
+      }
+
+      case "pageBreak": {
+        newPage();
+        break;
+      }
+
+      case "spacer": {
+        y += block.height ?? 6;
+        break;
+      }
+    }
+  }
+
+  function drawFooters() {
+    const pageCount = doc.getNumberOfPages();
+    const generatedOn = `Generated on ${format(new Date(), "MMM dd, yyyy 'at' HH:mm")}`;
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      const footerY = pageHeight - 16;
+      doc.setDrawColor(200, 200, 200);
+      doc.setLineWidth(0.3);
+      doc.line(MARGIN, footerY, pageWidth - MARGIN, footerY);
+      setFont(8, "italic", MUTED);
+      if (layout.footer) doc.text(layout.footer, MARGIN, footerY + 5);
+      if (branding.footer_text) {
+        doc.text(doc.splitTextToSize(branding.footer_text, contentWidth * 0.7)[0], MARGIN, footerY + 9);
+      }
+      doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, footerY + 5, { align: "right" });
+      doc.text(generatedOn, pageWidth - MARGIN, footerY + 9, { align: "right" });
+    }
+  }
+}
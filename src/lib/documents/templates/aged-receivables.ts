@@ -0,0 +1,95 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchBaseCurrency, fetchExchangeRates } from "@/lib/currency/rates";
+import { formatDocumentDate, formatMoney } from "@/lib/documents/format";
+import type { DocumentBlock, DocumentLayout } from "@/lib/documents/layout";
+import {
+  AGING_BUCKETS,
+  AGING_BUCKET_LABELS,
+  RECEIVABLE_SOURCE_LABELS,
+  buildAgingReport,
+  fetchReceivables,
+  type AgingTotals,
+} from "@/lib/receivables/aging";
+
+/**
+ * Layout for the aged receivables report as of a date (yyyy-MM-dd), in the organization's base currency
+ */
+export async function buildAgedReceivablesDocument(supabase: SupabaseClient, asOf: string): Promise<DocumentLayout | null> {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf)) return null;
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const currency = await fetchBaseCurrency(supabase, user.id);
+  const [receivables, rates] = await Promise.all([fetchReceivables(supabase, currency, asOf), fetchExchangeRates(supabase)]);
+  const report = buildAgingReport(receivables, rates, currency, asOf);
+  const money = (amount: number) => formatMoney(amount, currency);
+  const amounts = (totals: AgingTotals) => [...AGING_BUCKETS.map((bucket) => money(totals[bucket])), money(totals.total)];
+
+  const blocks: DocumentBlock[] = [
+    { type: "heading", text: "Summary" },
+    {
+      type: "table",
+      columns: [
+        { header: "Client / Tenant", width: 0.22 },
+        ...AGING_BUCKETS.map((bucket) => ({ header: AGING_BUCKET_LABELS[bucket], width: 0.12, align: "right" as const })),
+        { header: "Total", width: 0.18, align: "right" },
+      ],
+      rows: report.rows.map((row) => [`${row.party_name} (${RECEIVABLE_SOURCE_LABELS[row.source]})`, ...amounts(row.totals)]),
+    },
+  ];
+
+  blocks.push({
+    type: "totals",
+    items: [
+      ...AGING_BUCKETS.map((bucket) => ({ label: AGING_BUCKET_LABELS[bucket], value: money(report.totals[bucket]) })),
+      { label: "Total Outstanding", value: money(report.totals.total), emphasis: true },
+    ],
+  });
+
+  if (report.rows.length > 0) {
+    blocks.push(
+      { type: "heading", text: "Detail" },
+      {
+        type: "table",
+        columns: [
+          { header: "Client / Tenant", width: 0.24 },
+          { header: "Reference", width: 0.28 },
+          { header: "Due", width: 0.16 },
+          { header: "Days", width: 0.1, align: "right" },
+          { header: "Outstanding", width: 0.22, align: "right" },
+        ],
+        rows: report.rows.flatMap((row) =>
+          row.items.map((item) => [
+            row.party_name,
+            item.reference,
+            formatDocumentDate(item.due_date),
+            String(item.days_overdue),
+            formatMoney(item.amount, item.currency),
+          ])
+        ),
+      }
+    );
+  }
+
+  if (report.unconverted.length > 0) {
+    blocks.push({
+      type: "paragraph",
+      text: `${report.unconverted.length} item${report.unconverted.length !== 1 ? "s are" : " is"} listed in the detail but left out of the totals: no exchange rate into ${currency} was recorded.`,
+      muted: true,
+    });
+  }
+
+  return {
+    title: "AGED RECEIVABLES",
+    meta: [
+      { label: "As of", value: formatDocumentDate(asOf) },
+      { label: "Currency", value: currency },
+    ],
+    blocks,
+    footer: "Balances are aged from each invoice or rent due date.",
+    filename: `aged-receivables-${asOf}.pdf`,
+  };
+}
@@ -0,0 +1,310 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { buildRentSchedule, describeEscalationRule, getProjectionYears } from "@/lib/agreements/escalation";
+import { describeLateFeePolicy } from "@/lib/agreements/fees";
+import { getStatusLabel } from "@/lib/agreements/lifecycle";
+import { SIGNING_PARTY_LABELS, fetchVersionSignatures, type SignatureRequest } from "@/lib/agreements/signatures";
+import {
+  VERSIONED_FIELD_LABELS,
+  formatFieldValue,
+  takeSnapshot,
+  type AgreementAmendment,
+  type AgreementSnapshot,
+} from "@/lib/agreements/versions";
+import { formatDocumentDate, formatMoney, joinAddress } from "@/lib/documents/format";
+import { fetchBaseCurrency } from "@/lib/currency/rates";
+import type { DocumentBlock, DocumentLayout, DocumentSignature } from "@/lib/documents/layout";
+
+interface AgreementParty {
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  aadhar_number: string | null;
+  pan_number: string | null;
+}
+
+interface AgreementRecord extends AgreementSnapshot {
+  id: string;
+  agreement_number: string;
+  status: string;
+  current_version: number | null;
+  signed_version: number | null;
+  tenant: AgreementParty | null;
+  landlord: AgreementParty | null;
+  // The organization's base currency
+  currency: string;
+}
+
+const PARTY_COLUMNS = "name, email, phone, address, city, state, aadhar_number, pan_number";
+
+async function fetchAgreementRecord(supabase: SupabaseClient, agreementId: string): Promise<AgreementRecord | null> {
+  const { data, error } = await supabase
+    .from("rent_agreements")
+    .select(`*, tenants:tenant_id (${PARTY_COLUMNS}), landlords:landlord_id (${PARTY_COLUMNS})`)
+    .eq("id", agreementId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return {
+    ...takeSnapshot(data),
+    id: data.id,
+    agreement_number: data.agreement_number,
+    status: data.status,
+    current_version: data.current_version,
+    signed_version: data.signed_version ?? null,
+    tenant: data.tenants ?? null,
+    landlord: data.landlords ?? null,
+    currency: await fetchBaseCurrency(supabase, data.user_id),
+  };
+}
+
+function describeParty(party: AgreementParty): string[] {
+  return [
+    party.name,
+    party.email,
+    party.phone,
+    joinAddress(party.address, party.city, party.state),
+    party.aadhar_number ? `Aadhar: ${party.aadhar_number.slice(0, 4)}****${party.aadhar_number.slice(-4)}` : null,
+    party.pan_number ? `PAN: ${party.pan_number}` : null,
+  ].filter((line): line is string => Boolean(line));
+}
+
+function formatSignedAt(signedAt: string): string {
+  return `${new Date(signedAt).toISOString().replace("T", " ").slice(0, 19)} UTC`;
+}
+
+function signatureLines(agreement: AgreementRecord, signatures: SignatureRequest[] = []): DocumentSignature[] {
+  return (["landlord", "tenant"] as const).map((party) => {
+    const name = agreement[party]?.name;
+    const signature = signatures.find((s) => s.party === party);
+    return {
+      label: `${SIGNING_PARTY_LABELS[party]}${name ? `: ${name}` : ""}`,
+      image: signature?.signature_type === "drawn" ? signature.signature_data ?? undefined : undefined,
+      typed: signature?.signature_type === "typed" ? signature.signature_data ?? undefined : undefined,
+      signedAt: signature?.signed_at ? formatSignedAt(signature.signed_at) : undefined,
+    };
+  });
+}
+
+function signatureCertificate(agreement: AgreementRecord, versionNumber: number, signatures: SignatureRequest[]): DocumentBlock[] {
+  const completed = agreement.signed_version === versionNumber;
+  return [
+    { type: "pageBreak" },
+    { type: "heading", text: "Signature Certificate" },
+    {
+      type: "paragraph",
+      text:
+        `Electronic signatures on rent agreement ${agreement.agreement_number}, version ${versionNumber}. ` +
+        (completed
+          ? "All parties have signed and this version is locked."
+          : "Signing is not yet complete."),
+    },
+    {
+      type: "table",
+      columns: [
+        { header: "Party", width: 0.13 },
+        { header: "Signer", width: 0.22 },
+        { header: "Method", width: 0.11 },
+        { header: "Signed At", width: 0.27 },
+        { header: "IP Address", width: 0.27 },
+      ],
+      rows: signatures.map((signature) => [
+        SIGNING_PARTY_LABELS[signature.party],
+        signature.signer_email ? `${signature.signer_name}\n${signature.signer_email}` : signature.signer_name,
+        signature.signature_type === "drawn" ? "Drawn" : "Typed",
+        signature.signed_at ? formatSignedAt(signature.signed_at) : "-",
+        signature.ip_address || "-",
+      ]),
+    },
+    {
+      type: "fields",
+      items: signatures.flatMap((signature) => [
+        { label: `${SIGNING_PARTY_LABELS[signature.party]} document hash`, value: signature.document_hash || "-" },
+        { label: `${SIGNING_PARTY_LABELS[signature.party]} browser`, value: signature.user_agent || "-" },
+      ]),
+    },
+    {
+      type: "paragraph",
+      muted: true,
+      text: "The document hash is the SHA-256 fingerprint of the agreement terms each signer was shown.",
+    },
+  ];
+}
+
+/**
+ * Layout for a rent agreement. Pass a version number to render a historical version.
+ */
+export async function buildAgreementDocument(
+  supabase: SupabaseClient,
+  agreementId: string,
+  options: { version?: number } = {}
+): Promise<DocumentLayout | null> {
+  const record = await fetchAgreementRecord(supabase, agreementId);
+  if (!record) return null;
+
+  let agreement = record;
+  if (options.version) {
+    const { data, error } = await supabase
+      .from("agreement_versions")
+      .select("snapshot")
+      .eq("agreement_id", agreementId)
+      .eq("version_number", options.version)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    agreement = { ...record, ...takeSnapshot(data.snapshot) };
+  }
+
+  const money = (amount: number) => formatMoney(amount, agreement.currency);
+  const schedule = buildRentSchedule(
+    agreement.monthly_rent,
+    agreement.start_date,
+    agreement.escalation_rule,
+    getProjectionYears(agreement.start_date, agreement.end_date)
+  );
+
+  const blocks: DocumentBlock[] = [
+    { type: "heading", text: "Property Details" },
+    {
+      type: "paragraph",
+      text: `${agreement.property_address}\n${agreement.property_city}, ${agreement.property_state} - ${agreement.property_pincode}`,
+    },
+  ];
+
+  const parties = [
+    agreement.landlord && { title: "Landlord", lines: describeParty(agreement.landlord) },
+    agreement.tenant && { title: "Tenant", lines: describeParty(agreement.tenant) },
+  ].filter((column): column is { title: string; lines: string[] } => Boolean(column));
+  if (parties.length > 0) {
+    blocks.push({ type: "heading", text: "Parties" }, { type: "columns", columns: parties });
+  }
+
+  blocks.push(
+    { type: "heading", text: "Financial Details" },
+    {
+      type: "fields",
+      items: [
+        { label: "Monthly Rent", value: money(agreement.monthly_rent) },
+        { label: "Security Deposit", value: money(agreement.deposit_amount) },
+        { label: "Notice Period", value: `${agreement.notice_period_days} days` },
+        { label: "Rent Escalation", value: describeEscalationRule(agreement.escalation_rule, agreement.currency) },
+        { label: "Late Fee", value: describeLateFeePolicy(agreement.late_fee_policy, agreement.currency) },
+      ],
+    },
+    { type: "heading", text: "Projected Rent Schedule" },
+    {
+      type: "table",
+      columns: [
+        { header: "Year", width: 0.1 },
+        { header: "Period", width: 0.45 },
+        { header: "Increase", width: 0.2, align: "right" },
+        { header: "Monthly Rent", width: 0.25, align: "right" },
+      ],
+      rows: schedule.map((entry) => [
+        String(entry.year),
+        `${formatDocumentDate(entry.start_date)} - ${formatDocumentDate(entry.end_date)}`,
+        entry.year === 1 ? "-" : `+${entry.increase_percentage.toFixed(1)}%`,
+        money(entry.monthly_rent),
+      ]),
+    }
+  );
+
+  // Library clauses as numbered sections, followed by any free-text terms
+  const sections = [...agreement.clauses];
+  if (agreement.terms) {
+    sections.push({ clause_id: null, title: sections.length > 0 ? "Additional Terms" : "General", body: agreement.terms });
+  }
+  if (sections.length > 0) {
+    blocks.push({ type: "heading", text: "Terms & Conditions" }, { type: "sections", items: sections });
+  }
+
+  if (agreement.notes) {
+    blocks.push({ type: "heading", text: "Additional Notes" }, { type: "paragraph", text: agreement.notes });
+  }
+
+  const versionNumber = options.version ?? record.current_version;
+  const signatures = versionNumber ? await fetchVersionSignatures(supabase, agreementId, versionNumber) : [];
+  blocks.push({ type: "signatures", parties: signatureLines(agreement, signatures) });
+  if (versionNumber && signatures.length > 0) {
+    blocks.push(...signatureCertificate(agreement, versionNumber, signatures));
+  }
+
+  return {
+    title: "RENT AGREEMENT",
+    meta: [
+      { label: "Agreement #", value: agreement.agreement_number },
+      { label: "Start Date", value: formatDocumentDate(agreement.start_date) },
+      { label: "End Date", value: formatDocumentDate(agreement.end_date) },
+      options.version
+        ? { label: "Version", value: String(options.version) }
+        : { label: "Status", value: getStatusLabel(agreement.status) },
+    ],
+    blocks,
+    footer: "This is a legally binding rent agreement document.",
+    filename: options.version
+      ? `rent-agreement-${agreement.agreement_number}-v${options.version}.pdf`
+      : `rent-agreement-${agreement.agreement_number}.pdf`,
+  };
+}
+
+/**
+ * Layout for an addendum listing the terms changed by an amendment
+ */
+export async function buildAddendumDocument(supabase: SupabaseClient, amendmentId: string): Promise<DocumentLayout | null> {
+  const { data: amendment, error } = await supabase
+    .from("agreement_amendments")
+    .select("id, agreement_id, version_number, effective_date, reason, changes, created_at")
+    .eq("id", amendmentId)
+    .maybeSingle<AgreementAmendment & { agreement_id: string }>();
+
+  if (error) throw error;
+  if (!amendment) return null;
+
+  const agreement = await fetchAgreementRecord(supabase, amendment.agreement_id);
+  if (!agreement) return null;
+
+  const parties = [agreement.landlord?.name, agreement.tenant?.name].filter(Boolean).join(" and ");
+
+  return {
+    title: `ADDENDUM NO. ${amendment.version_number - 1}`,
+    meta: [
+      { label: "Agreement #", value: agreement.agreement_number },
+      { label: "Version", value: String(amendment.version_number) },
+      { label: "Effective", value: formatDocumentDate(amendment.effective_date) },
+    ],
+    blocks: [
+      {
+        type: "paragraph",
+        text:
+          `This addendum amends the rent agreement ${agreement.agreement_number}${parties ? ` between ${parties}` : ""} ` +
+          `for the property at ${agreement.property_address}, ${agreement.property_city}. ` +
+          `With effect from ${formatDocumentDate(amendment.effective_date)}, the following terms are amended. ` +
+          "All other terms of the agreement remain unchanged.",
+      },
+      { type: "heading", text: "Reason" },
+      { type: "paragraph", text: amendment.reason },
+      { type: "heading", text: "Amended Terms" },
+      {
+        type: "table",
+        columns: [
+          { header: "Term", width: 0.24 },
+          { header: "Previously", width: 0.38 },
+          { header: "Amended To", width: 0.38 },
+        ],
+        rows: amendment.changes.map((change) => [
+          VERSIONED_FIELD_LABELS[change.field],
+          formatFieldValue(change.field, change.from, agreement.currency),
+          formatFieldValue(change.field, change.to, agreement.currency),
+        ]),
+      },
+      { type: "signatures", parties: signatureLines(agreement) },
+    ],
+    footer: "This addendum forms part of the rent agreement referenced above.",
+    filename: `addendum-${agreement.agreement_number}-v${amendment.version_number}.pdf`,
+  };
+}
@@ -0,0 +1,135 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { formatDocumentDate, formatMoney, joinAddress } from "@/lib/documents/format";
+import type { DocumentBlock, DocumentLayout } from "@/lib/documents/layout";
+import { buildGstBlocks, gstTotalsItems } from "@/lib/documents/templates/invoice";
+import { getGstStateLabel, getGstinStateCode, getSupplyType, type SupplyType } from "@/lib/invoices/gst";
+
+interface CreditNoteItem {
+  description: string;
+  hsn_sac: string | null;
+  quantity: number;
+  unit_price: number;
+  tax_rate: number;
+  line_total: number;
+  taxable_value: number | null;
+}
+
+/**
+ * Layout for a credit note, in the currency of the invoice it credits
+ */
+export async function buildCreditNoteDocument(
+  supabase: SupabaseClient,
+  creditNoteId: string
+): Promise<DocumentLayout | null> {
+  const { data: creditNote, error } = await supabase
+    .from("credit_notes")
+    .select(
+      "*, invoices:invoice_id (invoice_number, issue_date, total, tax_rate, currency, tax_mode, seller_gstin, buyer_gstin, place_of_supply, clients:client_id (name, email, address, city, state, zip_code, country))"
+    )
+    .eq("id", creditNoteId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!creditNote) return null;
+
+  const { data: items, error: itemsError } = await supabase
+    .from("credit_note_items")
+    .select("description, hsn_sac, quantity, unit_price, tax_rate, line_total, taxable_value")
+    .eq("credit_note_id", creditNoteId)
+    .order("sort_order")
+    .returns<CreditNoteItem[]>();
+
+  if (itemsError) throw itemsError;
+
+  const invoice = creditNote.invoices;
+  const money = (amount: number) => formatMoney(amount, invoice?.currency || "INR");
+  const client = invoice?.clients;
+  const supplyType: SupplyType | null =
+    invoice?.tax_mode === "gst" && invoice.seller_gstin && invoice.place_of_supply
+      ? getSupplyType(getGstinStateCode(invoice.seller_gstin), invoice.place_of_supply)
+      : null;
+  const gst = supplyType ? buildGstBlocks(items || [], supplyType, money) : null;
+
+  const blocks: DocumentBlock[] = [];
+  if (client) {
+    blocks.push({
+      type: "columns",
+      columns: [
+        {
+          title: "Credit To",
+          lines: [
+            client.name,
+            client.email,
+            client.address,
+            joinAddress(client.city, client.state, client.zip_code),
+            client.country,
+            supplyType && invoice.buyer_gstin ? `GSTIN: ${invoice.buyer_gstin}` : null,
+          ].filter(Boolean),
+        },
+      ],
+    });
+  }
+
+  blocks.push(
+    { type: "heading", text: "Reason" },
+    { type: "paragraph", text: creditNote.reason },
+    gst?.itemTable ?? {
+      type: "table",
+      columns: [
+        { header: "Description", width: 0.46 },
+        { header: "Qty", width: 0.1, align: "right" },
+        { header: "Unit Price", width: 0.22, align: "right" },
+        { header: "Total", width: 0.22, align: "right" },
+      ],
+      rows: (items || []).map((item) => [
+        item.description,
+        String(item.quantity),
+        money(item.unit_price),
+        money(item.line_total),
+      ]),
+    },
+    {
+      type: "totals",
+      items: [
+        { label: "Subtotal", value: money(creditNote.subtotal) },
+        ...(supplyType
+          ? [
+              ...(creditNote.discount_amount > 0 ? [{ label: "Discount", value: `-${money(creditNote.discount_amount)}` }] : []),
+              ...gstTotalsItems(creditNote, supplyType, money),
+            ]
+          : [
+              { label: "Tax", value: money(creditNote.tax_amount) },
+              ...(creditNote.discount_amount > 0 ? [{ label: "Discount", value: `-${money(creditNote.discount_amount)}` }] : []),
+            ]),
+        { label: "Total Credited", value: money(creditNote.total), emphasis: true },
+      ],
+    }
+  );
+
+  if (gst) {
+    blocks.push(...gst.taxSummary);
+  }
+
+  return {
+    title: "CREDIT NOTE",
+    meta: [
+      { label: "Credit Note #", value: creditNote.credit_note_number },
+      { label: "Issue Date", value: formatDocumentDate(creditNote.issue_date) },
+      ...(invoice
+        ? [
+            { label: "Against Invoice", value: invoice.invoice_number },
+            { label: "Invoice Date", value: formatDocumentDate(invoice.issue_date) },
+          ]
+        : []),
+      ...(supplyType
+        ? [
+            { label: "GSTIN", value: invoice.seller_gstin },
+            { label: "Place of Supply", value: getGstStateLabel(invoice.place_of_supply) },
+          ]
+        : []),
+    ],
+    blocks,
+    footer: "This credit note reduces the amount due on the invoice above.",
+    filename: `credit-note-${creditNote.credit_note_number}.pdf`,
+  };
+}
@@ -0,0 +1,252 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { formatDocumentDate, formatMoney, joinAddress } from "@/lib/documents/format";
+import type { DocumentBlock, DocumentLayout } from "@/lib/documents/layout";
+import {
+  getGstStateLabel,
+  getGstinStateCode,
+  getSupplyType,
+  splitGstAmount,
+  summarizeGstByRate,
+  type SupplyType,
+} from "@/lib/invoices/gst";
+import { fetchInvoicePayments, getInvoiceStatusLabel, getPaymentMethodLabel } from "@/lib/invoices/payments";
+
+interface InvoiceItem {
+  description: string;
+  hsn_sac: string | null;
+  quantity: number;
+  unit_price: number;
+  tax_rate: number;
+  line_total: number;
+  taxable_value: number | null;
+}
+
+/**
+ * Item table and tax summary by rate for a GST invoice or credit note
+ */
+export function buildGstBlocks(
+  items: InvoiceItem[],
+  supplyType: SupplyType,
+  money: (amount: number) => string
+): { itemTable: DocumentBlock; taxSummary: DocumentBlock[] } {
+  const lines = items.map((item) => ({
+    tax_rate: Number(item.tax_rate),
+    ...splitGstAmount(Number(item.taxable_value ?? item.line_total), Number(item.tax_rate), supplyType),
+  }));
+  const summary = summarizeGstByRate(lines);
+  const interState = supplyType === "inter_state";
+
+  return {
+    itemTable: {
+      type: "table",
+      columns: [
+        { header: "Description", width: 0.32 },
+        { header: "HSN/SAC", width: 0.12 },
+        { header: "Qty", width: 0.08, align: "right" },
+        { header: "Unit Price", width: 0.16, align: "right" },
+        { header: "GST", width: 0.1, align: "right" },
+        { header: "Taxable Value", width: 0.22, align: "right" },
+      ],
+      rows: items.map((item, index) => [
+        item.description,
+        item.hsn_sac || "",
+        String(item.quantity),
+        money(item.unit_price),
+        `${item.tax_rate}%`,
+        money(lines[index].taxable_value),
+      ]),
+    },
+    taxSummary: [
+      { type: "heading", text: "Tax Summary" },
+      {
+        type: "table",
+        columns: interState
+          ? [
+              { header: "GST Rate", width: 0.25 },
+              { header: "Taxable Value", width: 0.25, align: "right" },
+              { header: "IGST", width: 0.25, align: "right" },
+              { header: "Total Tax", width: 0.25, align: "right" },
+            ]
+          : [
+              { header: "GST Rate", width: 0.2 },
+              { header: "Taxable Value", width: 0.2, align: "right" },
+              { header: "CGST", width: 0.2, align: "right" },
+              { header: "SGST", width: 0.2, align: "right" },
+              { header: "Total Tax", width: 0.2, align: "right" },
+            ],
+        rows: summary.map((row) =>
+          interState
+            ? [`${row.rate}%`, money(row.taxable_value), money(row.igst), money(row.igst)]
+            : [
+                `${row.rate}% (${row.rate / 2}% + ${row.rate / 2}%)`,
+                money(row.taxable_value),
+                money(row.cgst),
+                money(row.sgst),
+                money(row.cgst + row.sgst),
+              ]
+        ),
+      },
+    ],
+  };
+}
+
+/**
+ * CGST and SGST, or IGST, as totals lines
+ */
+export function gstTotalsItems(
+  amounts: { cgst_amount: number; sgst_amount: number; igst_amount: number },
+  supplyType: SupplyType,
+  money: (amount: number) => string
+) {
+  return supplyType === "inter_state"
+    ? [{ label: "IGST", value: money(amounts.igst_amount) }]
+    : [
+        { label: "CGST", value: money(amounts.cgst_amount) },
+        { label: "SGST", value: money(amounts.sgst_amount) },
+      ];
+}
+
+/**
+ * Layout for a client invoice, in the invoice's own currency
+ */
+export async function buildInvoiceDocument(supabase: SupabaseClient, invoiceId: string): Promise<DocumentLayout | null> {
+  const { data: invoice, error } = await supabase
+    .from("invoices")
+    .select("*, clients:client_id (name, email, address, city, state, zip_code, country)")
+    .eq("id", invoiceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!invoice) return null;
+
+  const { data: items, error: itemsError } = await supabase
+    .from("invoice_items")
+    .select("description, hsn_sac, quantity, unit_price, tax_rate, line_total, taxable_value")
+    .eq("invoice_id", invoiceId)
+    .order("sort_order")
+    .returns<InvoiceItem[]>();
+
+  if (itemsError) throw itemsError;
+
+  const payments = await fetchInvoicePayments(supabase, invoiceId);
+
+  const money = (amount: number) => formatMoney(amount, invoice.currency || "INR");
+  const client = invoice.clients;
+  const balance = invoice.total - (invoice.paid_amount || 0) - (invoice.credited_amount || 0);
+  const settled = invoice.paid_amount > 0 || invoice.credited_amount > 0;
+  const supplyType: SupplyType | null =
+    invoice.tax_mode === "gst" && invoice.seller_gstin && invoice.place_of_supply
+      ? getSupplyType(getGstinStateCode(invoice.seller_gstin), invoice.place_of_supply)
+      : null;
+
+  const blocks: DocumentBlock[] = [];
+  if (client) {
+    blocks.push({
+      type: "columns",
+      columns: [
+        {
+          title: "Bill To",
+          lines: [
+            client.name,
+            client.email,
+            client.address,
+            joinAddress(client.city, client.state, client.zip_code),
+            client.country,
+            supplyType && invoice.buyer_gstin ? `GSTIN: ${invoice.buyer_gstin}` : null,
+          ].filter(Boolean),
+        },
+      ],
+    });
+  }
+
+  const gst = supplyType ? buildGstBlocks(items || [], supplyType, money) : null;
+
+  blocks.push(
+    gst?.itemTable ?? {
+      type: "table",
+      columns: [
+        { header: "Description", width: 0.46 },
+        { header: "Qty", width: 0.1, align: "right" },
+        { header: "Unit Price", width: 0.22, align: "right" },
+        { header: "Total", width: 0.22, align: "right" },
+      ],
+      rows: (items || []).map((item) => [
+        item.description,
+        String(item.quantity),
+        money(item.unit_price),
+        money(item.line_total),
+      ]),
+    },
+    {
+      type: "totals",
+      items: [
+        { label: "Subtotal", value: money(invoice.subtotal) },
+        ...(supplyType
+          ? [
+              // GST is charged after the discount
+              ...(invoice.discount_amount > 0 ? [{ label: "Discount", value: `-${money(invoice.discount_amount)}` }] : []),
+              ...gstTotalsItems(invoice, supplyType, money),
+            ]
+          : [
+              { label: `Tax (${invoice.tax_rate}%)`, value: money(invoice.tax_amount) },
+              ...(invoice.discount_amount > 0 ? [{ label: "Discount", value: `-${money(invoice.discount_amount)}` }] : []),
+            ]),
+        { label: "Total", value: money(invoice.total), emphasis: true },
+        ...(invoice.credited_amount > 0 ? [{ label: "Credited", value: `-${money(invoice.credited_amount)}` }] : []),
+        ...(invoice.paid_amount > 0 ? [{ label: "Amount Paid", value: money(invoice.paid_amount) }] : []),
+        ...(settled ? [{ label: "Balance Due", value: money(Math.max(0, balance)), emphasis: true }] : []),
+      ],
+    }
+  );
+
+  if (gst) {
+    blocks.push(...gst.taxSummary);
+  }
+
+  if (payments.length > 0) {
+    blocks.push(
+      { type: "heading", text: "Payments Received" },
+      {
+        type: "table",
+        columns: [
+          { header: "Date", width: 0.22 },
+          { header: "Method", width: 0.22 },
+          { header: "Reference", width: 0.34 },
+          { header: "Amount", width: 0.22, align: "right" },
+        ],
+        rows: payments.map((payment) => [
+          formatDocumentDate(payment.payment_date),
+          getPaymentMethodLabel(payment.payment_method),
+          payment.reference || "",
+          money(payment.amount),
+        ]),
+      }
+    );
+  }
+
+  if (invoice.notes) {
+    blocks.push({ type: "heading", text: "Notes" }, { type: "paragraph", text: invoice.notes });
+  }
+  if (invoice.terms) {
+    blocks.push({ type: "heading", text: "Terms & Conditions" }, { type: "paragraph", text: invoice.terms, muted: true });
+  }
+
+  return {
+    title: supplyType ? "TAX INVOICE" : "INVOICE",
+    meta: [
+      { label: "Invoice #", value: invoice.invoice_number },
+      { label: "Issue Date", value: formatDocumentDate(invoice.issue_date) },
+      { label: "Due Date", value: formatDocumentDate(invoice.due_date) },
+      ...(supplyType
+        ? [
+            { label: "GSTIN", value: invoice.seller_gstin },
+            { label: "Place of Supply", value: getGstStateLabel(invoice.place_of_supply) },
+          ]
+        : []),
+      { label: "Status", value: getInvoiceStatusLabel(invoice.status) },
+    ],
+    blocks,
+    footer: "Thank you for your business.",
+    filename: `invoice-${invoice.invoice_number}.pdf`,
+  };
+}
@@ -0,0 +1,106 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchRentAccount } from "@/lib/agreements/dues";
+import { fetchBaseCurrency } from "@/lib/currency/rates";
+import { formatDocumentDate, formatMoney } from "@/lib/documents/format";
+import type { DocumentBlock, DocumentField, DocumentLayout } from "@/lib/documents/layout";
+
+/**
+ * Layout for a rent payment receipt
+ */
+export async function buildReceiptDocument(supabase: SupabaseClient, paymentId: string): Promise<DocumentLayout | null> {
+  const { data: payment, error } = await supabase
+    .from("rent_payments")
+    .select(`
+      id,
+      user_id,
+      agreement_id,
+      payment_date,
+      amount,
+      payment_method,
+      payment_reference,
+      receipt_number,
+      notes,
+      rent_agreements:agreement_id (
+        agreement_number,
+        property_address,
+        property_city,
+        tenants:tenant_id (name),
+        landlords:landlord_id (name)
+      )
+    `)
+    .eq("id", paymentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!payment) return null;
+
+  // Supabase types one-to-one embeds as arrays; unwrap whichever shape comes back
+  const first = <T>(value: T | T[] | null | undefined): T | null =>
+    Array.isArray(value) ? value[0] ?? null : value ?? null;
+  const agreement = first(payment.rent_agreements);
+  const tenant = first(agreement?.tenants);
+  const landlord = first(agreement?.landlords);
+  // Rent is collected in the organization's base currency
+  const currency = await fetchBaseCurrency(supabase, payment.user_id);
+  const receiptNumber = payment.receipt_number || `PAY-${payment.id.slice(0, 8)}`;
+
+  const details: DocumentField[] = [
+    { label: "Amount Paid", value: formatMoney(payment.amount, currency) },
+    { label: "Payment Date", value: formatDocumentDate(payment.payment_date) },
+  ];
+  if (payment.payment_method) details.push({ label: "Payment Method", value: payment.payment_method });
+  if (payment.payment_reference) details.push({ label: "Reference", value: payment.payment_reference });
+
+  // Split the payment between rent and late fees the way the rent account allocates it
+  const breakdown: DocumentBlock[] = [];
+  if (payment.agreement_id) {
+    const account = await fetchRentAccount(supabase, payment.agreement_id);
+    const applied = { rent: 0, late_fee: 0 };
+    for (const line of account.lines) {
+      for (const entry of line.payments) {
+        if (entry.payment_id === payment.id) applied[line.kind ?? "rent"] += entry.amount;
+      }
+    }
+
+    if (applied.late_fee > 0) {
+      const unallocated = Math.round((Number(payment.amount) - applied.rent - applied.late_fee) * 100) / 100;
+      breakdown.push({
+        type: "totals",
+        items: [
+          { label: "Rent", value: formatMoney(applied.rent, currency) },
+          { label: "Late Fee", value: formatMoney(applied.late_fee, currency) },
+          ...(unallocated > 0 ? [{ label: "Advance", value: formatMoney(unallocated, currency) }] : []),
+          { label: "Total Paid", value: formatMoney(payment.amount, currency), emphasis: true },
+        ],
+      });
+    }
+  }
+
+  const agreementFields: DocumentField[] = [];
+  if (agreement) {
+    agreementFields.push({ label: "Agreement #", value: agreement.agreement_number });
+    agreementFields.push({ label: "Property", value: `${agreement.property_address}, ${agreement.property_city}` });
+  }
+  if (tenant) agreementFields.push({ label: "Received From", value: tenant.name });
+  if (landlord) agreementFields.push({ label: "Landlord", value: landlord.name });
+
+  return {
+    title: "RENT RECEIPT",
+    meta: [
+      { label: "Receipt #", value: receiptNumber },
+      { label: "Date", value: formatDocumentDate(payment.payment_date) },
+    ],
+    blocks: [
+      { type: "heading", text: "Payment Details" },
+      { type: "fields", items: details },
+      ...breakdown,
+      ...(agreementFields.length > 0
+        ? [{ type: "heading" as const, text: "Agreement" }, { type: "fields" as const, items: agreementFields }]
+        : []),
+      ...(payment.notes ? [{ type: "paragraph" as const, text: payment.notes, muted: true }] : []),
+      { type: "signatures", parties: [{ label: `Received by${landlord ? `: ${landlord.name}` : ""}` }] },
+    ],
+    footer: "This is an official receipt for rent payment.",
+    filename: `receipt-${receiptNumber}.pdf`,
+  };
+}
@@ -0,0 +1,123 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DEPOSIT_ENTRY_LABELS, fetchDepositLedger, getDepositEffect, summarizeDeposit } from "@/lib/agreements/deposits";
+import { fetchBaseCurrency } from "@/lib/currency/rates";
+import { formatDocumentDate, formatMoney } from "@/lib/documents/format";
+import type { DocumentLayout } from "@/lib/documents/layout";
+
+/**
+ * Layout for a move-out settlement statement: deposit held, itemised deductions and the net refund
+ */
+export async function buildSettlementDocument(supabase: SupabaseClient, agreementId: string): Promise<DocumentLayout | null> {
+  const { data: agreement, error } = await supabase
+    .from("rent_agreements")
+    .select(`
+      id,
+      user_id,
+      agreement_number,
+      property_address,
+      property_city,
+      deposit_amount,
+      termination_date,
+      end_date,
+      deposit_settled_at,
+      deposit_refund_amount,
+      tenants:tenant_id (name),
+      landlords:landlord_id (name)
+    `)
+    .eq("id", agreementId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!agreement) return null;
+
+  const first = <T>(value: T | T[] | null | undefined): T | null =>
+    Array.isArray(value) ? value[0] ?? null : value ?? null;
+  const tenant = first(agreement.tenants);
+  const landlord = first(agreement.landlords);
+
+  // Deposits are held in the organization's base currency like the rent
+  const currency = await fetchBaseCurrency(supabase, agreement.user_id);
+  const money = (amount: number) => formatMoney(amount, currency);
+  const ledger = await fetchDepositLedger(supabase, agreementId);
+  const summary = summarizeDeposit(ledger, Number(agreement.deposit_amount));
+  const deductions = ledger.filter((entry) => entry.entry_type === "deduction");
+  const moveOutDate = agreement.termination_date || agreement.end_date;
+
+  // The refund is the balance held before the settlement refund was paid out
+  const refund = agreement.deposit_settled_at ? Number(agreement.deposit_refund_amount ?? 0) : Math.max(0, summary.held);
+  const heldBeforeDeductions = summary.received + summary.adjusted;
+  const earlierRefunds = agreement.deposit_settled_at ? summary.refunded - refund : summary.refunded;
+
+  return {
+    title: "DEPOSIT SETTLEMENT",
+    meta: [
+      { label: "Agreement #", value: agreement.agreement_number },
+      { label: "Move-out", value: formatDocumentDate(moveOutDate) },
+      agreement.deposit_settled_at
+        ? { label: "Settled", value: formatDocumentDate(agreement.deposit_settled_at) }
+        : { label: "Status", value: "Draft" },
+    ],
+    blocks: [
+      { type: "heading", text: "Tenancy" },
+      {
+        type: "fields",
+        items: [
+          { label: "Property", value: `${agreement.property_address}, ${agreement.property_city}` },
+          { label: "Tenant", value: tenant?.name || "-" },
+          { label: "Landlord", value: landlord?.name || "-" },
+          { label: "Agreed Deposit", value: money(summary.expected) },
+        ],
+      },
+      { type: "heading", text: "Deductions" },
+      deductions.length > 0
+        ? {
+            type: "table",
+            columns: [
+              { header: "Date", width: 0.18 },
+              { header: "Description", width: 0.57 },
+              { header: "Amount", width: 0.25, align: "right" },
+            ],
+            rows: deductions.map((entry) => [
+              formatDocumentDate(entry.entry_date),
+              entry.maintenance ? `${entry.description}\nMaintenance: ${entry.maintenance.title}` : entry.description,
+              money(entry.amount),
+            ]),
+          }
+        : { type: "paragraph", text: "No deductions were made from the deposit.", muted: true },
+      {
+        type: "totals",
+        items: [
+          { label: "Deposit Held", value: money(heldBeforeDeductions) },
+          { label: "Less Deductions", value: `- ${money(summary.deducted)}` },
+          ...(earlierRefunds > 0 ? [{ label: "Less Earlier Refunds", value: `- ${money(earlierRefunds)}` }] : []),
+          { label: "Net Refund", value: money(refund), emphasis: true },
+        ],
+      },
+      { type: "heading", text: "Deposit Ledger" },
+      {
+        type: "table",
+        columns: [
+          { header: "Date", width: 0.16 },
+          { header: "Type", width: 0.16 },
+          { header: "Description", width: 0.43 },
+          { header: "Amount", width: 0.25, align: "right" },
+        ],
+        rows: ledger.map((entry) => [
+          formatDocumentDate(entry.entry_date),
+          DEPOSIT_ENTRY_LABELS[entry.entry_type],
+          entry.reference ? `${entry.description} (${entry.reference})` : entry.description,
+          getDepositEffect(entry) < 0 ? `- ${money(Math.abs(getDepositEffect(entry)))}` : money(getDepositEffect(entry)),
+        ]),
+      },
+      {
+        type: "signatures",
+        parties: [
+          { label: `Landlord${landlord ? `: ${landlord.name}` : ""}` },
+          { label: `Tenant${tenant ? `: ${tenant.name}` : ""}` },
+        ],
+      },
+    ],
+    footer: "Statement of the security deposit held under the rent agreement referenced above.",
+    filename: `deposit-settlement-${agreement.agreement_number}.pdf`,
+  };
+}
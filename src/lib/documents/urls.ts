@@ -0,0 +1,9 @@
+export type DocumentType = "agreement" | "addendum" | "invoice" | "credit_note" | "receipt" | "settlement" | "aged_receivables";
+
+/**
+ * Stable URL of a generated document, e.g. /api/documents/invoice/<id>.pdf
+ */
+export function getDocumentUrl(type: DocumentType, id: string, params: Record<string, string | number> = {}): string {
+  const query = new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)])).toString();
+  return `/api/documents/${type}/${id}.pdf${query ? `?${query}` : ""}`;
+}
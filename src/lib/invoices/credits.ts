@@ -0,0 +1,393 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import { allocateDocumentNumber } from "@/lib/documents/numbering";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { calculateGstTotals, getGstinStateCode, getSupplyType, type TaxMode } from "@/lib/invoices/gst";
+import { refreshInvoiceBalance, type InvoiceStatus, type PayableInvoice } from "@/lib/invoices/payments";
+import { calculateInvoiceTotals, type InvoiceAdjustments, type InvoiceTotals } from "@/lib/invoices/totals";
+
+export interface CreditableInvoice extends PayableInvoice, InvoiceAdjustments {
+  invoice_number: string;
+  subtotal: number;
+  paid_amount: number;
+  tax_mode: TaxMode;
+  seller_gstin: string | null;
+  place_of_supply: string | null;
+}
+
+export interface CreditableItem {
+  id: string;
+  description: string;
+  hsn_sac: string | null;
+  quantity: number;
+  unit_price: number;
+  tax_rate: number;
+  // Already credited by earlier credit notes
+  credited_quantity: number;
+  remaining_quantity: number;
+}
+
+export interface CreditNoteLine {
+  invoice_item_id: string;
+  quantity: number;
+}
+
+export interface CreditNoteInput {
+  issue_date: string;
+  reason: string;
+  lines: CreditNoteLine[];
+}
+
+export interface CreditNote {
+  id: string;
+  invoice_id: string;
+  credit_note_number: string;
+  issue_date: string;
+  reason: string;
+  subtotal: number;
+  tax_amount: number;
+  discount_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total: number;
+  created_at: string;
+}
+
+export interface CreditNoteTotals extends InvoiceTotals {
+  cgst: number;
+  sgst: number;
+  igst: number;
+  // Taxable value of each credited line on a GST invoice
+  taxable_values: Array<number | null>;
+}
+
+export const CREDIT_NOTE_COLUMNS =
+  "id, invoice_id, credit_note_number, issue_date, reason, subtotal, tax_amount, discount_amount, cgst_amount, sgst_amount, igst_amount, total, created_at";
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Amount still open to credit on an invoice
+ */
+export function getCreditableAmount(invoice: Pick<CreditableInvoice, "total" | "credited_amount">): number {
+  return Math.max(0, roundMoney(invoice.total - invoice.credited_amount));
+}
+
+type CreditTotalsInvoice = Pick<
+  CreditableInvoice,
+  | "subtotal"
+  | "total"
+  | "credited_amount"
+  | "tax_rate"
+  | "discount"
+  | "discount_type"
+  | "tax_mode"
+  | "seller_gstin"
+  | "place_of_supply"
+>;
+
+/**
+ * Totals of a credit note for the given lines. Tax applies as on the invoice, and an
+ * amount discount is shared out in proportion to the credited subtotal. Crediting
+ * everything that is left takes the invoice's remaining amount exactly, so rounding
+ * never leaves a cent open.
+ */
+export function calculateCreditNoteTotals(
+  invoice: CreditTotalsInvoice,
+  items: CreditableItem[],
+  lines: CreditNoteLine[]
+): CreditNoteTotals {
+  const credited = lines
+    .filter((line) => line.quantity > 0)
+    .map((line) => {
+      const item = items.find((entry) => entry.id === line.invoice_item_id);
+      return { quantity: line.quantity, unit_price: item?.unit_price ?? 0, tax_rate: item?.tax_rate ?? 0 };
+    });
+
+  const creditedSubtotal = credited.reduce((sum, line) => sum + line.quantity * line.unit_price, 0);
+  const discount =
+    invoice.discount_type === "amount"
+      ? invoice.subtotal > 0
+        ? (invoice.discount || 0) * (creditedSubtotal / invoice.subtotal)
+        : 0
+      : invoice.discount;
+
+  const creditsEverything = items.every(
+    (item) =>
+      item.remaining_quantity <= 0 ||
+      lines.some((line) => line.invoice_item_id === item.id && line.quantity >= item.remaining_quantity)
+  );
+
+  if (invoice.tax_mode === "gst" && invoice.seller_gstin && invoice.place_of_supply) {
+    const supplyType = getSupplyType(getGstinStateCode(invoice.seller_gstin), invoice.place_of_supply);
+    const totals = calculateGstTotals(credited, { discount, discount_type: invoice.discount_type }, supplyType);
+    return {
+      ...totals,
+      total: creditsEverything ? getCreditableAmount(invoice) : totals.total,
+      taxable_values: totals.lines.map((line) => line.taxable_value),
+    };
+  }
+
+  const totals = calculateInvoiceTotals(credited, { ...invoice, discount });
+  return {
+    subtotal: roundMoney(totals.subtotal),
+    tax: roundMoney(totals.tax),
+    discount: roundMoney(totals.discount),
+    total: creditsEverything ? getCreditableAmount(invoice) : roundMoney(totals.total),
+    cgst: 0,
+    sgst: 0,
+    igst: 0,
+    taxable_values: credited.map(() => null),
+  };
+}
+
+/**
+ * Lines that credit everything still open on an invoice
+ */
+export function getFullCreditLines(items: CreditableItem[]): CreditNoteLine[] {
+  return items
+    .filter((item) => item.remaining_quantity > 0)
+    .map((item) => ({ invoice_item_id: item.id, quantity: item.remaining_quantity }));
+}
+
+/**
+ * Return why a credit note cannot be issued against an invoice, or null when it can
+ */
+export function getCreditNoteError(
+  invoice: CreditTotalsInvoice & Pick<CreditableInvoice, "status" | "currency">,
+  items: CreditableItem[],
+  input: CreditNoteInput
+): string | null {
+  if (invoice.status === "draft") {
+    return "A draft invoice has not been issued; edit or delete it instead";
+  }
+  if (invoice.status === "cancelled") {
+    return "This invoice is already cancelled";
+  }
+  if (!input.reason.trim()) {
+    return "A reason is required";
+  }
+
+  const lines = input.lines.filter((line) => line.quantity > 0);
+  if (lines.length === 0) {
+    return "Credit at least one line";
+  }
+  for (const line of lines) {
+    const item = items.find((entry) => entry.id === line.invoice_item_id);
+    if (!item) {
+      return "A credited line is not on this invoice";
+    }
+    if (line.quantity > item.remaining_quantity) {
+      return item.remaining_quantity > 0
+        ? `Only ${item.remaining_quantity} of "${item.description}" is left to credit`
+        : `"${item.description}" has already been credited in full`;
+    }
+  }
+
+  const { total } = calculateCreditNoteTotals(invoice, items, lines);
+  if (total <= 0) {
+    return "The credit note must be for more than zero";
+  }
+  const creditable = getCreditableAmount(invoice);
+  if (total > creditable) {
+    return `Only ${formatCurrency(creditable, invoice.currency)} is left to credit on this invoice`;
+  }
+  return null;
+}
+
+/**
+ * Load an invoice with the fields needed to credit or cancel it
+ */
+export async function fetchCreditableInvoice(supabase: SupabaseClient, invoiceId: string): Promise<CreditableInvoice> {
+  const { data, error } = await supabase
+    .from("invoices")
+    .select(
+      "id, user_id, invoice_number, status, due_date, currency, subtotal, tax_rate, discount, discount_type, total, paid_amount, credited_amount, tax_mode, seller_gstin, place_of_supply"
+    )
+    .eq("id", invoiceId)
+    .single();
+
+  if (error) throw error;
+  return {
+    ...data,
+    subtotal: Number(data.subtotal),
+    tax_rate: Number(data.tax_rate),
+    discount: Number(data.discount),
+    total: Number(data.total),
+    paid_amount: Number(data.paid_amount),
+    credited_amount: Number(data.credited_amount),
+  };
+}
+
+/**
+ * Load an invoice's lines with the quantity already credited against each
+ */
+export async function fetchCreditableItems(supabase: SupabaseClient, invoiceId: string): Promise<CreditableItem[]> {
+  const { data: items, error } = await supabase
+    .from("invoice_items")
+    .select("id, description, hsn_sac, quantity, unit_price, tax_rate")
+    .eq("invoice_id", invoiceId)
+    .order("sort_order", { ascending: true });
+
+  if (error) throw error;
+  if (!items || items.length === 0) return [];
+
+  const { data: creditedItems, error: creditedError } = await supabase
+    .from("credit_note_items")
+    .select("invoice_item_id, quantity")
+    .in("invoice_item_id", items.map((item) => item.id));
+
+  if (creditedError) throw creditedError;
+
+  return items.map((item) => {
+    const creditedQuantity = (creditedItems || [])
+      .filter((credited) => credited.invoice_item_id === item.id)
+      .reduce((sum, credited) => sum + Number(credited.quantity), 0);
+
+    return {
+      id: item.id,
+      description: item.description,
+      hsn_sac: item.hsn_sac,
+      quantity: Number(item.quantity),
+      unit_price: Number(item.unit_price),
+      tax_rate: Number(item.tax_rate),
+      credited_quantity: creditedQuantity,
+      remaining_quantity: roundMoney(Math.max(0, Number(item.quantity) - creditedQuantity)),
+    };
+  });
+}
+
+/**
+ * Load the credit notes issued against an invoice, oldest first
+ */
+export async function fetchCreditNotes(supabase: SupabaseClient, invoiceId: string): Promise<CreditNote[]> {
+  const { data, error } = await supabase
+    .from("credit_notes")
+    .select(CREDIT_NOTE_COLUMNS)
+    .eq("invoice_id", invoiceId)
+    .order("issue_date", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map((note) => ({
+    ...note,
+    subtotal: Number(note.subtotal),
+    tax_amount: Number(note.tax_amount),
+    discount_amount: Number(note.discount_amount),
+    cgst_amount: Number(note.cgst_amount),
+    sgst_amount: Number(note.sgst_amount),
+    igst_amount: Number(note.igst_amount),
+    total: Number(note.total),
+  }));
+}
+
+/**
+ * Issue a numbered credit note against an invoice and reduce its balance.
+ * Returns the new credit note's id.
+ */
+export async function issueCreditNote(
+  supabase: SupabaseClient,
+  invoice: CreditableInvoice,
+  input: CreditNoteInput,
+  actorId: string
+): Promise<string> {
+  const items = await fetchCreditableItems(supabase, invoice.id);
+  const creditError = getCreditNoteError(invoice, items, input);
+  if (creditError) throw new Error(creditError);
+
+  const lines = input.lines.filter((line) => line.quantity > 0);
+  const totals = calculateCreditNoteTotals(invoice, items, lines);
+  const creditNoteNumber = await allocateDocumentNumber(supabase, invoice.user_id, "credit_note", input.issue_date);
+
+  const { data: creditNote, error } = await supabase
+    .from("credit_notes")
+    .insert({
+      user_id: invoice.user_id,
+      invoice_id: invoice.id,
+      credit_note_number: creditNoteNumber,
+      issue_date: input.issue_date,
+      reason: input.reason.trim(),
+      subtotal: totals.subtotal,
+      tax_amount: totals.tax,
+      discount_amount: totals.discount,
+      cgst_amount: totals.cgst,
+      sgst_amount: totals.sgst,
+      igst_amount: totals.igst,
+      total: totals.total,
+      created_by: actorId,
+    })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+
+  const { error: itemsError } = await supabase.from("credit_note_items").insert(
+    lines.map((line, index) => {
+      const item = items.find((entry) => entry.id === line.invoice_item_id)!;
+      return {
+        credit_note_id: creditNote.id,
+        user_id: invoice.user_id,
+        invoice_item_id: item.id,
+        description: item.description,
+        hsn_sac: item.hsn_sac,
+        quantity: line.quantity,
+        unit_price: item.unit_price,
+        tax_rate: item.tax_rate,
+        line_total: roundMoney(line.quantity * item.unit_price),
+        taxable_value: totals.taxable_values[index],
+        sort_order: index,
+      };
+    })
+  );
+
+  if (itemsError) {
+    // A credit note without its lines would credit nothing; the number shows as a gap
+    await supabase.from("credit_notes").delete().eq("id", creditNote.id);
+    throw itemsError;
+  }
+
+  await refreshInvoiceBalance(supabase, invoice);
+  return creditNote.id;
+}
+
+/**
+ * Cancel an issued invoice by crediting everything still open on it. Invoices with
+ * payments need those refunded and removed, or a partial credit note, instead.
+ */
+export async function cancelInvoice(
+  supabase: SupabaseClient,
+  invoice: CreditableInvoice,
+  reason: string,
+  actorId: string,
+  today = format(new Date(), "yyyy-MM-dd")
+): Promise<{ creditNoteId: string | null; status: InvoiceStatus }> {
+  if (invoice.status === "draft") {
+    throw new Error("A draft invoice has not been issued; delete it instead");
+  }
+  if (invoice.status === "cancelled") {
+    throw new Error("This invoice is already cancelled");
+  }
+  if (invoice.paid_amount > 0) {
+    throw new Error("This invoice has payments; remove them or issue a partial credit note instead");
+  }
+  if (!reason.trim()) {
+    throw new Error("A reason is required");
+  }
+
+  let creditNoteId: string | null = null;
+  if (getCreditableAmount(invoice) > 0) {
+    const items = await fetchCreditableItems(supabase, invoice.id);
+    creditNoteId = await issueCreditNote(
+      supabase,
+      invoice,
+      { issue_date: today, reason, lines: getFullCreditLines(items) },
+      actorId
+    );
+  }
+
+  const { error } = await supabase.from("invoices").update({ status: "cancelled" }).eq("id", invoice.id);
+
+  if (error) throw error;
+  return { creditNoteId, status: "cancelled" };
+}
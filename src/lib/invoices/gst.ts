@@ -0,0 +1,264 @@
+import type { InvoiceTotals } from "@/lib/invoices/totals";
+
+export const TAX_MODES = ["standard", "gst"] as const;
+
+export type TaxMode = (typeof TAX_MODES)[number];
+
+export const TAX_MODE_LABELS: Record<TaxMode, string> = {
+  standard: "Standard",
+  gst: "GST Tax Invoice",
+};
+
+// GST state codes, as used in GSTINs and for the place of supply
+export const GST_STATES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+  "97": "Other Territory",
+  "96": "Other Countries",
+};
+
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28, 40] as const;
+
+export type SupplyType = "intra_state" | "inter_state";
+
+export interface GstLine {
+  quantity: number;
+  unit_price: number;
+  tax_rate?: number | null;
+}
+
+export interface GstLineTotals {
+  taxable_value: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface GstTotals extends InvoiceTotals {
+  cgst: number;
+  sgst: number;
+  igst: number;
+  lines: GstLineTotals[];
+}
+
+export interface GstRateSummary {
+  rate: number;
+  taxable_value: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARACTERS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const HSN_SAC_PATTERN = /^(\d{4}|\d{6}|\d{8})$/;
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export function normalizeGstin(gstin: string): string {
+  return gstin.trim().toUpperCase();
+}
+
+/**
+ * Check character of the first 14 characters of a GSTIN (a mod 36 Luhn variant)
+ */
+export function getGstinCheckCharacter(body: string): string {
+  let sum = 0;
+  for (let index = 0; index < 14; index++) {
+    const product = GSTIN_CHARACTERS.indexOf(body[index]) * (index % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARACTERS[(36 - (sum % 36)) % 36];
+}
+
+/**
+ * Return why a GSTIN is invalid, or null when it is well formed with a valid check character
+ */
+export function getGstinError(gstin: string): string | null {
+  const value = normalizeGstin(gstin);
+  if (value.length !== 15) {
+    return "A GSTIN has 15 characters";
+  }
+  if (!GSTIN_PATTERN.test(value)) {
+    return "GSTIN format is invalid";
+  }
+  if (!(value.slice(0, 2) in GST_STATES)) {
+    return `GSTIN state code ${value.slice(0, 2)} is not a GST state`;
+  }
+  if (getGstinCheckCharacter(value) !== value[14]) {
+    return "GSTIN check character does not match; check for a typing error";
+  }
+  return null;
+}
+
+export function getGstinStateCode(gstin: string): string {
+  return normalizeGstin(gstin).slice(0, 2);
+}
+
+export function getGstStateLabel(code: string | null): string {
+  if (!code) return "-";
+  return GST_STATES[code] ? `${code} - ${GST_STATES[code]}` : code;
+}
+
+/**
+ * Return why an HSN or SAC code is invalid, or null when it has 4, 6 or 8 digits
+ */
+export function getHsnSacError(code: string): string | null {
+  return HSN_SAC_PATTERN.test(code.trim()) ? null : "HSN/SAC codes have 4, 6 or 8 digits";
+}
+
+/**
+ * Supplies within the seller's own state carry CGST and SGST; all others carry IGST
+ */
+export function getSupplyType(sellerStateCode: string, placeOfSupply: string): SupplyType {
+  return sellerStateCode === placeOfSupply ? "intra_state" : "inter_state";
+}
+
+/**
+ * Totals of a GST invoice. Unlike a standard invoice, the discount reduces the taxable
+ * value: it is shared across lines in proportion to their value, and each line is taxed
+ * at its own rate. An intra-state line's tax is split evenly into CGST and SGST.
+ */
+export function calculateGstTotals(
+  items: GstLine[],
+  adjustments: { discount?: number | null; discount_type: "amount" | "percentage" },
+  supplyType: SupplyType
+): GstTotals {
+  const lineTotals = items.map((item) => item.quantity * item.unit_price);
+  const subtotal = roundMoney(lineTotals.reduce((sum, lineTotal) => sum + lineTotal, 0));
+
+  const discountValue = adjustments.discount || 0;
+  const discount = roundMoney(
+    Math.min(subtotal, adjustments.discount_type === "amount" ? discountValue : subtotal * (discountValue / 100))
+  );
+
+  // The last line takes the rounding remainder so the shares add up to the discount
+  let discountLeft = discount;
+  const lines = items.map((item, index) => {
+    const share =
+      index === items.length - 1 ? discountLeft : roundMoney(subtotal > 0 ? discount * (lineTotals[index] / subtotal) : 0);
+    discountLeft = roundMoney(discountLeft - share);
+
+    return splitGstAmount(roundMoney(lineTotals[index] - share), item.tax_rate || 0, supplyType);
+  });
+
+  const cgst = roundMoney(lines.reduce((sum, line) => sum + line.cgst, 0));
+  const sgst = roundMoney(lines.reduce((sum, line) => sum + line.sgst, 0));
+  const igst = roundMoney(lines.reduce((sum, line) => sum + line.igst, 0));
+  const tax = roundMoney(cgst + sgst + igst);
+
+  return {
+    subtotal,
+    tax,
+    discount,
+    total: Math.max(0, roundMoney(subtotal - discount + tax)),
+    cgst,
+    sgst,
+    igst,
+    lines,
+  };
+}
+
+/**
+ * Taxable value and tax of each GST rate, lowest rate first, for the tax summary table
+ */
+export function summarizeGstByRate(lines: Array<GstLineTotals & { tax_rate: number }>): GstRateSummary[] {
+  const byRate = new Map<number, GstRateSummary>();
+  for (const line of lines) {
+    const summary = byRate.get(line.tax_rate) ?? { rate: line.tax_rate, taxable_value: 0, cgst: 0, sgst: 0, igst: 0 };
+    summary.taxable_value = roundMoney(summary.taxable_value + line.taxable_value);
+    summary.cgst = roundMoney(summary.cgst + line.cgst);
+    summary.sgst = roundMoney(summary.sgst + line.sgst);
+    summary.igst = roundMoney(summary.igst + line.igst);
+    byRate.set(line.tax_rate, summary);
+  }
+  return [...byRate.values()].sort((a, b) => a.rate - b.rate);
+}
+
+/**
+ * Tax on a line's taxable value, as CGST and SGST or as IGST
+ */
+export function splitGstAmount(taxableValue: number, rate: number, supplyType: SupplyType): GstLineTotals {
+  const tax = roundMoney(taxableValue * (rate / 100));
+  if (supplyType === "inter_state") {
+    return { taxable_value: taxableValue, cgst: 0, sgst: 0, igst: tax };
+  }
+  const cgst = roundMoney(tax / 2);
+  return { taxable_value: taxableValue, cgst, sgst: roundMoney(tax - cgst), igst: 0 };
+}
+
+/**
+ * Return why an invoice cannot be issued as a GST tax invoice, or null when it can
+ */
+export function getGstInvoiceError(invoice: {
+  seller_gstin: string | null;
+  buyer_gstin?: string | null;
+  place_of_supply?: string | null;
+  currency: string;
+  items: Array<{ description: string; hsn_sac?: string | null; tax_rate?: number | null }>;
+}): string | null {
+  if (!invoice.seller_gstin) {
+    return "Add your GSTIN in Settings before issuing GST invoices";
+  }
+  const sellerError = getGstinError(invoice.seller_gstin);
+  if (sellerError) {
+    return `Your GSTIN: ${sellerError}`;
+  }
+  if (invoice.buyer_gstin) {
+    const buyerError = getGstinError(invoice.buyer_gstin);
+    if (buyerError) return `Client GSTIN: ${buyerError}`;
+  }
+  if (!invoice.place_of_supply || !(invoice.place_of_supply in GST_STATES)) {
+    return "Select the place of supply";
+  }
+  if (invoice.currency !== "INR") {
+    return "GST invoices are issued in INR";
+  }
+  for (const item of invoice.items) {
+    if (!item.hsn_sac) {
+      return `"${item.description || "Item"}" needs an HSN/SAC code`;
+    }
+    const codeError = getHsnSacError(item.hsn_sac);
+    if (codeError) {
+      return `"${item.description || "Item"}": ${codeError}`;
+    }
+    if (!(GST_RATES as readonly number[]).includes(item.tax_rate || 0)) {
+      return `"${item.description || "Item"}": ${item.tax_rate}% is not a GST rate`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,378 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { format, parseISO } from "date-fns";
+import {
+  GST_STATES,
+  getGstinStateCode,
+  getSupplyType,
+  splitGstAmount,
+  summarizeGstByRate,
+  type GstRateSummary,
+} from "@/lib/invoices/gst";
+
+// Inter-state invoices to unregistered buyers above this value are reported one by one (B2CL)
+export const B2CL_THRESHOLD = 100000;
+
+export const GSTR1_SECTIONS = ["b2b", "b2cl", "b2cs", "cdnr", "cdnur", "hsn"] as const;
+
+export type Gstr1Section = (typeof GSTR1_SECTIONS)[number];
+
+export const GSTR1_SECTION_LABELS: Record<Gstr1Section, string> = {
+  b2b: "B2B Invoices",
+  b2cl: "B2C Large",
+  b2cs: "B2C Small",
+  cdnr: "Credit Notes (Registered)",
+  cdnur: "Credit Notes (Unregistered)",
+  hsn: "HSN Summary",
+};
+
+// Column headers as in the GST offline tool's CSV templates
+export const GSTR1_HEADERS: Record<Gstr1Section, string[]> = {
+  b2b: [
+    "GSTIN/UIN of Recipient",
+    "Receiver Name",
+    "Invoice Number",
+    "Invoice date",
+    "Invoice Value",
+    "Place Of Supply",
+    "Reverse Charge",
+    "Applicable % of Tax Rate",
+    "Invoice Type",
+    "E-Commerce GSTIN",
+    "Rate",
+    "Taxable Value",
+    "Cess Amount",
+  ],
+  b2cl: [
+    "Invoice Number",
+    "Invoice date",
+    "Invoice Value",
+    "Place Of Supply",
+    "Applicable % of Tax Rate",
+    "Rate",
+    "Taxable Value",
+    "Cess Amount",
+    "E-Commerce GSTIN",
+  ],
+  b2cs: ["Type", "Place Of Supply", "Applicable % of Tax Rate", "Rate", "Taxable Value", "Cess Amount", "E-Commerce GSTIN"],
+  cdnr: [
+    "GSTIN/UIN of Recipient",
+    "Receiver Name",
+    "Note Number",
+    "Note Date",
+    "Note Type",
+    "Place Of Supply",
+    "Reverse Charge",
+    "Note Supply Type",
+    "Note Value",
+    "Applicable % of Tax Rate",
+    "Rate",
+    "Taxable Value",
+    "Cess Amount",
+  ],
+  cdnur: [
+    "UR Type",
+    "Note Number",
+    "Note Date",
+    "Note Type",
+    "Place Of Supply",
+    "Note Value",
+    "Applicable % of Tax Rate",
+    "Rate",
+    "Taxable Value",
+    "Cess Amount",
+  ],
+  hsn: [
+    "HSN",
+    "Description",
+    "UQC",
+    "Total Quantity",
+    "Total Value",
+    "Rate",
+    "Taxable Value",
+    "Integrated Tax Amount",
+    "Central Tax Amount",
+    "State/UT Tax Amount",
+    "Cess Amount",
+  ],
+};
+
+export interface Gstr1Line {
+  hsn_sac: string | null;
+  description: string;
+  quantity: number;
+  tax_rate: number;
+  taxable_value: number;
+}
+
+// An invoice or credit note as reported; credit notes carry the invoice's parties
+export interface Gstr1Document {
+  number: string;
+  date: string;
+  value: number;
+  seller_gstin: string;
+  buyer_gstin: string | null;
+  buyer_name: string;
+  place_of_supply: string;
+  lines: Gstr1Line[];
+  // Credit notes only: value of the invoice the note reduces, which decides where it is reported
+  invoice_value?: number;
+}
+
+export type Gstr1Report = Record<Gstr1Section, Array<Array<string | number>>>;
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const formatReturnDate = (date: string) => format(parseISO(date), "dd-MMM-yy");
+
+const formatPlaceOfSupply = (code: string) => `${code}-${GST_STATES[code] ?? ""}`;
+
+function summarize(document: Gstr1Document): GstRateSummary[] {
+  const supplyType = getSupplyType(getGstinStateCode(document.seller_gstin), document.place_of_supply);
+  return summarizeGstByRate(
+    document.lines.map((line) => ({
+      tax_rate: line.tax_rate,
+      ...splitGstAmount(line.taxable_value, line.tax_rate, supplyType),
+    }))
+  );
+}
+
+const isInterState = (document: Gstr1Document) =>
+  getSupplyType(getGstinStateCode(document.seller_gstin), document.place_of_supply) === "inter_state";
+
+const isB2cl = (document: Gstr1Document) =>
+  !document.buyer_gstin && isInterState(document) && document.value > B2CL_THRESHOLD;
+
+/**
+ * Arrange a period's GST invoices and credit notes into the GSTR-1 tables. Invoices to
+ * registered buyers are reported one by one, small B2C sales as totals by state and
+ * rate; credit notes on small B2C sales reduce those totals. A note follows its invoice:
+ * it is reported on its own only if the invoice was B2B or B2C Large.
+ */
+export function buildGstr1Report(invoices: Gstr1Document[], creditNotes: Gstr1Document[]): Gstr1Report {
+  const report: Gstr1Report = { b2b: [], b2cl: [], b2cs: [], cdnr: [], cdnur: [], hsn: [] };
+  const b2cs = new Map<string, { place: string; rate: number; taxable: number }>();
+  const hsn = new Map<
+    string,
+    { hsn: string; description: string; rate: number; quantity: number; value: number; taxable: number; igst: number; cgst: number; sgst: number }
+  >();
+
+  const addB2cs = (document: Gstr1Document, sign: number) => {
+    for (const row of summarize(document)) {
+      const key = `${document.place_of_supply}|${row.rate}`;
+      const entry = b2cs.get(key) ?? { place: document.place_of_supply, rate: row.rate, taxable: 0 };
+      entry.taxable = roundMoney(entry.taxable + sign * row.taxable_value);
+      b2cs.set(key, entry);
+    }
+  };
+
+  const addHsn = (document: Gstr1Document, sign: number) => {
+    const supplyType = getSupplyType(getGstinStateCode(document.seller_gstin), document.place_of_supply);
+    for (const line of document.lines) {
+      const tax = splitGstAmount(line.taxable_value, line.tax_rate, supplyType);
+      const key = `${line.hsn_sac ?? ""}|${line.tax_rate}`;
+      const entry = hsn.get(key) ?? {
+        hsn: line.hsn_sac ?? "",
+        description: line.description,
+        rate: line.tax_rate,
+        quantity: 0,
+        value: 0,
+        taxable: 0,
+        igst: 0,
+        cgst: 0,
+        sgst: 0,
+      };
+      entry.quantity = roundMoney(entry.quantity + sign * line.quantity);
+      entry.taxable = roundMoney(entry.taxable + sign * tax.taxable_value);
+      entry.igst = roundMoney(entry.igst + sign * tax.igst);
+      entry.cgst = roundMoney(entry.cgst + sign * tax.cgst);
+      entry.sgst = roundMoney(entry.sgst + sign * tax.sgst);
+      entry.value = roundMoney(entry.value + sign * (tax.taxable_value + tax.igst + tax.cgst + tax.sgst));
+      hsn.set(key, entry);
+    }
+  };
+
+  for (const invoice of invoices) {
+    addHsn(invoice, 1);
+    if (!invoice.buyer_gstin && !isB2cl(invoice)) {
+      addB2cs(invoice, 1);
+      continue;
+    }
+    for (const row of summarize(invoice)) {
+      report[invoice.buyer_gstin ? "b2b" : "b2cl"].push(
+        invoice.buyer_gstin
+          ? [
+              invoice.buyer_gstin,
+              invoice.buyer_name,
+              invoice.number,
+              formatReturnDate(invoice.date),
+              invoice.value,
+              formatPlaceOfSupply(invoice.place_of_supply),
+              "N",
+              "",
+              "Regular B2B",
+              "",
+              row.rate,
+              row.taxable_value,
+              0,
+            ]
+          : [
+              invoice.number,
+              formatReturnDate(invoice.date),
+              invoice.value,
+              formatPlaceOfSupply(invoice.place_of_supply),
+              "",
+              row.rate,
+              row.taxable_value,
+              0,
+              "",
+            ]
+      );
+    }
+  }
+
+  for (const note of creditNotes) {
+    addHsn(note, -1);
+    if (!note.buyer_gstin && !isB2cl({ ...note, value: note.invoice_value ?? note.value })) {
+      addB2cs(note, -1);
+      continue;
+    }
+    for (const row of summarize(note)) {
+      report[note.buyer_gstin ? "cdnr" : "cdnur"].push(
+        note.buyer_gstin
+          ? [
+              note.buyer_gstin,
+              note.buyer_name,
+              note.number,
+              formatReturnDate(note.date),
+              "C",
+              formatPlaceOfSupply(note.place_of_supply),
+              "N",
+              "Regular B2B",
+              note.value,
+              "",
+              row.rate,
+              row.taxable_value,
+              0,
+            ]
+          : [
+              "B2CL",
+              note.number,
+              formatReturnDate(note.date),
+              "C",
+              formatPlaceOfSupply(note.place_of_supply),
+              note.value,
+              "",
+              row.rate,
+              row.taxable_value,
+              0,
+            ]
+      );
+    }
+  }
+
+  report.b2cs = [...b2cs.values()]
+    .filter((entry) => entry.taxable !== 0)
+    .map((entry) => ["OE", formatPlaceOfSupply(entry.place), "", entry.rate, entry.taxable, 0, ""]);
+
+  report.hsn = [...hsn.values()].map((entry) => [
+    entry.hsn,
+    entry.description,
+    "NOS-NUMBERS",
+    entry.quantity,
+    entry.value,
+    entry.rate,
+    entry.taxable,
+    entry.igst,
+    entry.cgst,
+    entry.sgst,
+    0,
+  ]);
+
+  return report;
+}
+
+interface ReportedItem {
+  hsn_sac: string | null;
+  description: string;
+  quantity: number;
+  tax_rate: number;
+  line_total: number;
+  taxable_value: number | null;
+}
+
+const toLines = (items: ReportedItem[] | null): Gstr1Line[] =>
+  (items || []).map((item) => ({
+    hsn_sac: item.hsn_sac,
+    description: item.description,
+    quantity: Number(item.quantity),
+    tax_rate: Number(item.tax_rate),
+    taxable_value: Number(item.taxable_value ?? item.line_total),
+  }));
+
+/**
+ * Load the GST invoices issued and credit notes raised between two dates (inclusive)
+ */
+export async function fetchGstr1Documents(
+  supabase: SupabaseClient,
+  userId: string,
+  from: string,
+  to: string
+): Promise<{ invoices: Gstr1Document[]; creditNotes: Gstr1Document[] }> {
+  const itemColumns = "hsn_sac, description, quantity, tax_rate, line_total, taxable_value";
+
+  const { data: invoices, error } = await supabase
+    .from("invoices")
+    .select(
+      `invoice_number, issue_date, total, seller_gstin, buyer_gstin, place_of_supply, clients:client_id (name), invoice_items (${itemColumns})`
+    )
+    .eq("user_id", userId)
+    .eq("tax_mode", "gst")
+    .neq("status", "draft")
+    .gte("issue_date", from)
+    .lte("issue_date", to)
+    .order("issue_date", { ascending: true });
+
+  if (error) throw error;
+
+  const { data: creditNotes, error: creditError } = await supabase
+    .from("credit_notes")
+    .select(
+      `credit_note_number, issue_date, total, invoices:invoice_id!inner (tax_mode, total, seller_gstin, buyer_gstin, place_of_supply, clients:client_id (name)), credit_note_items (${itemColumns})`
+    )
+    .eq("user_id", userId)
+    .eq("invoices.tax_mode", "gst")
+    .gte("issue_date", from)
+    .lte("issue_date", to)
+    .order("issue_date", { ascending: true });
+
+  if (creditError) throw creditError;
+
+  const first = <T>(value: T | T[] | null): T | null => (Array.isArray(value) ? value[0] ?? null : value);
+
+  return {
+    invoices: (invoices || []).map((invoice) => ({
+      number: invoice.invoice_number,
+      date: invoice.issue_date,
+      value: Number(invoice.total),
+      seller_gstin: invoice.seller_gstin,
+      buyer_gstin: invoice.buyer_gstin,
+      buyer_name: first(invoice.clients)?.name ?? "",
+      place_of_supply: invoice.place_of_supply,
+      lines: toLines(invoice.invoice_items),
+    })),
+    creditNotes: (creditNotes || []).map((note) => {
+      const invoice = first(note.invoices)!;
+      return {
+        number: note.credit_note_number,
+        date: note.issue_date,
+        value: Number(note.total),
+        seller_gstin: invoice.seller_gstin,
+        buyer_gstin: invoice.buyer_gstin,
+        buyer_name: first(invoice.clients)?.name ?? "",
+        place_of_supply: invoice.place_of_supply,
+        lines: toLines(note.credit_note_items),
+        invoice_value: Number(invoice.total),
+      };
+    }),
+  };
+}
@@ -0,0 +1,215 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { snapshotExchangeRate } from "@/lib/currency/rates";
+
+export const INVOICE_STATUSES = ["draft", "sent", "partially_paid", "paid", "overdue", "cancelled"] as const;
+
+export type InvoiceStatus = (typeof INVOICE_STATUSES)[number];
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_paid: "Partially Paid",
+  paid: "Paid",
+  overdue: "Overdue",
+  cancelled: "Cancelled",
+};
+
+// The rest follow from payments and the due date; cancelling issues a credit note
+export const MANUAL_INVOICE_STATUSES: InvoiceStatus[] = ["draft", "sent"];
+
+export const PAYMENT_METHODS = ["cash", "bank_transfer", "upi", "cheque", "card", "online"] as const;
+
+export const PAYMENT_METHOD_LABELS: Record<(typeof PAYMENT_METHODS)[number], string> = {
+  cash: "Cash",
+  bank_transfer: "Bank Transfer",
+  upi: "UPI",
+  cheque: "Cheque",
+  card: "Card",
+  online: "Online Payment",
+};
+
+export interface InvoicePayment {
+  id: string;
+  invoice_id: string;
+  amount: number;
+  payment_date: string;
+  payment_method: string | null;
+  reference: string | null;
+  notes: string | null;
+  // Rate into the organization's base currency on the payment date
+  base_currency: string | null;
+  exchange_rate: number | null;
+  created_at: string;
+}
+
+export interface InvoicePaymentInput {
+  amount: number;
+  payment_date: string;
+  payment_method?: string | null;
+  reference?: string | null;
+  notes?: string | null;
+}
+
+export interface PayableInvoice {
+  id: string;
+  user_id: string;
+  status: string;
+  total: number;
+  due_date: string;
+  currency: string;
+  // Total of the credit notes issued against the invoice
+  credited_amount: number;
+}
+
+const PAYMENT_COLUMNS =
+  "id, invoice_id, amount, payment_date, payment_method, reference, notes, base_currency, exchange_rate, created_at";
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export function getInvoiceStatusLabel(status: string): string {
+  return INVOICE_STATUS_LABELS[status as InvoiceStatus] ?? status.charAt(0).toUpperCase() + status.slice(1);
+}
+
+export function getPaymentMethodLabel(method: string | null): string {
+  if (!method) return "-";
+  return PAYMENT_METHOD_LABELS[method as keyof typeof PAYMENT_METHOD_LABELS] ?? method;
+}
+
+/**
+ * Status an invoice should have once `paid` has been received and `credited` credited
+ * against it. Drafts and cancelled invoices keep their status until they are issued,
+ * and an invoice credited in full without any payment is cancelled.
+ */
+export function deriveInvoiceStatus(
+  invoice: Pick<PayableInvoice, "status" | "total" | "due_date">,
+  paid: number,
+  credited: number,
+  today: string
+): InvoiceStatus {
+  if (invoice.status === "cancelled") return "cancelled";
+  if (invoice.status === "draft" && paid <= 0) return "draft";
+  const settled = roundMoney(paid + credited) >= roundMoney(invoice.total);
+  if (settled && paid <= 0) return "cancelled";
+  if (settled) return "paid";
+  if (invoice.due_date < today) return "overdue";
+  if (paid > 0) return "partially_paid";
+  return "sent";
+}
+
+/**
+ * Return why a payment cannot be recorded against an invoice, or null when it can
+ */
+export function getInvoicePaymentError(
+  invoice: Pick<PayableInvoice, "status" | "total" | "currency" | "credited_amount">,
+  paid: number,
+  payment: InvoicePaymentInput
+): string | null {
+  if (invoice.status === "cancelled") {
+    return "A cancelled invoice cannot take payments";
+  }
+  if (!Number.isFinite(payment.amount) || payment.amount <= 0) {
+    return "Amount must be greater than zero";
+  }
+  const balance = roundMoney(invoice.total - paid - invoice.credited_amount);
+  if (roundMoney(payment.amount) > balance) {
+    return balance > 0
+      ? `Only ${formatCurrency(balance, invoice.currency)} is due on this invoice`
+      : "This invoice is already paid in full";
+  }
+  return null;
+}
+
+/**
+ * Load the payments received against an invoice, oldest first
+ */
+export async function fetchInvoicePayments(supabase: SupabaseClient, invoiceId: string): Promise<InvoicePayment[]> {
+  const { data, error } = await supabase
+    .from("invoice_payments")
+    .select(PAYMENT_COLUMNS)
+    .eq("invoice_id", invoiceId)
+    .order("payment_date", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map((payment) => ({
+    ...payment,
+    amount: Number(payment.amount),
+    exchange_rate: payment.exchange_rate === null ? null : Number(payment.exchange_rate),
+  }));
+}
+
+/**
+ * Recalculate an invoice's paid and credited amounts from its payments and credit notes,
+ * and move its status on to match
+ */
+export async function refreshInvoiceBalance(
+  supabase: SupabaseClient,
+  invoice: Pick<PayableInvoice, "id" | "status" | "total" | "due_date">,
+  today = format(new Date(), "yyyy-MM-dd")
+): Promise<{ paid: number; status: InvoiceStatus }> {
+  const payments = await fetchInvoicePayments(supabase, invoice.id);
+  const paid = roundMoney(payments.reduce((sum, payment) => sum + payment.amount, 0));
+
+  const { data: creditNotes, error: creditError } = await supabase
+    .from("credit_notes")
+    .select("total")
+    .eq("invoice_id", invoice.id);
+
+  if (creditError) throw creditError;
+  const credited = roundMoney((creditNotes || []).reduce((sum, note) => sum + Number(note.total), 0));
+  const status = deriveInvoiceStatus(invoice, paid, credited, today);
+
+  const { error } = await supabase
+    .from("invoices")
+    .update({ paid_amount: paid, credited_amount: credited, status })
+    .eq("id", invoice.id);
+
+  if (error) throw error;
+  return { paid, status };
+}
+
+/**
+ * Record a payment against an invoice after checking it against the balance due, with
+ * the exchange rate into the base currency on the payment date
+ */
+export async function recordInvoicePayment(
+  supabase: SupabaseClient,
+  invoice: PayableInvoice,
+  payment: InvoicePaymentInput
+): Promise<{ paid: number; status: InvoiceStatus }> {
+  const payments = await fetchInvoicePayments(supabase, invoice.id);
+  const paid = payments.reduce((sum, entry) => sum + entry.amount, 0);
+  const paymentError = getInvoicePaymentError(invoice, paid, payment);
+  if (paymentError) throw new Error(paymentError);
+
+  const snapshot = await snapshotExchangeRate(supabase, invoice.user_id, invoice.currency, payment.payment_date);
+  const { error } = await supabase.from("invoice_payments").insert({
+    invoice_id: invoice.id,
+    user_id: invoice.user_id,
+    amount: roundMoney(payment.amount),
+    payment_date: payment.payment_date,
+    payment_method: payment.payment_method || null,
+    reference: payment.reference || null,
+    notes: payment.notes || null,
+    ...snapshot,
+  });
+
+  if (error) throw error;
+  return refreshInvoiceBalance(supabase, invoice);
+}
+
+/**
+ * Remove a payment recorded in error and reopen the balance it settled
+ */
+export async function deleteInvoicePayment(
+  supabase: SupabaseClient,
+  invoice: PayableInvoice,
+  paymentId: string
+): Promise<{ paid: number; status: InvoiceStatus }> {
+  const { error } = await supabase.from("invoice_payments").delete().eq("id", paymentId).eq("invoice_id", invoice.id);
+
+  if (error) throw error;
+  return refreshInvoiceBalance(supabase, invoice);
+}
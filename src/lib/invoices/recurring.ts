@@ -0,0 +1,343 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addDays, addMonths, format, getDaysInMonth, parseISO, startOfMonth } from "date-fns";
+import { snapshotExchangeRate } from "@/lib/currency/rates";
+import { allocateDocumentNumber } from "@/lib/documents/numbering";
+import { calculateInvoiceTotals } from "@/lib/invoices/totals";
+
+export const RECURRING_FREQUENCIES = ["monthly", "quarterly", "half_yearly", "yearly"] as const;
+
+export type RecurringFrequency = (typeof RECURRING_FREQUENCIES)[number];
+
+export const RECURRING_FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  half_yearly: "Every 6 months",
+  yearly: "Yearly",
+};
+
+const FREQUENCY_MONTHS: Record<RecurringFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  half_yearly: 6,
+  yearly: 12,
+};
+
+export interface RecurringSchedule {
+  frequency: RecurringFrequency;
+  start_date: string;
+  end_date: string | null;
+  day_of_month: number;
+}
+
+export interface RecurringInvoiceProfile extends RecurringSchedule {
+  id: string;
+  user_id: string;
+  client_id: string | null;
+  name: string;
+  due_days: number;
+  invoice_status: "draft" | "sent";
+  currency: string;
+  tax_rate: number;
+  discount: number;
+  discount_type: "amount" | "percentage";
+  notes: string | null;
+  terms: string | null;
+  active: boolean;
+  next_issue_date: string | null;
+  last_issued_on: string | null;
+}
+
+export interface RecurringInvoiceItem {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  tax_rate: number;
+}
+
+export const RECURRING_PROFILE_COLUMNS =
+  "id, user_id, client_id, name, frequency, start_date, end_date, day_of_month, due_days, invoice_status, currency, tax_rate, discount, discount_type, notes, terms, active, next_issue_date, last_issued_on";
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * Issue date of the nth period of a schedule. The day is clamped to the end of
+ * shorter months, so a profile on the 31st bills on the 30th in April.
+ */
+export function getIssueDate(schedule: RecurringSchedule, index: number): string {
+  const month = addMonths(startOfMonth(parseISO(schedule.start_date)), index * FREQUENCY_MONTHS[schedule.frequency]);
+  return toDateString(addDays(month, Math.min(schedule.day_of_month, getDaysInMonth(month)) - 1));
+}
+
+/**
+ * First issue date after `after` (or the first on or after the start date when null),
+ * or null when the schedule has ended
+ */
+export function getNextIssueDate(schedule: RecurringSchedule, after: string | null): string | null {
+  for (let index = 0; ; index++) {
+    const issueDate = getIssueDate(schedule, index);
+    if (schedule.end_date && issueDate > schedule.end_date) return null;
+    if (issueDate >= schedule.start_date && (!after || issueDate > after)) return issueDate;
+  }
+}
+
+/**
+ * Issue dates a profile still owes as of today, oldest first, and the date it moves on to.
+ * A job that missed some days catches up with one invoice per missed date.
+ */
+export function planRecurringInvoices(
+  profile: RecurringSchedule & Pick<RecurringInvoiceProfile, "next_issue_date">,
+  today: string
+): { issueDates: string[]; nextIssueDate: string | null } {
+  const issueDates: string[] = [];
+  let next = profile.next_issue_date;
+
+  while (next && next <= today) {
+    issueDates.push(next);
+    next = getNextIssueDate(profile, next);
+  }
+
+  return { issueDates, nextIssueDate: next };
+}
+
+/**
+ * Return why a profile cannot be saved, or null when it can
+ */
+export function getRecurringProfileError(schedule: RecurringSchedule, items: RecurringInvoiceItem[]): string | null {
+  if (items.length === 0) {
+    return "At least one item is required";
+  }
+  if (schedule.end_date && schedule.end_date < schedule.start_date) {
+    return "End date must be after the start date";
+  }
+  if (!getNextIssueDate(schedule, null)) {
+    return "No invoice falls between the start and end dates";
+  }
+  return null;
+}
+
+export type RecurringProfileInput = Omit<
+  RecurringInvoiceProfile,
+  "id" | "user_id" | "active" | "next_issue_date" | "last_issued_on"
+>;
+
+/**
+ * Create a profile and its items, scheduled from its first issue date
+ */
+export async function createRecurringProfile(
+  supabase: SupabaseClient,
+  userId: string,
+  input: RecurringProfileInput,
+  items: RecurringInvoiceItem[]
+): Promise<string> {
+  const profileError = getRecurringProfileError(input, items);
+  if (profileError) throw new Error(profileError);
+
+  const { data: profile, error } = await supabase
+    .from("recurring_invoices")
+    .insert({ ...input, user_id: userId, next_issue_date: getNextIssueDate(input, null) })
+    .select("id, user_id")
+    .single();
+
+  if (error) throw error;
+
+  try {
+    await saveRecurringItems(supabase, profile, items);
+  } catch (itemsError) {
+    await supabase.from("recurring_invoices").delete().eq("id", profile.id);
+    throw itemsError;
+  }
+
+  return profile.id;
+}
+
+/**
+ * Save changes to a profile. The schedule carries on after the last invoice issued,
+ * so editing never re-bills a date that was already invoiced.
+ */
+export async function updateRecurringProfile(
+  supabase: SupabaseClient,
+  profile: Pick<RecurringInvoiceProfile, "id" | "user_id" | "last_issued_on">,
+  input: RecurringProfileInput,
+  items: RecurringInvoiceItem[]
+): Promise<void> {
+  const profileError = getRecurringProfileError(input, items);
+  if (profileError) throw new Error(profileError);
+
+  const { error } = await supabase
+    .from("recurring_invoices")
+    .update({
+      ...input,
+      next_issue_date: getNextIssueDate(input, profile.last_issued_on),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", profile.id);
+
+  if (error) throw error;
+
+  await saveRecurringItems(supabase, profile, items);
+}
+
+/**
+ * Pause or resume a profile. Periods that fell while it was paused are skipped
+ * rather than billed all at once on resume.
+ */
+export async function setRecurringProfileActive(
+  supabase: SupabaseClient,
+  profile: RecurringInvoiceProfile,
+  active: boolean,
+  today = toDateString(new Date())
+): Promise<void> {
+  const yesterday = toDateString(addDays(parseISO(today), -1));
+  const resumeAfter = profile.last_issued_on && profile.last_issued_on > yesterday ? profile.last_issued_on : yesterday;
+
+  const { error } = await supabase
+    .from("recurring_invoices")
+    .update({
+      active,
+      ...(active ? { next_issue_date: getNextIssueDate(profile, resumeAfter) } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", profile.id);
+
+  if (error) throw error;
+}
+
+export async function fetchRecurringItems(supabase: SupabaseClient, profileId: string): Promise<RecurringInvoiceItem[]> {
+  const { data, error } = await supabase
+    .from("recurring_invoice_items")
+    .select("description, quantity, unit_price, tax_rate")
+    .eq("recurring_invoice_id", profileId)
+    .order("sort_order", { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map((item) => ({
+    description: item.description,
+    quantity: Number(item.quantity),
+    unit_price: Number(item.unit_price),
+    tax_rate: Number(item.tax_rate),
+  }));
+}
+
+/**
+ * Replace a profile's items; later invoices use the new items, issued ones keep theirs
+ */
+export async function saveRecurringItems(
+  supabase: SupabaseClient,
+  profile: Pick<RecurringInvoiceProfile, "id" | "user_id">,
+  items: RecurringInvoiceItem[]
+): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from("recurring_invoice_items")
+    .delete()
+    .eq("recurring_invoice_id", profile.id);
+
+  if (deleteError) throw deleteError;
+
+  const { error } = await supabase.from("recurring_invoice_items").insert(
+    items.map((item, index) => ({
+      recurring_invoice_id: profile.id,
+      user_id: profile.user_id,
+      description: item.description,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      tax_rate: item.tax_rate,
+      sort_order: index,
+    }))
+  );
+
+  if (error) throw error;
+}
+
+/**
+ * Create the invoice a profile owes for one issue date. Returns the new invoice's id,
+ * or null when that date was already invoiced.
+ */
+export async function issueRecurringInvoice(
+  supabase: SupabaseClient,
+  profile: RecurringInvoiceProfile,
+  items: RecurringInvoiceItem[],
+  issueDate: string
+): Promise<string | null> {
+  // Check first so a rerun does not use up an invoice number
+  const { data: existing, error: existingError } = await supabase
+    .from("invoices")
+    .select("id")
+    .eq("recurring_invoice_id", profile.id)
+    .eq("issue_date", issueDate)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+  if (existing) return null;
+
+  const { subtotal, tax, discount, total } = calculateInvoiceTotals(items, profile);
+  const invoiceNumber = await allocateDocumentNumber(supabase, profile.user_id, "invoice", issueDate);
+  const snapshot = await snapshotExchangeRate(supabase, profile.user_id, profile.currency, issueDate);
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from("invoices")
+    .insert({
+      user_id: profile.user_id,
+      client_id: profile.client_id,
+      recurring_invoice_id: profile.id,
+      invoice_number: invoiceNumber,
+      issue_date: issueDate,
+      due_date: toDateString(addDays(parseISO(issueDate), profile.due_days)),
+      status: profile.invoice_status,
+      currency: profile.currency,
+      ...snapshot,
+      tax_rate: profile.tax_rate,
+      discount: profile.discount,
+      discount_type: profile.discount_type,
+      subtotal,
+      tax_amount: tax,
+      discount_amount: discount,
+      total,
+      notes: profile.notes,
+      terms: profile.terms,
+    })
+    .select("id")
+    .single();
+
+  if (invoiceError) throw invoiceError;
+
+  const { error: itemsError } = await supabase.from("invoice_items").insert(
+    items.map((item, index) => ({
+      invoice_id: invoice.id,
+      description: item.description,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      tax_rate: item.tax_rate,
+      line_total: item.quantity * item.unit_price,
+      sort_order: index,
+    }))
+  );
+
+  if (itemsError) {
+    // An invoice without its items would bill nothing; the date is retried on the next run
+    await supabase.from("invoices").delete().eq("id", invoice.id);
+    throw itemsError;
+  }
+
+  return invoice.id;
+}
+
+/**
+ * Move a profile on to its next issue date after invoicing `issuedOn`
+ */
+export async function advanceRecurringProfile(
+  supabase: SupabaseClient,
+  profileId: string,
+  issuedOn: string,
+  nextIssueDate: string | null
+): Promise<void> {
+  const { error } = await supabase
+    .from("recurring_invoices")
+    .update({
+      last_issued_on: issuedOn,
+      next_issue_date: nextIssueDate,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", profileId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,45 @@
+export interface InvoiceLine {
+  quantity: number;
+  unit_price: number;
+  tax_rate?: number | null;
+}
+
+export interface InvoiceAdjustments {
+  // Invoice-wide tax on the subtotal, on top of any per-line tax
+  tax_rate?: number | null;
+  discount?: number | null;
+  discount_type: "amount" | "percentage";
+}
+
+export interface InvoiceTotals {
+  subtotal: number;
+  tax: number;
+  discount: number;
+  total: number;
+}
+
+/**
+ * Subtotal, tax, discount and total of an invoice, as the invoice forms show them
+ */
+export function calculateInvoiceTotals(items: InvoiceLine[], adjustments: InvoiceAdjustments): InvoiceTotals {
+  let subtotal = 0;
+  let tax = 0;
+
+  for (const item of items) {
+    const lineTotal = item.quantity * item.unit_price;
+    subtotal += lineTotal;
+    tax += lineTotal * ((item.tax_rate || 0) / 100);
+  }
+
+  tax += subtotal * ((adjustments.tax_rate || 0) / 100);
+
+  const discount = adjustments.discount || 0;
+  const discountAmount = adjustments.discount_type === "amount" ? discount : subtotal * (discount / 100);
+
+  return {
+    subtotal: Math.max(0, subtotal),
+    tax: Math.max(0, tax),
+    discount: Math.max(0, discountAmount),
+    total: Math.max(0, subtotal + tax - discountAmount),
+  };
+}
@@ -0,0 +1,508 @@
+import { endOfDay, format, min, parseISO } from "date-fns";
+import { fetchRentAccount, syncRentDues } from "@/lib/agreements/dues";
+import { fetchLateFees, parseLateFeePolicy, planLateFees } from "@/lib/agreements/fees";
+import { OCCUPIED_STATUSES, getTransitionError, transitionAgreement } from "@/lib/agreements/lifecycle";
+import { attachDataUrl, getDataUrlError } from "@/lib/attachments/attachments";
+import { formatCurrency } from "@/lib/currency/currencies";
+import { fetchBaseCurrency } from "@/lib/currency/rates";
+import {
+  RECURRING_PROFILE_COLUMNS,
+  advanceRecurringProfile,
+  fetchRecurringItems,
+  getNextIssueDate,
+  issueRecurringInvoice,
+  planRecurringInvoices,
+  type RecurringInvoiceProfile,
+} from "@/lib/invoices/recurring";
+import type { JobContext, JobStep, JobStepResult } from "@/lib/jobs/runner";
+import { getMailTransport } from "@/lib/mail/transport";
+import {
+  applySlaDueDates,
+  collectSlaBreaches,
+  describeSlaBreach,
+  escalateSlaBreach,
+  planSlaDueDates,
+} from "@/lib/maintenance/escalations";
+import { recordMaintenanceEvent } from "@/lib/maintenance/workflow";
+import { collectDueReminders, deliverReminder, describeDueReminder } from "@/lib/reminders/delivery";
+import { ID_CHUNK_SIZE, PAGE_SIZE, fetchAllRows, fetchRowsByIds } from "@/lib/supabase/paging";
+
+/**
+ * Keep the rent schedule of occupied agreements in step with their terms: backfill
+ * missing periods and drop periods after a served notice ends the tenancy
+ */
+export async function syncRentSchedules({ supabase, dryRun, today }: JobContext): Promise<JobStepResult> {
+  const result: JobStepResult = { step: "rent-schedule", changes: [], errors: [] };
+
+  const agreements = await fetchAllRows((from, to) =>
+    supabase
+      .from("rent_agreements")
+      .select("id, user_id, agreement_number, start_date, end_date, termination_date, monthly_rent, escalation_rule")
+      .in("status", OCCUPIED_STATUSES)
+      .order("id")
+      .range(from, to)
+  );
+
+  for (const agreement of agreements) {
+    try {
+      const plan = await syncRentDues(supabase, agreement, { from: today, dryRun });
+      const counts = [
+        plan.insert.length > 0 && `${plan.insert.length} added`,
+        plan.update.length > 0 && `${plan.update.length} repriced`,
+        plan.remove.length > 0 && `${plan.remove.length} removed`,
+      ].filter(Boolean);
+
+      if (counts.length > 0) {
+        result.changes.push({
+          table: "rent_schedule",
+          id: agreement.id,
+          description: `${agreement.agreement_number}: due lines ${counts.join(", ")}`,
+        });
+      }
+    } catch (syncFailure) {
+      const message = syncFailure instanceof Error ? syncFailure.message : "Unknown error";
+      result.errors.push(`${agreement.agreement_number}: ${message}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Post late fees on rent still unpaid after the grace period, and grow fees that accrue daily
+ */
+export async function postLateFees({ supabase, dryRun, today }: JobContext): Promise<JobStepResult> {
+  const result: JobStepResult = { step: "late-fees", changes: [], errors: [] };
+
+  const agreements = await fetchAllRows((from, to) =>
+    supabase
+      .from("rent_agreements")
+      .select("id, user_id, agreement_number, late_fee_policy")
+      .in("status", OCCUPIED_STATUSES)
+      .not("late_fee_policy", "is", null)
+      .order("id")
+      .range(from, to)
+  );
+
+  for (const agreement of agreements) {
+    const policy = parseLateFeePolicy(agreement.late_fee_policy);
+    if (!policy.enabled) continue;
+
+    try {
+      const [account, fees, currency] = await Promise.all([
+        fetchRentAccount(supabase, agreement.id, today),
+        fetchLateFees(supabase, agreement.id),
+        fetchBaseCurrency(supabase, agreement.user_id),
+      ]);
+      const plan = planLateFees(policy, account, fees, today);
+
+      for (const fee of plan.insert) {
+        result.changes.push({
+          table: "late_fees",
+          id: fee.schedule_id,
+          description: `${agreement.agreement_number}: late fee ${formatCurrency(fee.amount, currency)} on rent due ${fee.due_date} (${fee.days_late} days late)`,
+        });
+
+        if (dryRun) continue;
+
+        const { error: insertError } = await supabase.from("late_fees").insert({
+          agreement_id: agreement.id,
+          user_id: agreement.user_id,
+          schedule_id: fee.schedule_id,
+          amount: fee.amount,
+          days_late: fee.days_late,
+          charged_on: today,
+        });
+
+        if (insertError) result.errors.push(`${agreement.agreement_number}: ${insertError.message}`);
+      }
+
+      for (const fee of plan.update) {
+        result.changes.push({
+          table: "late_fees",
+          id: fee.id,
+          description: `${agreement.agreement_number}: late fee on rent due ${fee.due_date} accrued to ${formatCurrency(fee.amount, currency)}`,
+        });
+
+        if (dryRun) continue;
+
+        const { error: updateError } = await supabase
+          .from("late_fees")
+          .update({ amount: fee.amount, days_late: fee.days_late, updated_at: new Date().toISOString() })
+          .eq("id", fee.id)
+          .eq("status", "charged");
+
+        if (updateError) result.errors.push(`${agreement.agreement_number}: ${updateError.message}`);
+      }
+    } catch (feeFailure) {
+      const message = feeFailure instanceof Error ? feeFailure.message : "Unknown error";
+      result.errors.push(`${agreement.agreement_number}: ${message}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Expire agreements past their end date, or mark them renewed when their renewal is already
+ * active, and terminate those whose notice period has run out
+ */
+export async function updateAgreementLifecycle({ supabase, dryRun, today }: JobContext): Promise<JobStepResult> {
+  const result: JobStepResult = { step: "agreement-lifecycle", changes: [], errors: [] };
+
+  // Read every page before closing any, since closing moves agreements out of the filter
+  const agreements = await fetchAllRows((from, to) =>
+    supabase
+      .from("rent_agreements")
+      .select("id, user_id, agreement_number, status, end_date, notice_period_days, notice_date, termination_date")
+      .in("status", OCCUPIED_STATUSES)
+      .or(`end_date.lt.${today},termination_date.lte.${today}`)
+      .order("id")
+      .range(from, to)
+  );
+
+  // Renewals already in force take over from the lease they renew when its term ends
+  const renewals = await fetchRowsByIds(
+    agreements.map((agreement) => agreement.id),
+    (ids, from, to) =>
+      supabase
+        .from("rent_agreements")
+        .select("id, agreement_number, renewed_from")
+        .in("renewed_from", ids)
+        .in("status", OCCUPIED_STATUSES)
+        .order("id")
+        .range(from, to)
+  );
+
+  for (const agreement of agreements) {
+    const renewal = renewals.find((row) => row.renewed_from === agreement.id);
+    // A served notice that ends the tenancy early takes precedence over natural expiry
+    const to =
+      agreement.status === "notice_given" && agreement.termination_date && agreement.termination_date <= agreement.end_date
+        ? "terminated"
+        : renewal
+          ? "renewed"
+          : "expired";
+    const reason =
+      to === "terminated"
+        ? "Notice period ended"
+        : to === "renewed"
+          ? `Renewed as ${renewal?.agreement_number}`
+          : "End date passed";
+
+    const transitionError = getTransitionError(agreement, to, { today: parseISO(today) });
+    if (transitionError) continue;
+
+    result.changes.push({
+      table: "rent_agreements",
+      id: agreement.id,
+      description: `${agreement.agreement_number}: ${agreement.status} -> ${to} (${reason})`,
+    });
+
+    if (dryRun) continue;
+
+    try {
+      await transitionAgreement(supabase, agreement, to, {
+        reason,
+        actorId: null,
+        today: parseISO(today),
+      });
+    } catch (transitionFailure) {
+      const message = transitionFailure instanceof Error ? transitionFailure.message : "Unknown error";
+      result.errors.push(`${agreement.agreement_number}: ${message}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Issue the invoices recurring profiles owe up to today
+ */
+export async function generateRecurringInvoices({ supabase, dryRun, today }: JobContext): Promise<JobStepResult> {
+  const result: JobStepResult = { step: "recurring-invoices", changes: [], errors: [] };
+
+  const profiles = await fetchAllRows((from, to) =>
+    supabase
+      .from("recurring_invoices")
+      .select(RECURRING_PROFILE_COLUMNS)
+      .eq("active", true)
+      .lte("next_issue_date", today)
+      .order("id")
+      .range(from, to)
+      .returns<RecurringInvoiceProfile[]>()
+  );
+
+  for (const profile of profiles) {
+    const { issueDates } = planRecurringInvoices(profile, today);
+
+    try {
+      const items = await fetchRecurringItems(supabase, profile.id);
+
+      for (const issueDate of issueDates) {
+        if (dryRun) {
+          result.changes.push({
+            table: "invoices",
+            id: profile.id,
+            description: `${profile.name}: invoice dated ${issueDate}`,
+          });
+          continue;
+        }
+
+        const invoiceId = await issueRecurringInvoice(supabase, profile, items, issueDate);
+        // Advance one date at a time so a failure part way resumes where it stopped
+        await advanceRecurringProfile(supabase, profile.id, issueDate, getNextIssueDate(profile, issueDate));
+
+        if (invoiceId) {
+          result.changes.push({
+            table: "invoices",
+            id: invoiceId,
+            description: `${profile.name}: invoice dated ${issueDate} (${profile.invoice_status})`,
+          });
+        }
+      }
+    } catch (issueFailure) {
+      const message = issueFailure instanceof Error ? issueFailure.message : "Unknown error";
+      result.errors.push(`${profile.name}: ${message}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Mark sent and partially paid invoices past their due date as overdue
+ */
+export async function markOverdueInvoices({ supabase, dryRun, today }: JobContext): Promise<JobStepResult> {
+  const result: JobStepResult = { step: "overdue-invoices", changes: [], errors: [] };
+
+  const invoices = await fetchAllRows((from, to) =>
+    supabase
+      .from("invoices")
+      .select("id, invoice_number, status, due_date")
+      .in("status", ["sent", "partially_paid"])
+      .lt("due_date", today)
+      .order("id")
+      .range(from, to)
+  );
+
+  result.changes = invoices.map((invoice) => ({
+    table: "invoices",
+    id: invoice.id,
+    description: `${invoice.invoice_number}: ${invoice.status} -> overdue (due ${invoice.due_date})`,
+  }));
+
+  for (let i = 0; !dryRun && i < result.changes.length; i += ID_CHUNK_SIZE) {
+    const { error: updateError } = await supabase
+      .from("invoices")
+      .update({ status: "overdue" })
+      .in("id", result.changes.slice(i, i + ID_CHUNK_SIZE).map((change) => change.id))
+      .in("status", ["sent", "partially_paid"]);
+
+    if (updateError) result.errors.push(updateError.message);
+  }
+
+  return result;
+}
+
+/**
+ * Send the rent and invoice reminder steps due today while something is still owed
+ */
+export async function sendPaymentReminders({ supabase, dryRun, today }: JobContext): Promise<JobStepResult> {
+  const result: JobStepResult = { step: "payment-reminders", changes: [], errors: [] };
+
+  const reminders = await collectDueReminders(supabase, today);
+  const transport = dryRun || reminders.length === 0 ? null : getMailTransport();
+
+  for (const reminder of reminders) {
+    result.changes.push({
+      table: "payment_reminders",
+      id: reminder.target_id,
+      description: describeDueReminder(reminder),
+    });
+
+    if (!transport) continue;
+
+    try {
+      await deliverReminder(supabase, reminder, transport, today);
+    } catch (deliveryFailure) {
+      const message = deliveryFailure instanceof Error ? deliveryFailure.message : "Unknown error";
+      result.errors.push(`${reminder.reference}: ${message}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Give open maintenance requests without them due-by times, then escalate every response or
+ * resolution target missed since the last run. Runs for a past date check as of that day's end.
+ */
+export async function escalateMaintenanceSla({ supabase, dryRun, today }: JobContext): Promise<JobStepResult> {
+  const result: JobStepResult = { step: "maintenance-sla", changes: [], errors: [] };
+  const now = min([endOfDay(parseISO(today)), new Date()]);
+
+  for (const update of await planSlaDueDates(supabase)) {
+    result.changes.push({
+      table: "maintenance_requests",
+      id: update.request_id,
+      description: `${update.title}: resolution due by ${format(parseISO(update.resolution_due_at), "MMM dd, yyyy HH:mm")}`,
+    });
+
+    if (dryRun) continue;
+
+    try {
+      await applySlaDueDates(supabase, update);
+    } catch (updateFailure) {
+      const message = updateFailure instanceof Error ? updateFailure.message : "Unknown error";
+      result.errors.push(`${update.title}: ${message}`);
+    }
+  }
+
+  const breaches = await collectSlaBreaches(supabase, now);
+  const transport = dryRun || breaches.length === 0 ? null : getMailTransport();
+
+  for (const breach of breaches) {
+    result.changes.push({
+      table: "maintenance_events",
+      id: breach.request_id,
+      description: describeSlaBreach(breach),
+    });
+
+    if (!transport) continue;
+
+    try {
+      await escalateSlaBreach(supabase, breach, transport);
+    } catch (escalationFailure) {
+      const message = escalationFailure instanceof Error ? escalationFailure.message : "Unknown error";
+      result.errors.push(`${breach.title}: ${message}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Move photos stored inline as base64 on maintenance requests into attachment storage.
+ * Photos that fail to upload stay in the column so the next run retries them; entries that
+ * can never be stored, such as plain URLs or broken base64, are dropped and noted once on
+ * the request's timeline. Requests are read a page at a time after the last id handled, as
+ * moving photos changes which rows still match.
+ */
+export async function moveInlinePhotos({ supabase, dryRun }: JobContext): Promise<JobStepResult> {
+  const result: JobStepResult = { step: "inline-photos", changes: [], errors: [] };
+
+  for (let lastId: string | null = null; ; ) {
+    let query = supabase
+      .from("maintenance_requests")
+      .select("id, user_id, title, photos")
+      .not("photos", "is", null)
+      .order("id")
+      .limit(PAGE_SIZE);
+    if (lastId) query = query.gt("id", lastId);
+
+    const { data: requests, error } = await query;
+    if (error) throw error;
+    if (!requests || requests.length === 0) break;
+    lastId = requests[requests.length - 1].id;
+
+    for (const request of requests) {
+      const photos: string[] = request.photos || [];
+
+      result.changes.push({
+        table: "attachments",
+        id: request.id,
+        description: `${request.title}: ${photos.length} inline photo${photos.length !== 1 ? "s" : ""} moved to storage`,
+      });
+
+      if (dryRun) continue;
+
+      const remaining: string[] = [];
+      for (const [index, photo] of photos.entries()) {
+        const photoError = getDataUrlError(photo, `photo-${index + 1}`);
+        if (photoError) {
+          result.errors.push(`${request.title}: ${photoError}; removed`);
+          try {
+            await recordMaintenanceEvent(supabase, request, {
+              type: "photo",
+              body: `Inline photo could not be moved to storage and was removed (${photoError})${
+                /^https?:\/\//i.test(photo) ? `: ${photo}` : ""
+              }`,
+            });
+          } catch (eventFailure) {
+            const message = eventFailure instanceof Error ? eventFailure.message : "Unknown error";
+            result.errors.push(`${request.title}: ${message}`);
+          }
+          continue;
+        }
+
+        try {
+          await attachDataUrl(supabase, request.user_id, "maintenance_request", request.id, photo, `photo-${index + 1}`, "before");
+        } catch (moveFailure) {
+          const message = moveFailure instanceof Error ? moveFailure.message : "Unknown error";
+          result.errors.push(`${request.title}: ${message}`);
+          remaining.push(photo);
+        }
+      }
+
+      const { error: updateError } = await supabase
+        .from("maintenance_requests")
+        .update({ photos: remaining.length > 0 ? remaining : null })
+        .eq("id", request.id);
+
+      if (updateError) result.errors.push(`${request.title}: ${updateError.message}`);
+    }
+
+    if (requests.length < PAGE_SIZE) break;
+  }
+
+  return result;
+}
+
+/**
+ * Expire subscriptions past their end date
+ */
+export async function expireSubscriptions({ supabase, dryRun, today }: JobContext): Promise<JobStepResult> {
+  const result: JobStepResult = { step: "expired-subscriptions", changes: [], errors: [] };
+
+  const subscriptions = await fetchAllRows((from, to) =>
+    supabase
+      .from("subscriptions")
+      .select("id, user_id, end_date")
+      .eq("status", "active")
+      .lt("end_date", today)
+      .order("id")
+      .range(from, to)
+  );
+
+  result.changes = subscriptions.map((subscription) => ({
+    table: "subscriptions",
+    id: subscription.id,
+    description: `User ${subscription.user_id}: active -> expired (ended ${subscription.end_date})`,
+  }));
+
+  for (let i = 0; !dryRun && i < result.changes.length; i += ID_CHUNK_SIZE) {
+    const { error: updateError } = await supabase
+      .from("subscriptions")
+      .update({ status: "expired" })
+      .in("id", result.changes.slice(i, i + ID_CHUNK_SIZE).map((change) => change.id))
+      .eq("status", "active");
+
+    if (updateError) result.errors.push(updateError.message);
+  }
+
+  return result;
+}
+
+// The schedule runs before lifecycle changes so a tenancy ending today is still trimmed
+export const DAILY_JOB_STEPS: JobStep[] = [
+  syncRentSchedules,
+  postLateFees,
+  updateAgreementLifecycle,
+  generateRecurringInvoices,
+  markOverdueInvoices,
+  sendPaymentReminders,
+  escalateMaintenanceSla,
+  moveInlinePhotos,
+  expireSubscriptions,
+];
@@ -0,0 +1,85 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export interface JobContext {
+  supabase: SupabaseClient;
+  dryRun: boolean;
+  // Date the job runs for, as yyyy-MM-dd
+  today: string;
+}
+
+export interface JobChange {
+  table: string;
+  id: string;
+  description: string;
+}
+
+export interface JobStepResult {
+  step: string;
+  changes: JobChange[];
+  errors: string[];
+}
+
+export type JobStep = (context: JobContext) => Promise<JobStepResult>;
+
+export interface JobRunSummary {
+  runId: string | null;
+  job: string;
+  dryRun: boolean;
+  today: string;
+  steps: JobStepResult[];
+}
+
+/**
+ * Run each step of a job in order and record the outcome in the job_runs log.
+ * Steps only select rows that still need changing, so running a job twice is harmless.
+ */
+export async function runJob(
+  job: string,
+  steps: JobStep[],
+  context: JobContext
+): Promise<JobRunSummary> {
+  const { supabase, dryRun, today } = context;
+
+  const { data: run, error: runError } = await supabase
+    .from("job_runs")
+    .insert({ job_name: job, dry_run: dryRun })
+    .select("id")
+    .single();
+
+  if (runError) {
+    console.error(`Error creating run log for ${job}:`, runError);
+  }
+
+  const summary: JobRunSummary = {
+    runId: run?.id ?? null,
+    job,
+    dryRun,
+    today,
+    steps: [],
+  };
+
+  try {
+    for (const step of steps) {
+      summary.steps.push(await step(context));
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    if (run) {
+      await supabase
+        .from("job_runs")
+        .update({ status: "failed", error: errorMessage, summary, finished_at: new Date().toISOString() })
+        .eq("id", run.id);
+    }
+    throw error;
+  }
+
+  if (run) {
+    const failed = summary.steps.some((step) => step.errors.length > 0);
+    await supabase
+      .from("job_runs")
+      .update({ status: failed ? "failed" : "succeeded", summary, finished_at: new Date().toISOString() })
+      .eq("id", run.id);
+  }
+
+  return summary;
+}
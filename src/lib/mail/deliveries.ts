@@ -0,0 +1,41 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MailDocumentType } from "@/lib/mail/templates";
+
+export type EmailDeliveryStatus = "sent" | "failed";
+
+export interface EmailDelivery {
+  id: string;
+  document_type: MailDocumentType;
+  document_id: string;
+  recipients: string[];
+  cc: string[];
+  subject: string;
+  status: EmailDeliveryStatus;
+  error: string | null;
+  transport: string;
+  message_id: string | null;
+  created_at: string;
+}
+
+export const EMAIL_DELIVERY_COLUMNS =
+  "id, document_type, document_id, recipients, cc, subject, status, error, transport, message_id, created_at";
+
+/**
+ * Emails sent for a document, latest first
+ */
+export async function fetchEmailDeliveries(
+  supabase: SupabaseClient,
+  type: MailDocumentType,
+  documentId: string
+): Promise<EmailDelivery[]> {
+  const { data, error } = await supabase
+    .from("email_deliveries")
+    .select(EMAIL_DELIVERY_COLUMNS)
+    .eq("document_type", type)
+    .eq("document_id", documentId)
+    .order("created_at", { ascending: false })
+    .returns<EmailDelivery[]>();
+
+  if (error) throw error;
+  return data || [];
+}
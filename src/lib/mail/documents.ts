@@ -0,0 +1,184 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import { fetchBaseCurrency } from "@/lib/currency/rates";
+import { fetchBranding } from "@/lib/documents/branding";
+import { formatDocumentDate, formatMoney } from "@/lib/documents/format";
+import { DOCUMENT_BUILDERS } from "@/lib/documents/registry";
+import { renderDocument } from "@/lib/documents/render";
+import { deriveInvoiceStatus } from "@/lib/invoices/payments";
+import { EMAIL_DELIVERY_COLUMNS, type EmailDelivery } from "@/lib/mail/deliveries";
+import {
+  getSendDocumentError,
+  renderDocumentMail,
+  type MailDocumentType,
+  type SendDocumentRequest,
+} from "@/lib/mail/templates";
+import { getMailFrom, getMailTransport } from "@/lib/mail/transport";
+
+interface MailContext {
+  // Template values; organization, recipient_name and message are added when sending
+  values: Record<string, string>;
+  recipient: { name: string; email: string | null } | null;
+  // Called once the email has gone out
+  afterSend?: () => Promise<void>;
+}
+
+type MailContextLoader = (supabase: SupabaseClient, id: string) => Promise<MailContext | null>;
+
+// Supabase types one-to-one embeds as arrays; unwrap whichever shape comes back
+const first = <T>(value: T | T[] | null | undefined): T | null =>
+  Array.isArray(value) ? value[0] ?? null : value ?? null;
+
+const MAIL_CONTEXT_LOADERS: Record<MailDocumentType, MailContextLoader> = {
+  invoice: async (supabase, id) => {
+    const { data: invoice, error } = await supabase
+      .from("invoices")
+      .select("id, invoice_number, status, total, currency, due_date, paid_amount, credited_amount, clients:client_id (name, email)")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!invoice) return null;
+
+    return {
+      values: {
+        number: invoice.invoice_number,
+        amount: formatMoney(Number(invoice.total), invoice.currency),
+        due_date: formatDocumentDate(invoice.due_date),
+      },
+      recipient: first(invoice.clients),
+      // Emailing a draft issues it
+      afterSend: async () => {
+        if (invoice.status !== "draft") return;
+        const status = deriveInvoiceStatus(
+          { status: "sent", total: Number(invoice.total), due_date: invoice.due_date },
+          Number(invoice.paid_amount || 0),
+          Number(invoice.credited_amount || 0),
+          format(new Date(), "yyyy-MM-dd")
+        );
+        const { error: updateError } = await supabase
+          .from("invoices")
+          .update({ status })
+          .eq("id", invoice.id)
+          .eq("status", "draft");
+
+        if (updateError) throw updateError;
+      },
+    };
+  },
+  receipt: async (supabase, id) => {
+    const { data: payment, error } = await supabase
+      .from("rent_payments")
+      .select("id, user_id, receipt_number, amount, payment_date, rent_agreements:agreement_id (agreement_number, tenants:tenant_id (name, email))")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!payment) return null;
+
+    const agreement = first(payment.rent_agreements);
+    return {
+      values: {
+        number: payment.receipt_number || `PAY-${payment.id.slice(0, 8)}`,
+        amount: formatMoney(Number(payment.amount), await fetchBaseCurrency(supabase, payment.user_id)),
+        date: formatDocumentDate(payment.payment_date),
+        agreement_number: agreement?.agreement_number ?? "",
+      },
+      recipient: first(agreement?.tenants),
+    };
+  },
+  agreement: async (supabase, id) => {
+    const { data: agreement, error } = await supabase
+      .from("rent_agreements")
+      .select("id, agreement_number, property_address, property_city, start_date, end_date, tenants:tenant_id (name, email)")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!agreement) return null;
+
+    return {
+      values: {
+        number: agreement.agreement_number,
+        property: [agreement.property_address, agreement.property_city].filter(Boolean).join(", "),
+        start_date: formatDocumentDate(agreement.start_date),
+        end_date: formatDocumentDate(agreement.end_date),
+      },
+      recipient: first(agreement.tenants),
+    };
+  },
+};
+
+/**
+ * Email a document's PDF using its template and log the attempt. Failed sends are logged
+ * too, then rethrown. Invoices still in draft are marked sent once delivered.
+ */
+export async function sendDocumentEmail(
+  supabase: SupabaseClient,
+  userId: string,
+  type: MailDocumentType,
+  documentId: string,
+  request: SendDocumentRequest
+): Promise<EmailDelivery> {
+  const sendError = getSendDocumentError(request);
+  if (sendError) throw new Error(sendError);
+
+  const [context, layout, branding] = await Promise.all([
+    MAIL_CONTEXT_LOADERS[type](supabase, documentId),
+    DOCUMENT_BUILDERS[type](supabase, documentId, new URLSearchParams()),
+    fetchBranding(supabase, userId),
+  ]);
+  if (!context || !layout) throw new Error("Document not found");
+
+  const mail = renderDocumentMail(
+    type,
+    {
+      ...context.values,
+      organization: branding.name,
+      recipient_name: context.recipient?.name ?? "there",
+      message: request.message.trim(),
+    },
+    branding
+  );
+
+  const transport = getMailTransport();
+  let messageId: string | null = null;
+  let failure: string | null = null;
+  try {
+    ({ messageId } = await transport.send({
+      from: getMailFrom(branding.name),
+      to: request.to,
+      cc: request.cc,
+      replyTo: branding.email ?? undefined,
+      ...mail,
+      attachments: [
+        { filename: layout.filename, content: Buffer.from(renderDocument(layout, branding)), contentType: "application/pdf" },
+      ],
+    }));
+  } catch (transportError) {
+    failure = transportError instanceof Error ? transportError.message : "Unknown error";
+  }
+
+  const { data: delivery, error } = await supabase
+    .from("email_deliveries")
+    .insert({
+      user_id: userId,
+      document_type: type,
+      document_id: documentId,
+      recipients: request.to,
+      cc: request.cc,
+      subject: mail.subject,
+      status: failure ? "failed" : "sent",
+      error: failure,
+      transport: transport.name,
+      message_id: messageId,
+    })
+    .select(EMAIL_DELIVERY_COLUMNS)
+    .single<EmailDelivery>();
+
+  if (error) throw error;
+  if (failure) throw new Error(`Email could not be sent: ${failure}`);
+
+  await context.afterSend?.();
+  return delivery;
+}
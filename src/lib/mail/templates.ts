@@ -0,0 +1,131 @@
+import * as z from "zod";
+import type { OrganizationBranding } from "@/lib/documents/branding";
+
+export const MAIL_DOCUMENT_TYPES = ["invoice", "receipt", "agreement"] as const;
+
+export type MailDocumentType = (typeof MAIL_DOCUMENT_TYPES)[number];
+
+export const MAIL_DOCUMENT_LABELS: Record<MailDocumentType, string> = {
+  invoice: "Invoice",
+  receipt: "Receipt",
+  agreement: "Agreement",
+};
+
+export interface MailTemplate {
+  subject: string;
+  body: string;
+}
+
+// {{message}} is the optional note typed in when sending; blank lines left by empty values are dropped
+export const MAIL_TEMPLATES: Record<MailDocumentType, MailTemplate> = {
+  invoice: {
+    subject: "Invoice {{number}} from {{organization}}",
+    body: [
+      "Hello {{recipient_name}},",
+      "Please find attached invoice {{number}} for {{amount}}, due on {{due_date}}.",
+      "{{message}}",
+      "Thank you,\n{{organization}}",
+    ].join("\n\n"),
+  },
+  receipt: {
+    subject: "Rent receipt {{number}} from {{organization}}",
+    body: [
+      "Hello {{recipient_name}},",
+      "Thank you for your payment of {{amount}} on {{date}}. Your receipt {{number}} is attached.",
+      "{{message}}",
+      "Regards,\n{{organization}}",
+    ].join("\n\n"),
+  },
+  agreement: {
+    subject: "Rent agreement {{number}} for {{property}}",
+    body: [
+      "Hello {{recipient_name}},",
+      "Please find attached rent agreement {{number}} for {{property}}, running from {{start_date}} to {{end_date}}.",
+      "{{message}}",
+      "Regards,\n{{organization}}",
+    ].join("\n\n"),
+  },
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+export interface SendDocumentRequest {
+  to: string[];
+  cc: string[];
+  message: string;
+}
+
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Split a comma or semicolon separated address list
+ */
+export function parseAddressList(value: string): string[] {
+  return value
+    .split(/[,;]/)
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Return why a document cannot be sent to these addresses, or null when it can
+ */
+export function getSendDocumentError(request: SendDocumentRequest): string | null {
+  if (request.to.length === 0) {
+    return "Enter at least one recipient";
+  }
+  const invalid = [...request.to, ...request.cc].find((address) => !z.email().safeParse(address).success);
+  if (invalid) {
+    return `"${invalid}" is not a valid email address`;
+  }
+  return null;
+}
+
+/**
+ * Fill {{placeholders}}; unknown ones are left blank rather than sent as-is
+ */
+export function renderMailTemplate(template: string, values: Record<string, string>): string {
+  return template
+    .replace(PLACEHOLDER_PATTERN, (_match, key: string) => values[key] ?? "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const escapeHtml = (text: string) =>
+  text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;");
+
+/**
+ * Subject and plain text and HTML bodies from a template, with the organization's name as the header
+ */
+export function renderMail(template: MailTemplate, values: Record<string, string>, branding: OrganizationBranding): RenderedMail {
+  const text = renderMailTemplate(template.body, values);
+  const paragraphs = text
+    .split("\n\n")
+    .map((paragraph) => `<p style="margin:0 0 16px">${escapeHtml(paragraph).replaceAll("\n", "<br>")}</p>`)
+    .join("");
+  const footer = [branding.address, branding.email, branding.phone, branding.website].filter(Boolean).map((line) => escapeHtml(line as string));
+
+  return {
+    subject: renderMailTemplate(template.subject, values),
+    text,
+    html: [
+      `<div style="font-family:Helvetica,Arial,sans-serif;font-size:14px;color:#111;max-width:600px">`,
+      `<div style="border-top:4px solid ${escapeHtml(branding.accent_color)};padding-top:16px;margin-bottom:24px;font-size:18px;font-weight:bold">${escapeHtml(branding.name)}</div>`,
+      paragraphs,
+      footer.length > 0 ? `<p style="margin-top:32px;font-size:12px;color:#666">${footer.join(" &middot; ")}</p>` : "",
+      `</div>`,
+    ].join(""),
+  };
+}
+
+export function renderDocumentMail(
+  type: MailDocumentType,
+  values: Record<string, string>,
+  branding: OrganizationBranding
+): RenderedMail {
+  return renderMail(MAIL_TEMPLATES[type], values, branding);
+}
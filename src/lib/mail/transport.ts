@@ -0,0 +1,94 @@
+import nodemailer from "nodemailer";
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  cc?: string[];
+  replyTo?: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailResult {
+  messageId: string | null;
+}
+
+// Delivers outbound mail; pick one with MAIL_TRANSPORT
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<MailResult>;
+}
+
+/**
+ * Send through an SMTP server. Defaults to localhost:1025 so a local mail catcher
+ * such as Mailpit or MailHog receives everything in development.
+ */
+export function createSmtpTransport(): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || "localhost",
+    port: Number(process.env.SMTP_PORT) || 1025,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      return { messageId: info.messageId ?? null };
+    },
+  };
+}
+
+/**
+ * Print messages to the server log instead of sending them, for tests and offline work
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.info(
+        [
+          `Mail to ${message.to.join(", ")}${message.cc?.length ? ` (cc ${message.cc.join(", ")})` : ""}`,
+          `Subject: ${message.subject}`,
+          `Attachments: ${(message.attachments ?? []).map((file) => `${file.filename} (${file.content.length} bytes)`).join(", ") || "none"}`,
+          "",
+          message.text,
+        ].join("\n")
+      );
+      return { messageId: `console-${Date.now()}` };
+    },
+  };
+}
+
+const MAIL_TRANSPORTS: Record<string, () => MailTransport> = {
+  smtp: createSmtpTransport,
+  console: createConsoleTransport,
+};
+
+/**
+ * Transport named by MAIL_TRANSPORT, SMTP unless set
+ */
+export function getMailTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT || "smtp";
+  const factory = MAIL_TRANSPORTS[name];
+  if (!factory) throw new Error(`Unknown mail transport "${name}"`);
+  return factory();
+}
+
+/**
+ * Sender address for outbound mail, from MAIL_FROM
+ */
+export function getMailFrom(organizationName: string): string {
+  const address = process.env.MAIL_FROM || "no-reply@localhost";
+  // MAIL_FROM may already carry a display name
+  return address.includes("<") ? address : `"${organizationName.replaceAll('"', "")}" <${address}>`;
+}
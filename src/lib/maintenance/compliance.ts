@@ -0,0 +1,176 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addMonths, format, parseISO, startOfMonth } from "date-fns";
+import { getMaintenanceSla, type SlaRequest } from "@/lib/maintenance/sla";
+
+export const SLA_COMPLIANCE_GROUPS = ["property", "vendor"] as const;
+
+export type SlaComplianceGroup = (typeof SLA_COMPLIANCE_GROUPS)[number];
+
+export const SLA_COMPLIANCE_GROUP_LABELS: Record<SlaComplianceGroup, string> = {
+  property: "Property",
+  vendor: "Vendor",
+};
+
+// A request with due dates and what it is grouped by
+export interface ComplianceRequest extends SlaRequest {
+  id: string;
+  agreement_id: string | null;
+  property_address: string | null;
+  vendor_id: string | null;
+  vendor_name: string | null;
+}
+
+// Targets that have been met or missed; targets still running count towards neither
+export interface SlaComplianceCounts {
+  response_met: number;
+  response_breached: number;
+  resolution_met: number;
+  resolution_breached: number;
+}
+
+export interface SlaComplianceRow {
+  key: string;
+  label: string;
+  // Keyed by month, "yyyy-MM", of when the requests were reported
+  months: Record<string, SlaComplianceCounts>;
+  totals: SlaComplianceCounts;
+}
+
+export interface SlaComplianceReport {
+  group: SlaComplianceGroup;
+  // Oldest first, as "yyyy-MM"
+  months: string[];
+  // Most breaches first
+  rows: SlaComplianceRow[];
+  months_totals: Record<string, SlaComplianceCounts>;
+  totals: SlaComplianceCounts;
+}
+
+const emptyCounts = (): SlaComplianceCounts => ({
+  response_met: 0,
+  response_breached: 0,
+  resolution_met: 0,
+  resolution_breached: 0,
+});
+
+const addCounts = (into: SlaComplianceCounts, counts: SlaComplianceCounts) => {
+  into.response_met += counts.response_met;
+  into.response_breached += counts.response_breached;
+  into.resolution_met += counts.resolution_met;
+  into.resolution_breached += counts.resolution_breached;
+};
+
+/**
+ * The `count` months up to and including the one containing `now`, oldest first
+ */
+export function getComplianceMonths(now: Date, count: number): string[] {
+  const start = addMonths(startOfMonth(now), -(count - 1));
+  return Array.from({ length: count }, (_, i) => format(addMonths(start, i), "yyyy-MM"));
+}
+
+/**
+ * Share of decided targets that were met, or null when none have been decided yet
+ */
+export function getComplianceRate(met: number, breached: number): number | null {
+  return met + breached > 0 ? met / (met + breached) : null;
+}
+
+export function getTotalComplianceRate(counts: SlaComplianceCounts): number | null {
+  return getComplianceRate(
+    counts.response_met + counts.resolution_met,
+    counts.response_breached + counts.resolution_breached
+  );
+}
+
+export function formatComplianceRate(rate: number | null): string {
+  return rate === null ? "-" : `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Met and breached targets per property or vendor and month reported. Requests reported
+ * outside `months` are left out.
+ */
+export function buildSlaComplianceReport(
+  requests: ComplianceRequest[],
+  group: SlaComplianceGroup,
+  months: string[],
+  now: Date
+): SlaComplianceReport {
+  const rows = new Map<string, SlaComplianceRow>();
+  const monthsTotals: Record<string, SlaComplianceCounts> = Object.fromEntries(
+    months.map((month) => [month, emptyCounts()])
+  );
+  const totals = emptyCounts();
+
+  for (const request of requests) {
+    const month = format(parseISO(request.reported_at), "yyyy-MM");
+    const sla = getMaintenanceSla(request, now);
+    if (!sla || !monthsTotals[month]) continue;
+
+    const counts = emptyCounts();
+    if (sla.response === "met") counts.response_met++;
+    if (sla.response === "breached") counts.response_breached++;
+    if (sla.resolution === "met") counts.resolution_met++;
+    if (sla.resolution === "breached") counts.resolution_breached++;
+
+    const key = (group === "property" ? request.agreement_id : request.vendor_id) ?? "none";
+    const label =
+      group === "property" ? request.property_address ?? "No property" : request.vendor_name ?? "No vendor";
+
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        key,
+        label,
+        months: Object.fromEntries(months.map((m) => [m, emptyCounts()])),
+        totals: emptyCounts(),
+      };
+      rows.set(key, row);
+    }
+
+    addCounts(row.months[month], counts);
+    addCounts(row.totals, counts);
+    addCounts(monthsTotals[month], counts);
+    addCounts(totals, counts);
+  }
+
+  const breaches = (counts: SlaComplianceCounts) => counts.response_breached + counts.resolution_breached;
+
+  return {
+    group,
+    months,
+    rows: [...rows.values()].sort(
+      (a, b) => breaches(b.totals) - breaches(a.totals) || a.label.localeCompare(b.label)
+    ),
+    months_totals: monthsTotals,
+    totals,
+  };
+}
+
+/**
+ * Requests reported on or after `since` that have due dates
+ */
+export async function fetchComplianceRequests(supabase: SupabaseClient, since: Date): Promise<ComplianceRequest[]> {
+  const { data, error } = await supabase
+    .from("maintenance_requests")
+    .select(`
+      id, status, agreement_id, vendor_id,
+      reported_at, response_due_at, resolution_due_at, responded_at, completed_at,
+      rent_agreements:agreement_id (property_address),
+      vendors:vendor_id (name)
+    `)
+    .gte("reported_at", since.toISOString())
+    .not("resolution_due_at", "is", null);
+
+  if (error) throw error;
+
+  return (data || []).map(({ rent_agreements, vendors, ...request }) => {
+    const agreement = Array.isArray(rent_agreements) ? rent_agreements[0] : rent_agreements;
+    const vendor = Array.isArray(vendors) ? vendors[0] : vendors;
+    return {
+      ...request,
+      property_address: agreement?.property_address ?? null,
+      vendor_name: vendor?.name ?? null,
+    };
+  });
+}
@@ -0,0 +1,215 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { format, parseISO } from "date-fns";
+import { fetchBranding } from "@/lib/documents/branding";
+import { renderMail, type MailTemplate } from "@/lib/mail/templates";
+import { getMailFrom, type MailTransport } from "@/lib/mail/transport";
+import { OPEN_MAINTENANCE_STATUSES, recordMaintenanceEvent } from "@/lib/maintenance/workflow";
+import {
+  MAINTENANCE_PRIORITY_LABELS,
+  SLA_TARGET_LABELS,
+  buildSlaPolicies,
+  getSlaDueDates,
+  isMaintenancePriority,
+  type MaintenancePriority,
+  type SlaPolicy,
+  type SlaTarget,
+} from "@/lib/maintenance/sla";
+import { fetchAllRows } from "@/lib/supabase/paging";
+
+// An open request that has missed a target and not yet been escalated for it
+export interface SlaBreach {
+  request_id: string;
+  user_id: string;
+  title: string;
+  priority: string;
+  target: SlaTarget;
+  due_at: string;
+  property: string | null;
+  assignee_name: string | null;
+}
+
+// Due-by times to fill in on a request reported before it had any
+export interface SlaDueDatesUpdate {
+  request_id: string;
+  title: string;
+  response_due_at: string;
+  resolution_due_at: string;
+}
+
+export type EscalationStatus = "sent" | "skipped";
+
+export const SLA_ESCALATION_TEMPLATE: MailTemplate = {
+  subject: "SLA breached: {{title}} ({{priority}})",
+  body: [
+    "The {{target}} target for maintenance request \"{{title}}\" at {{property}} was missed.",
+    "It was due by {{due_at}}. Priority: {{priority}}. Assigned to: {{assignee}}.",
+    "Please follow up with the tenant and whoever is handling the job.",
+    "{{organization}}",
+  ].join("\n\n"),
+};
+
+const BREACHED_COLUMNS: Record<SlaTarget, string> = {
+  response: "response_breached_at",
+  resolution: "resolution_breached_at",
+};
+
+const first = <T>(value: T | T[] | null | undefined): T | null =>
+  Array.isArray(value) ? value[0] ?? null : value ?? null;
+
+const formatDueAt = (dueAt: string) => format(parseISO(dueAt), "MMM dd, yyyy HH:mm");
+
+async function fetchPoliciesByUser(supabase: SupabaseClient): Promise<Map<string, Record<MaintenancePriority, SlaPolicy>>> {
+  // Keyed by user and priority, so those give the pages a stable order
+  const rows = await fetchAllRows((from, to) =>
+    supabase
+      .from("maintenance_sla_policies")
+      .select("user_id, priority, response_hours, resolution_hours")
+      .order("user_id")
+      .order("priority")
+      .range(from, to)
+  );
+
+  const byUser = new Map<string, Record<MaintenancePriority, SlaPolicy>>();
+  for (const userId of new Set(rows.map((row) => row.user_id as string))) {
+    byUser.set(userId, buildSlaPolicies(rows.filter((row) => row.user_id === userId)));
+  }
+  return byUser;
+}
+
+/**
+ * Due-by times for open requests that have none, from their owner's policy for the priority
+ */
+export async function planSlaDueDates(supabase: SupabaseClient): Promise<SlaDueDatesUpdate[]> {
+  const requests = await fetchAllRows((from, to) =>
+    supabase
+      .from("maintenance_requests")
+      .select("id, user_id, title, priority, reported_at")
+      .in("status", OPEN_MAINTENANCE_STATUSES)
+      .is("resolution_due_at", null)
+      .order("id")
+      .range(from, to)
+  );
+  if (requests.length === 0) return [];
+
+  const policies = await fetchPoliciesByUser(supabase);
+  return requests
+    .filter((request) => isMaintenancePriority(request.priority))
+    .map((request) => {
+      const policy = (policies.get(request.user_id) ?? buildSlaPolicies([]))[request.priority as MaintenancePriority];
+      return { request_id: request.id, title: request.title, ...getSlaDueDates(parseISO(request.reported_at), policy) };
+    });
+}
+
+export async function applySlaDueDates(supabase: SupabaseClient, update: SlaDueDatesUpdate): Promise<void> {
+  const { error } = await supabase
+    .from("maintenance_requests")
+    .update({ response_due_at: update.response_due_at, resolution_due_at: update.resolution_due_at })
+    .eq("id", update.request_id)
+    .is("resolution_due_at", null);
+
+  if (error) throw error;
+}
+
+/**
+ * Open requests past a due-by time that have not been escalated for it. The response target
+ * only counts while the request is still pending.
+ */
+export async function collectSlaBreaches(supabase: SupabaseClient, now: Date): Promise<SlaBreach[]> {
+  const requests = await fetchAllRows((from, to) =>
+    supabase
+      .from("maintenance_requests")
+      .select(`
+        id, user_id, title, priority, status, assignee_name,
+        response_due_at, resolution_due_at, responded_at, response_breached_at, resolution_breached_at,
+        rent_agreements:agreement_id (property_address)
+      `)
+      .in("status", OPEN_MAINTENANCE_STATUSES)
+      .not("resolution_due_at", "is", null)
+      .lt("response_due_at", now.toISOString())
+      .order("id")
+      .range(from, to)
+  );
+
+  const breaches: SlaBreach[] = [];
+  for (const request of requests) {
+    const base = {
+      request_id: request.id,
+      user_id: request.user_id,
+      title: request.title,
+      priority: request.priority,
+      property: first(request.rent_agreements)?.property_address ?? null,
+      assignee_name: request.assignee_name,
+    };
+
+    if (!request.responded_at && !request.response_breached_at) {
+      breaches.push({ ...base, target: "response", due_at: request.response_due_at });
+    }
+    if (parseISO(request.resolution_due_at) < now && !request.resolution_breached_at) {
+      breaches.push({ ...base, target: "resolution", due_at: request.resolution_due_at });
+    }
+  }
+  return breaches;
+}
+
+/**
+ * One line summary for job output, e.g. "Leaking tap: resolution target missed (due Oct 19, 2026 14:00)"
+ */
+export function describeSlaBreach(breach: SlaBreach): string {
+  return `${breach.title}: ${SLA_TARGET_LABELS[breach.target].toLowerCase()} target missed (due ${formatDueAt(breach.due_at)})`;
+}
+
+/**
+ * Email the organization about a missed target, note it on the request's timeline and mark
+ * it escalated. Organizations without an email address only get the timeline entry.
+ */
+export async function escalateSlaBreach(
+  supabase: SupabaseClient,
+  breach: SlaBreach,
+  transport: MailTransport
+): Promise<EscalationStatus> {
+  const organization = await fetchBranding(supabase, breach.user_id);
+  const priority = isMaintenancePriority(breach.priority) ? MAINTENANCE_PRIORITY_LABELS[breach.priority] : breach.priority;
+  let status: EscalationStatus = "skipped";
+
+  if (organization.email) {
+    const mail = renderMail(
+      SLA_ESCALATION_TEMPLATE,
+      {
+        organization: organization.name,
+        title: breach.title,
+        target: SLA_TARGET_LABELS[breach.target].toLowerCase(),
+        property: breach.property ?? "the property",
+        due_at: formatDueAt(breach.due_at),
+        priority,
+        assignee: breach.assignee_name ?? "nobody yet",
+      },
+      organization
+    );
+
+    // A failed send leaves the breach unmarked so the next run tries again
+    await transport.send({ from: getMailFrom(organization.name), to: [organization.email], ...mail });
+    status = "sent";
+  }
+
+  const { data: updated, error } = await supabase
+    .from("maintenance_requests")
+    .update({ [BREACHED_COLUMNS[breach.target]]: new Date().toISOString() })
+    .eq("id", breach.request_id)
+    .is(BREACHED_COLUMNS[breach.target], null)
+    .select("id");
+
+  if (error) throw error;
+  if (!updated || updated.length === 0) return status;
+
+  await recordMaintenanceEvent(
+    supabase,
+    { id: breach.request_id, user_id: breach.user_id },
+    {
+      type: "escalation",
+      body: `${SLA_TARGET_LABELS[breach.target]} target missed; it was due by ${formatDueAt(breach.due_at)}${
+        status === "sent" ? ` and ${organization.email} was notified` : ""
+      }`,
+    }
+  );
+  return status;
+}
@@ -0,0 +1,192 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addHours, differenceInMinutes, parseISO } from "date-fns";
+
+export const MAINTENANCE_PRIORITIES = ["urgent", "high", "medium", "low"] as const;
+
+export type MaintenancePriority = (typeof MAINTENANCE_PRIORITIES)[number];
+
+export const MAINTENANCE_PRIORITY_LABELS: Record<MaintenancePriority, string> = {
+  urgent: "Urgent",
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+};
+
+export interface SlaPolicy {
+  // Hours from the report to the first response
+  response_hours: number;
+  // Hours from the report to completion
+  resolution_hours: number;
+}
+
+export const DEFAULT_SLA_POLICIES: Record<MaintenancePriority, SlaPolicy> = {
+  urgent: { response_hours: 4, resolution_hours: 24 },
+  high: { response_hours: 24, resolution_hours: 72 },
+  medium: { response_hours: 48, resolution_hours: 168 },
+  low: { response_hours: 72, resolution_hours: 336 },
+};
+
+// A target is at risk once this share of its window has passed
+export const SLA_AT_RISK_FRACTION = 0.75;
+
+// Targets longer than this are almost certainly typos
+const MAX_SLA_HOURS = 90 * 24;
+
+export const SLA_TARGETS = ["response", "resolution"] as const;
+
+export type SlaTarget = (typeof SLA_TARGETS)[number];
+
+export const SLA_TARGET_LABELS: Record<SlaTarget, string> = {
+  response: "Response",
+  resolution: "Resolution",
+};
+
+export type SlaStatus = "on_track" | "at_risk" | "breached" | "met";
+
+export const SLA_STATUS_LABELS: Record<SlaStatus, string> = {
+  on_track: "On track",
+  at_risk: "At risk",
+  breached: "Breached",
+  met: "Met",
+};
+
+// The fields of a maintenance request the SLA is worked out from
+export interface SlaRequest {
+  status: string;
+  reported_at: string;
+  response_due_at: string | null;
+  resolution_due_at: string | null;
+  responded_at: string | null;
+  completed_at: string | null;
+}
+
+export interface MaintenanceSla {
+  response: SlaStatus | null;
+  // Null for rejected requests, which are never resolved
+  resolution: SlaStatus | null;
+  // The target that matters now: response until the request is answered, then resolution
+  target: SlaTarget;
+  status: SlaStatus;
+  due_at: string;
+}
+
+export function isMaintenancePriority(priority: string): priority is MaintenancePriority {
+  return (MAINTENANCE_PRIORITIES as readonly string[]).includes(priority);
+}
+
+/**
+ * Due-by times for a request reported at `reportedAt` under `policy`
+ */
+export function getSlaDueDates(reportedAt: Date, policy: SlaPolicy): { response_due_at: string; resolution_due_at: string } {
+  return {
+    response_due_at: addHours(reportedAt, policy.response_hours).toISOString(),
+    resolution_due_at: addHours(reportedAt, policy.resolution_hours).toISOString(),
+  };
+}
+
+/**
+ * Where one target stands: met or breached once done, otherwise on track, at risk or breached
+ * by how much of its window has passed
+ */
+export function getSlaTargetStatus(startAt: string, dueAt: string, doneAt: string | null, now: Date): SlaStatus {
+  const due = parseISO(dueAt);
+  if (doneAt) return parseISO(doneAt) <= due ? "met" : "breached";
+  if (now > due) return "breached";
+
+  const window = differenceInMinutes(due, parseISO(startAt));
+  const elapsed = differenceInMinutes(now, parseISO(startAt));
+  return window > 0 && elapsed / window >= SLA_AT_RISK_FRACTION ? "at_risk" : "on_track";
+}
+
+/**
+ * Both targets of a request and the one to show, or null for requests without due dates
+ */
+export function getMaintenanceSla(request: SlaRequest, now: Date): MaintenanceSla | null {
+  if (!request.response_due_at || !request.resolution_due_at) return null;
+
+  const response = getSlaTargetStatus(request.reported_at, request.response_due_at, request.responded_at, now);
+  const resolution =
+    request.status === "rejected"
+      ? null
+      : getSlaTargetStatus(request.reported_at, request.resolution_due_at, request.completed_at, now);
+
+  if (!request.responded_at || resolution === null) {
+    return { response, resolution, target: "response", status: response, due_at: request.response_due_at };
+  }
+  return { response, resolution, target: "resolution", status: resolution, due_at: request.resolution_due_at };
+}
+
+/**
+ * Return why a policy cannot be saved, or null when it can
+ */
+export function getSlaPolicyError(policy: SlaPolicy): string | null {
+  if (!Number.isInteger(policy.response_hours) || !Number.isInteger(policy.resolution_hours)) {
+    return "Targets must be whole numbers of hours";
+  }
+  if (policy.response_hours <= 0 || policy.resolution_hours <= 0) {
+    return "Targets must be at least one hour";
+  }
+  if (policy.resolution_hours > MAX_SLA_HOURS) {
+    return `Targets must be within ${MAX_SLA_HOURS} hours`;
+  }
+  if (policy.resolution_hours < policy.response_hours) {
+    return "Resolution cannot be due before the response";
+  }
+  return null;
+}
+
+/**
+ * Policies keyed by priority from saved rows, with defaults for any not yet saved
+ */
+export function buildSlaPolicies(
+  rows: { priority: string; response_hours: number; resolution_hours: number }[]
+): Record<MaintenancePriority, SlaPolicy> {
+  const policies = { ...DEFAULT_SLA_POLICIES };
+  for (const row of rows) {
+    if (isMaintenancePriority(row.priority)) {
+      policies[row.priority] = { response_hours: row.response_hours, resolution_hours: row.resolution_hours };
+    }
+  }
+  return policies;
+}
+
+export async function fetchSlaPolicies(supabase: SupabaseClient): Promise<Record<MaintenancePriority, SlaPolicy>> {
+  const { data, error } = await supabase.from("maintenance_sla_policies").select("priority, response_hours, resolution_hours");
+
+  if (error) throw error;
+  return buildSlaPolicies(data || []);
+}
+
+export async function saveSlaPolicies(
+  supabase: SupabaseClient,
+  userId: string,
+  policies: Record<MaintenancePriority, SlaPolicy>
+): Promise<void> {
+  for (const priority of MAINTENANCE_PRIORITIES) {
+    const policyError = getSlaPolicyError(policies[priority]);
+    if (policyError) throw new Error(`${MAINTENANCE_PRIORITY_LABELS[priority]}: ${policyError}`);
+  }
+
+  const { error } = await supabase.from("maintenance_sla_policies").upsert(
+    MAINTENANCE_PRIORITIES.map((priority) => ({
+      user_id: userId,
+      priority,
+      response_hours: policies[priority].response_hours,
+      resolution_hours: policies[priority].resolution_hours,
+      updated_at: new Date().toISOString(),
+    }))
+  );
+
+  if (error) throw error;
+}
+
+/**
+ * Describe a number of hours as it would be typed in a policy, e.g. "4 hours" or "3 days"
+ */
+export function describeSlaHours(hours: number): string {
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return `${days} day${days !== 1 ? "s" : ""}`;
+  }
+  return `${hours} hour${hours !== 1 ? "s" : ""}`;
+}
@@ -0,0 +1,325 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { format } from "date-fns";
+
+export const MAINTENANCE_STATUSES = ["pending", "acknowledged", "scheduled", "in_progress", "completed", "rejected"] as const;
+
+export type MaintenanceStatus = (typeof MAINTENANCE_STATUSES)[number];
+
+export const MAINTENANCE_STATUS_LABELS: Record<MaintenanceStatus, string> = {
+  pending: "Pending",
+  acknowledged: "Acknowledged",
+  scheduled: "Scheduled",
+  in_progress: "In Progress",
+  completed: "Completed",
+  rejected: "Rejected",
+};
+
+// Statuses in which work is still outstanding
+export const OPEN_MAINTENANCE_STATUSES: MaintenanceStatus[] = ["pending", "acknowledged", "scheduled", "in_progress"];
+
+const TRANSITIONS: Record<MaintenanceStatus, MaintenanceStatus[]> = {
+  pending: ["acknowledged", "rejected"],
+  acknowledged: ["scheduled", "in_progress", "rejected"],
+  scheduled: ["in_progress", "rejected"],
+  // Back to scheduled when another visit is needed
+  in_progress: ["scheduled", "completed"],
+  completed: ["in_progress"],
+  rejected: ["pending"],
+};
+
+export const MAINTENANCE_TRANSITION_LABELS: Record<MaintenanceStatus, string> = {
+  pending: "Reopen",
+  acknowledged: "Acknowledge",
+  scheduled: "Schedule Visit",
+  in_progress: "Start Work",
+  completed: "Mark Completed",
+  rejected: "Reject",
+};
+
+export const ASSIGNEE_TYPES = ["staff", "vendor"] as const;
+
+export type AssigneeType = (typeof ASSIGNEE_TYPES)[number];
+
+export const ASSIGNEE_TYPE_LABELS: Record<AssigneeType, string> = {
+  staff: "Staff",
+  vendor: "Vendor",
+};
+
+export const MAINTENANCE_PHOTO_TAGS = ["before", "after"] as const;
+
+export type MaintenancePhotoTag = (typeof MAINTENANCE_PHOTO_TAGS)[number];
+
+export interface WorkflowRequest {
+  id: string;
+  user_id: string;
+  status: string;
+  assignee_name: string | null;
+}
+
+export interface MaintenanceAssignee {
+  type: AssigneeType;
+  // Directory entry the job is given to; required for vendors
+  vendorId: string | null;
+  name: string;
+  phone: string;
+}
+
+export interface AvailableMaintenanceTransition {
+  to: MaintenanceStatus;
+  label: string;
+  blockedReason: string | null;
+}
+
+export interface MaintenanceTransitionOptions {
+  // Visit time as yyyy-MM-ddTHH:mm, required when scheduling
+  scheduledFor?: string;
+  // Note for the timeline; required when rejecting
+  reason?: string;
+  // Actor recorded in the timeline; null for scheduled jobs
+  actorId?: string | null;
+  today?: Date;
+}
+
+export type MaintenanceEventType = "status" | "assignment" | "comment" | "photo" | "escalation";
+
+export interface MaintenanceEvent {
+  id: string;
+  event_type: MaintenanceEventType;
+  from_status: string | null;
+  to_status: string | null;
+  body: string | null;
+  changed_by: string | null;
+  created_at: string;
+}
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+export function isMaintenanceStatus(status: string): status is MaintenanceStatus {
+  return (MAINTENANCE_STATUSES as readonly string[]).includes(status);
+}
+
+export function getMaintenanceStatusLabel(status: string): string {
+  return isMaintenanceStatus(status) ? MAINTENANCE_STATUS_LABELS[status] : status;
+}
+
+// Checks that depend on the request alone, before any visit date or reason is entered
+function getStatusGuardError(request: WorkflowRequest, to: MaintenanceStatus): string | null {
+  if (!isMaintenanceStatus(request.status)) {
+    return `Unknown request status "${request.status}"`;
+  }
+  if (!TRANSITIONS[request.status].includes(to)) {
+    return `Cannot move a ${getMaintenanceStatusLabel(request.status)} request to ${getMaintenanceStatusLabel(to)}`;
+  }
+  if ((to === "scheduled" || to === "in_progress") && !request.assignee_name) {
+    return `Assign the request before ${to === "scheduled" ? "scheduling a visit" : "starting work"}`;
+  }
+  return null;
+}
+
+/**
+ * Return why a transition is not allowed, or null when it is
+ */
+export function getMaintenanceTransitionError(
+  request: WorkflowRequest,
+  to: MaintenanceStatus,
+  options: MaintenanceTransitionOptions = {}
+): string | null {
+  const guardError = getStatusGuardError(request, to);
+  if (guardError) return guardError;
+
+  if (to === "scheduled" && !options.scheduledFor) {
+    return "Choose a visit date";
+  }
+  if (to === "rejected" && !options.reason?.trim()) {
+    return "Give a reason for rejecting the request";
+  }
+  return null;
+}
+
+/**
+ * List the transitions allowed from the request's current status, with any guard that blocks them
+ */
+export function getAvailableMaintenanceTransitions(request: WorkflowRequest): AvailableMaintenanceTransition[] {
+  if (!isMaintenanceStatus(request.status)) return [];
+
+  return TRANSITIONS[request.status].map((to) => ({
+    to,
+    label: MAINTENANCE_TRANSITION_LABELS[to],
+    blockedReason: getStatusGuardError(request, to),
+  }));
+}
+
+/**
+ * Move a request to a new status, stamping the dates that go with it, and add it to the timeline
+ */
+export async function transitionMaintenanceRequest(
+  supabase: SupabaseClient,
+  request: WorkflowRequest,
+  to: MaintenanceStatus,
+  options: MaintenanceTransitionOptions = {}
+): Promise<void> {
+  const error = getMaintenanceTransitionError(request, to, options);
+  if (error) throw new Error(error);
+
+  const now = options.today ?? new Date();
+  const updates: Record<string, string | null> = { status: to };
+  if (to === "acknowledged") {
+    updates.acknowledged_at = now.toISOString();
+  } else if (to === "scheduled") {
+    updates.scheduled_for = new Date(options.scheduledFor as string).toISOString();
+  } else if (to === "completed") {
+    updates.completed_date = toDateString(now);
+    updates.completed_at = now.toISOString();
+  } else if (to === "rejected") {
+    updates.rejection_reason = (options.reason as string).trim();
+  }
+  // Reopening clears the outcome of the earlier close
+  if (request.status === "completed") {
+    updates.completed_date = null;
+    updates.completed_at = null;
+  }
+  if (request.status === "rejected") updates.rejection_reason = null;
+
+  // Guard against a concurrent change: only update if the status is still what we validated
+  const { data: updated, error: updateError } = await supabase
+    .from("maintenance_requests")
+    .update(updates)
+    .eq("id", request.id)
+    .eq("status", request.status)
+    .select("id");
+
+  if (updateError) throw updateError;
+  if (!updated || updated.length === 0) {
+    throw new Error("Request status was changed by someone else. Please reload and try again.");
+  }
+
+  // The first move out of pending answers the request for the response target; a request
+  // reopened and answered again keeps its original response time
+  if (request.status === "pending") {
+    const { error: respondedError } = await supabase
+      .from("maintenance_requests")
+      .update({ responded_at: now.toISOString() })
+      .eq("id", request.id)
+      .is("responded_at", null);
+
+    if (respondedError) throw respondedError;
+  }
+
+  const details = [
+    to === "scheduled" && `Visit on ${format(new Date(options.scheduledFor as string), "MMM dd, yyyy HH:mm")}`,
+    options.reason?.trim(),
+  ].filter(Boolean);
+
+  await recordMaintenanceEvent(supabase, request, {
+    type: "status",
+    from: request.status,
+    to,
+    body: details.join(". ") || null,
+    actorId: options.actorId,
+  });
+}
+
+/**
+ * Return why an assignee cannot be saved, or null when it can
+ */
+export function getAssigneeError(assignee: MaintenanceAssignee): string | null {
+  if (assignee.type === "vendor" && !assignee.vendorId) {
+    return "Choose a vendor from the directory";
+  }
+  if (!assignee.name.trim()) {
+    return "Enter who the request is assigned to";
+  }
+  return null;
+}
+
+/**
+ * Assign a request to a staff member or vendor
+ */
+export async function assignMaintenanceRequest(
+  supabase: SupabaseClient,
+  request: WorkflowRequest,
+  assignee: MaintenanceAssignee,
+  actorId?: string | null
+): Promise<void> {
+  const assigneeError = getAssigneeError(assignee);
+  if (assigneeError) throw new Error(assigneeError);
+
+  const { error } = await supabase
+    .from("maintenance_requests")
+    .update({
+      assignee_type: assignee.type,
+      vendor_id: assignee.type === "vendor" ? assignee.vendorId : null,
+      assignee_name: assignee.name.trim(),
+      assignee_phone: assignee.phone.trim() || null,
+    })
+    .eq("id", request.id);
+
+  if (error) throw error;
+
+  await recordMaintenanceEvent(supabase, request, {
+    type: "assignment",
+    body: `Assigned to ${assignee.name.trim()} (${ASSIGNEE_TYPE_LABELS[assignee.type].toLowerCase()})`,
+    actorId,
+  });
+}
+
+/**
+ * Append an entry to a request's timeline
+ */
+export async function recordMaintenanceEvent(
+  supabase: SupabaseClient,
+  request: { id: string; user_id: string },
+  event: {
+    type: MaintenanceEventType;
+    from?: string | null;
+    to?: string | null;
+    body?: string | null;
+    actorId?: string | null;
+  }
+): Promise<void> {
+  const { error } = await supabase.from("maintenance_events").insert({
+    request_id: request.id,
+    user_id: request.user_id,
+    event_type: event.type,
+    from_status: event.from ?? null,
+    to_status: event.to ?? null,
+    body: event.body || null,
+    changed_by: event.actorId ?? null,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Load a request's timeline, oldest first
+ */
+export async function fetchMaintenanceTimeline(supabase: SupabaseClient, requestId: string): Promise<MaintenanceEvent[]> {
+  const { data, error } = await supabase
+    .from("maintenance_events")
+    .select("id, event_type, from_status, to_status, body, changed_by, created_at")
+    .eq("request_id", requestId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Headline for a timeline entry, e.g. "Pending -> Acknowledged" or "Comment"
+ */
+export function describeMaintenanceEvent(event: MaintenanceEvent): string {
+  switch (event.event_type) {
+    case "status":
+      return event.from_status
+        ? `${getMaintenanceStatusLabel(event.from_status)} -> ${getMaintenanceStatusLabel(event.to_status ?? "")}`
+        : getMaintenanceStatusLabel(event.to_status ?? "");
+    case "assignment":
+      return "Assignment";
+    case "photo":
+      return "Photos added";
+    case "escalation":
+      return "Escalated";
+    default:
+      return "Comment";
+  }
+}
@@ -0,0 +1,258 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { fetchRentAccounts } from "@/lib/agreements/dues";
+import { roundToCurrency } from "@/lib/currency/currencies";
+import { convertDocumentAmount, type ConvertibleAmount, type ExchangeRate } from "@/lib/currency/rates";
+import { fetchAllRows } from "@/lib/supabase/paging";
+
+export const AGING_BUCKETS = ["current", "1_30", "31_60", "61_90", "over_90"] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: "Current",
+  "1_30": "1-30 days",
+  "31_60": "31-60 days",
+  "61_90": "61-90 days",
+  over_90: "90+ days",
+};
+
+export type ReceivableSource = "invoice" | "rent";
+
+export const RECEIVABLE_SOURCE_LABELS: Record<ReceivableSource, string> = {
+  invoice: "Client",
+  rent: "Tenant",
+};
+
+// Something still owed: the unpaid balance of an issued invoice or a rent or late fee line.
+// `amount` is the outstanding balance in the document currency.
+export interface Receivable extends ConvertibleAmount {
+  source: ReceivableSource;
+  id: string;
+  reference: string;
+  party_id: string;
+  party_name: string;
+  due_date: string;
+  href: string;
+}
+
+export interface AgedReceivable extends Receivable {
+  days_overdue: number;
+  bucket: AgingBucket;
+  // Outstanding in the report currency, or null when no exchange rate is known
+  converted: number | null;
+}
+
+export type AgingTotals = Record<AgingBucket, number> & { total: number };
+
+export interface AgingRow {
+  key: string;
+  source: ReceivableSource;
+  party_name: string;
+  totals: AgingTotals;
+  // Oldest first
+  items: AgedReceivable[];
+}
+
+export interface AgingReport {
+  as_of: string;
+  currency: string;
+  // Largest balance first
+  rows: AgingRow[];
+  totals: AgingTotals;
+  // Items left out of the totals because they could not be converted
+  unconverted: AgedReceivable[];
+}
+
+// Issued invoices that may still have a balance; paid, cancelled and draft invoices owe nothing
+const OPEN_INVOICE_STATUSES = ["sent", "partially_paid", "overdue"];
+
+const emptyTotals = (): AgingTotals => ({ current: 0, "1_30": 0, "31_60": 0, "61_90": 0, over_90: 0, total: 0 });
+
+/**
+ * Days past the due date on `asOf`; zero or less while not yet overdue
+ */
+export function getDaysOverdue(dueDate: string, asOf: string): number {
+  return differenceInCalendarDays(parseISO(asOf), parseISO(dueDate));
+}
+
+export function getAgingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return "current";
+  if (daysOverdue <= 30) return "1_30";
+  if (daysOverdue <= 60) return "31_60";
+  if (daysOverdue <= 90) return "61_90";
+  return "over_90";
+}
+
+/**
+ * Age each receivable from its due date and total them per client or tenant in `currency`
+ */
+export function buildAgingReport(
+  receivables: Receivable[],
+  rates: ExchangeRate[],
+  currency: string,
+  asOf: string
+): AgingReport {
+  const rows = new Map<string, AgingRow>();
+  const totals = emptyTotals();
+  const unconverted: AgedReceivable[] = [];
+
+  const sorted = [...receivables].sort((a, b) => a.due_date.localeCompare(b.due_date) || a.reference.localeCompare(b.reference));
+  for (const receivable of sorted) {
+    const days = getDaysOverdue(receivable.due_date, asOf);
+    const item: AgedReceivable = {
+      ...receivable,
+      days_overdue: Math.max(0, days),
+      bucket: getAgingBucket(days),
+      converted: convertDocumentAmount(rates, receivable, currency),
+    };
+
+    const key = `${receivable.source}:${receivable.party_id}`;
+    const row = rows.get(key) ?? {
+      key,
+      source: receivable.source,
+      party_name: receivable.party_name,
+      totals: emptyTotals(),
+      items: [],
+    };
+    row.items.push(item);
+    rows.set(key, row);
+
+    if (item.converted === null) {
+      unconverted.push(item);
+      continue;
+    }
+    for (const target of [row.totals, totals]) {
+      target[item.bucket] = roundToCurrency(target[item.bucket] + item.converted, currency);
+      target.total = roundToCurrency(target.total + item.converted, currency);
+    }
+  }
+
+  return {
+    as_of: asOf,
+    currency,
+    rows: [...rows.values()].sort((a, b) => b.totals.total - a.totals.total || a.party_name.localeCompare(b.party_name)),
+    totals,
+    unconverted,
+  };
+}
+
+export const AGING_SUMMARY_HEADERS = ["Party", "Type", ...AGING_BUCKETS.map((bucket) => AGING_BUCKET_LABELS[bucket]), "Total"];
+
+export const AGING_DETAIL_HEADERS = [
+  "Party",
+  "Type",
+  "Reference",
+  "Due Date",
+  "Days Overdue",
+  "Bucket",
+  "Currency",
+  "Outstanding",
+  "Converted",
+];
+
+/**
+ * One CSV row per client or tenant with their balance in each bucket
+ */
+export function toAgingSummaryRows(report: AgingReport): string[][] {
+  const amounts = (totals: AgingTotals) => [...AGING_BUCKETS.map((bucket) => totals[bucket]), totals.total].map((value) => value.toFixed(2));
+  return [
+    ...report.rows.map((row) => [row.party_name, RECEIVABLE_SOURCE_LABELS[row.source], ...amounts(row.totals)]),
+    ["Total", "", ...amounts(report.totals)],
+  ];
+}
+
+/**
+ * One CSV row per outstanding invoice or rent line
+ */
+export function toAgingDetailRows(report: AgingReport): string[][] {
+  return report.rows.flatMap((row) =>
+    row.items.map((item) => [
+      row.party_name,
+      RECEIVABLE_SOURCE_LABELS[row.source],
+      item.reference,
+      item.due_date,
+      String(item.days_overdue),
+      AGING_BUCKET_LABELS[item.bucket],
+      item.currency,
+      item.amount.toFixed(2),
+      item.converted === null ? "" : item.converted.toFixed(2),
+    ])
+  );
+}
+
+/**
+ * Everything owed on `asOf`: unpaid balances of issued invoices and rent and late fees
+ * that have fallen due. Rent is kept in the organization's base currency.
+ */
+export async function fetchReceivables(supabase: SupabaseClient, baseCurrency: string, asOf: string): Promise<Receivable[]> {
+  const [openInvoices, rentAccounts] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase
+        .from("invoices")
+        .select(`
+          id,
+          invoice_number,
+          client_id,
+          issue_date,
+          due_date,
+          currency,
+          total,
+          paid_amount,
+          credited_amount,
+          base_currency,
+          exchange_rate,
+          clients:client_id (name)
+        `)
+        .in("status", OPEN_INVOICE_STATUSES)
+        .order("id")
+        .range(from, to)
+    ),
+    fetchRentAccounts(supabase, asOf),
+  ]);
+
+  const invoices = openInvoices.flatMap((invoice): Receivable[] => {
+    const outstanding = roundToCurrency(
+      Number(invoice.total) - Number(invoice.paid_amount || 0) - Number(invoice.credited_amount || 0),
+      invoice.currency
+    );
+    if (outstanding <= 0) return [];
+
+    const client = Array.isArray(invoice.clients) ? invoice.clients[0] : invoice.clients;
+    return [
+      {
+        source: "invoice",
+        id: invoice.id,
+        reference: invoice.invoice_number,
+        party_id: invoice.client_id ?? "none",
+        party_name: client?.name ?? "No client",
+        due_date: invoice.due_date,
+        href: `/dashboard/invoices/${invoice.id}`,
+        amount: outstanding,
+        currency: invoice.currency,
+        date: invoice.issue_date,
+        base_currency: invoice.base_currency,
+        exchange_rate: invoice.exchange_rate === null ? null : Number(invoice.exchange_rate),
+      },
+    ];
+  });
+
+  const rent = rentAccounts.flatMap(({ agreement_id, agreement_number, tenant_id, tenant_name, account }) =>
+    account.lines
+      .filter((line) => line.due_date <= asOf && line.outstanding > 0)
+      .map((line): Receivable => ({
+        source: "rent",
+        id: line.id,
+        reference: `${agreement_number} ${line.kind === "late_fee" ? "late fee" : "rent"} ${format(parseISO(line.period_start), "MMM yyyy")}`,
+        party_id: tenant_id,
+        party_name: tenant_name,
+        due_date: line.due_date,
+        href: `/dashboard/agreements/${agreement_id}`,
+        amount: line.outstanding,
+        currency: baseCurrency,
+        date: line.due_date,
+      }))
+  );
+
+  return [...invoices, ...rent];
+}
@@ -0,0 +1,250 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { format, parseISO } from "date-fns";
+import { fetchRentAccounts } from "@/lib/agreements/dues";
+import { OCCUPIED_STATUSES } from "@/lib/agreements/lifecycle";
+import { fetchBaseCurrency } from "@/lib/currency/rates";
+import { fetchBranding } from "@/lib/documents/branding";
+import { formatMoney } from "@/lib/documents/format";
+import { renderMail } from "@/lib/mail/templates";
+import { getMailFrom, type MailTransport } from "@/lib/mail/transport";
+import { fetchAllRows, fetchRowsByIds } from "@/lib/supabase/paging";
+import {
+  REMINDER_TEMPLATES,
+  describeReminderOffset,
+  describeReminderTiming,
+  getDueReminderStep,
+  type ReminderSchedule,
+  type ReminderStatus,
+  type ReminderTarget,
+} from "@/lib/reminders/schedules";
+
+// A reminder step that should go out today
+export interface DueReminder {
+  user_id: string;
+  target: ReminderTarget;
+  target_id: string;
+  agreement_id: string | null;
+  invoice_id: string | null;
+  // Agreement or invoice number
+  reference: string;
+  due_date: string;
+  offset_days: number;
+  amount: number;
+  currency: string;
+  recipient_name: string;
+  recipient_email: string | null;
+  // Property address for rent reminders
+  property: string | null;
+}
+
+const OPEN_INVOICE_STATUSES = ["sent", "partially_paid", "overdue"];
+
+const first = <T>(value: T | T[] | null | undefined): T | null =>
+  Array.isArray(value) ? value[0] ?? null : value ?? null;
+
+/**
+ * Find every rent line and invoice still owed whose reminder sequence has a step due today.
+ * Tenants who opted out are left out; paid items drop out because nothing is outstanding.
+ */
+export async function collectDueReminders(supabase: SupabaseClient, today: string): Promise<DueReminder[]> {
+  const { data: scheduleRows, error: schedulesError } = await supabase
+    .from("reminder_schedules")
+    .select("user_id, target, enabled, offsets")
+    .eq("enabled", true);
+
+  if (schedulesError) throw schedulesError;
+  if (!scheduleRows?.length) return [];
+
+  const schedules = new Map<string, ReminderSchedule>(
+    scheduleRows.map((row) => [`${row.user_id}:${row.target}`, { enabled: row.enabled, offsets: row.offsets }])
+  );
+  const hasTarget = (target: ReminderTarget) => scheduleRows.some((row) => row.target === target);
+
+  // Everything still owed under an enabled schedule; steps already sent are checked below
+  const candidates: Omit<DueReminder, "offset_days">[] = [];
+
+  if (hasTarget("rent")) {
+    const agreements = await fetchAllRows((from, to) =>
+      supabase
+        .from("rent_agreements")
+        .select("id, property_address, property_city, tenants:tenant_id (name, email, reminders_opt_out)")
+        .in("status", OCCUPIED_STATUSES)
+        .order("id")
+        .range(from, to)
+    );
+    const accounts = await fetchRentAccounts(
+      supabase,
+      today,
+      agreements.map((agreement) => agreement.id)
+    );
+
+    const agreementsById = new Map(agreements.map((row) => [row.id, row]));
+    const currencies = new Map<string, string>();
+    for (const { agreement_id, user_id, agreement_number, account } of accounts) {
+      const agreement = agreementsById.get(agreement_id);
+      const tenant = first(agreement?.tenants);
+      if (!agreement || !tenant || tenant.reminders_opt_out || !schedules.has(`${user_id}:rent`)) continue;
+
+      if (!currencies.has(user_id)) currencies.set(user_id, await fetchBaseCurrency(supabase, user_id));
+      for (const line of account.lines) {
+        if (line.kind !== "rent" || line.outstanding <= 0) continue;
+        candidates.push({
+          user_id,
+          target: "rent",
+          target_id: line.id,
+          agreement_id,
+          invoice_id: null,
+          reference: agreement_number,
+          due_date: line.due_date,
+          amount: line.outstanding,
+          currency: currencies.get(user_id) as string,
+          recipient_name: tenant.name,
+          recipient_email: tenant.email,
+          property: [agreement.property_address, agreement.property_city].filter(Boolean).join(", "),
+        });
+      }
+    }
+  }
+
+  if (hasTarget("invoice")) {
+    const invoices = await fetchAllRows((from, to) =>
+      supabase
+        .from("invoices")
+        .select("id, user_id, invoice_number, due_date, currency, total, paid_amount, credited_amount, clients:client_id (name, email)")
+        .in("status", OPEN_INVOICE_STATUSES)
+        .order("id")
+        .range(from, to)
+    );
+
+    for (const invoice of invoices) {
+      const outstanding =
+        Math.round((Number(invoice.total) - Number(invoice.paid_amount || 0) - Number(invoice.credited_amount || 0)) * 100) / 100;
+      if (outstanding <= 0) continue;
+
+      const client = first(invoice.clients);
+      candidates.push({
+        user_id: invoice.user_id,
+        target: "invoice",
+        target_id: invoice.id,
+        agreement_id: null,
+        invoice_id: invoice.id,
+        reference: invoice.invoice_number,
+        due_date: invoice.due_date,
+        amount: outstanding,
+        currency: invoice.currency,
+        recipient_name: client?.name ?? "there",
+        recipient_email: client?.email ?? null,
+        property: null,
+      });
+    }
+  }
+
+  const sentRows = await fetchRowsByIds(
+    candidates.map((candidate) => candidate.target_id),
+    (ids, from, to) =>
+      supabase
+        .from("payment_reminders")
+        .select("id, target, target_id, offset_days")
+        .in("target_id", ids)
+        .neq("status", "failed")
+        .order("id")
+        .range(from, to)
+  );
+
+  const sent = new Map<string, number[]>();
+  for (const row of sentRows) {
+    const key = `${row.target}:${row.target_id}`;
+    sent.set(key, [...(sent.get(key) ?? []), row.offset_days]);
+  }
+
+  const reminders: DueReminder[] = [];
+  for (const candidate of candidates) {
+    const schedule = schedules.get(`${candidate.user_id}:${candidate.target}`);
+    if (!schedule) continue;
+    const step = getDueReminderStep(schedule, candidate.due_date, sent.get(`${candidate.target}:${candidate.target_id}`) ?? [], today);
+    if (step !== null) reminders.push({ ...candidate, offset_days: step });
+  }
+
+  return reminders;
+}
+
+/**
+ * One line summary for job output, e.g. "INV-0042: invoice due Oct 01, 2026, 7 days after due, to a@b.com"
+ */
+export function describeDueReminder(reminder: DueReminder): string {
+  return [
+    `${reminder.reference}: ${reminder.target} due ${format(parseISO(reminder.due_date), "MMM dd, yyyy")}`,
+    describeReminderOffset(reminder.offset_days).toLowerCase(),
+    `to ${reminder.recipient_email ?? "no email address"}`,
+  ].join(", ");
+}
+
+/**
+ * Record the step, then email the reminder. Recording first means a step is never mailed twice:
+ * a step another run already recorded fails the insert before anything is sent. Reminders
+ * without an address are recorded as skipped; a failed send marks the step failed for a retry.
+ */
+export async function deliverReminder(
+  supabase: SupabaseClient,
+  reminder: DueReminder,
+  transport: MailTransport,
+  today: string
+): Promise<ReminderStatus> {
+  const status: ReminderStatus = reminder.recipient_email ? "sent" : "skipped";
+
+  const { data: claimed, error } = await supabase
+    .from("payment_reminders")
+    .insert({
+      user_id: reminder.user_id,
+      target: reminder.target,
+      target_id: reminder.target_id,
+      agreement_id: reminder.agreement_id,
+      invoice_id: reminder.invoice_id,
+      reference: reminder.reference,
+      due_date: reminder.due_date,
+      offset_days: reminder.offset_days,
+      amount: reminder.amount,
+      recipient: reminder.recipient_email,
+      status,
+      error: reminder.recipient_email ? null : "No email address on file",
+    })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  if (!reminder.recipient_email) return status;
+
+  const organization = await fetchBranding(supabase, reminder.user_id);
+  const mail = renderMail(
+    REMINDER_TEMPLATES[reminder.target],
+    {
+      organization: organization.name,
+      recipient_name: reminder.recipient_name,
+      reference: reminder.reference,
+      amount: formatMoney(reminder.amount, reminder.currency),
+      timing: describeReminderTiming(reminder.due_date, today),
+      property: reminder.property ?? "",
+    },
+    organization
+  );
+
+  try {
+    await transport.send({
+      from: getMailFrom(organization.name),
+      to: [reminder.recipient_email],
+      replyTo: organization.email ?? undefined,
+      ...mail,
+    });
+  } catch (transportError) {
+    const failure = transportError instanceof Error ? transportError.message : "Unknown error";
+    const { error: updateError } = await supabase
+      .from("payment_reminders")
+      .update({ status: "failed", error: failure })
+      .eq("id", claimed.id);
+
+    if (updateError) throw updateError;
+    throw new Error(failure);
+  }
+
+  return status;
+}
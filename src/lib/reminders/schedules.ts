@@ -0,0 +1,204 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import type { MailTemplate } from "@/lib/mail/templates";
+
+export const REMINDER_TARGETS = ["rent", "invoice"] as const;
+
+export type ReminderTarget = (typeof REMINDER_TARGETS)[number];
+
+export const REMINDER_TARGET_LABELS: Record<ReminderTarget, string> = {
+  rent: "Rent",
+  invoice: "Invoices",
+};
+
+export interface ReminderSchedule {
+  enabled: boolean;
+  // Days relative to the due date, negative before it
+  offsets: number[];
+}
+
+export const DEFAULT_REMINDER_SCHEDULE: ReminderSchedule = {
+  enabled: false,
+  offsets: [-3, 0, 7, 14],
+};
+
+export type ReminderStatus = "sent" | "failed" | "skipped";
+
+export interface PaymentReminder {
+  id: string;
+  target: ReminderTarget;
+  target_id: string;
+  reference: string;
+  due_date: string;
+  offset_days: number;
+  amount: number;
+  recipient: string | null;
+  status: ReminderStatus;
+  error: string | null;
+  created_at: string;
+}
+
+// The latest step is the furthest after the due date a reminder may be sent
+const MAX_OFFSET = 365;
+
+export const REMINDER_TEMPLATES: Record<ReminderTarget, MailTemplate> = {
+  rent: {
+    subject: "Rent reminder: {{amount}} {{timing}}",
+    body: [
+      "Hello {{recipient_name}},",
+      "This is a reminder that rent of {{amount}} for {{property}} (agreement {{reference}}) {{timing}}.",
+      "If you have already paid, please ignore this message.",
+      "Regards,\n{{organization}}",
+    ].join("\n\n"),
+  },
+  invoice: {
+    subject: "Payment reminder: invoice {{reference}} {{timing}}",
+    body: [
+      "Hello {{recipient_name}},",
+      "This is a reminder that {{amount}} on invoice {{reference}} {{timing}}.",
+      "If you have already paid, please ignore this message.",
+      "Thank you,\n{{organization}}",
+    ].join("\n\n"),
+  },
+};
+
+/**
+ * Describe a step, e.g. "3 days before due", "On the due date", "7 days after due"
+ */
+export function describeReminderOffset(offset: number): string {
+  if (offset === 0) return "On the due date";
+  const days = Math.abs(offset);
+  return `${days} day${days !== 1 ? "s" : ""} ${offset < 0 ? "before" : "after"} due`;
+}
+
+/**
+ * Phrase for the reminder text, e.g. "is due in 3 days" or "was due on Oct 01, 2026"
+ */
+export function describeReminderTiming(dueDate: string, today: string): string {
+  const days = differenceInCalendarDays(parseISO(dueDate), parseISO(today));
+  if (days > 0) return `is due in ${days} day${days !== 1 ? "s" : ""}`;
+  if (days === 0) return "is due today";
+  return `was due on ${format(parseISO(dueDate), "MMM dd, yyyy")}`;
+}
+
+/**
+ * Read offsets typed as a comma separated list, e.g. "-3, 0, 7, 14"; unreadable entries are kept as NaN
+ */
+export function parseReminderOffsets(value: string): number[] {
+  return value
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map(Number);
+}
+
+/**
+ * Return why a schedule cannot be saved, or null when it can
+ */
+export function getReminderScheduleError(schedule: ReminderSchedule): string | null {
+  if (schedule.offsets.some((offset) => !Number.isInteger(offset))) {
+    return "Steps must be whole numbers of days";
+  }
+  if (schedule.offsets.some((offset) => Math.abs(offset) > MAX_OFFSET)) {
+    return `Steps must be within ${MAX_OFFSET} days of the due date`;
+  }
+  if (new Set(schedule.offsets).size !== schedule.offsets.length) {
+    return "Each step can only be listed once";
+  }
+  if (schedule.enabled && schedule.offsets.length === 0) {
+    return "Add at least one step";
+  }
+  return null;
+}
+
+/**
+ * The step to send today for something due on `dueDate`: the latest step whose date has
+ * arrived, unless it or a later step was already sent. Steps missed while the job was not
+ * running are skipped rather than sent in a burst.
+ */
+export function getDueReminderStep(
+  schedule: ReminderSchedule,
+  dueDate: string,
+  sentOffsets: number[],
+  today: string
+): number | null {
+  if (!schedule.enabled) return null;
+
+  const due = parseISO(dueDate);
+  const arrived = schedule.offsets
+    .filter((offset) => format(addDays(due, offset), "yyyy-MM-dd") <= today)
+    .sort((a, b) => b - a);
+  const step = arrived[0];
+
+  if (step === undefined || sentOffsets.some((offset) => offset >= step)) return null;
+  return step;
+}
+
+/**
+ * The user's rent and invoice schedules, with defaults for any not yet saved
+ */
+export async function fetchReminderSchedules(supabase: SupabaseClient): Promise<Record<ReminderTarget, ReminderSchedule>> {
+  const { data, error } = await supabase.from("reminder_schedules").select("target, enabled, offsets");
+
+  if (error) throw error;
+
+  const schedules = { rent: DEFAULT_REMINDER_SCHEDULE, invoice: DEFAULT_REMINDER_SCHEDULE };
+  for (const row of data || []) {
+    if (REMINDER_TARGETS.includes(row.target)) {
+      schedules[row.target as ReminderTarget] = { enabled: row.enabled, offsets: row.offsets };
+    }
+  }
+  return schedules;
+}
+
+export async function saveReminderSchedules(
+  supabase: SupabaseClient,
+  userId: string,
+  schedules: Record<ReminderTarget, ReminderSchedule>
+): Promise<void> {
+  for (const target of REMINDER_TARGETS) {
+    const scheduleError = getReminderScheduleError(schedules[target]);
+    if (scheduleError) throw new Error(`${REMINDER_TARGET_LABELS[target]}: ${scheduleError}`);
+  }
+
+  const { error } = await supabase.from("reminder_schedules").upsert(
+    REMINDER_TARGETS.map((target) => ({
+      user_id: userId,
+      target,
+      enabled: schedules[target].enabled,
+      offsets: [...schedules[target].offsets].sort((a, b) => a - b),
+      updated_at: new Date().toISOString(),
+    }))
+  );
+
+  if (error) throw error;
+}
+
+/**
+ * Reminders sent for an agreement's rent or for an invoice, latest first
+ */
+export async function fetchReminderHistory(
+  supabase: SupabaseClient,
+  filter: { agreementId: string } | { invoiceId: string }
+): Promise<PaymentReminder[]> {
+  const query = supabase
+    .from("payment_reminders")
+    .select("id, target, target_id, reference, due_date, offset_days, amount, recipient, status, error, created_at");
+
+  const { data, error } = await ("agreementId" in filter
+    ? query.eq("agreement_id", filter.agreementId)
+    : query.eq("invoice_id", filter.invoiceId)
+  ).order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map((row) => ({ ...row, amount: Number(row.amount) }));
+}
+
+/**
+ * Let a tenant stop or resume rent reminders
+ */
+export async function setTenantReminderOptOut(supabase: SupabaseClient, tenantId: string, optOut: boolean): Promise<void> {
+  const { error } = await supabase.from("tenants").update({ reminders_opt_out: optOut }).eq("id", tenantId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,39 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+
+// PostgREST returns at most this many rows per request
+export const PAGE_SIZE = 1000;
+
+// Ids per `.in()` filter, keeping the request URL well within server limits
+export const ID_CHUNK_SIZE = 200;
+
+type PageResult<T> = PromiseLike<{ data: T[] | null; error: PostgrestError | null }>;
+
+/**
+ * Read every row of a query one page at a time. `fetchPage` must apply `.range(from, to)`
+ * to a query with a stable order, or rows can be skipped or repeated between pages.
+ */
+export async function fetchAllRows<T>(fetchPage: (from: number, to: number) => PageResult<T>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Read every row matching a list of ids, in chunks small enough for an `.in()` filter
+ */
+export async function fetchRowsByIds<T>(
+  ids: string[],
+  fetchPage: (ids: string[], from: number, to: number) => PageResult<T>
+): Promise<T[]> {
+  const unique = [...new Set(ids)];
+  const rows: T[] = [];
+  for (let i = 0; i < unique.length; i += ID_CHUNK_SIZE) {
+    const chunk = unique.slice(i, i + ID_CHUNK_SIZE);
+    rows.push(...(await fetchAllRows((from, to) => fetchPage(chunk, from, to))));
+  }
+  return rows;
+}
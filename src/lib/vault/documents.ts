@@ -0,0 +1,239 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addDays, format, parseISO } from "date-fns";
+import { deleteEntityAttachments } from "@/lib/attachments/attachments";
+
+export const VAULT_OWNERS = ["tenant", "landlord", "agreement", "vendor"] as const;
+
+export type VaultOwner = (typeof VAULT_OWNERS)[number];
+
+export const VAULT_OWNER_LABELS: Record<VaultOwner, string> = {
+  tenant: "Tenant",
+  landlord: "Landlord",
+  agreement: "Agreement",
+  vendor: "Vendor",
+};
+
+// The owners whose documents make up an agreement's checklist
+export type AgreementDocumentOwner = Exclude<VaultOwner, "vendor">;
+
+export const VAULT_DOCUMENT_TYPES = [
+  "id_proof",
+  "address_proof",
+  "police_verification",
+  "bank_proof",
+  "signed_lease",
+  "noc",
+  "move_in_inspection",
+  "trade_license",
+  "insurance",
+  "other",
+] as const;
+
+export type VaultDocumentType = (typeof VAULT_DOCUMENT_TYPES)[number];
+
+export const VAULT_DOCUMENT_LABELS: Record<VaultDocumentType, string> = {
+  id_proof: "ID proof",
+  address_proof: "Address proof",
+  police_verification: "Police verification",
+  bank_proof: "Bank proof",
+  signed_lease: "Signed lease",
+  noc: "NOC",
+  move_in_inspection: "Move-in inspection",
+  trade_license: "Trade licence",
+  insurance: "Insurance",
+  other: "Other",
+};
+
+// The types offered when adding a document to each kind of record
+export const VAULT_DOCUMENT_TYPES_BY_OWNER: Record<VaultOwner, VaultDocumentType[]> = {
+  tenant: ["id_proof", "address_proof", "police_verification", "bank_proof", "other"],
+  landlord: ["id_proof", "address_proof", "bank_proof", "other"],
+  agreement: ["signed_lease", "noc", "move_in_inspection", "other"],
+  vendor: ["trade_license", "insurance", "id_proof", "bank_proof", "other"],
+};
+
+// What every agreement should have on file, across its tenant, landlord and itself
+export const REQUIRED_AGREEMENT_DOCUMENTS: { owner: AgreementDocumentOwner; document_type: VaultDocumentType }[] = [
+  { owner: "tenant", document_type: "id_proof" },
+  { owner: "tenant", document_type: "address_proof" },
+  { owner: "tenant", document_type: "police_verification" },
+  { owner: "landlord", document_type: "id_proof" },
+  { owner: "agreement", document_type: "signed_lease" },
+  { owner: "agreement", document_type: "move_in_inspection" },
+];
+
+// Documents expiring within this many days are flagged for renewal
+export const EXPIRY_WARNING_DAYS = 30;
+
+export interface VaultDocument {
+  id: string;
+  owner_type: VaultOwner;
+  owner_id: string;
+  document_type: VaultDocumentType;
+  title: string;
+  reference: string | null;
+  issued_on: string | null;
+  expires_on: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface VaultDocumentInput {
+  document_type: VaultDocumentType;
+  title: string;
+  reference: string;
+  issued_on: string;
+  expires_on: string;
+  notes: string;
+}
+
+export type VaultDocumentStatus = "valid" | "expiring" | "expired";
+
+export interface ChecklistItem {
+  owner: AgreementDocumentOwner;
+  owner_id: string;
+  document_type: VaultDocumentType;
+  status: VaultDocumentStatus | "missing";
+  // The document that satisfies the item, if any
+  document: VaultDocument | null;
+}
+
+const VAULT_DOCUMENT_COLUMNS = "id, owner_type, owner_id, document_type, title, reference, issued_on, expires_on, notes, created_at";
+
+/**
+ * Whether a document is still valid on `today`; documents without an expiry date never expire
+ */
+export function getVaultDocumentStatus(document: Pick<VaultDocument, "expires_on">, today: string): VaultDocumentStatus {
+  if (!document.expires_on) return "valid";
+  if (document.expires_on < today) return "expired";
+  if (document.expires_on <= format(addDays(parseISO(today), EXPIRY_WARNING_DAYS), "yyyy-MM-dd")) return "expiring";
+  return "valid";
+}
+
+/**
+ * Return why a document cannot be saved against this kind of record, or null when it can
+ */
+export function getVaultDocumentError(owner: VaultOwner, input: VaultDocumentInput): string | null {
+  if (!VAULT_DOCUMENT_TYPES_BY_OWNER[owner].includes(input.document_type)) {
+    return `${VAULT_DOCUMENT_LABELS[input.document_type]} cannot be added to a ${VAULT_OWNER_LABELS[owner].toLowerCase()}`;
+  }
+  if (!input.title.trim()) {
+    return "Title is required";
+  }
+  if (input.issued_on && input.expires_on && input.expires_on < input.issued_on) {
+    return "Expiry date must be after the issue date";
+  }
+  return null;
+}
+
+/**
+ * Tick off the required documents against what is on file. Where several documents of a
+ * type exist, the one valid for longest counts.
+ */
+export function buildDocumentChecklist(
+  owners: Record<AgreementDocumentOwner, string>,
+  documents: VaultDocument[],
+  today: string
+): ChecklistItem[] {
+  return REQUIRED_AGREEMENT_DOCUMENTS.map(({ owner, document_type }) => {
+    const candidates = documents
+      .filter((document) => document.owner_type === owner && document.owner_id === owners[owner] && document.document_type === document_type)
+      .sort((a, b) => (b.expires_on ?? "9999-12-31").localeCompare(a.expires_on ?? "9999-12-31"));
+    const document = candidates[0] ?? null;
+
+    return {
+      owner,
+      owner_id: owners[owner],
+      document_type,
+      status: document ? getVaultDocumentStatus(document, today) : "missing",
+      document,
+    };
+  });
+}
+
+export async function fetchVaultDocuments(supabase: SupabaseClient, owner: VaultOwner, ownerId: string): Promise<VaultDocument[]> {
+  const { data, error } = await supabase
+    .from("vault_documents")
+    .select(VAULT_DOCUMENT_COLUMNS)
+    .eq("owner_type", owner)
+    .eq("owner_id", ownerId)
+    .order("document_type")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as VaultDocument[];
+}
+
+/**
+ * The required documents checklist for an agreement, its tenant and its landlord
+ */
+export async function fetchAgreementChecklist(
+  supabase: SupabaseClient,
+  agreement: { id: string; tenant_id: string; landlord_id: string },
+  today: string
+): Promise<ChecklistItem[]> {
+  const owners: Record<AgreementDocumentOwner, string> = {
+    tenant: agreement.tenant_id,
+    landlord: agreement.landlord_id,
+    agreement: agreement.id,
+  };
+
+  const { data, error } = await supabase
+    .from("vault_documents")
+    .select(VAULT_DOCUMENT_COLUMNS)
+    .in("owner_id", Object.values(owners))
+    .in("document_type", REQUIRED_AGREEMENT_DOCUMENTS.map((item) => item.document_type));
+
+  if (error) throw error;
+  return buildDocumentChecklist(owners, (data || []) as VaultDocument[], today);
+}
+
+export async function createVaultDocument(
+  supabase: SupabaseClient,
+  userId: string,
+  owner: VaultOwner,
+  ownerId: string,
+  input: VaultDocumentInput
+): Promise<VaultDocument> {
+  const inputError = getVaultDocumentError(owner, input);
+  if (inputError) throw new Error(inputError);
+
+  const { data, error } = await supabase
+    .from("vault_documents")
+    .insert({
+      user_id: userId,
+      owner_type: owner,
+      owner_id: ownerId,
+      document_type: input.document_type,
+      title: input.title.trim(),
+      reference: input.reference.trim() || null,
+      issued_on: input.issued_on || null,
+      expires_on: input.expires_on || null,
+      notes: input.notes.trim() || null,
+    })
+    .select(VAULT_DOCUMENT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data as VaultDocument;
+}
+
+/**
+ * Delete a document along with its scans
+ */
+export async function deleteVaultDocument(supabase: SupabaseClient, documentId: string): Promise<void> {
+  await deleteEntityAttachments(supabase, "vault_document", documentId);
+
+  const { error } = await supabase.from("vault_documents").delete().eq("id", documentId);
+
+  if (error) throw error;
+}
+
+/**
+ * Delete every document of a tenant, landlord, agreement or vendor, for when the owner itself is deleted
+ */
+export async function deleteOwnerVaultDocuments(supabase: SupabaseClient, owner: VaultOwner, ownerId: string): Promise<void> {
+  for (const document of await fetchVaultDocuments(supabase, owner, ownerId)) {
+    await deleteVaultDocument(supabase, document.id);
+  }
+}
@@ -0,0 +1,247 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { formatCurrency } from "@/lib/currency/currencies";
+
+export type VendorInvoiceStatus = "unpaid" | "partially_paid" | "paid";
+
+export const VENDOR_INVOICE_STATUS_LABELS: Record<VendorInvoiceStatus, string> = {
+  unpaid: "Unpaid",
+  partially_paid: "Partially Paid",
+  paid: "Paid",
+};
+
+export interface VendorPayment {
+  id: string;
+  vendor_invoice_id: string;
+  amount: number;
+  payment_date: string;
+  payment_method: string | null;
+  reference: string | null;
+  created_at: string;
+}
+
+export interface VendorInvoice {
+  id: string;
+  vendor_id: string;
+  maintenance_request_id: string;
+  invoice_number: string | null;
+  invoice_date: string;
+  amount: number;
+  paid_amount: number;
+  notes: string | null;
+  created_at: string;
+  payments: VendorPayment[];
+  // The job and vendor, for listings that span several of either
+  maintenance: { title: string } | null;
+  vendor: { name: string } | null;
+}
+
+export interface VendorInvoiceInput {
+  invoice_number: string;
+  invoice_date: string;
+  amount: number;
+  notes: string;
+}
+
+export interface VendorPaymentInput {
+  amount: number;
+  payment_date: string;
+  payment_method: string;
+  reference: string;
+}
+
+// The job an invoice is raised against; it must already be assigned to a vendor
+export interface InvoiceableRequest {
+  id: string;
+  user_id: string;
+  vendor_id: string | null;
+}
+
+const VENDOR_INVOICE_COLUMNS = `
+  id, vendor_id, maintenance_request_id, invoice_number, invoice_date, amount, paid_amount, notes, created_at,
+  vendor_payments (id, vendor_invoice_id, amount, payment_date, payment_method, reference, created_at),
+  maintenance_requests:maintenance_request_id (title),
+  vendors:vendor_id (name)
+`;
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+type InvoiceRow = Omit<VendorInvoice, "payments" | "maintenance" | "vendor"> & {
+  vendor_payments: VendorPayment[] | null;
+  maintenance_requests: { title: string } | { title: string }[] | null;
+  vendors: { name: string } | { name: string }[] | null;
+};
+
+const toVendorInvoice = ({ vendor_payments, maintenance_requests, vendors, ...invoice }: InvoiceRow): VendorInvoice => ({
+  ...invoice,
+  amount: Number(invoice.amount),
+  paid_amount: Number(invoice.paid_amount),
+  payments: (vendor_payments || [])
+    .map((payment) => ({ ...payment, amount: Number(payment.amount) }))
+    .sort((a, b) => a.payment_date.localeCompare(b.payment_date)),
+  maintenance: (Array.isArray(maintenance_requests) ? maintenance_requests[0] : maintenance_requests) ?? null,
+  vendor: (Array.isArray(vendors) ? vendors[0] : vendors) ?? null,
+});
+
+export function getVendorInvoiceStatus(invoice: Pick<VendorInvoice, "amount" | "paid_amount">): VendorInvoiceStatus {
+  if (roundMoney(invoice.paid_amount) >= roundMoney(invoice.amount)) return "paid";
+  if (invoice.paid_amount > 0) return "partially_paid";
+  return "unpaid";
+}
+
+/**
+ * Return why an invoice cannot be recorded against a job, or null when it can
+ */
+export function getVendorInvoiceError(request: Pick<InvoiceableRequest, "vendor_id">, input: VendorInvoiceInput): string | null {
+  if (!request.vendor_id) {
+    return "Assign the request to a vendor before recording their invoice";
+  }
+  if (!input.invoice_date) {
+    return "Invoice date is required";
+  }
+  if (!Number.isFinite(input.amount) || input.amount <= 0) {
+    return "Amount must be greater than zero";
+  }
+  return null;
+}
+
+/**
+ * Return why a payment cannot be recorded against a vendor invoice, or null when it can
+ */
+export function getVendorPaymentError(
+  invoice: Pick<VendorInvoice, "amount" | "paid_amount">,
+  payment: VendorPaymentInput,
+  currency: string
+): string | null {
+  if (!payment.payment_date) {
+    return "Payment date is required";
+  }
+  if (!Number.isFinite(payment.amount) || payment.amount <= 0) {
+    return "Amount must be greater than zero";
+  }
+  const balance = roundMoney(invoice.amount - invoice.paid_amount);
+  if (roundMoney(payment.amount) > balance) {
+    return balance > 0 ? `Only ${formatCurrency(balance, currency)} is still owed on this invoice` : "This invoice is already paid in full";
+  }
+  return null;
+}
+
+export async function fetchRequestVendorInvoices(supabase: SupabaseClient, requestId: string): Promise<VendorInvoice[]> {
+  const { data, error } = await supabase
+    .from("vendor_invoices")
+    .select(VENDOR_INVOICE_COLUMNS)
+    .eq("maintenance_request_id", requestId)
+    .order("invoice_date", { ascending: true });
+
+  if (error) throw error;
+  return ((data || []) as InvoiceRow[]).map(toVendorInvoice);
+}
+
+export async function fetchVendorInvoices(supabase: SupabaseClient, vendorId: string): Promise<VendorInvoice[]> {
+  const { data, error } = await supabase
+    .from("vendor_invoices")
+    .select(VENDOR_INVOICE_COLUMNS)
+    .eq("vendor_id", vendorId)
+    .order("invoice_date", { ascending: false });
+
+  if (error) throw error;
+  return ((data || []) as InvoiceRow[]).map(toVendorInvoice);
+}
+
+/**
+ * Set a job's cost to the total its vendor has invoiced
+ */
+async function syncMaintenanceCost(supabase: SupabaseClient, requestId: string): Promise<void> {
+  const { data, error } = await supabase.from("vendor_invoices").select("amount").eq("maintenance_request_id", requestId);
+
+  if (error) throw error;
+  const total = roundMoney((data || []).reduce((sum, invoice) => sum + Number(invoice.amount), 0));
+
+  const { error: updateError } = await supabase
+    .from("maintenance_requests")
+    .update({ cost: total > 0 ? total : null })
+    .eq("id", requestId);
+
+  if (updateError) throw updateError;
+}
+
+/**
+ * Record the assigned vendor's invoice for a job. The job's cost becomes the total invoiced.
+ */
+export async function recordVendorInvoice(
+  supabase: SupabaseClient,
+  request: InvoiceableRequest,
+  input: VendorInvoiceInput
+): Promise<void> {
+  const inputError = getVendorInvoiceError(request, input);
+  if (inputError) throw new Error(inputError);
+
+  const { error } = await supabase.from("vendor_invoices").insert({
+    user_id: request.user_id,
+    vendor_id: request.vendor_id,
+    maintenance_request_id: request.id,
+    invoice_number: input.invoice_number.trim() || null,
+    invoice_date: input.invoice_date,
+    amount: roundMoney(input.amount),
+    notes: input.notes.trim() || null,
+  });
+
+  if (error) throw error;
+  await syncMaintenanceCost(supabase, request.id);
+}
+
+/**
+ * Delete an invoice recorded in error, along with its payments
+ */
+export async function deleteVendorInvoice(
+  supabase: SupabaseClient,
+  invoice: Pick<VendorInvoice, "id" | "maintenance_request_id">
+): Promise<void> {
+  const { error } = await supabase.from("vendor_invoices").delete().eq("id", invoice.id);
+
+  if (error) throw error;
+  await syncMaintenanceCost(supabase, invoice.maintenance_request_id);
+}
+
+async function refreshVendorInvoiceBalance(supabase: SupabaseClient, invoiceId: string): Promise<void> {
+  const { data, error } = await supabase.from("vendor_payments").select("amount").eq("vendor_invoice_id", invoiceId);
+
+  if (error) throw error;
+  const paid = roundMoney((data || []).reduce((sum, payment) => sum + Number(payment.amount), 0));
+
+  const { error: updateError } = await supabase.from("vendor_invoices").update({ paid_amount: paid }).eq("id", invoiceId);
+
+  if (updateError) throw updateError;
+}
+
+/**
+ * Record a payment made to a vendor against one of their invoices
+ */
+export async function recordVendorPayment(
+  supabase: SupabaseClient,
+  userId: string,
+  invoice: Pick<VendorInvoice, "id" | "amount" | "paid_amount">,
+  payment: VendorPaymentInput,
+  currency: string
+): Promise<void> {
+  const paymentError = getVendorPaymentError(invoice, payment, currency);
+  if (paymentError) throw new Error(paymentError);
+
+  const { error } = await supabase.from("vendor_payments").insert({
+    user_id: userId,
+    vendor_invoice_id: invoice.id,
+    amount: roundMoney(payment.amount),
+    payment_date: payment.payment_date,
+    payment_method: payment.payment_method || null,
+    reference: payment.reference.trim() || null,
+  });
+
+  if (error) throw error;
+  await refreshVendorInvoiceBalance(supabase, invoice.id);
+}
+
+export async function deleteVendorPayment(supabase: SupabaseClient, payment: Pick<VendorPayment, "id" | "vendor_invoice_id">): Promise<void> {
+  const { error } = await supabase.from("vendor_payments").delete().eq("id", payment.id);
+
+  if (error) throw error;
+  await refreshVendorInvoiceBalance(supabase, payment.vendor_invoice_id);
+}
@@ -0,0 +1,223 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { deleteOwnerVaultDocuments } from "@/lib/vault/documents";
+
+export const VENDOR_TRADES = [
+  "plumbing",
+  "electrical",
+  "carpentry",
+  "painting",
+  "cleaning",
+  "pest_control",
+  "appliance_repair",
+  "hvac",
+  "masonry",
+  "general",
+] as const;
+
+export type VendorTrade = (typeof VENDOR_TRADES)[number];
+
+export const VENDOR_TRADE_LABELS: Record<VendorTrade, string> = {
+  plumbing: "Plumbing",
+  electrical: "Electrical",
+  carpentry: "Carpentry",
+  painting: "Painting",
+  cleaning: "Cleaning",
+  pest_control: "Pest Control",
+  appliance_repair: "Appliance Repair",
+  hvac: "AC & Heating",
+  masonry: "Masonry",
+  general: "General Handyman",
+};
+
+export const VENDOR_RATINGS = [1, 2, 3, 4, 5] as const;
+
+export interface Vendor {
+  id: string;
+  name: string;
+  trade: VendorTrade;
+  contact_person: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  city: string | null;
+  gstin: string | null;
+  pan_number: string | null;
+  hourly_rate: number | null;
+  call_out_fee: number | null;
+  is_active: boolean;
+  notes: string | null;
+  created_at: string;
+}
+
+// A maintenance request as it counts towards a vendor's record
+export interface VendorJob {
+  vendor_id: string;
+  status: string;
+  request_date: string;
+  completed_date: string | null;
+  vendor_rating: number | null;
+}
+
+export interface VendorPerformance {
+  jobs: number;
+  openJobs: number;
+  completedJobs: number;
+  // Days from request to completion, over completed jobs; null until one is completed
+  averageTurnaroundDays: number | null;
+  averageRating: number | null;
+  ratedJobs: number;
+  billed: number;
+  paid: number;
+  outstanding: number;
+}
+
+const VENDOR_COLUMNS =
+  "id, name, trade, contact_person, email, phone, address, city, gstin, pan_number, hourly_rate, call_out_fee, is_active, notes, created_at";
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// Rates come back from numeric columns as strings
+const toVendor = (row: Record<string, unknown>): Vendor =>
+  ({
+    ...row,
+    hourly_rate: row.hourly_rate === null ? null : Number(row.hourly_rate),
+    call_out_fee: row.call_out_fee === null ? null : Number(row.call_out_fee),
+  }) as Vendor;
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : null;
+
+export function getVendorTradeLabel(trade: string): string {
+  return VENDOR_TRADE_LABELS[trade as VendorTrade] ?? trade;
+}
+
+/**
+ * Calendar days a completed job took from request to completion
+ */
+export function getTurnaroundDays(job: Pick<VendorJob, "request_date" | "completed_date">): number | null {
+  if (!job.completed_date) return null;
+  return Math.max(0, differenceInCalendarDays(parseISO(job.completed_date), parseISO(job.request_date)));
+}
+
+/**
+ * Roll a vendor's jobs and invoices up into their spend, turnaround and rating
+ */
+export function summarizeVendorPerformance(
+  jobs: Pick<VendorJob, "status" | "request_date" | "completed_date" | "vendor_rating">[],
+  invoices: { amount: number; paid_amount: number }[]
+): VendorPerformance {
+  const completed = jobs.filter((job) => job.status === "completed");
+  const turnarounds = completed.map(getTurnaroundDays).filter((days): days is number => days !== null);
+  const ratings = jobs.map((job) => job.vendor_rating).filter((rating): rating is number => rating !== null);
+  const billed = roundMoney(invoices.reduce((sum, invoice) => sum + invoice.amount, 0));
+  const paid = roundMoney(invoices.reduce((sum, invoice) => sum + invoice.paid_amount, 0));
+
+  return {
+    jobs: jobs.length,
+    openJobs: jobs.filter((job) => job.status !== "completed" && job.status !== "rejected").length,
+    completedJobs: completed.length,
+    averageTurnaroundDays: average(turnarounds),
+    averageRating: average(ratings),
+    ratedJobs: ratings.length,
+    billed,
+    paid,
+    outstanding: roundMoney(billed - paid),
+  };
+}
+
+/**
+ * Performance of each vendor, keyed by vendor id. Vendors without jobs are left out.
+ */
+export async function fetchVendorPerformance(
+  supabase: SupabaseClient,
+  vendorIds?: string[]
+): Promise<Record<string, VendorPerformance>> {
+  let jobsQuery = supabase
+    .from("maintenance_requests")
+    .select("vendor_id, status, request_date, completed_date, vendor_rating")
+    .not("vendor_id", "is", null);
+  let invoicesQuery = supabase.from("vendor_invoices").select("vendor_id, amount, paid_amount");
+  if (vendorIds) {
+    jobsQuery = jobsQuery.in("vendor_id", vendorIds);
+    invoicesQuery = invoicesQuery.in("vendor_id", vendorIds);
+  }
+
+  const [{ data: jobs, error: jobsError }, { data: invoices, error: invoicesError }] = await Promise.all([
+    jobsQuery,
+    invoicesQuery,
+  ]);
+
+  if (jobsError) throw jobsError;
+  if (invoicesError) throw invoicesError;
+
+  const ids = new Set((jobs || []).map((job) => job.vendor_id as string));
+  const performance: Record<string, VendorPerformance> = {};
+  for (const id of ids) {
+    performance[id] = summarizeVendorPerformance(
+      (jobs || []).filter((job) => job.vendor_id === id),
+      (invoices || [])
+        .filter((invoice) => invoice.vendor_id === id)
+        .map((invoice) => ({ amount: Number(invoice.amount), paid_amount: Number(invoice.paid_amount) }))
+    );
+  }
+  return performance;
+}
+
+export async function fetchVendors(supabase: SupabaseClient, options: { activeOnly?: boolean } = {}): Promise<Vendor[]> {
+  let query = supabase.from("vendors").select(VENDOR_COLUMNS).order("name");
+  if (options.activeOnly) query = query.eq("is_active", true);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return (data || []).map(toVendor);
+}
+
+export async function fetchVendor(supabase: SupabaseClient, vendorId: string): Promise<Vendor> {
+  const { data, error } = await supabase.from("vendors").select(VENDOR_COLUMNS).eq("id", vendorId).single();
+
+  if (error) throw error;
+  return toVendor(data);
+}
+
+/**
+ * Record how the vendor did on a job
+ */
+export async function rateVendorJob(supabase: SupabaseClient, requestId: string, rating: number | null): Promise<void> {
+  if (rating !== null && !(VENDOR_RATINGS as readonly number[]).includes(rating)) {
+    throw new Error("Rating must be between 1 and 5");
+  }
+
+  const { error } = await supabase.from("maintenance_requests").update({ vendor_rating: rating }).eq("id", requestId);
+
+  if (error) throw error;
+}
+
+/**
+ * Delete a vendor along with their documents. Vendors with jobs or invoices on record are kept
+ * so that their billing history survives; mark them inactive instead.
+ */
+export async function deleteVendor(supabase: SupabaseClient, vendorId: string): Promise<void> {
+  const [jobs, invoices] = await Promise.all([
+    supabase.from("maintenance_requests").select("id", { count: "exact", head: true }).eq("vendor_id", vendorId),
+    supabase.from("vendor_invoices").select("id", { count: "exact", head: true }).eq("vendor_id", vendorId),
+  ]);
+
+  if (jobs.error) throw jobs.error;
+  if (invoices.error) throw invoices.error;
+  if (jobs.count) {
+    throw new Error(`This vendor has ${jobs.count} job${jobs.count !== 1 ? "s" : ""} on record. Mark them inactive instead.`);
+  }
+  if (invoices.count) {
+    throw new Error(
+      `This vendor has ${invoices.count} invoice${invoices.count !== 1 ? "s" : ""} on record. Mark them inactive instead.`
+    );
+  }
+
+  await deleteOwnerVaultDocuments(supabase, "vendor", vendorId);
+
+  const { error } = await supabase.from("vendors").delete().eq("id", vendorId);
+
+  if (error) throw error;
+}
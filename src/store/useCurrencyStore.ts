@@ -0,0 +1,22 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { DEFAULT_CURRENCY } from "@/lib/currency/currencies";
+
+type CurrencyState = {
+  // The organization's base currency, for agreements, rent and other property amounts
+  baseCurrency: string;
+  setBaseCurrency: (baseCurrency: string) => void;
+};
+
+export const useCurrencyStore = create<CurrencyState>()(
+  persist(
+    (set) => ({
+      baseCurrency: DEFAULT_CURRENCY,
+      setBaseCurrency: (baseCurrency) => set({ baseCurrency }),
+    }),
+    {
+      name: "currency-store",
+      partialize: (state) => ({ baseCurrency: state.baseCurrency }),
+    }
+  )
+);
@@ -0,0 +1,5 @@
+-- Per-agreement rent escalation rule.
+-- Existing agreements keep the previous behaviour: 10% per year, compounding.
+alter table public.rent_agreements
+  add column if not exists escalation_rule jsonb not null
+    default '{"type": "fixed_percentage", "value": 10, "compounding": true}'::jsonb;
@@ -0,0 +1,53 @@
+-- Agreement lifecycle: draft -> pending_signature -> active -> notice_given -> terminated/expired/renewed
+alter table public.rent_agreements
+  add column if not exists notice_date date,
+  add column if not exists termination_date date;
+
+alter table public.rent_agreements drop constraint if exists rent_agreements_status_check;
+alter table public.rent_agreements
+  add constraint rent_agreements_status_check
+  check (status in ('draft', 'pending_signature', 'active', 'notice_given', 'terminated', 'expired', 'renewed'));
+
+create table if not exists public.agreement_status_history (
+  id uuid primary key default gen_random_uuid(),
+  agreement_id uuid not null references public.rent_agreements (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  reason text,
+  -- null when the change was made by a scheduled job
+  changed_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists agreement_status_history_agreement_id_idx
+  on public.agreement_status_history (agreement_id, created_at);
+
+alter table public.agreement_status_history enable row level security;
+
+create policy "Users manage their agreement status history"
+  on public.agreement_status_history
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Rent can only be collected while the tenant is in occupation
+create or replace function public.ensure_agreement_accepts_payments()
+returns trigger
+language plpgsql
+as $$
+declare
+  agreement_status text;
+begin
+  select status into agreement_status from public.rent_agreements where id = new.agreement_id;
+  if agreement_status not in ('active', 'notice_given') then
+    raise exception 'Payments cannot be recorded against a % agreement', agreement_status;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists rent_payments_agreement_status on public.rent_payments;
+create trigger rent_payments_agreement_status
+  before insert on public.rent_payments
+  for each row execute function public.ensure_agreement_accepts_payments();
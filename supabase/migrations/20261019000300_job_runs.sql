@@ -0,0 +1,16 @@
+-- Run log for scheduled jobs (written with the service role key only)
+create table if not exists public.job_runs (
+  id uuid primary key default gen_random_uuid(),
+  job_name text not null,
+  dry_run boolean not null default false,
+  status text not null default 'running' check (status in ('running', 'succeeded', 'failed')),
+  summary jsonb,
+  error text,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index if not exists job_runs_job_name_started_at_idx
+  on public.job_runs (job_name, started_at desc);
+
+alter table public.job_runs enable row level security;
@@ -0,0 +1,7 @@
+-- Link a renewed agreement to the lease it replaces
+alter table public.rent_agreements
+  add column if not exists renewed_from uuid references public.rent_agreements (id) on delete set null;
+
+create unique index if not exists rent_agreements_renewed_from_key
+  on public.rent_agreements (renewed_from)
+  where renewed_from is not null;
@@ -0,0 +1,44 @@
+-- Amendments and immutable agreement versions.
+-- current_version stays null for agreements created before versioning; version 1 is
+-- stored from their current terms the first time they are amended.
+alter table public.rent_agreements
+  add column if not exists current_version integer;
+
+create table if not exists public.agreement_amendments (
+  id uuid primary key default gen_random_uuid(),
+  agreement_id uuid not null references public.rent_agreements (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  version_number integer not null,
+  effective_date date not null,
+  reason text not null,
+  -- [{ "field": "monthly_rent", "from": 10000, "to": 12000 }, ...]
+  changes jsonb not null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (agreement_id, version_number)
+);
+
+create table if not exists public.agreement_versions (
+  id uuid primary key default gen_random_uuid(),
+  agreement_id uuid not null references public.rent_agreements (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  version_number integer not null,
+  snapshot jsonb not null,
+  amendment_id uuid references public.agreement_amendments (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (agreement_id, version_number)
+);
+
+alter table public.agreement_amendments enable row level security;
+alter table public.agreement_versions enable row level security;
+
+-- Versions and amendments are append-only: no update or delete policies
+create policy "Users read their agreement amendments"
+  on public.agreement_amendments for select using (auth.uid() = user_id);
+create policy "Users add amendments to their agreements"
+  on public.agreement_amendments for insert with check (auth.uid() = user_id);
+
+create policy "Users read their agreement versions"
+  on public.agreement_versions for select using (auth.uid() = user_id);
+create policy "Users add versions to their agreements"
+  on public.agreement_versions for insert with check (auth.uid() = user_id);
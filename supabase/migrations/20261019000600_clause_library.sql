@@ -0,0 +1,38 @@
+-- Reusable clause library and agreement templates
+create table if not exists public.clauses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  category text not null default 'general'
+    check (category in ('general', 'payment', 'maintenance', 'utilities', 'pets', 'subletting', 'lock_in', 'termination')),
+  -- May contain placeholders such as {{tenant.name}} or {{monthly_rent}}
+  body text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.agreement_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  description text,
+  -- Clause ids in the order they appear in the agreement
+  clause_ids uuid[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.clauses enable row level security;
+alter table public.agreement_templates enable row level security;
+
+create policy "Users manage their clauses"
+  on public.clauses for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users manage their agreement templates"
+  on public.agreement_templates for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Clauses merged into an agreement at creation: [{ "clause_id": "...", "title": "...", "body": "..." }]
+alter table public.rent_agreements
+  add column if not exists clauses jsonb not null default '[]'::jsonb;
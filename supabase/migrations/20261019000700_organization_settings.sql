@@ -0,0 +1,20 @@
+-- Organization details used to brand generated documents (agreements, invoices, receipts)
+create table if not exists public.organization_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  name text not null,
+  address text,
+  email text,
+  phone text,
+  website text,
+  -- Hex colour such as #1d4ed8 used for document headers
+  accent_color text not null default '#111827' check (accent_color ~ '^#[0-9a-fA-F]{6}$'),
+  footer_text text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.organization_settings enable row level security;
+
+create policy "Users manage their organization settings"
+  on public.organization_settings for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
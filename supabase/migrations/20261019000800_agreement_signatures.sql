@@ -0,0 +1,43 @@
+-- Electronic signatures. Each party signs a specific agreement version through a
+-- private link; signing is handled server-side with the service role.
+alter table public.rent_agreements
+  add column if not exists signed_version integer;
+
+create table if not exists public.agreement_signatures (
+  id uuid primary key default gen_random_uuid(),
+  agreement_id uuid not null references public.rent_agreements (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  version_number integer not null,
+  party text not null check (party in ('landlord', 'tenant')),
+  signer_name text not null,
+  signer_email text,
+  token text not null unique,
+  status text not null default 'pending' check (status in ('pending', 'signed', 'revoked')),
+  signature_type text check (signature_type in ('drawn', 'typed')),
+  -- PNG data URL for drawn signatures, the typed name otherwise
+  signature_data text,
+  -- SHA-256 of the version snapshot the signer saw
+  document_hash text,
+  signed_at timestamptz,
+  ip_address text,
+  user_agent text,
+  expires_at timestamptz not null default now() + interval '14 days',
+  created_at timestamptz not null default now()
+);
+
+-- One live request per party and version
+create unique index if not exists agreement_signatures_live_party
+  on public.agreement_signatures (agreement_id, version_number, party)
+  where status <> 'revoked';
+
+alter table public.agreement_signatures enable row level security;
+
+create policy "Users read their agreement signatures"
+  on public.agreement_signatures for select using (auth.uid() = user_id);
+create policy "Users request signatures on their agreements"
+  on public.agreement_signatures for insert with check (auth.uid() = user_id and status = 'pending');
+-- Owners may only revoke; signatures are recorded by the signing endpoint
+create policy "Users revoke their signature requests"
+  on public.agreement_signatures for update
+  using (auth.uid() = user_id and status = 'pending')
+  with check (status = 'revoked');
@@ -0,0 +1,32 @@
+-- Security deposit ledger. deposit_amount on the agreement is what the tenant owes;
+-- the ledger records what was actually received, deducted and refunded.
+create table if not exists public.deposit_transactions (
+  id uuid primary key default gen_random_uuid(),
+  agreement_id uuid not null references public.rent_agreements (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  entry_type text not null check (entry_type in ('receipt', 'deduction', 'adjustment', 'refund')),
+  -- Positive for receipts, deductions and refunds; adjustments carry their own sign
+  amount numeric(12, 2) not null check (amount > 0 or (entry_type = 'adjustment' and amount <> 0)),
+  entry_date date not null,
+  description text not null,
+  maintenance_request_id uuid references public.maintenance_requests (id) on delete set null,
+  reference text,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists deposit_transactions_agreement_id
+  on public.deposit_transactions (agreement_id, entry_date);
+
+-- Set when the move-out settlement is finalised; the ledger is closed from then on
+alter table public.rent_agreements
+  add column if not exists deposit_settled_at timestamptz,
+  add column if not exists deposit_refund_amount numeric(12, 2);
+
+alter table public.deposit_transactions enable row level security;
+
+-- The ledger is append-only: corrections are made with adjustment entries
+create policy "Users read their deposit transactions"
+  on public.deposit_transactions for select using (auth.uid() = user_id);
+create policy "Users add deposit transactions"
+  on public.deposit_transactions for insert with check (auth.uid() = user_id);
@@ -0,0 +1,28 @@
+-- Expected rent per agreement: one due line per monthly period, generated from the
+-- agreement's dates, rent and escalation rule. Payments are allocated to these lines
+-- oldest first when balances are calculated, so no allocation is stored.
+create table if not exists public.rent_schedule (
+  id uuid primary key default gen_random_uuid(),
+  agreement_id uuid not null references public.rent_agreements (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  period_start date not null,
+  period_end date not null,
+  due_date date not null,
+  amount numeric(12, 2) not null check (amount >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (agreement_id, period_start)
+);
+
+create index if not exists rent_schedule_due_date on public.rent_schedule (user_id, due_date);
+
+alter table public.rent_schedule enable row level security;
+
+create policy "Users read their rent schedule"
+  on public.rent_schedule for select using (auth.uid() = user_id);
+create policy "Users add to their rent schedule"
+  on public.rent_schedule for insert with check (auth.uid() = user_id);
+create policy "Users update their rent schedule"
+  on public.rent_schedule for update using (auth.uid() = user_id);
+create policy "Users delete from their rent schedule"
+  on public.rent_schedule for delete using (auth.uid() = user_id);
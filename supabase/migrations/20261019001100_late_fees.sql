@@ -0,0 +1,35 @@
+-- Late fee policy per agreement and the fees posted by the daily job.
+-- { "enabled": true, "grace_days": 5, "fee_type": "flat", "fee_value": 500, "daily_accrual": 50, "max_fee": 2000 }
+alter table public.rent_agreements
+  add column if not exists late_fee_policy jsonb;
+
+-- One fee per overdue rent line; the daily job raises the amount as it accrues
+create table if not exists public.late_fees (
+  id uuid primary key default gen_random_uuid(),
+  agreement_id uuid not null references public.rent_agreements (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  schedule_id uuid not null unique references public.rent_schedule (id) on delete cascade,
+  amount numeric(12, 2) not null check (amount > 0),
+  days_late integer not null,
+  -- First posted; the fee is due from this day
+  charged_on date not null,
+  status text not null default 'charged' check (status in ('charged', 'waived')),
+  waive_reason text,
+  waived_by uuid references auth.users (id) on delete set null,
+  waived_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (status = 'charged' or waive_reason is not null)
+);
+
+create index if not exists late_fees_agreement_id on public.late_fees (agreement_id);
+
+alter table public.late_fees enable row level security;
+
+create policy "Users read their late fees"
+  on public.late_fees for select using (auth.uid() = user_id);
+-- Fees are posted by the daily job; owners can only waive them
+create policy "Users waive their late fees"
+  on public.late_fees for update
+  using (auth.uid() = user_id and status = 'charged')
+  with check (status = 'waived');
@@ -0,0 +1,56 @@
+-- Numbering rules per document type, e.g. INV/{FY}/{SEQ} with 4-digit padding.
+-- Rows are optional: types without one use the defaults in src/lib/documents/numbering.ts.
+create table if not exists public.document_numbering (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  document_type text not null,
+  format text not null check (format like '%{SEQ}%'),
+  padding integer not null default 4 check (padding between 1 and 10),
+  -- First month of the fiscal year used by the {FY} token (4 = April)
+  fiscal_year_start integer not null default 4 check (fiscal_year_start between 1 and 12),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, document_type)
+);
+
+alter table public.document_numbering enable row level security;
+
+create policy "Users manage their document numbering"
+  on public.document_numbering for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Last number handed out per series. A series is the format with its date tokens
+-- filled in (INV/2026-27/{SEQ}), so counters restart with each fiscal year.
+create table if not exists public.document_sequences (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  document_type text not null,
+  series text not null,
+  last_value integer not null default 0 check (last_value >= 0),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, document_type, series)
+);
+
+alter table public.document_sequences enable row level security;
+
+create policy "Users read their document sequences"
+  on public.document_sequences for select using (auth.uid() = user_id);
+create policy "Users add document sequences"
+  on public.document_sequences for insert with check (auth.uid() = user_id);
+create policy "Users advance their document sequences"
+  on public.document_sequences for update using (auth.uid() = user_id);
+
+-- Hand out the next number in a series. The upsert takes a row lock, so concurrent
+-- callers always get distinct, consecutive values. Runs with the caller's rights:
+-- RLS limits users to their own sequences, the service role may allocate for anyone.
+create or replace function public.allocate_document_number(
+  p_user_id uuid,
+  p_document_type text,
+  p_series text
+) returns integer
+language sql
+security invoker
+as $$
+  insert into public.document_sequences as s (user_id, document_type, series, last_value)
+  values (p_user_id, p_document_type, p_series, 1)
+  on conflict (user_id, document_type, series)
+  do update set last_value = s.last_value + 1, updated_at = now()
+  returning last_value;
+$$;
@@ -0,0 +1,64 @@
+-- Recurring invoice profiles: an invoice template (client, items, tax, discount)
+-- plus a schedule. The daily job turns each due profile into a regular invoice.
+create table if not exists public.recurring_invoices (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  client_id uuid references public.clients (id) on delete set null,
+  name text not null,
+  frequency text not null check (frequency in ('monthly', 'quarterly', 'half_yearly', 'yearly')),
+  start_date date not null,
+  end_date date,
+  -- Day of the month invoices are issued on; later than the month's last day means the last day
+  day_of_month integer not null check (day_of_month between 1 and 31),
+  -- Each invoice falls due this many days after it is issued
+  due_days integer not null default 30 check (due_days >= 0),
+  -- Status given to generated invoices
+  invoice_status text not null default 'draft' check (invoice_status in ('draft', 'sent')),
+  currency text not null default 'USD',
+  tax_rate numeric(5, 2) not null default 0,
+  discount numeric(12, 2) not null default 0,
+  discount_type text not null default 'amount' check (discount_type in ('amount', 'percentage')),
+  notes text,
+  terms text,
+  active boolean not null default true,
+  -- Null once the schedule has run past its end date
+  next_issue_date date,
+  last_issued_on date,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_date is null or end_date >= start_date)
+);
+
+create index if not exists recurring_invoices_next_issue_date
+  on public.recurring_invoices (next_issue_date)
+  where active;
+
+create table if not exists public.recurring_invoice_items (
+  id uuid primary key default gen_random_uuid(),
+  recurring_invoice_id uuid not null references public.recurring_invoices (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  description text not null,
+  quantity numeric(12, 2) not null check (quantity > 0),
+  unit_price numeric(12, 2) not null check (unit_price >= 0),
+  tax_rate numeric(5, 2) not null default 0,
+  sort_order integer not null default 0
+);
+
+alter table public.invoices
+  add column if not exists recurring_invoice_id uuid references public.recurring_invoices (id) on delete set null;
+
+-- One invoice per profile and issue date, so a rerun of the job cannot bill twice
+create unique index if not exists invoices_recurring_issue_date
+  on public.invoices (recurring_invoice_id, issue_date)
+  where recurring_invoice_id is not null;
+
+alter table public.recurring_invoices enable row level security;
+alter table public.recurring_invoice_items enable row level security;
+
+create policy "Users manage their recurring invoices"
+  on public.recurring_invoices for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users manage their recurring invoice items"
+  on public.recurring_invoice_items for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,45 @@
+-- Payments received against invoices. invoices.paid_amount is the sum of these rows
+-- and is kept up to date by src/lib/invoices/payments.ts together with the status.
+create table if not exists public.invoice_payments (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references public.invoices (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  amount numeric(12, 2) not null check (amount > 0),
+  payment_date date not null,
+  payment_method text,
+  reference text,
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists invoice_payments_invoice_id on public.invoice_payments (invoice_id, payment_date);
+
+alter table public.invoice_payments enable row level security;
+
+create policy "Users manage their invoice payments"
+  on public.invoice_payments for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter table public.invoices
+  add column if not exists balance_due numeric(12, 2)
+  generated always as (total - coalesce(paid_amount, 0)) stored;
+
+alter table public.invoices drop constraint if exists invoices_status_check;
+alter table public.invoices
+  add constraint invoices_status_check
+  check (status in ('draft', 'sent', 'partially_paid', 'paid', 'overdue', 'cancelled'));
+
+-- Carry over amounts recorded before payments were itemised, so recalculating
+-- paid_amount from invoice_payments does not reopen settled invoices
+insert into public.invoice_payments (invoice_id, user_id, amount, payment_date, notes)
+select id, user_id,
+  case when status = 'paid' then greatest(total, coalesce(paid_amount, 0)) else paid_amount end,
+  issue_date,
+  'Recorded before payment history was kept'
+from public.invoices
+where (coalesce(paid_amount, 0) > 0 or (status = 'paid' and total > 0))
+  and not exists (select 1 from public.invoice_payments p where p.invoice_id = invoices.id);
+
+update public.invoices
+set paid_amount = greatest(total, coalesce(paid_amount, 0))
+where status = 'paid';
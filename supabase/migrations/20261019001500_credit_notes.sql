@@ -0,0 +1,61 @@
+-- Credit notes reverse all or part of an issued invoice, line by line. Issued
+-- invoices are never deleted; cancelling one issues a credit note for the rest.
+create table if not exists public.credit_notes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  invoice_id uuid not null references public.invoices (id) on delete restrict,
+  credit_note_number text not null,
+  issue_date date not null,
+  reason text not null,
+  subtotal numeric(12, 2) not null default 0,
+  tax_amount numeric(12, 2) not null default 0,
+  discount_amount numeric(12, 2) not null default 0,
+  total numeric(12, 2) not null check (total > 0),
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (user_id, credit_note_number)
+);
+
+create index if not exists credit_notes_invoice_id on public.credit_notes (invoice_id);
+
+create table if not exists public.credit_note_items (
+  id uuid primary key default gen_random_uuid(),
+  credit_note_id uuid not null references public.credit_notes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- The invoice line being credited
+  invoice_item_id uuid references public.invoice_items (id) on delete set null,
+  description text not null,
+  quantity numeric(12, 2) not null check (quantity > 0),
+  unit_price numeric(12, 2) not null check (unit_price >= 0),
+  tax_rate numeric(5, 2) not null default 0,
+  line_total numeric(12, 2) not null,
+  sort_order integer not null default 0
+);
+
+alter table public.credit_notes enable row level security;
+alter table public.credit_note_items enable row level security;
+
+-- Credit notes are tax documents: they can be issued and read, never changed or removed
+create policy "Users read their credit notes"
+  on public.credit_notes for select using (auth.uid() = user_id);
+create policy "Users issue credit notes"
+  on public.credit_notes for insert with check (auth.uid() = user_id);
+-- Only lets a credit note whose items failed to save be rolled back
+create policy "Users remove incomplete credit notes"
+  on public.credit_notes for delete using (
+    auth.uid() = user_id
+    and not exists (select 1 from public.credit_note_items i where i.credit_note_id = credit_notes.id)
+  );
+create policy "Users read their credit note items"
+  on public.credit_note_items for select using (auth.uid() = user_id);
+create policy "Users add credit note items"
+  on public.credit_note_items for insert with check (auth.uid() = user_id);
+
+alter table public.invoices
+  add column if not exists credited_amount numeric(12, 2) not null default 0;
+
+-- Credit notes reduce the balance as payments do
+alter table public.invoices drop column if exists balance_due;
+alter table public.invoices
+  add column balance_due numeric(12, 2)
+  generated always as (total - coalesce(paid_amount, 0) - credited_amount) stored;
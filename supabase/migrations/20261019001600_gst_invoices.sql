@@ -0,0 +1,35 @@
+-- GST tax invoices: seller and buyer GSTIN, place of supply, the CGST+SGST or IGST
+-- split and HSN/SAC codes on lines. Invoices with tax_mode 'standard' are unchanged.
+alter table public.organization_settings
+  add column if not exists gstin text;
+
+alter table public.clients
+  add column if not exists gstin text,
+  -- Two digit GST state code, for the place of supply of unregistered clients
+  add column if not exists gst_state_code text;
+
+alter table public.invoices
+  add column if not exists tax_mode text not null default 'standard' check (tax_mode in ('standard', 'gst')),
+  -- Copied onto the invoice when it is saved, so later profile changes leave it alone
+  add column if not exists seller_gstin text,
+  add column if not exists buyer_gstin text,
+  add column if not exists place_of_supply text,
+  add column if not exists cgst_amount numeric(12, 2) not null default 0,
+  add column if not exists sgst_amount numeric(12, 2) not null default 0,
+  add column if not exists igst_amount numeric(12, 2) not null default 0;
+
+alter table public.invoice_items
+  add column if not exists hsn_sac text,
+  -- Line total less its share of the invoice discount; GST is charged on this
+  add column if not exists taxable_value numeric(12, 2);
+
+alter table public.credit_notes
+  add column if not exists cgst_amount numeric(12, 2) not null default 0,
+  add column if not exists sgst_amount numeric(12, 2) not null default 0,
+  add column if not exists igst_amount numeric(12, 2) not null default 0;
+
+alter table public.credit_note_items
+  add column if not exists hsn_sac text,
+  add column if not exists taxable_value numeric(12, 2);
+
+create index if not exists invoices_gst_issue_date on public.invoices (user_id, issue_date) where tax_mode = 'gst';
@@ -0,0 +1,54 @@
+-- Exchange rates maintained by hand: one unit of base_currency buys `rate` units of
+-- quote_currency from effective_date on. Rows without a user_id are platform rates used
+-- for subscription billing; users add their own for invoicing in other currencies.
+create table if not exists public.exchange_rates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  base_currency text not null check (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency text not null check (quote_currency ~ '^[A-Z]{3}$'),
+  rate numeric(18, 8) not null check (rate > 0),
+  effective_date date not null,
+  created_at timestamptz not null default now(),
+  check (base_currency <> quote_currency),
+  unique nulls not distinct (user_id, base_currency, quote_currency, effective_date)
+);
+
+alter table public.exchange_rates enable row level security;
+
+create policy "Users read their own and platform exchange rates"
+  on public.exchange_rates for select
+  using (user_id is null or auth.uid() = user_id);
+
+create policy "Users manage their exchange rates"
+  on public.exchange_rates for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Subscription plans are priced in PKR and charged in USD
+insert into public.exchange_rates (user_id, base_currency, quote_currency, rate, effective_date)
+values (null, 'USD', 'PKR', 280, '2026-01-01')
+on conflict do nothing;
+
+alter table public.organization_settings
+  add column if not exists base_currency text not null default 'INR' check (base_currency ~ '^[A-Z]{3}$');
+
+-- Value of one unit of the document currency in the organization's base currency on the
+-- document date, so reports keep the rate that applied when the document was issued
+alter table public.invoices
+  add column if not exists base_currency text,
+  add column if not exists exchange_rate numeric(18, 8) check (exchange_rate > 0);
+
+alter table public.invoice_payments
+  add column if not exists base_currency text,
+  add column if not exists exchange_rate numeric(18, 8) check (exchange_rate > 0);
+
+update public.invoices i
+set base_currency = coalesce(s.base_currency, 'INR'),
+  exchange_rate = case when i.currency = coalesce(s.base_currency, 'INR') then 1 end
+from public.invoices src
+left join public.organization_settings s on s.user_id = src.user_id
+where src.id = i.id and i.base_currency is null;
+
+update public.invoice_payments p
+set base_currency = i.base_currency, exchange_rate = i.exchange_rate
+from public.invoices i
+where i.id = p.invoice_id and p.base_currency is null;
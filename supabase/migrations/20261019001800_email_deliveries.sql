@@ -0,0 +1,28 @@
+-- One row per attempt to email a generated document, written by src/lib/mail/documents.ts.
+-- Failed attempts are kept with the transport's error so they can be retried.
+create table if not exists public.email_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  document_type text not null check (document_type in ('invoice', 'receipt', 'agreement')),
+  document_id uuid not null,
+  recipients text[] not null,
+  cc text[] not null default '{}',
+  subject text not null,
+  status text not null check (status in ('sent', 'failed')),
+  error text,
+  transport text not null,
+  message_id text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists email_deliveries_document on public.email_deliveries (document_type, document_id, created_at desc);
+
+alter table public.email_deliveries enable row level security;
+
+create policy "Users view their email deliveries"
+  on public.email_deliveries for select
+  using (auth.uid() = user_id);
+
+create policy "Users record their email deliveries"
+  on public.email_deliveries for insert
+  with check (auth.uid() = user_id);
@@ -0,0 +1,52 @@
+-- Reminder sequences for rent and invoices. Offsets are days relative to the due date,
+-- negative before it; the daily job sends each step once while something is still owed.
+create table if not exists public.reminder_schedules (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  target text not null check (target in ('rent', 'invoice')),
+  enabled boolean not null default false,
+  offsets integer[] not null default '{-3,0,7,14}',
+  updated_at timestamptz not null default now(),
+  primary key (user_id, target)
+);
+
+alter table public.reminder_schedules enable row level security;
+
+create policy "Users manage their reminder schedules"
+  on public.reminder_schedules for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- One row per reminder step for a rent line or invoice, written by the daily job
+create table if not exists public.payment_reminders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  target text not null check (target in ('rent', 'invoice')),
+  -- rent_schedule line or invoice the reminder is about
+  target_id uuid not null,
+  agreement_id uuid references public.rent_agreements (id) on delete cascade,
+  invoice_id uuid references public.invoices (id) on delete cascade,
+  reference text not null,
+  due_date date not null,
+  offset_days integer not null,
+  amount numeric(12, 2) not null,
+  recipient text,
+  status text not null check (status in ('sent', 'failed', 'skipped')),
+  error text,
+  created_at timestamptz not null default now()
+);
+
+-- Failed steps are retried on the next run; anything else is final
+create unique index if not exists payment_reminders_step
+  on public.payment_reminders (target, target_id, offset_days)
+  where status <> 'failed';
+
+create index if not exists payment_reminders_agreement on public.payment_reminders (agreement_id, created_at desc);
+create index if not exists payment_reminders_invoice on public.payment_reminders (invoice_id, created_at desc);
+
+alter table public.payment_reminders enable row level security;
+
+create policy "Users view their payment reminders"
+  on public.payment_reminders for select
+  using (auth.uid() = user_id);
+
+alter table public.tenants
+  add column if not exists reminders_opt_out boolean not null default false;
@@ -0,0 +1,52 @@
+-- Files attached to records, kept in a private storage bucket and read through signed URLs.
+-- `supabase start` serves the same bucket from the local stack in development.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'attachments',
+  'attachments',
+  false,
+  10485760,
+  array['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf']
+)
+on conflict (id) do nothing;
+
+-- Objects live under <user_id>/<entity_type>/<entity_id>/
+create policy "Users read their attachment files"
+  on storage.objects for select
+  using (bucket_id = 'attachments' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users upload their attachment files"
+  on storage.objects for insert
+  with check (bucket_id = 'attachments' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users delete their attachment files"
+  on storage.objects for delete
+  using (bucket_id = 'attachments' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create table if not exists public.attachments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  entity_type text not null check (entity_type in ('maintenance_request')),
+  entity_id uuid not null,
+  path text not null unique,
+  -- Downscaled JPEG for lists; null for non-images and photos moved from the photos column
+  thumbnail_path text,
+  file_name text not null,
+  content_type text not null,
+  size_bytes integer not null,
+  width integer,
+  height integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists attachments_entity on public.attachments (entity_type, entity_id, created_at);
+
+alter table public.attachments enable row level security;
+
+create policy "Users manage their attachments"
+  on public.attachments for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Base64 data URLs written before storage was used. The daily job moves them into the
+-- bucket and clears the column; nothing writes to it any more.
+comment on column public.maintenance_requests.photos is 'Deprecated: inline data URLs awaiting the move to attachments';
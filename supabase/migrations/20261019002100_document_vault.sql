@@ -0,0 +1,33 @@
+-- Typed documents (ID proofs, signed leases, NOCs and so on) kept against tenants, landlords
+-- and agreements. The scans themselves are attachments of the vault document.
+create table if not exists public.vault_documents (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  owner_type text not null check (owner_type in ('tenant', 'landlord', 'agreement')),
+  owner_id uuid not null,
+  document_type text not null check (
+    document_type in (
+      'id_proof', 'address_proof', 'police_verification', 'bank_proof',
+      'signed_lease', 'noc', 'move_in_inspection', 'other'
+    )
+  ),
+  title text not null,
+  -- Number printed on the document, e.g. a passport or verification number
+  reference text,
+  issued_on date,
+  expires_on date,
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists vault_documents_owner on public.vault_documents (owner_type, owner_id, document_type);
+
+alter table public.vault_documents enable row level security;
+
+create policy "Users manage their vault documents"
+  on public.vault_documents for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter table public.attachments drop constraint if exists attachments_entity_type_check;
+alter table public.attachments
+  add constraint attachments_entity_type_check check (entity_type in ('maintenance_request', 'vault_document'));
@@ -0,0 +1,42 @@
+-- Maintenance workflow: pending -> acknowledged -> scheduled -> in_progress -> completed/rejected
+update public.maintenance_requests set status = 'rejected' where status = 'cancelled';
+
+alter table public.maintenance_requests drop constraint if exists maintenance_requests_status_check;
+alter table public.maintenance_requests
+  add constraint maintenance_requests_status_check
+  check (status in ('pending', 'acknowledged', 'scheduled', 'in_progress', 'completed', 'rejected'));
+
+alter table public.maintenance_requests
+  add column if not exists assignee_type text check (assignee_type in ('staff', 'vendor')),
+  add column if not exists assignee_name text,
+  add column if not exists assignee_phone text,
+  add column if not exists scheduled_for timestamptz,
+  add column if not exists acknowledged_at timestamptz,
+  add column if not exists rejection_reason text;
+
+-- Status changes, assignments, visits and comments, shown as the request's timeline
+create table if not exists public.maintenance_events (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid not null references public.maintenance_requests (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  event_type text not null check (event_type in ('status', 'assignment', 'comment', 'photo')),
+  from_status text,
+  to_status text,
+  body text,
+  -- null when the change was made by a scheduled job
+  changed_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists maintenance_events_request on public.maintenance_events (request_id, created_at);
+
+alter table public.maintenance_events enable row level security;
+
+create policy "Users manage their maintenance events"
+  on public.maintenance_events for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Free-form label within an entity's attachments, e.g. before and after photos of a repair
+alter table public.attachments add column if not exists tag text;
+
+update public.attachments set tag = 'before' where entity_type = 'maintenance_request' and tag is null;
@@ -0,0 +1,96 @@
+-- Vendors and contractors who carry out maintenance, with what they bill and what has been paid
+create table if not exists public.vendors (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  trade text not null check (
+    trade in (
+      'plumbing', 'electrical', 'carpentry', 'painting', 'cleaning',
+      'pest_control', 'appliance_repair', 'hvac', 'masonry', 'general'
+    )
+  ),
+  contact_person text,
+  email text,
+  phone text,
+  address text,
+  city text,
+  gstin text,
+  pan_number text,
+  -- Quoted rates; what a job actually costs comes from the vendor's invoices
+  hourly_rate numeric(12, 2) check (hourly_rate >= 0),
+  call_out_fee numeric(12, 2) check (call_out_fee >= 0),
+  is_active boolean not null default true,
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists vendors_user_trade on public.vendors (user_id, trade);
+
+alter table public.vendors enable row level security;
+
+create policy "Users manage their vendors"
+  on public.vendors for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter table public.maintenance_requests
+  add column if not exists vendor_id uuid references public.vendors (id) on delete set null,
+  -- How the vendor did on this job, 1 to 5
+  add column if not exists vendor_rating smallint check (vendor_rating between 1 and 5);
+
+create index if not exists maintenance_requests_vendor on public.maintenance_requests (vendor_id);
+
+create table if not exists public.vendor_invoices (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  vendor_id uuid not null references public.vendors (id) on delete cascade,
+  maintenance_request_id uuid not null references public.maintenance_requests (id) on delete cascade,
+  invoice_number text,
+  invoice_date date not null,
+  amount numeric(12, 2) not null check (amount > 0),
+  -- Kept in step with vendor_payments
+  paid_amount numeric(12, 2) not null default 0,
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists vendor_invoices_vendor on public.vendor_invoices (vendor_id, invoice_date);
+create index if not exists vendor_invoices_request on public.vendor_invoices (maintenance_request_id);
+
+alter table public.vendor_invoices enable row level security;
+
+create policy "Users manage their vendor invoices"
+  on public.vendor_invoices for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create table if not exists public.vendor_payments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  vendor_invoice_id uuid not null references public.vendor_invoices (id) on delete cascade,
+  amount numeric(12, 2) not null check (amount > 0),
+  payment_date date not null,
+  payment_method text,
+  reference text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists vendor_payments_invoice on public.vendor_payments (vendor_invoice_id, payment_date);
+
+alter table public.vendor_payments enable row level security;
+
+create policy "Users manage their vendor payments"
+  on public.vendor_payments for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Vendors keep trade licences, insurance and KYC papers in the document vault
+alter table public.vault_documents drop constraint if exists vault_documents_owner_type_check;
+alter table public.vault_documents
+  add constraint vault_documents_owner_type_check check (owner_type in ('tenant', 'landlord', 'agreement', 'vendor'));
+
+alter table public.vault_documents drop constraint if exists vault_documents_document_type_check;
+alter table public.vault_documents
+  add constraint vault_documents_document_type_check check (
+    document_type in (
+      'id_proof', 'address_proof', 'police_verification', 'bank_proof',
+      'signed_lease', 'noc', 'move_in_inspection', 'trade_license', 'insurance', 'other'
+    )
+  );
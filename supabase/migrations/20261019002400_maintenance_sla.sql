@@ -0,0 +1,50 @@
+-- Response and resolution targets per priority, in hours from when a request is reported
+create table if not exists public.maintenance_sla_policies (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  priority text not null check (priority in ('low', 'medium', 'high', 'urgent')),
+  response_hours integer not null check (response_hours > 0),
+  resolution_hours integer not null check (resolution_hours > 0),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, priority),
+  check (resolution_hours >= response_hours)
+);
+
+alter table public.maintenance_sla_policies enable row level security;
+
+create policy "Users manage their maintenance SLA policies"
+  on public.maintenance_sla_policies for all
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- The SLA clock starts when a request is reported; older requests start at their request date
+alter table public.maintenance_requests add column if not exists reported_at timestamptz;
+update public.maintenance_requests set reported_at = request_date::timestamptz where reported_at is null;
+alter table public.maintenance_requests
+  alter column reported_at set default now(),
+  alter column reported_at set not null;
+
+alter table public.maintenance_requests
+  -- Due-by times fixed from the policy in force when the request was reported
+  add column if not exists response_due_at timestamptz,
+  add column if not exists resolution_due_at timestamptz,
+  -- First move out of pending, whether acknowledged or rejected
+  add column if not exists responded_at timestamptz,
+  add column if not exists completed_at timestamptz,
+  -- Stamped by the daily job when it escalates a missed target, so each is escalated once
+  add column if not exists response_breached_at timestamptz,
+  add column if not exists resolution_breached_at timestamptz;
+
+update public.maintenance_requests
+  set responded_at = coalesce(acknowledged_at, reported_at)
+  where responded_at is null and status <> 'pending';
+update public.maintenance_requests
+  set completed_at = completed_date::timestamptz
+  where completed_at is null and completed_date is not null;
+
+create index if not exists maintenance_requests_sla_open
+  on public.maintenance_requests (resolution_due_at)
+  where status in ('pending', 'acknowledged', 'scheduled', 'in_progress');
+
+alter table public.maintenance_events drop constraint if exists maintenance_events_event_type_check;
+alter table public.maintenance_events
+  add constraint maintenance_events_event_type_check
+  check (event_type in ('status', 'assignment', 'comment', 'photo', 'escalation'));
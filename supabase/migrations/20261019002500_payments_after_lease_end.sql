@@ -0,0 +1,16 @@
+-- Ended leases can still have arrears and late fees to settle, so only unsigned agreements
+-- refuse payments
+create or replace function public.ensure_agreement_accepts_payments()
+returns trigger
+language plpgsql
+as $$
+declare
+  agreement_status text;
+begin
+  select status into agreement_status from public.rent_agreements where id = new.agreement_id;
+  if agreement_status in ('draft', 'pending_signature') then
+    raise exception 'Payments cannot be recorded against a % agreement', agreement_status;
+  end if;
+  return new;
+end;
+$$;
@@ -0,0 +1,2 @@
+-- The daily job looks up the steps already sent for the lines and invoices still owed
+create index if not exists payment_reminders_target_id on public.payment_reminders (target_id);
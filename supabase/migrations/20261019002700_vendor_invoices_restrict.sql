@@ -0,0 +1,6 @@
+-- A vendor's invoices and payments outlive the vendor record: refuse to delete a vendor
+-- who has billed anything rather than taking the billing history with them
+alter table public.vendor_invoices drop constraint if exists vendor_invoices_vendor_id_fkey;
+alter table public.vendor_invoices
+  add constraint vendor_invoices_vendor_id_fkey
+  foreign key (vendor_id) references public.vendors (id) on delete restrict;